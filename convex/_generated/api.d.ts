@@ -13,17 +13,31 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as admin from "../admin.js";
+import type * as agent_activity from "../agent/activity.js";
+import type * as agent_consolidation from "../agent/consolidation.js";
 import type * as agent_conversation from "../agent/conversation.js";
+import type * as agent_embeddings from "../agent/embeddings.js";
 import type * as agent_embeddingsCache from "../agent/embeddingsCache.js";
+import type * as agent_goals from "../agent/goals.js";
+import type * as agent_llmBudget from "../agent/llmBudget.js";
+import type * as agent_llmCalls from "../agent/llmCalls.js";
 import type * as agent_memory from "../agent/memory.js";
+import type * as agent_reflection from "../agent/reflection.js";
+import type * as agent_relationships from "../agent/relationships.js";
+import type * as agent_schedule from "../agent/schedule.js";
+import type * as agent_tools from "../agent/tools.js";
 import type * as aiTown_agent from "../aiTown/agent.js";
+import type * as aiTown_agentActions from "../aiTown/agentActions.js";
 import type * as aiTown_agentDescription from "../aiTown/agentDescription.js";
 import type * as aiTown_agentInputs from "../aiTown/agentInputs.js";
 import type * as aiTown_agentOperations from "../aiTown/agentOperations.js";
 import type * as aiTown_characterSprite from "../aiTown/characterSprite.js";
+import type * as aiTown_clientInputs from "../aiTown/clientInputs.js";
 import type * as aiTown_conversation from "../aiTown/conversation.js";
 import type * as aiTown_conversationMembership from "../aiTown/conversationMembership.js";
 import type * as aiTown_game from "../aiTown/game.js";
+import type * as aiTown_gameClock from "../aiTown/gameClock.js";
 import type * as aiTown_ids from "../aiTown/ids.js";
 import type * as aiTown_inputHandler from "../aiTown/inputHandler.js";
 import type * as aiTown_inputs from "../aiTown/inputs.js";
@@ -33,8 +47,13 @@ import type * as aiTown_main from "../aiTown/main.js";
 import type * as aiTown_movement from "../aiTown/movement.js";
 import type * as aiTown_player from "../aiTown/player.js";
 import type * as aiTown_playerDescription from "../aiTown/playerDescription.js";
+import type * as aiTown_replay from "../aiTown/replay.js";
+import type * as aiTown_schedule from "../aiTown/schedule.js";
+import type * as aiTown_simulation from "../aiTown/simulation.js";
 import type * as aiTown_world from "../aiTown/world.js";
+import type * as aiTown_worldConfig from "../aiTown/worldConfig.js";
 import type * as aiTown_worldMap from "../aiTown/worldMap.js";
+import type * as auth from "../auth.js";
 import type * as characterGeneration from "../characterGeneration.js";
 import type * as characterSprites from "../characterSprites.js";
 import type * as constants from "../constants.js";
@@ -47,6 +66,7 @@ import type * as engine_historicalObject from "../engine/historicalObject.js";
 import type * as http from "../http.js";
 import type * as init from "../init.js";
 import type * as maintenance from "../maintenance.js";
+import type * as memories from "../memories.js";
 import type * as messages from "../messages.js";
 import type * as music from "../music.js";
 import type * as testing from "../testing.js";
@@ -54,11 +74,14 @@ import type * as util_FastIntegerCompression from "../util/FastIntegerCompressio
 import type * as util_assertNever from "../util/assertNever.js";
 import type * as util_asyncMap from "../util/asyncMap.js";
 import type * as util_compression from "../util/compression.js";
+import type * as util_forceLayout from "../util/forceLayout.js";
 import type * as util_geometry from "../util/geometry.js";
 import type * as util_isSimpleObject from "../util/isSimpleObject.js";
 import type * as util_llm from "../util/llm.js";
 import type * as util_minheap from "../util/minheap.js";
+import type * as util_mockLLM from "../util/mockLLM.js";
 import type * as util_object from "../util/object.js";
+import type * as util_rng from "../util/rng.js";
 import type * as util_sleep from "../util/sleep.js";
 import type * as util_types from "../util/types.js";
 import type * as util_xxhash from "../util/xxhash.js";
@@ -73,17 +96,31 @@ import type * as world from "../world.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  admin: typeof admin;
+  "agent/activity": typeof agent_activity;
+  "agent/consolidation": typeof agent_consolidation;
   "agent/conversation": typeof agent_conversation;
+  "agent/embeddings": typeof agent_embeddings;
   "agent/embeddingsCache": typeof agent_embeddingsCache;
+  "agent/goals": typeof agent_goals;
+  "agent/llmBudget": typeof agent_llmBudget;
+  "agent/llmCalls": typeof agent_llmCalls;
   "agent/memory": typeof agent_memory;
+  "agent/reflection": typeof agent_reflection;
+  "agent/relationships": typeof agent_relationships;
+  "agent/schedule": typeof agent_schedule;
+  "agent/tools": typeof agent_tools;
   "aiTown/agent": typeof aiTown_agent;
+  "aiTown/agentActions": typeof aiTown_agentActions;
   "aiTown/agentDescription": typeof aiTown_agentDescription;
   "aiTown/agentInputs": typeof aiTown_agentInputs;
   "aiTown/agentOperations": typeof aiTown_agentOperations;
   "aiTown/characterSprite": typeof aiTown_characterSprite;
+  "aiTown/clientInputs": typeof aiTown_clientInputs;
   "aiTown/conversation": typeof aiTown_conversation;
   "aiTown/conversationMembership": typeof aiTown_conversationMembership;
   "aiTown/game": typeof aiTown_game;
+  "aiTown/gameClock": typeof aiTown_gameClock;
   "aiTown/ids": typeof aiTown_ids;
   "aiTown/inputHandler": typeof aiTown_inputHandler;
   "aiTown/inputs": typeof aiTown_inputs;
@@ -93,8 +130,13 @@ declare const fullApi: ApiFromModules<{
   "aiTown/movement": typeof aiTown_movement;
   "aiTown/player": typeof aiTown_player;
   "aiTown/playerDescription": typeof aiTown_playerDescription;
+  "aiTown/replay": typeof aiTown_replay;
+  "aiTown/schedule": typeof aiTown_schedule;
+  "aiTown/simulation": typeof aiTown_simulation;
   "aiTown/world": typeof aiTown_world;
+  "aiTown/worldConfig": typeof aiTown_worldConfig;
   "aiTown/worldMap": typeof aiTown_worldMap;
+  auth: typeof auth;
   characterGeneration: typeof characterGeneration;
   characterSprites: typeof characterSprites;
   constants: typeof constants;
@@ -107,6 +149,7 @@ declare const fullApi: ApiFromModules<{
   http: typeof http;
   init: typeof init;
   maintenance: typeof maintenance;
+  memories: typeof memories;
   messages: typeof messages;
   music: typeof music;
   testing: typeof testing;
@@ -114,11 +157,14 @@ declare const fullApi: ApiFromModules<{
   "util/assertNever": typeof util_assertNever;
   "util/asyncMap": typeof util_asyncMap;
   "util/compression": typeof util_compression;
+  "util/forceLayout": typeof util_forceLayout;
   "util/geometry": typeof util_geometry;
   "util/isSimpleObject": typeof util_isSimpleObject;
   "util/llm": typeof util_llm;
   "util/minheap": typeof util_minheap;
+  "util/mockLLM": typeof util_mockLLM;
   "util/object": typeof util_object;
+  "util/rng": typeof util_rng;
   "util/sleep": typeof util_sleep;
   "util/types": typeof util_types;
   "util/xxhash": typeof util_xxhash;
@@ -0,0 +1,221 @@
+import { ConvexError, v } from 'convex/values';
+import { QueryCtx, query } from './_generated/server';
+import { Doc, Id } from './_generated/dataModel';
+import { isAdmin, requireIdentity, sessionArgs } from './auth';
+import { loadWorldConfig } from './aiTown/worldConfig';
+import { RECENT_LLM_CALLS, groupLLMUsage, startOfDay, summarizeLLMCalls } from './agent/llmCalls';
+import { exhaustedLLMBudget, loadLLMSpend } from './agent/llmBudget';
+import { DEFAULT_WORLD_NAME } from './constants';
+
+// How many of the latest inputs to look through for failures.
+const RECENT_INPUTS = 200;
+// Stop counting an engine's queued inputs past this many.
+const MAX_QUEUED_INPUTS = 1000;
+// How many failed inputs and LLM errors to list.
+const MAX_ERRORS = 20;
+
+async function requireAdmin(ctx: QueryCtx, sessionId?: string) {
+  const identity = await requireIdentity(ctx, sessionId);
+  if (!isAdmin(identity)) {
+    throw new ConvexError('Only admins can see the dashboard.');
+  }
+  return identity;
+}
+
+// Everything the admin dashboard shows about one world's engine and agents. Worlds are
+// stopped, started and kicked with `world:stopWorld`, `world:startWorld` and `world:kickWorld`.
+export const worldHealth = query({
+  args: {
+    worldId: v.id('worlds'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionId);
+    const worldStatus = await ctx.db
+      .query('worldStatus')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    const world = await ctx.db.get(args.worldId);
+    if (!worldStatus || !world) {
+      throw new ConvexError(`Invalid world ID: ${args.worldId}`);
+    }
+    const engine = await ctx.db.get(worldStatus.engineId);
+    if (!engine) {
+      throw new Error(`Invalid engine ID: ${worldStatus.engineId}`);
+    }
+    const config = await loadWorldConfig(ctx.db, args.worldId);
+
+    const queuedInputs = await ctx.db
+      .query('inputs')
+      .withIndex('byInputNumber', (q) =>
+        q.eq('engineId', engine._id).gt('number', engine.processedInputNumber ?? -1),
+      )
+      .take(MAX_QUEUED_INPUTS);
+    const recentInputs = await ctx.db
+      .query('inputs')
+      .withIndex('byInputNumber', (q) => q.eq('engineId', engine._id))
+      .order('desc')
+      .take(RECENT_INPUTS);
+    const failedInputs = [];
+    for (const input of recentInputs) {
+      if (input.returnValue?.kind === 'error' && failedInputs.length < MAX_ERRORS) {
+        failedInputs.push({
+          number: input.number,
+          name: input.name,
+          message: input.returnValue.message,
+          received: input.received,
+        });
+      }
+    }
+
+    // Operations past the world's action timeout are stuck: the agent will give up on them
+    // at its next tick, unless the engine itself isn't stepping.
+    const operations = [];
+    for (const agent of world.agents) {
+      if (!agent.inProgressOperation) {
+        continue;
+      }
+      const playerDescription = await ctx.db
+        .query('playerDescriptions')
+        .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', agent.playerId))
+        .first();
+      operations.push({
+        agentId: agent.id,
+        name: playerDescription?.name ?? agent.playerId,
+        operation: agent.inProgressOperation.name,
+        started: agent.inProgressOperation.started,
+      });
+    }
+
+    const llmCalls = await ctx.db
+      .query('llmCalls')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .order('desc')
+      .take(RECENT_LLM_CALLS);
+    const llmErrors = [];
+    for (const call of llmCalls) {
+      if (call.error !== undefined && llmErrors.length < MAX_ERRORS) {
+        llmErrors.push({
+          time: call._creationTime,
+          type: call.type,
+          model: call.model,
+          error: call.error,
+        });
+      }
+    }
+
+    const spend = await loadLLMSpend(ctx.db, args.worldId, Date.now());
+    const agentSpend = [];
+    for (const [agentId, agent] of spend.agents) {
+      agentSpend.push({
+        agentId,
+        name: await agentName(ctx, world, args.worldId, agentId),
+        ...agent,
+        exhausted: exhaustedLLMBudget(config, spend.world, agent),
+      });
+    }
+    agentSpend.sort((a, b) => b.tokensThisHour - a.tokensThisHour);
+
+    return {
+      status: worldStatus.status,
+      engine: {
+        running: engine.running,
+        generationNumber: engine.generationNumber,
+        currentTime: engine.currentTime,
+        lastStepTs: engine.lastStepTs,
+        lastStepTicks: engine.lastStepTicks,
+        lastStepInputs: engine.lastStepInputs,
+        lastStepDuration: engine.lastStepDuration,
+      },
+      inputs: {
+        queued: queuedInputs.length,
+        queuedCapped: queuedInputs.length === MAX_QUEUED_INPUTS,
+        failed: failedInputs,
+        checked: recentInputs.length,
+      },
+      operations,
+      actionTimeout: config.actionTimeout,
+      llm: { ...summarizeLLMCalls(llmCalls), recentErrors: llmErrors },
+      budget: {
+        worldTokensPerHour: config.worldTokensPerHour,
+        agentTokensPerHour: config.agentTokensPerHour,
+        worldCallsPerMinute: config.worldCallsPerMinute,
+        agentCallsPerMinute: config.agentCallsPerMinute,
+        world: { ...spend.world, exhausted: exhaustedLLMBudget(config, spend.world) },
+        agents: agentSpend,
+      },
+    };
+  },
+});
+
+// How much the LLM calls made over the last `days` UTC days used and cost, by day, kind of
+// prompt and model, and by world or, for a single world, by agent.
+export const llmUsage = query({
+  args: {
+    worldId: v.optional(v.id('worlds')),
+    days: v.number(),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.sessionId);
+    const since = startOfDay(Date.now() - (Math.max(1, args.days) - 1) * 24 * 60 * 60 * 1000);
+    const worldId = args.worldId;
+    const rows = worldId
+      ? await ctx.db
+          .query('llmUsage')
+          .withIndex('worldId', (q) => q.eq('worldId', worldId).gte('day', since))
+          .collect()
+      : await ctx.db
+          .query('llmUsage')
+          .withIndex('day', (q) => q.gte('day', since))
+          .collect();
+    const byDay = groupLLMUsage(rows, (row) => row.day).sort((a, b) => a.key - b.key);
+    const byKind = groupLLMUsage(rows, (row) => row.kind);
+    const byModel = groupLLMUsage(rows, (row) => row.model);
+    if (!worldId) {
+      const byWorld = [];
+      for (const group of groupLLMUsage(rows, (row) => row.worldId)) {
+        const worldStatus = group.key
+          ? await ctx.db
+              .query('worldStatus')
+              .withIndex('worldId', (q) => q.eq('worldId', group.key!))
+              .unique()
+          : null;
+        byWorld.push({ ...group, name: worldStatus?.name ?? DEFAULT_WORLD_NAME });
+      }
+      return { byDay, byKind, byModel, byWorld, byAgent: null };
+    }
+    const world = await ctx.db.get(worldId);
+    const byAgent = [];
+    for (const group of groupLLMUsage(rows, (row) => row.agentId)) {
+      byAgent.push({ ...group, name: await agentName(ctx, world, worldId, group.key) });
+    }
+    return { byDay, byKind, byModel, byWorld: null, byAgent };
+  },
+});
+
+async function agentName(
+  ctx: QueryCtx,
+  world: Doc<'worlds'> | null,
+  worldId: Id<'worlds'>,
+  agentId?: string,
+) {
+  if (!agentId) {
+    return null;
+  }
+  // Agents that have since left the world are archived.
+  const agent =
+    world?.agents.find((a) => a.id === agentId) ??
+    (await ctx.db
+      .query('archivedAgents')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId).eq('id', agentId))
+      .first());
+  if (!agent) {
+    return null;
+  }
+  const playerDescription = await ctx.db
+    .query('playerDescriptions')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId).eq('playerId', agent.playerId))
+    .first();
+  return playerDescription?.name ?? null;
+}
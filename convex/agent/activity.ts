@@ -0,0 +1,238 @@
+import { v } from 'convex/values';
+import { Id } from '../_generated/dataModel';
+import { ActionCtx, internalQuery } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { chatCompletion } from '../util/llm';
+import { trackLLMCall } from './llmCalls';
+import { loadActiveGoals } from './goals';
+import { GameId, agentId, playerId } from '../aiTown/ids';
+import { SerializedPlayer } from '../aiTown/player';
+import { WorldMap } from '../aiTown/worldMap';
+import { ClockTime, formatMinuteOfDay } from '../aiTown/gameClock';
+import { ScheduleEntry } from '../aiTown/schedule';
+import { Rng } from '../util/rng';
+import {
+  ACTIVITIES,
+  MAX_ACTIVITY_DURATION,
+  MIN_ACTIVITY_DURATION,
+  NUM_ACTIVITY_MEMORIES,
+} from '../constants';
+
+const selfInternal = internal.agent.activity;
+
+// Longest activity description we'll show above a player's head.
+const MAX_DESCRIPTION_LENGTH = 60;
+
+export type ChosenActivity = {
+  description: string;
+  emoji: string;
+  duration: number;
+  // Name of the map zone to go to before starting the activity.
+  zone?: string;
+};
+
+export async function chooseActivity(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  player: SerializedPlayer,
+  agentId: GameId<'agents'>,
+  map: WorldMap,
+  time: ClockTime,
+  rng: Rng,
+  scheduled?: ScheduleEntry,
+): Promise<ChosenActivity> {
+  const { name, identity, plan, goal, memories } = await ctx.runQuery(
+    selfInternal.queryActivityData,
+    {
+      worldId,
+      playerId: player.id,
+      agentId,
+    },
+  );
+  const prompt = [
+    `You are ${name}.`,
+    `About you: ${identity}`,
+    `Your plans: ${plan}`,
+    `It's ${formatMinuteOfDay(time.minuteOfDay)} on day ${time.day + 1}.`,
+    ...locationPrompt(player, map),
+  ];
+  if (goal) {
+    prompt.push(
+      `What you're working towards right now: ${goal.description}` +
+        (goal.zone ? ` (at the ${goal.zone})` : ''),
+    );
+  }
+  if (scheduled) {
+    prompt.push(
+      `According to your schedule, you should be ${scheduled.description} now` +
+        (scheduled.zone ? ` at the ${scheduled.zone}.` : '.'),
+    );
+  }
+  if (memories.length > 0) {
+    prompt.push(`Here are some things you remember from recently:`);
+    for (const description of memories) {
+      prompt.push(' - ' + description);
+    }
+  }
+  prompt.push(
+    `You're not talking to anyone right now. What would you like to do by yourself for a little while?`,
+    `Respond with only a JSON object with the keys "activity" (a few words, e.g. "${ACTIVITIES[0].description}"), "emoji" (a single emoji) and "durationSeconds" (between ${
+      MIN_ACTIVITY_DURATION / 1000
+    } and ${MAX_ACTIVITY_DURATION / 1000}).`,
+  );
+  if (map.zones.length > 0) {
+    prompt.push(
+      `If the activity belongs somewhere in town, also include the key "zone" with the name of the place to do it.`,
+    );
+  }
+  prompt.push(
+    `Example: {"activity": "${ACTIVITIES[0].description}", "emoji": "${
+      ACTIVITIES[0].emoji
+    }", "durationSeconds": ${ACTIVITIES[0].duration / 1000}}`,
+  );
+  try {
+    const { content } = await trackLLMCall(
+      ctx,
+      { worldId, agentId, type: 'chat', kind: 'activity' },
+      () =>
+        chatCompletion({
+          messages: [{ role: 'user', content: prompt.join('\n') }],
+          max_tokens: 100,
+        }),
+    );
+    const activity = parseActivity(
+      content,
+      map.zones.map((z) => z.name),
+    );
+    if (activity) {
+      // Default to wherever our schedule says we should be.
+      if (!activity.zone && scheduled?.zone) {
+        activity.zone = scheduled.zone;
+      }
+      return activity;
+    }
+    console.debug(`Couldn't parse an activity for ${player.id} from: ${content}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Choosing an activity failed: ${message}`);
+  }
+  return fallbackActivity(rng, scheduled);
+}
+
+function locationPrompt(player: SerializedPlayer, map: WorldMap): string[] {
+  const x = Math.floor(player.position.x);
+  const y = Math.floor(player.position.y);
+  const prompt = [
+    `You're at (${x}, ${y}) in a town that's ${map.width} tiles wide and ${map.height} tiles tall.`,
+  ];
+  const current = map.zoneAt(player.position);
+  if (current) {
+    prompt.push(`You're currently at the ${current.name}.`);
+  }
+  if (map.zones.length > 0) {
+    prompt.push(`Places in town:`);
+    for (const zone of map.zones) {
+      prompt.push(` - ${zone.name}` + (zone.description ? `: ${zone.description}` : ''));
+    }
+  }
+  return prompt;
+}
+
+// Something to do without the LLM's help.
+export function fallbackActivity(rng: Rng, scheduled?: ScheduleEntry): ChosenActivity {
+  const fallback = rng.pick(ACTIVITIES);
+  if (scheduled) {
+    // Stick to the schedule.
+    return {
+      description: scheduled.description,
+      emoji: scheduled.emoji ?? fallback.emoji,
+      duration: fallback.duration,
+      zone: scheduled.zone,
+    };
+  }
+  return fallback;
+}
+
+// Validate the LLM's response, returning null if it isn't a usable activity.
+// Zones the map doesn't have are dropped rather than failing the whole activity.
+export function parseActivity(raw: string, zoneNames: string[] = []): ChosenActivity | null {
+  // Models like to wrap JSON in prose or code fences, so pull out the object.
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch (e) {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+  const { activity, emoji, durationSeconds, zone } = parsed as Record<string, unknown>;
+  if (typeof activity !== 'string') {
+    return null;
+  }
+  const description = activity.trim();
+  if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+    return null;
+  }
+  if (typeof emoji !== 'string') {
+    return null;
+  }
+  const trimmedEmoji = emoji.trim();
+  if ([...trimmedEmoji].length > 8 || !/\p{Extended_Pictographic}/u.test(trimmedEmoji)) {
+    return null;
+  }
+  const seconds = typeof durationSeconds === 'string' ? Number(durationSeconds) : durationSeconds;
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds)) {
+    return null;
+  }
+  const duration = Math.min(
+    MAX_ACTIVITY_DURATION,
+    Math.max(MIN_ACTIVITY_DURATION, Math.round(seconds * 1000)),
+  );
+  const zoneName =
+    typeof zone === 'string'
+      ? zoneNames.find((name) => name.toLowerCase() === zone.trim().toLowerCase())
+      : undefined;
+  return { description, emoji: trimmedEmoji, duration, ...(zoneName ? { zone: zoneName } : {}) };
+}
+
+export const queryActivityData = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    agentId,
+  },
+  handler: async (ctx, args) => {
+    const playerDescription = await ctx.db
+      .query('playerDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .first();
+    if (!playerDescription) {
+      throw new Error(`Player description for ${args.playerId} not found`);
+    }
+    const agentDescription = await ctx.db
+      .query('agentDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('agentId', args.agentId))
+      .first();
+    if (!agentDescription) {
+      throw new Error(`Agent description for ${args.agentId} not found`);
+    }
+    const memories = await ctx.db
+      .query('memories')
+      .withIndex('playerId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .order('desc')
+      .take(NUM_ACTIVITY_MEMORIES);
+    const [goal] = await loadActiveGoals(ctx.db, args.worldId, args.playerId);
+    return {
+      name: playerDescription.name,
+      identity: agentDescription.identity,
+      plan: agentDescription.plan,
+      goal: goal ?? null,
+      memories: memories.map((m) => m.description),
+    };
+  },
+});
@@ -0,0 +1,27 @@
+import { groupSimilarMemories } from './consolidation';
+
+describe('groupSimilarMemories', () => {
+  test('should group similar embeddings together', () => {
+    const embeddings = [
+      [1, 0, 0],
+      [0, 1, 0],
+      [0.9, 0.1, 0],
+      [0.1, 0.95, 0],
+      [0, 0, 1],
+    ];
+    expect(groupSimilarMemories(embeddings, 0.8, 8)).toEqual([[0, 2], [1, 3], [4]]);
+  });
+
+  test('should start a new group once one is full', () => {
+    const embeddings = [
+      [1, 0],
+      [1, 0.01],
+      [1, 0.02],
+    ];
+    expect(groupSimilarMemories(embeddings, 0.8, 2)).toEqual([[0, 1], [2]]);
+  });
+
+  test('should leave memories without embeddings on their own', () => {
+    expect(groupSimilarMemories([[1, 0], null, [1, 0], null], 0.8, 8)).toEqual([[0, 2], [1], [3]]);
+  });
+});
@@ -0,0 +1,272 @@
+import { v } from 'convex/values';
+import { internalAction, internalMutation, internalQuery } from '../_generated/server';
+import { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import { chatCompletion, fetchEmbedding } from '../util/llm';
+import { GameId, agentId, playerId } from '../aiTown/ids';
+import { trackLLMCall } from './llmCalls';
+import { withinLLMBudget } from './llmBudget';
+import { loadEmbeddingConfig } from './embeddings';
+import { cosineSimilarity } from './memory';
+import { embeddingIndex, memoryEmbedding } from './schema';
+import {
+  CONSOLIDATION_BATCH_SIZE,
+  CONSOLIDATION_SIMILARITY,
+  MAX_CONSOLIDATION_GROUP,
+  MEMORY_CONSOLIDATION_AGE,
+  MIN_DURABLE_IMPORTANCE,
+} from '../constants';
+
+const selfInternal = internal.agent.consolidation;
+
+// Rather than vacuum old memories, agents summarize the gist of their old, unimportant
+// conversations, a group of similar ones at a time, and forget the details.
+export const consolidateAllMemories = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const worldStatuses = await ctx.db.query('worldStatus').collect();
+    for (const { worldId } of worldStatuses) {
+      const world = await ctx.db.get(worldId);
+      for (const agent of world?.agents ?? []) {
+        await ctx.scheduler.runAfter(0, selfInternal.consolidateMemories, {
+          worldId,
+          agentId: agent.id,
+          playerId: agent.playerId,
+        });
+      }
+    }
+  },
+});
+
+export const consolidateMemories = internalAction({
+  args: {
+    worldId: v.id('worlds'),
+    agentId,
+    playerId,
+    // Where the previous batch left off, as the creation time of its newest memory.
+    after: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const worldId = args.worldId;
+    const agentId = args.agentId as GameId<'agents'>;
+    const { name, memories, cursor, embeddingConfig } = await ctx.runQuery(
+      selfInternal.loadOldMemories,
+      { worldId, playerId: args.playerId, after: args.after },
+    );
+    const groups = groupSimilarMemories(
+      memories.map((m) => m.embedding),
+      CONSOLIDATION_SIMILARITY,
+      MAX_CONSOLIDATION_GROUP,
+    );
+    for (const group of groups) {
+      // Memories too unlike the rest to summarize with anything are kept as they are, as are
+      // ones without an embedding yet.
+      if (group.length < 2) {
+        continue;
+      }
+      if (!(await withinLLMBudget(ctx, worldId, agentId))) {
+        return;
+      }
+      const groupMemories = group.map((i) => memories[i]);
+      const prompt = [
+        `You are ${name}. Below are some of your older memories, which you'll only remember the gist of from now on.`,
+        `Summarize them in a few sentences, using first-person pronouns like "I". Keep the names of the people involved and anything worth remembering about them.`,
+        ...groupMemories.map((m, i) => `${i + 1}. ${m.description}`),
+        'Summary:',
+      ];
+      const { content } = await trackLLMCall(
+        ctx,
+        { worldId, agentId, type: 'chat', kind: 'consolidation' },
+        () =>
+          chatCompletion({
+            messages: [{ role: 'user', content: prompt.join('\n') }],
+            max_tokens: 300,
+          }),
+      );
+      const description = content.trim();
+      if (!description) {
+        console.debug(`Got an empty summary consolidating ${args.playerId}'s memories`);
+        continue;
+      }
+      const { embedding } = await trackLLMCall(
+        ctx,
+        {
+          worldId,
+          agentId,
+          type: 'embedding',
+          kind: 'consolidation',
+          model: embeddingConfig.model,
+        },
+        () => fetchEmbedding(description, embeddingConfig),
+      );
+      await ctx.runMutation(selfInternal.replaceMemories, {
+        worldId,
+        playerId: args.playerId,
+        memoryIds: groupMemories.map((m) => m._id),
+        description,
+        embedding,
+      });
+    }
+    // Keep going past the memories we've been through while there are more than fit in a batch.
+    if (memories.length === CONSOLIDATION_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, selfInternal.consolidateMemories, { ...args, after: cursor });
+    }
+  },
+});
+
+// Group memories whose embeddings are similar, each joining the group whose average it's
+// closest to, as long as that's at least `threshold` similar and the group has room.
+// Memories without an embedding are left in groups of their own. Returns each group's
+// indexes into `embeddings`.
+export function groupSimilarMemories(
+  embeddings: (number[] | null)[],
+  threshold: number,
+  maxSize: number,
+): number[][] {
+  const groups: { members: number[]; sum: number[] | null }[] = [];
+  for (const [i, embedding] of embeddings.entries()) {
+    let best: (typeof groups)[number] | undefined;
+    let bestSimilarity = threshold;
+    if (embedding) {
+      for (const group of groups) {
+        if (!group.sum || group.members.length >= maxSize) {
+          continue;
+        }
+        // Scaling doesn't change cosine similarity, so the sum stands in for the average.
+        const similarity = cosineSimilarity(embedding, group.sum);
+        if (similarity >= bestSimilarity) {
+          best = group;
+          bestSimilarity = similarity;
+        }
+      }
+    }
+    if (best && embedding) {
+      best.members.push(i);
+      best.sum = best.sum!.map((x, j) => x + embedding[j]);
+    } else {
+      groups.push({ members: [i], sum: embedding && [...embedding] });
+    }
+  }
+  return groups.map((g) => g.members);
+}
+
+// A batch of the player's conversation memories that are old and unimportant enough to
+// consolidate, oldest first starting after `after`, with their embeddings.
+export const loadOldMemories = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    after: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const playerDescription = await ctx.db
+      .query('playerDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .first();
+    if (!playerDescription) {
+      throw new Error(`Player description for ${args.playerId} not found`);
+    }
+    const { search, write } = await loadEmbeddingConfig(ctx.db, args.worldId);
+    const before = Date.now() - MEMORY_CONSOLIDATION_AGE;
+    // Memories without a world yet are left until `agent/memory:backfillWorlds` has run.
+    const old = await ctx.db
+      .query('memories')
+      .withIndex('playerId_type', (q) =>
+        q
+          .eq('worldId', args.worldId)
+          .eq('playerId', args.playerId)
+          .eq('data.type', 'conversation')
+          .gt('_creationTime', args.after ?? 0)
+          .lt('_creationTime', before),
+      )
+      .filter((q) =>
+        q.and(q.lt(q.field('importance'), MIN_DURABLE_IMPORTANCE), q.neq(q.field('pinned'), true)),
+      )
+      .take(CONSOLIDATION_BATCH_SIZE);
+    const memories = [];
+    for (const memory of old) {
+      const embedding = await ctx.db.get(memory.embeddingId);
+      // Memories written while migrating to a new embedding model only have the new one, so
+      // they're left out of groups until the migration's done.
+      const vector = embedding?.[embeddingIndex(search.dimension)];
+      memories.push({
+        _id: memory._id,
+        description: memory.description,
+        embedding: vector ?? null,
+      });
+    }
+    return {
+      name: playerDescription.name,
+      memories,
+      cursor: old.at(-1)?._creationTime,
+      embeddingConfig: write,
+    };
+  },
+});
+
+// Swap a group of memories for their summary, unless any of them have since been deleted,
+// pinned or made important. Returns whether it did.
+export const replaceMemories = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    memoryIds: v.array(v.id('memories')),
+    description: v.string(),
+    embedding: v.array(v.float64()),
+  },
+  handler: async (ctx, args) => {
+    const memories = [];
+    for (const memoryId of args.memoryIds) {
+      const memory = await ctx.db.get(memoryId);
+      if (!memory || !canConsolidate(memory, args.worldId, args.playerId)) {
+        return false;
+      }
+      memories.push(memory);
+    }
+    const conversationIds = new Set<string>();
+    const playerIds = new Set<string>();
+    for (const { data } of memories) {
+      conversationIds.add(data.conversationId);
+      data.playerIds.forEach((id) => playerIds.add(id));
+    }
+    const embeddingId = await ctx.db.insert(
+      'memoryEmbeddings',
+      memoryEmbedding(args.worldId, args.playerId, args.embedding),
+    );
+    await ctx.db.insert('memories', {
+      worldId: args.worldId,
+      playerId: args.playerId,
+      description: args.description,
+      embeddingId,
+      importance: Math.max(...memories.map((m) => m.importance)),
+      lastAccess: Math.max(...memories.map((m) => m.lastAccess)),
+      data: {
+        type: 'consolidation',
+        replacedMemoryIds: args.memoryIds,
+        conversationIds: [...conversationIds],
+        playerIds: [...playerIds],
+      },
+    });
+    for (const memory of memories) {
+      await ctx.db.delete(memory.embeddingId);
+      await ctx.db.delete(memory._id);
+    }
+    return true;
+  },
+});
+
+type ConversationMemory = Doc<'memories'> & { data: { type: 'conversation' } };
+
+function canConsolidate(
+  memory: Doc<'memories'>,
+  worldId: Id<'worlds'>,
+  playerId: string,
+): memory is ConversationMemory {
+  return (
+    memory.worldId === worldId &&
+    memory.playerId === playerId &&
+    memory.data.type === 'conversation' &&
+    !memory.pinned &&
+    memory.importance < MIN_DURABLE_IMPORTANCE
+  );
+}
@@ -1,28 +1,52 @@
 import { v } from 'convex/values';
 import { Id } from '../_generated/dataModel';
 import { ActionCtx, internalQuery } from '../_generated/server';
-import { LLMMessage, chatCompletion } from '../util/llm';
+import { ChatCompletionContent, LLMMessage, chatCompletion } from '../util/llm';
 import * as memory from './memory';
 import { api, internal } from '../_generated/api';
 import * as embeddingsCache from './embeddingsCache';
+import { LLMCall, trackLLMCall } from './llmCalls';
+import { loadEmbeddingConfig } from './embeddings';
 import { GameId, conversationId, playerId } from '../aiTown/ids';
 import { NUM_MEMORIES_TO_SEARCH } from '../constants';
+import { AgentAction } from '../aiTown/agentActions';
+import { distance } from '../util/geometry';
+import { loadRelationships } from './relationships';
+import { loadActiveGoals } from './goals';
+import {
+  ToolContext,
+  agentTools,
+  describeActions,
+  parseToolCalls,
+  toolsEnabled,
+  toolsPrompt,
+} from './tools';
 
 const selfInternal = internal.agent.conversation;
 
+// How many of the nearest free players an agent can invite to its conversation.
+const MAX_INVITABLE = 5;
+
+// What an agent says, and what it does along with it.
+export type AgentReply = {
+  text: string;
+  actions: AgentAction[];
+};
+
 export async function startConversationMessage(
   ctx: ActionCtx,
   worldId: Id<'worlds'>,
   conversationId: GameId<'conversations'>,
   playerId: GameId<'players'>,
-  otherPlayerId: GameId<'players'>,
-): Promise<string> {
-  const { player, otherPlayer, agent, otherAgent, lastConversation, elizaAgent } = await ctx.runQuery(
+  otherPlayerIds: GameId<'players'>[],
+  onText?: (text: string) => Promise<void>,
+): Promise<AgentReply> {
+  const { player, otherPlayers, agent, elizaAgent, embeddingConfig, tools } = await ctx.runQuery(
     selfInternal.queryPromptData,
     {
       worldId,
       playerId,
-      otherPlayerId,
+      otherPlayerIds,
       conversationId,
     },
   );
@@ -32,52 +56,69 @@ export async function startConversationMessage(
       elizaAgentId: elizaAgent.elizaAgentId,
       // For start, we simulate an approach
       message: "*Approaches you to start a conversation*", 
-      senderId: otherPlayer.id,
+      senderId: otherPlayers[0].id,
       conversationId,
     });
-    if (response) return response;
+    if (response) return { text: response, actions: [] };
     // Fallback if Eliza fails
   }
+  const otherNames = joinNames(otherPlayers);
   const embedding = await embeddingsCache.fetch(
     ctx,
-    `${player.name} is talking to ${otherPlayer.name}`,
+    { worldId, agentId: agent.id as GameId<'agents'>, kind: 'start' },
+    `${player.name} is talking to ${otherNames}`,
+    embeddingConfig,
   );
 
   const memories = await memory.searchMemories(
     ctx,
+    worldId,
     player.id as GameId<'players'>,
     embedding,
+    otherNames,
     Number(process.env.NUM_MEMORIES_TO_SEARCH) || NUM_MEMORIES_TO_SEARCH,
   );
 
   const memoryWithOtherPlayer = memories.find(
-    (m) => m.data.type === 'conversation' && m.data.playerIds.includes(otherPlayerId),
+    (m) =>
+      m.data.type === 'conversation' &&
+      m.data.playerIds.some((id) => otherPlayerIds.includes(id as GameId<'players'>)),
   );
   const prompt = [
-    `You are ${player.name}, and you just started a conversation with ${otherPlayer.name}.`,
+    `You are ${player.name}, and you just started a conversation with ${otherNames}.`,
   ];
-  prompt.push(...agentPrompts(otherPlayer, agent, otherAgent ?? null));
-  prompt.push(...previousConversationPrompt(otherPlayer, lastConversation));
+  prompt.push(...agentPrompts(otherPlayers, agent));
+  prompt.push(...previousConversationPrompt(otherPlayers));
   prompt.push(...relatedMemoriesPrompt(memories));
   if (memoryWithOtherPlayer) {
     prompt.push(
       `Be sure to include some detail or question about a previous conversation in your greeting.`,
     );
   }
-  const lastPrompt = `${player.name} to ${otherPlayer.name}:`;
+  const toolContext = toolsEnabled() ? tools : undefined;
+  if (toolContext) {
+    prompt.push(...toolsPrompt(toolContext));
+  }
+  const lastPrompt = `${player.name} to ${addressee(otherPlayers)}:`;
   prompt.push(lastPrompt);
 
-  const { content } = await chatCompletion({
-    messages: [
-      {
-        role: 'system',
-        content: prompt.join('\n'),
-      },
-    ],
-    max_tokens: 300,
-    stop: stopWords(otherPlayer.name, player.name),
-  });
-  return trimContentPrefx(content, lastPrompt);
+  return await streamReply(
+    ctx,
+    { worldId, agentId: agent.id as GameId<'agents'>, kind: 'start' },
+    {
+      messages: [
+        {
+          role: 'system',
+          content: prompt.join('\n'),
+        },
+      ],
+      max_tokens: 300,
+      stop: stopWords(otherPlayers, player.name),
+    },
+    lastPrompt,
+    onText,
+    toolContext,
+  );
 }
 
 function trimContentPrefx(content: string, prompt: string) {
@@ -87,37 +128,85 @@ function trimContentPrefx(content: string, prompt: string) {
   return content;
 }
 
+// Stream a reply, recording the call with its token counts once the whole reply is in.
+// With `tools`, the LLM can also act in the world by calling them.
+async function streamReply(
+  ctx: ActionCtx,
+  call: LLMCall,
+  body: { messages: LLMMessage[]; max_tokens: number; stop: string[] },
+  lastPrompt: string,
+  onText?: (text: string) => Promise<void>,
+  tools?: ToolContext,
+): Promise<AgentReply> {
+  const { reply, toolCalls } = await trackLLMCall(ctx, { ...call, type: 'chat' }, async () => {
+    const { content, retries } = await chatCompletion({
+      ...body,
+      ...(tools ? { tools: agentTools(tools) } : {}),
+      stream: true,
+    });
+    const reply = await readReply(content, lastPrompt, onText);
+    return { reply, toolCalls: content.toolCalls, retries, usage: content.usage };
+  });
+  if (!tools) {
+    return { text: reply, actions: [] };
+  }
+  const { actions, errors } = parseToolCalls(toolCalls, tools);
+  if (errors.length > 0) {
+    console.warn(`Ignoring tool calls from ${call.agentId}: ${errors.join('; ')}`);
+  }
+  return { text: reply || describeActions(actions, tools), actions };
+}
+
+// Read a streamed reply, passing `onText` everything written so far as it arrives.
+async function readReply(
+  content: ChatCompletionContent,
+  lastPrompt: string,
+  onText?: (text: string) => Promise<void>,
+) {
+  let reply = '';
+  for await (const chunk of content.read()) {
+    reply += chunk;
+    // Hold off while the model might still be echoing the prompt back.
+    if (onText && !lastPrompt.startsWith(reply)) {
+      const text = trimContentPrefx(reply, lastPrompt);
+      if (text) {
+        await onText(text);
+      }
+    }
+  }
+  return trimContentPrefx(reply, lastPrompt);
+}
+
 export async function continueConversationMessage(
   ctx: ActionCtx,
   worldId: Id<'worlds'>,
   conversationId: GameId<'conversations'>,
   playerId: GameId<'players'>,
-  otherPlayerId: GameId<'players'>,
-): Promise<string> {
-  const { player, otherPlayer, conversation, agent, otherAgent, elizaAgent } = await ctx.runQuery(
-    selfInternal.queryPromptData,
-    {
+  otherPlayerIds: GameId<'players'>[],
+  onText?: (text: string) => Promise<void>,
+): Promise<AgentReply> {
+  const { player, otherPlayers, conversation, agent, elizaAgent, embeddingConfig, tools } =
+    await ctx.runQuery(selfInternal.queryPromptData, {
       worldId,
       playerId,
-      otherPlayerId,
+      otherPlayerIds,
       conversationId,
-    },
-  );
+    });
   
   if (elizaAgent) {
-    // Get last message from other player
+    // Get last message from another player
     const messages = await ctx.runQuery(api.messages.listMessages, { worldId, conversationId });
-    const lastMessage = messages[messages.length - 1];
+    const lastMessage = messages.filter((m) => !m.draft).pop();
     
-    // Only reply if the last message is from the other player (which it should be if it's our turn)
-    if (lastMessage && lastMessage.author === otherPlayerId) {
+    // Only reply if the last message is from someone else (which it should be if it's our turn)
+    if (lastMessage && lastMessage.author !== playerId) {
        const response = await ctx.runAction(api.elizaAgent.actions.sendMessage, {
           elizaAgentId: elizaAgent.elizaAgentId,
           message: lastMessage.text,
-          senderId: otherPlayerId,
+          senderId: lastMessage.author,
           conversationId,
        });
-       if (response) return response;
+       if (response) return { text: response, actions: [] };
     } else {
        // Weird state, or maybe we just continue?
        // Default fallback
@@ -125,44 +214,67 @@ export async function continueConversationMessage(
   }
   const now = Date.now();
   const started = new Date(conversation.created);
+  const otherNames = joinNames(otherPlayers);
   const embedding = await embeddingsCache.fetch(
     ctx,
-    `What do you think about ${otherPlayer.name}?`,
+    { worldId, agentId: agent.id as GameId<'agents'>, kind: 'continue' },
+    `What do you think about ${otherNames}?`,
+    embeddingConfig,
+  );
+  const history = await previousMessages(
+    ctx,
+    worldId,
+    player,
+    otherPlayers,
+    conversation.id as GameId<'conversations'>,
+  );
+  // Look for memories mentioning what was just said too, like a name or a fact in passing.
+  const lastMessage = (history.length > 0 && history[history.length - 1].content) || '';
+  const memories = await memory.searchMemories(
+    ctx,
+    worldId,
+    player.id as GameId<'players'>,
+    embedding,
+    `${otherNames} ${lastMessage}`,
+    3,
   );
-  const memories = await memory.searchMemories(ctx, player.id as GameId<'players'>, embedding, 3);
   const prompt = [
-    `You are ${player.name}, and you're currently in a conversation with ${otherPlayer.name}.`,
+    `You are ${player.name}, and you're currently in a conversation with ${otherNames}.`,
     `The conversation started at ${started.toLocaleString()}. It's now ${now.toLocaleString()}.`,
   ];
-  prompt.push(...agentPrompts(otherPlayer, agent, otherAgent ?? null));
+  prompt.push(...agentPrompts(otherPlayers, agent));
   prompt.push(...relatedMemoriesPrompt(memories));
   prompt.push(
-    `Below is the current chat history between you and ${otherPlayer.name}.`,
+    `Below is the current chat history between you and ${otherNames}.`,
     `DO NOT greet them again. Do NOT use the word "Hey" too often. Your response should be brief and within 200 characters.`,
   );
+  const toolContext = toolsEnabled() ? tools : undefined;
+  if (toolContext) {
+    prompt.push(...toolsPrompt(toolContext));
+  }
 
   const llmMessages: LLMMessage[] = [
     {
       role: 'system',
       content: prompt.join('\n'),
     },
-    ...(await previousMessages(
-      ctx,
-      worldId,
-      player,
-      otherPlayer,
-      conversation.id as GameId<'conversations'>,
-    )),
+    ...history,
   ];
-  const lastPrompt = `${player.name} to ${otherPlayer.name}:`;
+  const lastPrompt = `${player.name} to ${addressee(otherPlayers)}:`;
   llmMessages.push({ role: 'user', content: lastPrompt });
 
-  const { content } = await chatCompletion({
-    messages: llmMessages,
-    max_tokens: 300,
-    stop: stopWords(otherPlayer.name, player.name),
-  });
-  return trimContentPrefx(content, lastPrompt);
+  return await streamReply(
+    ctx,
+    { worldId, agentId: agent.id as GameId<'agents'>, kind: 'continue' },
+    {
+      messages: llmMessages,
+      max_tokens: 300,
+      stop: stopWords(otherPlayers, player.name),
+    },
+    lastPrompt,
+    onText,
+    toolContext,
+  );
 }
 
 export async function leaveConversationMessage(
@@ -170,14 +282,15 @@ export async function leaveConversationMessage(
   worldId: Id<'worlds'>,
   conversationId: GameId<'conversations'>,
   playerId: GameId<'players'>,
-  otherPlayerId: GameId<'players'>,
-): Promise<string> {
-  const { player, otherPlayer, conversation, agent, otherAgent, elizaAgent } = await ctx.runQuery(
+  otherPlayerIds: GameId<'players'>[],
+  onText?: (text: string) => Promise<void>,
+): Promise<AgentReply> {
+  const { player, otherPlayers, conversation, agent, elizaAgent } = await ctx.runQuery(
     selfInternal.queryPromptData,
     {
       worldId,
       playerId,
-      otherPlayerId,
+      otherPlayerIds,
       conversationId,
     },
   );
@@ -186,18 +299,19 @@ export async function leaveConversationMessage(
      const response = await ctx.runAction(api.elizaAgent.actions.sendMessage, {
         elizaAgentId: elizaAgent.elizaAgentId,
         message: "*I need to leave now*",
-        senderId: otherPlayerId,
+        senderId: otherPlayers[0].id,
         conversationId,
      });
-     if (response) return response;
+     if (response) return { text: response, actions: [] };
   }
+  const otherNames = joinNames(otherPlayers);
   const prompt = [
-    `You are ${player.name}, and you're currently in a conversation with ${otherPlayer.name}.`,
+    `You are ${player.name}, and you're currently in a conversation with ${otherNames}.`,
     `You've decided to leave the question and would like to politely tell them you're leaving the conversation.`,
   ];
-  prompt.push(...agentPrompts(otherPlayer, agent, otherAgent ?? null));
+  prompt.push(...agentPrompts(otherPlayers, agent));
   prompt.push(
-    `Below is the current chat history between you and ${otherPlayer.name}.`,
+    `Below is the current chat history between you and ${otherNames}.`,
     `How would you like to tell them that you're leaving? Your response should be brief and within 200 characters.`,
   );
   const llmMessages: LLMMessage[] = [
@@ -209,50 +323,83 @@ export async function leaveConversationMessage(
       ctx,
       worldId,
       player,
-      otherPlayer,
+      otherPlayers,
       conversation.id as GameId<'conversations'>,
     )),
   ];
-  const lastPrompt = `${player.name} to ${otherPlayer.name}:`;
+  const lastPrompt = `${player.name} to ${addressee(otherPlayers)}:`;
   llmMessages.push({ role: 'user', content: lastPrompt });
 
-  const { content } = await chatCompletion({
-    messages: llmMessages,
-    max_tokens: 300,
-    stop: stopWords(otherPlayer.name, player.name),
-  });
-  return trimContentPrefx(content, lastPrompt);
+  return await streamReply(
+    ctx,
+    { worldId, agentId: agent.id as GameId<'agents'>, kind: 'leave' },
+    {
+      messages: llmMessages,
+      max_tokens: 300,
+      stop: stopWords(otherPlayers, player.name),
+    },
+    lastPrompt,
+    onText,
+  );
+}
+
+// "Alice", "Alice and Bob", or "Alice, Bob and Carol".
+export function joinNames(players: { name: string }[]) {
+  const names = players.map((p) => p.name);
+  if (names.length <= 1) {
+    return names.join('');
+  }
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+// Who a message is addressed to in the transcripts we show the LLM.
+export function addressee(otherPlayers: { name: string }[]) {
+  return otherPlayers.length === 1 ? otherPlayers[0].name : 'the group';
 }
 
 function agentPrompts(
-  otherPlayer: { name: string },
-  agent: { identity: string; plan: string } | null,
-  otherAgent: { identity: string; plan: string } | null,
+  otherPlayers: {
+    name: string;
+    agent: { identity: string } | null;
+    relationship: { description: string } | null;
+  }[],
+  agent: { identity: string; plan: string; goal: string | null } | null,
 ): string[] {
   const prompt = [];
   if (agent) {
     prompt.push(`About you: ${agent.identity}`);
     prompt.push(`Your goals for the conversation: ${agent.plan}`);
+    if (agent.goal) {
+      prompt.push(`What you're working towards right now: ${agent.goal}`);
+    }
   }
-  if (otherAgent) {
-    prompt.push(`About ${otherPlayer.name}: ${otherAgent.identity}`);
+  for (const otherPlayer of otherPlayers) {
+    if (otherPlayer.agent) {
+      prompt.push(`About ${otherPlayer.name}: ${otherPlayer.agent.identity}`);
+    }
+    if (otherPlayer.relationship) {
+      prompt.push(
+        `How you feel about ${otherPlayer.name}: ${otherPlayer.relationship.description}`,
+      );
+    }
   }
   return prompt;
 }
 
 function previousConversationPrompt(
-  otherPlayer: { name: string },
-  conversation: { created: number } | null,
+  otherPlayers: { name: string; lastConversation: { created: number } | null }[],
 ): string[] {
   const prompt = [];
-  if (conversation) {
-    const prev = new Date(conversation.created);
-    const now = new Date();
-    prompt.push(
-      `Last time you chatted with ${
-        otherPlayer.name
-      } it was ${prev.toLocaleString()}. It's now ${now.toLocaleString()}.`,
-    );
+  for (const otherPlayer of otherPlayers) {
+    if (otherPlayer.lastConversation) {
+      const prev = new Date(otherPlayer.lastConversation.created);
+      const now = new Date();
+      prompt.push(
+        `Last time you chatted with ${
+          otherPlayer.name
+        } it was ${prev.toLocaleString()}. It's now ${now.toLocaleString()}.`,
+      );
+    }
   }
   return prompt;
 }
@@ -272,17 +419,25 @@ async function previousMessages(
   ctx: ActionCtx,
   worldId: Id<'worlds'>,
   player: { id: string; name: string },
-  otherPlayer: { id: string; name: string },
+  otherPlayers: { id: string; name: string }[],
   conversationId: GameId<'conversations'>,
 ) {
   const llmMessages: LLMMessage[] = [];
   const prevMessages = await ctx.runQuery(api.messages.listMessages, { worldId, conversationId });
+  const participants = [player, ...otherPlayers];
   for (const message of prevMessages) {
-    const author = message.author === player.id ? player : otherPlayer;
-    const recipient = message.author === player.id ? otherPlayer : player;
+    // Skip replies that are still being streamed in.
+    if (message.draft) {
+      continue;
+    }
+    const author = participants.find((p) => p.id === message.author) ?? {
+      id: message.author,
+      name: message.authorName,
+    };
+    const recipients = participants.filter((p) => p.id !== author.id);
     llmMessages.push({
       role: 'user',
-      content: `${author.name} to ${recipient.name}: ${message.text}`,
+      content: `${author.name} to ${addressee(recipients)}: ${message.text}`,
     });
   }
   return llmMessages;
@@ -292,7 +447,7 @@ export const queryPromptData = internalQuery({
   args: {
     worldId: v.id('worlds'),
     playerId,
-    otherPlayerId: playerId,
+    otherPlayerIds: v.array(playerId),
     conversationId,
   },
   handler: async (ctx, args) => {
@@ -311,17 +466,6 @@ export const queryPromptData = internalQuery({
     if (!playerDescription) {
       throw new Error(`Player description for ${args.playerId} not found`);
     }
-    const otherPlayer = world.players.find((p) => p.id === args.otherPlayerId);
-    if (!otherPlayer) {
-      throw new Error(`Player ${args.otherPlayerId} not found`);
-    }
-    const otherPlayerDescription = await ctx.db
-      .query('playerDescriptions')
-      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.otherPlayerId))
-      .first();
-    if (!otherPlayerDescription) {
-      throw new Error(`Player description for ${args.otherPlayerId} not found`);
-    }
     const conversation = world.conversations.find((c) => c.id === args.conversationId);
     if (!conversation) {
       throw new Error(`Conversation ${args.conversationId} not found`);
@@ -337,64 +481,125 @@ export const queryPromptData = internalQuery({
     if (!agentDescription) {
       throw new Error(`Agent description for ${agent.id} not found`);
     }
-    const otherAgent = world.agents.find((a) => a.playerId === args.otherPlayerId);
-    let otherAgentDescription;
-    if (otherAgent) {
-      otherAgentDescription = await ctx.db
-        .query('agentDescriptions')
-        .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('agentId', otherAgent.id))
+    const relationships = await loadRelationships(ctx.db, args.worldId, args.playerId);
+    const [goal] = await loadActiveGoals(ctx.db, args.worldId, args.playerId);
+    const otherPlayers = [];
+    for (const otherPlayerId of args.otherPlayerIds) {
+      const otherPlayer = world.players.find((p) => p.id === otherPlayerId);
+      if (!otherPlayer) {
+        throw new Error(`Player ${otherPlayerId} not found`);
+      }
+      const otherPlayerDescription = await ctx.db
+        .query('playerDescriptions')
+        .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', otherPlayerId))
         .first();
-      if (!otherAgentDescription) {
-        throw new Error(`Agent description for ${otherAgent.id} not found`);
+      if (!otherPlayerDescription) {
+        throw new Error(`Player description for ${otherPlayerId} not found`);
       }
-    }
-    const lastTogether = await ctx.db
-      .query('participatedTogether')
-      .withIndex('edge', (q) =>
-        q
-          .eq('worldId', args.worldId)
-          .eq('player1', args.playerId)
-          .eq('player2', args.otherPlayerId),
-      )
-      // Order by conversation end time descending.
-      .order('desc')
-      .first();
-
-    let lastConversation = null;
-    if (lastTogether) {
-      lastConversation = await ctx.db
-        .query('archivedConversations')
-        .withIndex('worldId', (q) =>
-          q.eq('worldId', args.worldId).eq('id', lastTogether.conversationId),
+      const otherAgent = world.agents.find((a) => a.playerId === otherPlayerId);
+      let otherAgentDescription;
+      if (otherAgent) {
+        otherAgentDescription = await ctx.db
+          .query('agentDescriptions')
+          .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('agentId', otherAgent.id))
+          .first();
+        if (!otherAgentDescription) {
+          throw new Error(`Agent description for ${otherAgent.id} not found`);
+        }
+      }
+      const lastTogether = await ctx.db
+        .query('participatedTogether')
+        .withIndex('edge', (q) =>
+          q.eq('worldId', args.worldId).eq('player1', args.playerId).eq('player2', otherPlayerId),
         )
+        // Order by conversation end time descending.
+        .order('desc')
         .first();
-      if (!lastConversation) {
-        throw new Error(`Conversation ${lastTogether.conversationId} not found`);
+
+      let lastConversation = null;
+      if (lastTogether) {
+        lastConversation = await ctx.db
+          .query('archivedConversations')
+          .withIndex('worldId', (q) =>
+            q.eq('worldId', args.worldId).eq('id', lastTogether.conversationId),
+          )
+          .first();
+        if (!lastConversation) {
+          throw new Error(`Conversation ${lastTogether.conversationId} not found`);
+        }
       }
+      otherPlayers.push({
+        name: otherPlayerDescription.name,
+        ...otherPlayer,
+        agent: otherAgent
+          ? {
+              identity: otherAgentDescription!.identity,
+              plan: otherAgentDescription!.plan,
+              ...otherAgent,
+            }
+          : null,
+        lastConversation,
+        relationship: relationships.get(otherPlayerId) ?? null,
+      });
+    }
+    if (otherPlayers.length === 0) {
+      throw new Error(`No other players in conversation ${args.conversationId}`);
     }
     const elizaAgent = await ctx.db
       .query('elizaAgents')
       .withIndex('playerId', (q) => q.eq('playerId', args.playerId))
       .first();
+    const { search } = await loadEmbeddingConfig(ctx.db, args.worldId);
+
+    // The nearest players who aren't talking to anyone, for inviting to the conversation.
+    const busy = new Set(world.conversations.flatMap((c) => c.participants.map((m) => m.playerId)));
+    const invitable = [];
+    const freePlayers = world.players
+      .filter((p) => !busy.has(p.id))
+      .sort((a, b) => distance(player.position, a.position) - distance(player.position, b.position))
+      .slice(0, MAX_INVITABLE);
+    for (const freePlayer of freePlayers) {
+      const description = await ctx.db
+        .query('playerDescriptions')
+        .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', freePlayer.id))
+        .first();
+      if (description) {
+        invitable.push({ id: freePlayer.id, name: description.name });
+      }
+    }
+    const map = await ctx.db
+      .query('maps')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    const tools: ToolContext = {
+      zones: map?.zones?.map((z) => z.name) ?? [],
+      participants: otherPlayers.map((p) => ({ id: p.id, name: p.name })),
+      invitable,
+      inventory: player.inventory ?? [],
+    };
 
     return {
       player: { name: playerDescription.name, ...player },
-      otherPlayer: { name: otherPlayerDescription.name, ...otherPlayer },
+      otherPlayers,
       conversation,
-      agent: { identity: agentDescription.identity, plan: agentDescription.plan, ...agent },
-      otherAgent: otherAgent && {
-        identity: otherAgentDescription!.identity,
-        plan: otherAgentDescription!.plan,
-        ...otherAgent,
+      agent: {
+        identity: agentDescription.identity,
+        plan: agentDescription.plan,
+        goal: goal?.description ?? null,
+        ...agent,
       },
-      lastConversation,
       elizaAgent,
+      embeddingConfig: search,
+      tools,
     };
   },
 });
 
-function stopWords(otherPlayer: string, player: string) {
+function stopWords(otherPlayers: { name: string }[], player: string) {
   // These are the words we ask the LLM to stop on. OpenAI only supports 4.
-  const variants = [`${otherPlayer} to ${player}`];
-  return variants.flatMap((stop) => [stop + ':', stop.toLowerCase() + ':']);
+  if (otherPlayers.length === 1) {
+    const variants = [`${otherPlayers[0].name} to ${player}`];
+    return variants.flatMap((stop) => [stop + ':', stop.toLowerCase() + ':']);
+  }
+  return otherPlayers.slice(0, 4).map((p) => `${p.name} to the group:`);
 }
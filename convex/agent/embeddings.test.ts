@@ -0,0 +1,30 @@
+import { defaultEmbeddingConfig } from './embeddings';
+import { embeddingIndex } from './schema';
+
+describe('embedding configs', () => {
+  beforeEach(() => {
+    process.env.LLM_PROVIDER = 'mock';
+  });
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_EMBEDDING_DIMENSION;
+  });
+
+  test('should map each supported dimension to its own index', () => {
+    expect(embeddingIndex(1536)).toBe('embedding');
+    expect(embeddingIndex(1024)).toBe('embedding1024');
+    expect(embeddingIndex(768)).toBe('embedding768');
+    expect(() => embeddingIndex(4096)).toThrow('Unsupported embedding dimension');
+  });
+
+  test("should default to the provider's embedding model", () => {
+    expect(defaultEmbeddingConfig()).toEqual({ model: 'mock', dimension: 1536 });
+    process.env.LLM_EMBEDDING_DIMENSION = '768';
+    expect(defaultEmbeddingConfig()).toEqual({ model: 'mock', dimension: 768 });
+  });
+
+  test("should reject dimensions we can't index", () => {
+    process.env.LLM_EMBEDDING_DIMENSION = '4096';
+    expect(() => defaultEmbeddingConfig()).toThrow('Unsupported embedding dimension');
+  });
+});
@@ -0,0 +1,255 @@
+import { v } from 'convex/values';
+import { Id } from '../_generated/dataModel';
+import {
+  DatabaseReader,
+  internalAction,
+  internalMutation,
+  internalQuery,
+} from '../_generated/server';
+import { internal } from '../_generated/api';
+import { EmbeddingConfig, fetchEmbeddingBatch, getLLMConfig } from '../util/llm';
+import { EmbeddingIndex, embeddingConfig, embeddingIndex } from './schema';
+import { trackLLMCall } from './llmCalls';
+import { EMBEDDING_MIGRATION_BATCH_SIZE } from '../constants';
+
+const selfInternal = internal.agent.embeddings;
+
+// Worlds created before we recorded their embedding model all used OpenAI-sized embeddings.
+const LEGACY_EMBEDDING_DIMENSION = 1536;
+
+// The embedding model new worlds (and migrations) use, from the LLM provider's config.
+export function defaultEmbeddingConfig(): EmbeddingConfig {
+  const { embeddingModel, embeddingDimension } = getLLMConfig();
+  // Fail early if we don't have a vector index for it.
+  embeddingIndex(embeddingDimension);
+  return { model: embeddingModel, dimension: embeddingDimension };
+}
+
+// Memories are searched in the world's current embedding space, but new ones are embedded
+// for wherever a migration is taking the world so they don't need migrating themselves.
+export async function loadEmbeddingConfig(
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+): Promise<{ search: EmbeddingConfig; write: EmbeddingConfig }> {
+  const worldStatus = await db
+    .query('worldStatus')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId))
+    .unique();
+  const search = worldStatus?.embedding ?? {
+    model: getLLMConfig().embeddingModel,
+    dimension: LEGACY_EMBEDDING_DIMENSION,
+  };
+  return { search, write: worldStatus?.embeddingMigration ?? search };
+}
+
+// Where a migration's got to in paging through the world's memories.
+const migrationPosition = {
+  cursor: v.union(v.string(), v.null()),
+};
+
+// Re-embed a world's memories with a new model, defaulting to the provider's current one:
+// npx convex run agent/embeddings:migrate '{"worldId": "..."}'
+// Searches keep using the old embeddings until every memory has been migrated.
+export const migrate = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    model: v.optional(v.string()),
+    dimension: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const worldStatus = await ctx.db
+      .query('worldStatus')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    if (!worldStatus) {
+      throw new Error(`Invalid world ID: ${args.worldId}`);
+    }
+    if (worldStatus.embeddingMigration) {
+      throw new Error(
+        `Already migrating to ${worldStatus.embeddingMigration.model}, run agent/embeddings:cancelMigration first`,
+      );
+    }
+    // Memories that don't know their world yet would be left behind.
+    const unassigned = await ctx.db
+      .query('memories')
+      .withIndex('playerId', (q) => q.eq('worldId', undefined))
+      .first();
+    if (unassigned) {
+      throw new Error(
+        'Some memories are missing their world, run agent/memory:backfillWorlds first',
+      );
+    }
+    const defaults = defaultEmbeddingConfig();
+    const target = {
+      model: args.model ?? defaults.model,
+      dimension: args.dimension ?? defaults.dimension,
+    };
+    embeddingIndex(target.dimension);
+    const { search } = await loadEmbeddingConfig(ctx.db, args.worldId);
+    if (search.model === target.model && search.dimension === target.dimension) {
+      throw new Error(`World ${args.worldId} already uses ${target.model}`);
+    }
+    await ctx.db.patch(worldStatus._id, { embeddingMigration: target });
+    console.log(`Migrating world ${args.worldId} from ${search.model} to ${target.model}`);
+    await ctx.scheduler.runAfter(0, selfInternal.migrateBatch, {
+      worldId: args.worldId,
+      cursor: null,
+    });
+  },
+});
+
+export const cancelMigration = internalMutation({
+  args: { worldId: v.id('worlds') },
+  handler: async (ctx, args) => {
+    const worldStatus = await ctx.db
+      .query('worldStatus')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    if (worldStatus?.embeddingMigration) {
+      await ctx.db.patch(worldStatus._id, { embeddingMigration: undefined });
+    }
+  },
+});
+
+export const migrateBatch = internalAction({
+  args: {
+    worldId: v.id('worlds'),
+    ...migrationPosition,
+  },
+  handler: async (ctx, args) => {
+    const batch = await ctx.runQuery(selfInternal.loadMigrationBatch, args);
+    if (!batch) {
+      console.log(`Migration for world ${args.worldId} was cancelled`);
+      return;
+    }
+    const { embeddings } =
+      batch.memories.length > 0
+        ? await trackLLMCall(
+            ctx,
+            {
+              worldId: args.worldId,
+              type: 'embedding',
+              kind: 'migration',
+              model: batch.target.model,
+            },
+            () =>
+              fetchEmbeddingBatch(
+                batch.memories.map((m) => m.description),
+                batch.target,
+              ),
+          )
+        : { embeddings: [] };
+    await ctx.runMutation(selfInternal.saveMigrationBatch, {
+      worldId: args.worldId,
+      target: batch.target,
+      embeddings: batch.memories.map((m, i) => ({
+        embeddingId: m.embeddingId,
+        embedding: embeddings[i],
+      })),
+      next: batch.next,
+    });
+  },
+});
+
+export const loadMigrationBatch = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    ...migrationPosition,
+  },
+  handler: async (ctx, args) => {
+    const { search, write } = await loadEmbeddingConfig(ctx.db, args.worldId);
+    // Without a migration in progress, we write to the same place we search.
+    if (write === search) {
+      return null;
+    }
+    const page = await ctx.db
+      .query('memories')
+      .withIndex('playerId', (q) => q.eq('worldId', args.worldId))
+      .paginate({ cursor: args.cursor, numItems: EMBEDDING_MIGRATION_BATCH_SIZE });
+    return {
+      target: write,
+      memories: page.page.map(({ embeddingId, description }) => ({ embeddingId, description })),
+      next: page.isDone ? null : { cursor: page.continueCursor },
+    };
+  },
+});
+
+export const saveMigrationBatch = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    target: v.object(embeddingConfig),
+    embeddings: v.array(
+      v.object({ embeddingId: v.id('memoryEmbeddings'), embedding: v.array(v.float64()) }),
+    ),
+    next: v.union(v.object(migrationPosition), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const worldStatus = await ctx.db
+      .query('worldStatus')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    const migration = worldStatus?.embeddingMigration;
+    // Drop the batch if the migration was cancelled (or restarted) while we were embedding.
+    if (
+      !worldStatus ||
+      migration?.model !== args.target.model ||
+      migration.dimension !== args.target.dimension
+    ) {
+      return;
+    }
+    const index = embeddingIndex(args.target.dimension);
+    for (const { embeddingId, embedding } of args.embeddings) {
+      // The memory may have been vacuumed in the meantime.
+      if (await ctx.db.get(embeddingId)) {
+        await ctx.db.patch(embeddingId, { [index]: embedding });
+      }
+    }
+    if (args.next) {
+      await ctx.scheduler.runAfter(0, selfInternal.migrateBatch, {
+        worldId: args.worldId,
+        ...args.next,
+      });
+      return;
+    }
+    const { search } = await loadEmbeddingConfig(ctx.db, args.worldId);
+    await ctx.db.patch(worldStatus._id, { embedding: migration, embeddingMigration: undefined });
+    console.log(`Finished migrating world ${args.worldId} to ${migration.model}`);
+    const oldIndex = embeddingIndex(search.dimension);
+    if (oldIndex !== index) {
+      await ctx.scheduler.runAfter(0, selfInternal.clearEmbeddings, {
+        worldId: args.worldId,
+        index: oldIndex,
+        cursor: null,
+      });
+    }
+  },
+});
+
+// Free up the old embeddings once the world has switched to its new index.
+export const clearEmbeddings = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    index: v.union(v.literal('embedding'), v.literal('embedding1024'), v.literal('embedding768')),
+    ...migrationPosition,
+  },
+  handler: async (ctx, args) => {
+    const index: EmbeddingIndex = args.index;
+    const page = await ctx.db
+      .query('memories')
+      .withIndex('playerId', (q) => q.eq('worldId', args.worldId))
+      .paginate({ cursor: args.cursor, numItems: EMBEDDING_MIGRATION_BATCH_SIZE });
+    for (const memory of page.page) {
+      const embedding = await ctx.db.get(memory.embeddingId);
+      if (embedding?.[index]) {
+        await ctx.db.patch(embedding._id, { [index]: undefined });
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, selfInternal.clearEmbeddings, {
+        worldId: args.worldId,
+        index: args.index,
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
@@ -2,19 +2,33 @@ import { v } from 'convex/values';
 import { ActionCtx, internalMutation, internalQuery } from '../_generated/server';
 import { internal } from '../_generated/api';
 import { Id } from '../_generated/dataModel';
-import { fetchEmbeddingBatch } from '../util/llm';
+import { EmbeddingConfig, fetchEmbeddingBatch } from '../util/llm';
+import { LLMCall, trackLLMCall } from './llmCalls';
 
 const selfInternal = internal.agent.embeddingsCache;
 
-export async function fetch(ctx: ActionCtx, text: string) {
-  const result = await fetchBatch(ctx, [text]);
+export async function fetch(
+  ctx: ActionCtx,
+  call: LLMCall,
+  text: string,
+  embedding: EmbeddingConfig,
+) {
+  const result = await fetchBatch(ctx, call, [text], embedding);
   return result.embeddings[0];
 }
 
-export async function fetchBatch(ctx: ActionCtx, texts: string[]) {
+export async function fetchBatch(
+  ctx: ActionCtx,
+  call: LLMCall,
+  texts: string[],
+  embedding: EmbeddingConfig,
+) {
   const start = Date.now();
 
-  const textHashes = await Promise.all(texts.map((text) => hashText(text)));
+  // Worlds can use different embedding models, so cache each model's embeddings separately.
+  const textHashes = await Promise.all(
+    texts.map((text) => hashText(`${embedding.model}:${embedding.dimension}:${text}`)),
+  );
   const results = new Array<number[]>(texts.length);
   const cacheResults = await ctx.runQuery(selfInternal.getEmbeddingsByText, {
     textHashes,
@@ -26,7 +40,11 @@ export async function fetchBatch(ctx: ActionCtx, texts: string[]) {
   if (cacheResults.length < texts.length) {
     const missingIndexes = [...results.keys()].filter((i) => !results[i]);
     const missingTexts = missingIndexes.map((i) => texts[i]);
-    const response = await fetchEmbeddingBatch(missingTexts);
+    const response = await trackLLMCall(
+      ctx,
+      { ...call, type: 'embedding', model: embedding.model },
+      () => fetchEmbeddingBatch(missingTexts, embedding),
+    );
     if (response.embeddings.length !== missingIndexes.length) {
       throw new Error(
         `Expected ${missingIndexes.length} embeddings, got ${response.embeddings.length}`,
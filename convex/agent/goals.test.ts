@@ -0,0 +1,54 @@
+import { parseGoalChanges } from './goals';
+
+const people = [
+  { id: 'p:1', name: 'Bob' },
+  { id: 'p:2', name: 'Alice' },
+];
+const zones = ['Cafe', 'Library'];
+
+describe('parseGoalChanges', () => {
+  test('should finish existing goals and add new ones', () => {
+    const raw = `Here's how my goals changed:
+[
+  {"goalId": 1, "status": "achieved", "reason": "Bob forgave me."},
+  {"goal": "I want to read every book about the sea.", "person": null, "place": "library", "reason": "I love the sea."}
+]`;
+    expect(parseGoalChanges(raw, 2, people, zones)).toEqual({
+      finished: [{ index: 1, status: 'achieved', reason: 'Bob forgave me.' }],
+      added: [
+        {
+          description: 'I want to read every book about the sea.',
+          playerIds: [],
+          zone: 'Library',
+          reason: 'I love the sea.',
+        },
+      ],
+    });
+  });
+
+  test('should match the people goals involve by name', () => {
+    const raw = '[{"goal": "I want to ask Alice out.", "person": "alice", "place": "the moon"}]';
+    expect(parseGoalChanges(raw, 0, people, zones)?.added).toEqual([
+      { description: 'I want to ask Alice out.', playerIds: ['p:2'], zone: undefined },
+    ]);
+  });
+
+  test('should skip changes to goals that do not exist', () => {
+    const raw = `[
+      {"goalId": 3, "status": "achieved"},
+      {"goalId": 0, "status": "forgotten"},
+      {"goalId": 0, "status": "abandoned"},
+      {"goalId": "0", "status": "achieved"},
+      {"goal": "  "}
+    ]`;
+    expect(parseGoalChanges(raw, 1, people, zones)).toEqual({
+      finished: [{ index: 0, status: 'abandoned', reason: undefined }],
+      added: [],
+    });
+  });
+
+  test('should accept no changes, but not a response without any JSON', () => {
+    expect(parseGoalChanges('[]', 2, people, zones)).toEqual({ finished: [], added: [] });
+    expect(parseGoalChanges('My goals are fine as they are.', 2, people, zones)).toBeNull();
+  });
+});
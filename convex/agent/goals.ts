@@ -0,0 +1,260 @@
+import { v } from 'convex/values';
+import { ActionCtx, DatabaseReader, internalMutation, internalQuery } from '../_generated/server';
+import { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import { chatCompletion } from '../util/llm';
+import { GameId, agentId, playerId } from '../aiTown/ids';
+import { trackLLMCall } from './llmCalls';
+import { withinLLMBudget } from './llmBudget';
+import { parseJsonArray } from './reflection';
+import { MAX_ACTIVE_GOALS } from '../constants';
+
+const selfInternal = internal.agent.goals;
+
+export type Goal = Doc<'goals'>;
+
+export type GoalChanges = {
+  // Indexes into the agent's active goals.
+  finished: { index: number; status: 'achieved' | 'abandoned'; reason?: string }[];
+  added: { description: string; playerIds: string[]; zone?: string; reason?: string }[];
+};
+
+// Have the agent mark off the goals it's achieved or given up on, and set new ones, in light
+// of what it's just realized by reflecting. Agents without goals yet set their first ones
+// from their plan.
+export async function reviseGoals(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  agentId: GameId<'agents'>,
+  playerId: GameId<'players'>,
+  realized: string[],
+) {
+  if (!(await withinLLMBudget(ctx, worldId, agentId))) {
+    return;
+  }
+  const { name, identity, plan, goals, people, zones } = await ctx.runQuery(
+    selfInternal.loadGoalData,
+    { worldId, agentId, playerId },
+  );
+  const names = new Map(people.map((p) => [p.id, p.name]));
+  const prompt = [`You are ${name}.`, `About you: ${identity}`, `What you want: ${plan}`];
+  if (goals.length > 0) {
+    prompt.push('Your current goals:');
+    for (const [idx, goal] of goals.entries()) {
+      const involved = goal.playerIds.map((id) => names.get(id)).filter((n) => n !== undefined);
+      prompt.push(
+        `Goal ${idx}: ${goal.description}` +
+          (involved.length > 0 ? ` (with ${involved.join(', ')})` : '') +
+          (goal.zone ? ` (at the ${goal.zone})` : ''),
+      );
+    }
+  } else {
+    prompt.push("You don't have any goals yet.");
+  }
+  prompt.push("You've just realized:", ...realized.map((r) => ` - ${r}`));
+  if (people.length > 0) {
+    prompt.push(`People in town: ${people.map((p) => p.name).join(', ')}`);
+  }
+  if (zones.length > 0) {
+    prompt.push(`Places in town: ${zones.join(', ')}`);
+  }
+  prompt.push(
+    `Revise your goals in light of what you've realized: mark the ones you've achieved or given up on, and set new ones, working towards at most ${MAX_ACTIVE_GOALS} at once.`,
+    'Respond with only a JSON array, with an object for each change. To finish a goal, use the keys "goalId" (its number), "status" ("achieved" or "abandoned") and "reason". To set a new one, use the keys "goal" (the goal, in a sentence, using first-person pronouns like "I"), "person" (the name of someone you need to talk to for it, or null), "place" (where you need to go for it, or null) and "reason".',
+    "If your goals don't need to change, respond with an empty array.",
+    'Example: [{"goalId": 0, "status": "achieved", "reason": "..."}, {"goal": "...", "person": null, "place": null, "reason": "..."}]',
+  );
+  const { content } = await trackLLMCall(
+    ctx,
+    { worldId, agentId, type: 'chat', kind: 'goals' },
+    () =>
+      chatCompletion({
+        messages: [{ role: 'user', content: prompt.join('\n') }],
+        max_tokens: 400,
+      }),
+  );
+  const changes = parseGoalChanges(content, goals.length, people, zones);
+  if (!changes) {
+    console.debug(`Couldn't parse goal changes for ${playerId} from: ${content}`);
+    return;
+  }
+  if (changes.finished.length === 0 && changes.added.length === 0) {
+    return;
+  }
+  await ctx.runMutation(selfInternal.saveGoalChanges, {
+    worldId,
+    playerId,
+    finished: changes.finished.map(({ index, ...rest }) => ({ goalId: goals[index]._id, ...rest })),
+    added: changes.added,
+  });
+}
+
+// Validate the LLM's changes to the agent's goals, matching the people and places they
+// involve by name. Returns null if the response isn't a JSON array at all.
+export function parseGoalChanges(
+  raw: string,
+  goalCount: number,
+  people: { id: string; name: string }[],
+  zones: string[],
+): GoalChanges | null {
+  const parsed = parseJsonArray(raw);
+  if (!parsed) {
+    return null;
+  }
+  const changes: GoalChanges = { finished: [], added: [] };
+  for (const item of parsed) {
+    if (typeof item !== 'object' || item === null) {
+      continue;
+    }
+    const { goalId, status, goal, person, place, reason } = item as Record<string, unknown>;
+    const why = typeof reason === 'string' && reason.trim() ? reason.trim() : undefined;
+    if (goalId !== undefined && goalId !== null) {
+      const index = Number(goalId);
+      if (
+        Number.isInteger(index) &&
+        index >= 0 &&
+        index < goalCount &&
+        (status === 'achieved' || status === 'abandoned') &&
+        !changes.finished.some((f) => f.index === index)
+      ) {
+        changes.finished.push({ index, status, reason: why });
+      }
+      continue;
+    }
+    if (typeof goal !== 'string' || !goal.trim()) {
+      continue;
+    }
+    const other =
+      typeof person === 'string'
+        ? people.find((p) => p.name.toLowerCase() === person.trim().toLowerCase())
+        : undefined;
+    const zone =
+      typeof place === 'string'
+        ? zones.find((z) => z.toLowerCase() === place.trim().toLowerCase())
+        : undefined;
+    changes.added.push({
+      description: goal.trim(),
+      playerIds: other ? [other.id] : [],
+      zone,
+      reason: why,
+    });
+  }
+  return changes;
+}
+
+// The goals an agent's working towards, oldest first. The oldest is its current goal.
+export async function loadActiveGoals(db: DatabaseReader, worldId: Id<'worlds'>, playerId: string) {
+  return await db
+    .query('goals')
+    .withIndex('playerId', (q) =>
+      q.eq('worldId', worldId).eq('playerId', playerId).eq('status', 'active'),
+    )
+    .take(MAX_ACTIVE_GOALS);
+}
+
+export const loadCurrentGoal = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+  },
+  handler: async (ctx, args) => {
+    const [goal] = await loadActiveGoals(ctx.db, args.worldId, args.playerId);
+    return goal ?? null;
+  },
+});
+
+export const loadGoalData = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    agentId,
+    playerId,
+  },
+  handler: async (ctx, args) => {
+    const world = await ctx.db.get(args.worldId);
+    if (!world) {
+      throw new Error(`World ${args.worldId} not found`);
+    }
+    const playerDescription = await ctx.db
+      .query('playerDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .first();
+    if (!playerDescription) {
+      throw new Error(`Player description for ${args.playerId} not found`);
+    }
+    const agentDescription = await ctx.db
+      .query('agentDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('agentId', args.agentId))
+      .first();
+    if (!agentDescription) {
+      throw new Error(`Agent description for ${args.agentId} not found`);
+    }
+    const people = [];
+    for (const player of world.players) {
+      if (player.id === args.playerId) {
+        continue;
+      }
+      const description = await ctx.db
+        .query('playerDescriptions')
+        .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', player.id))
+        .first();
+      if (description) {
+        people.push({ id: player.id, name: description.name });
+      }
+    }
+    const map = await ctx.db
+      .query('maps')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    return {
+      name: playerDescription.name,
+      identity: agentDescription.identity,
+      plan: agentDescription.plan,
+      goals: await loadActiveGoals(ctx.db, args.worldId, args.playerId),
+      people,
+      zones: map?.zones?.map((z) => z.name) ?? [],
+    };
+  },
+});
+
+// Finish goals that are still active, and add new ones while there's room for them.
+export const saveGoalChanges = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    finished: v.array(
+      v.object({
+        goalId: v.id('goals'),
+        status: v.union(v.literal('achieved'), v.literal('abandoned')),
+        reason: v.optional(v.string()),
+      }),
+    ),
+    added: v.array(
+      v.object({
+        description: v.string(),
+        playerIds: v.array(playerId),
+        zone: v.optional(v.string()),
+        reason: v.optional(v.string()),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const lastUpdated = Date.now();
+    for (const { goalId, status, reason } of args.finished) {
+      const goal = await ctx.db.get(goalId);
+      if (!goal || goal.playerId !== args.playerId || goal.status !== 'active') {
+        continue;
+      }
+      await ctx.db.patch(goalId, { status, reason, lastUpdated });
+    }
+    const active = await loadActiveGoals(ctx.db, args.worldId, args.playerId);
+    for (const goal of args.added.slice(0, MAX_ACTIVE_GOALS - active.length)) {
+      await ctx.db.insert('goals', {
+        worldId: args.worldId,
+        playerId: args.playerId,
+        status: 'active',
+        ...goal,
+        lastUpdated,
+      });
+    }
+  },
+});
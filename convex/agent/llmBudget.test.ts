@@ -0,0 +1,59 @@
+import { exhaustedLLMBudget, windowStart } from './llmBudget';
+
+describe('exhaustedLLMBudget', () => {
+  const budget = {
+    worldTokensPerHour: 10_000,
+    agentTokensPerHour: 2_000,
+    worldCallsPerMinute: 20,
+    agentCallsPerMinute: 5,
+  };
+  const spend = { callsThisMinute: 0, tokensThisHour: 0 };
+
+  test('should allow calls within every budget', () => {
+    expect(exhaustedLLMBudget(budget, spend, spend)).toBeNull();
+    expect(
+      exhaustedLLMBudget(
+        budget,
+        { callsThisMinute: 19, tokensThisHour: 9_999 },
+        { callsThisMinute: 4, tokensThisHour: 1_999 },
+      ),
+    ).toBeNull();
+  });
+
+  test("should stop the world's agents once the world runs out", () => {
+    expect(exhaustedLLMBudget(budget, { ...spend, callsThisMinute: 20 }, spend)).toBe(
+      "the world's calls per minute",
+    );
+    expect(exhaustedLLMBudget(budget, { ...spend, tokensThisHour: 12_000 })).toBe(
+      "the world's tokens per hour",
+    );
+  });
+
+  test('should stop an agent once it runs out', () => {
+    expect(exhaustedLLMBudget(budget, spend, { ...spend, callsThisMinute: 5 })).toBe(
+      "the agent's calls per minute",
+    );
+    expect(exhaustedLLMBudget(budget, spend, { ...spend, tokensThisHour: 2_000 })).toBe(
+      "the agent's tokens per hour",
+    );
+  });
+
+  test('should treat limits of 0 as no limit', () => {
+    const unlimited = {
+      worldTokensPerHour: 0,
+      agentTokensPerHour: 0,
+      worldCallsPerMinute: 0,
+      agentCallsPerMinute: 0,
+    };
+    const busy = { callsThisMinute: 1_000, tokensThisHour: 1_000_000 };
+    expect(exhaustedLLMBudget(unlimited, busy, busy)).toBeNull();
+  });
+});
+
+describe('windowStart', () => {
+  test('should round down to the clock minute and hour', () => {
+    const ts = Date.UTC(2024, 0, 1, 10, 42, 17, 500);
+    expect(windowStart('minute', ts)).toBe(Date.UTC(2024, 0, 1, 10, 42));
+    expect(windowStart('hour', ts)).toBe(Date.UTC(2024, 0, 1, 10));
+  });
+});
@@ -0,0 +1,151 @@
+import { v } from 'convex/values';
+import { ActionCtx, DatabaseReader, MutationCtx, internalQuery } from '../_generated/server';
+import { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import { GameId, agentId } from '../aiTown/ids';
+import { WorldConfig, loadWorldConfig } from '../aiTown/worldConfig';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// How many rows for past windows to clear out each time a call is recorded.
+const CLEAR_BATCH_SIZE = 16;
+
+type SpendWindow = Doc<'llmSpend'>['window'];
+
+export type LLMSpend = {
+  callsThisMinute: number;
+  tokensThisHour: number;
+};
+
+export type LLMBudget = Pick<
+  WorldConfig,
+  'worldTokensPerHour' | 'agentTokensPerHour' | 'worldCallsPerMinute' | 'agentCallsPerMinute'
+>;
+
+export function windowStart(window: SpendWindow, ts: number) {
+  const length = window === 'minute' ? MINUTE : HOUR;
+  return ts - (ts % length);
+}
+
+// Add a call to its world's spend, and its agent's, for the current minute and hour.
+export async function recordLLMSpend(
+  ctx: MutationCtx,
+  worldId: Id<'worlds'>,
+  agentId: string | undefined,
+  tokens: number,
+  now: number,
+) {
+  const owners = agentId !== undefined ? [undefined, agentId] : [undefined];
+  for (const window of ['minute', 'hour'] as const) {
+    const start = windowStart(window, now);
+    for (const owner of owners) {
+      const spend = await ctx.db
+        .query('llmSpend')
+        .withIndex('worldId', (q) =>
+          q.eq('worldId', worldId).eq('window', window).eq('start', start).eq('agentId', owner),
+        )
+        .unique();
+      if (spend) {
+        await ctx.db.patch(spend._id, { calls: spend.calls + 1, tokens: spend.tokens + tokens });
+      } else {
+        await ctx.db.insert('llmSpend', {
+          worldId,
+          agentId: owner,
+          window,
+          start,
+          calls: 1,
+          tokens,
+        });
+      }
+    }
+    const stale = await ctx.db
+      .query('llmSpend')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId).eq('window', window).lt('start', start))
+      .take(CLEAR_BATCH_SIZE);
+    for (const row of stale) {
+      await ctx.db.delete(row._id);
+    }
+  }
+}
+
+// What a world, and each of its agents that made calls, has spent so far this minute and hour.
+export async function loadLLMSpend(db: DatabaseReader, worldId: Id<'worlds'>, now: number) {
+  const world: LLMSpend = { callsThisMinute: 0, tokensThisHour: 0 };
+  const agents = new Map<string, LLMSpend>();
+  const spendOf = (agentId?: string) => {
+    if (agentId === undefined) {
+      return world;
+    }
+    let spend = agents.get(agentId);
+    if (!spend) {
+      spend = { callsThisMinute: 0, tokensThisHour: 0 };
+      agents.set(agentId, spend);
+    }
+    return spend;
+  };
+  for (const window of ['minute', 'hour'] as const) {
+    const rows = await db
+      .query('llmSpend')
+      .withIndex('worldId', (q) =>
+        q.eq('worldId', worldId).eq('window', window).eq('start', windowStart(window, now)),
+      )
+      .collect();
+    for (const row of rows) {
+      if (window === 'minute') {
+        spendOf(row.agentId).callsThisMinute = row.calls;
+      } else {
+        spendOf(row.agentId).tokensThisHour = row.tokens;
+      }
+    }
+  }
+  return { world, agents };
+}
+
+// Which budget, if any, a world or its agent has used up. Limits of 0 don't apply.
+export function exhaustedLLMBudget(budget: LLMBudget, world: LLMSpend, agent?: LLMSpend) {
+  const over = (used: number, limit: number) => limit > 0 && used >= limit;
+  if (over(world.callsThisMinute, budget.worldCallsPerMinute)) {
+    return "the world's calls per minute";
+  }
+  if (over(world.tokensThisHour, budget.worldTokensPerHour)) {
+    return "the world's tokens per hour";
+  }
+  if (agent && over(agent.callsThisMinute, budget.agentCallsPerMinute)) {
+    return "the agent's calls per minute";
+  }
+  if (agent && over(agent.tokensThisHour, budget.agentTokensPerHour)) {
+    return "the agent's tokens per hour";
+  }
+  return null;
+}
+
+export const checkLLMBudget = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    agentId,
+  },
+  handler: async (ctx, args) => {
+    const config = await loadWorldConfig(ctx.db, args.worldId);
+    const { world, agents } = await loadLLMSpend(ctx.db, args.worldId, Date.now());
+    return exhaustedLLMBudget(config, world, agents.get(args.agentId));
+  },
+});
+
+// Whether an agent can make another LLM call within its world's budgets. Agents that can't
+// should fall back to something that doesn't need the LLM rather than fail.
+export async function withinLLMBudget(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  agentId: GameId<'agents'>,
+) {
+  const exhausted = await ctx.runQuery(internal.agent.llmBudget.checkLLMBudget, {
+    worldId,
+    agentId,
+  });
+  if (exhausted) {
+    console.log(`Agent ${agentId} has used up ${exhausted}, skipping the LLM.`);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,69 @@
+import { groupLLMUsage, summarizeLLMCalls } from './llmCalls';
+
+describe('summarizeLLMCalls', () => {
+  test('should summarize latency, retries and errors', () => {
+    const calls = [
+      { ms: 400, retries: 0 },
+      { ms: 100, retries: 0 },
+      { ms: 300, retries: 2 },
+      { ms: 200, retries: 1, error: 'Chat completion failed with code 500' },
+    ];
+    expect(summarizeLLMCalls(calls)).toEqual({
+      calls: 4,
+      errors: 1,
+      retries: 3,
+      p50: 300,
+      p95: 400,
+      max: 400,
+    });
+  });
+
+  test('should handle no calls', () => {
+    expect(summarizeLLMCalls([])).toEqual({
+      calls: 0,
+      errors: 0,
+      retries: 0,
+      p50: 0,
+      p95: 0,
+      max: 0,
+    });
+  });
+});
+
+describe('groupLLMUsage', () => {
+  const row = {
+    day: 0,
+    type: 'chat' as const,
+    kind: 'start' as const,
+    model: 'gpt-4o-mini',
+    calls: 1,
+    errors: 0,
+    retries: 0,
+    ms: 100,
+    promptTokens: 1_000_000,
+    completionTokens: 0,
+  };
+
+  test('should add up usage and cost per key, most expensive first', () => {
+    const groups = groupLLMUsage(
+      [
+        { ...row, agentId: 'a:1' },
+        { ...row, agentId: 'a:2', kind: 'leave', completionTokens: 1_000_000 },
+        { ...row, agentId: 'a:1', kind: 'reflection', errors: 1 },
+      ],
+      (r) => r.agentId,
+    );
+    expect(groups.map((g) => [g.key, g.calls, g.errors, g.promptTokens])).toEqual([
+      ['a:2', 1, 0, 1_000_000],
+      ['a:1', 2, 1, 2_000_000],
+    ]);
+    expect(groups[0].cost).toBeCloseTo(0.75);
+    expect(groups[1].cost).toBeCloseTo(0.3);
+  });
+
+  test('should count models without a price as free', () => {
+    const [group] = groupLLMUsage([{ ...row, model: 'llama3' }], (r) => r.day);
+    expect(group.cost).toBe(0);
+    expect(group.promptTokens).toBe(1_000_000);
+  });
+});
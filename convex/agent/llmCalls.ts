@@ -0,0 +1,177 @@
+import { Infer } from 'convex/values';
+import { ActionCtx, internalMutation } from '../_generated/server';
+import { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import { LLMUsage, getLLMConfig, retriesBeforeError } from '../util/llm';
+import { GameId } from '../aiTown/ids';
+import { llmCallFields, llmCallKind } from './schema';
+import { recordLLMSpend } from './llmBudget';
+
+// How many of a world's latest calls the admin dashboard summarizes.
+export const RECENT_LLM_CALLS = 100;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Prices in USD per million prompt and completion tokens, for estimating what calls cost.
+// Models that aren't listed, like local Ollama ones, count as free.
+const MODEL_PRICES: Record<string, { prompt: number; completion: number }> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'text-embedding-ada-002': { prompt: 0.1, completion: 0 },
+  'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+  'text-embedding-3-large': { prompt: 0.13, completion: 0 },
+  'meta-llama/Llama-3-8b-chat-hf': { prompt: 0.2, completion: 0.2 },
+  'togethercomputer/m2-bert-80M-8k-retrieval': { prompt: 0.008, completion: 0 },
+};
+
+export type LLMCallType = Doc<'llmCalls'>['type'];
+export type LLMCallKind = Infer<typeof llmCallKind>;
+
+// Who and what a call is for, to account for it.
+export type LLMCall = {
+  worldId?: Id<'worlds'>;
+  agentId?: GameId<'agents'>;
+  kind: LLMCallKind;
+};
+
+// Run a chat completion or embedding call, recording how long it took, the tokens it used
+// and whether it failed. Errors are recorded and then rethrown.
+export async function trackLLMCall<T extends { retries?: number; usage?: LLMUsage }>(
+  ctx: ActionCtx,
+  call: LLMCall & { type: LLMCallType; model?: string },
+  fetch: () => Promise<T>,
+): Promise<T> {
+  const config = getLLMConfig();
+  const model = call.model ?? (call.type === 'chat' ? config.chatModel : config.embeddingModel);
+  const start = Date.now();
+  const record = (fields: { retries: number; usage?: LLMUsage; error?: string }) =>
+    ctx.runMutation(internal.agent.llmCalls.insertLLMCall, {
+      worldId: call.worldId,
+      agentId: call.agentId,
+      type: call.type,
+      kind: call.kind,
+      provider: config.provider,
+      model,
+      promptTokens: fields.usage?.promptTokens,
+      completionTokens: fields.usage?.completionTokens,
+      ms: Date.now() - start,
+      retries: fields.retries,
+      error: fields.error,
+    });
+  try {
+    const result = await fetch();
+    await record({ retries: result.retries ?? 0, usage: result.usage });
+    return result;
+  } catch (e) {
+    await record({
+      retries: retriesBeforeError(e),
+      error: e instanceof Error ? e.message : String(e),
+    });
+    throw e;
+  }
+}
+
+// Record a call, adding it to its day's totals and its world's budgets too.
+export const insertLLMCall = internalMutation({
+  args: llmCallFields,
+  handler: async (ctx, args) => {
+    await ctx.db.insert('llmCalls', args);
+    const { worldId, agentId, kind, type, model } = args;
+    const now = Date.now();
+    if (worldId) {
+      const tokens = (args.promptTokens ?? 0) + (args.completionTokens ?? 0);
+      await recordLLMSpend(ctx, worldId, agentId, tokens, now);
+    }
+    const day = startOfDay(now);
+    const usage = await ctx.db
+      .query('llmUsage')
+      .withIndex('day', (q) =>
+        q
+          .eq('day', day)
+          .eq('worldId', worldId)
+          .eq('agentId', agentId)
+          .eq('kind', kind)
+          .eq('type', type)
+          .eq('model', model),
+      )
+      .unique();
+    const totals = {
+      calls: 1,
+      errors: args.error !== undefined ? 1 : 0,
+      retries: args.retries,
+      ms: args.ms,
+      promptTokens: args.promptTokens ?? 0,
+      completionTokens: args.completionTokens ?? 0,
+    };
+    if (!usage) {
+      await ctx.db.insert('llmUsage', { worldId, day, agentId, kind, type, model, ...totals });
+      return;
+    }
+    await ctx.db.patch(usage._id, {
+      calls: usage.calls + totals.calls,
+      errors: usage.errors + totals.errors,
+      retries: usage.retries + totals.retries,
+      ms: usage.ms + totals.ms,
+      promptTokens: usage.promptTokens + totals.promptTokens,
+      completionTokens: usage.completionTokens + totals.completionTokens,
+    });
+  },
+});
+
+export function startOfDay(ts: number) {
+  return ts - (ts % DAY);
+}
+
+export function llmCost(model: string, promptTokens: number, completionTokens: number) {
+  const price = MODEL_PRICES[model];
+  if (!price) {
+    return 0;
+  }
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
+
+export function summarizeLLMCalls(calls: Pick<Doc<'llmCalls'>, 'ms' | 'retries' | 'error'>[]) {
+  const latencies = calls.map((c) => c.ms).sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    latencies.length
+      ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * p))]
+      : 0;
+  return {
+    calls: calls.length,
+    errors: calls.filter((c) => c.error !== undefined).length,
+    retries: calls.reduce((sum, c) => sum + c.retries, 0),
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    max: latencies[latencies.length - 1] ?? 0,
+  };
+}
+
+type LLMUsageRow = Omit<Doc<'llmUsage'>, '_id' | '_creationTime'>;
+
+// Add up `llmUsage` rows by whatever `keyOf` picks out, like their day or agent, with the
+// most expensive groups first.
+export function groupLLMUsage<K>(rows: LLMUsageRow[], keyOf: (row: LLMUsageRow) => K) {
+  const groups = new Map<K, ReturnType<typeof emptyTotals>>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    let totals = groups.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      groups.set(key, totals);
+    }
+    totals.calls += row.calls;
+    totals.errors += row.errors;
+    totals.retries += row.retries;
+    totals.ms += row.ms;
+    totals.promptTokens += row.promptTokens;
+    totals.completionTokens += row.completionTokens;
+    totals.cost += llmCost(row.model, row.promptTokens, row.completionTokens);
+  }
+  return [...groups.entries()]
+    .map(([key, totals]) => ({ key, ...totals }))
+    .sort((a, b) => b.cost - a.cost || b.promptTokens - a.promptTokens);
+}
+
+function emptyTotals() {
+  return { calls: 0, errors: 0, retries: 0, ms: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
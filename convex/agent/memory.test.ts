@@ -0,0 +1,88 @@
+import { Memory, keywordQuery, scoreMemories } from './memory';
+import { DEFAULT_MEMORY_WEIGHTS } from '../constants';
+
+const HOUR = 60 * 60 * 1000;
+const now = 1_000 * HOUR;
+
+function memory(id: string, importance: number, lastAccess: number): Memory {
+  return {
+    _id: id,
+    _creationTime: 0,
+    playerId: 'p:1',
+    description: id,
+    embeddingId: `e${id}`,
+    importance,
+    lastAccess,
+    data: { type: 'note' },
+  } as unknown as Memory;
+}
+
+describe('keywordQuery', () => {
+  test('should keep the words worth searching for', () => {
+    expect(keywordQuery('What do you think about Bob? He mentioned the BAKERY, the bakery!')).toBe(
+      'think bob mentioned bakery',
+    );
+  });
+
+  test('should stop at the most terms a search looks at', () => {
+    const words = Array.from({ length: 20 }, (_, i) => `word${i}`);
+    expect(keywordQuery(words.join(' ')).split(' ')).toHaveLength(16);
+  });
+
+  test('should be empty without any words worth searching for', () => {
+    expect(keywordQuery('Are you there?')).toBe('');
+  });
+});
+
+describe('scoreMemories', () => {
+  test('should rank by the weighted sum of scores', () => {
+    const ranked = scoreMemories(
+      [
+        { memory: memory('a', 1, now), similarity: 0.9 },
+        { memory: memory('b', 9, now - 100 * HOUR), similarity: 0.5, keywordRank: 0 },
+      ],
+      DEFAULT_MEMORY_WEIGHTS,
+      now,
+    );
+    expect(ranked.map((r) => r.memory._id)).toEqual(['a', 'b']);
+    expect(ranked[0].scores).toEqual({ relevance: 1, keyword: 0, importance: 0, recency: 1 });
+    expect(ranked[1].scores).toEqual({ relevance: 0, keyword: 1, importance: 1, recency: 0 });
+    expect(ranked[0].overallScore).toBe(2);
+  });
+
+  test('should let the weights change the ranking', () => {
+    const ranked = scoreMemories(
+      [
+        { memory: memory('a', 1, now), similarity: 0.9 },
+        { memory: memory('b', 9, now - 100 * HOUR), similarity: 0.5, keywordRank: 0 },
+      ],
+      { ...DEFAULT_MEMORY_WEIGHTS, keyword: 3 },
+      now,
+    );
+    expect(ranked.map((r) => r.memory._id)).toEqual(['b', 'a']);
+  });
+
+  test('should score keyword matches by rank', () => {
+    const ranked = scoreMemories(
+      [
+        { memory: memory('a', 5, now), similarity: 0.5, keywordRank: 1 },
+        { memory: memory('b', 5, now), similarity: 0.5, keywordRank: 0 },
+      ],
+      DEFAULT_MEMORY_WEIGHTS,
+      now,
+    );
+    expect(ranked.map((r) => [r.memory._id, r.scores?.keyword])).toEqual([
+      ['b', 1],
+      ['a', 0.5],
+    ]);
+  });
+
+  test('should give a lone candidate full marks', () => {
+    const [only] = scoreMemories(
+      [{ memory: memory('a', 3, now - HOUR), similarity: 0.2 }],
+      DEFAULT_MEMORY_WEIGHTS,
+      now,
+    );
+    expect(only.scores).toEqual({ relevance: 1, keyword: 0, importance: 1, recency: 1 });
+  });
+});
@@ -1,4 +1,4 @@
-import { v } from 'convex/values';
+import { ObjectType, v } from 'convex/values';
 import { ActionCtx, DatabaseReader, internalMutation, internalQuery } from '../_generated/server';
 import { Doc, Id } from '../_generated/dataModel';
 import { internal } from '../_generated/api';
@@ -6,13 +6,27 @@ import { LLMMessage, chatCompletion, fetchEmbedding } from '../util/llm';
 import { asyncMap } from '../util/asyncMap';
 import { GameId, agentId, conversationId, playerId } from '../aiTown/ids';
 import { SerializedPlayer } from '../aiTown/player';
-import { memoryFields } from './schema';
+import {
+  embeddingIndex,
+  memoryEmbedding,
+  memoryFields,
+  memoryWeightFields,
+  worldPlayerKey,
+} from './schema';
+import { LLMCall, trackLLMCall } from './llmCalls';
+import { withinLLMBudget } from './llmBudget';
+import { loadEmbeddingConfig } from './embeddings';
+import { addressee, joinNames } from './conversation';
+import { updateRelationships } from './relationships';
+import { DEFAULT_MEMORY_WEIGHTS, MAX_PINNED_MEMORIES } from '../constants';
 
 // How long to wait before updating a memory's last access time.
 export const MEMORY_ACCESS_THROTTLE = 300_000; // In ms
-// We fetch 10x the number of memories by relevance, to have more candidates
-// for sorting by relevance + recency + importance.
+// We fetch 10x the number of memories by relevance, and as many by keyword, to have more
+// candidates for sorting by relevance + keywords + recency + importance.
 const MEMORY_OVERFETCH = 10;
+// How many memories `backfillWorlds` fills in at a time.
+const BACKFILL_BATCH_SIZE = 128;
 const selfInternal = internal.agent.memory;
 
 export type Memory = Doc<'memories'>;
@@ -33,43 +47,61 @@ export async function rememberConversation(
     playerId,
     conversationId,
   });
-  const { player, otherPlayer } = data;
+  const { player, otherPlayers } = data;
   const messages = await ctx.runQuery(selfInternal.loadMessages, { worldId, conversationId });
   if (!messages.length) {
     return;
   }
+  if (!(await withinLLMBudget(ctx, worldId, agentId))) {
+    return;
+  }
 
+  const otherNames = joinNames(otherPlayers);
   const llmMessages: LLMMessage[] = [
     {
       role: 'user',
-      content: `You are ${player.name}, and you just finished a conversation with ${otherPlayer.name}. I would
+      content: `You are ${player.name}, and you just finished a conversation with ${otherNames}. I would
       like you to summarize the conversation from ${player.name}'s perspective, using first-person pronouns like
       "I," and add if you liked or disliked this interaction.`,
     },
   ];
+  const participants = [player, ...otherPlayers];
   const authors = new Set<GameId<'players'>>();
   for (const message of messages) {
-    const author = message.author === player.id ? player : otherPlayer;
+    const author = participants.find((p) => p.id === message.author);
+    if (!author) {
+      continue;
+    }
     authors.add(author.id as GameId<'players'>);
-    const recipient = message.author === player.id ? otherPlayer : player;
+    const recipients = participants.filter((p) => p.id !== author.id);
     llmMessages.push({
       role: 'user',
-      content: `${author.name} to ${recipient.name}: ${message.text}`,
+      content: `${author.name} to ${addressee(recipients)}: ${message.text}`,
     });
   }
   llmMessages.push({ role: 'user', content: 'Summary:' });
-  const { content } = await chatCompletion({
-    messages: llmMessages,
-    max_tokens: 500,
-  });
-  const description = `Conversation with ${otherPlayer.name} at ${new Date(
-    data.conversation._creationTime,
+  const { content } = await trackLLMCall(
+    ctx,
+    { worldId, agentId, type: 'chat', kind: 'summarize' },
+    () =>
+      chatCompletion({
+        messages: llmMessages,
+        max_tokens: 500,
+      }),
+  );
+  const description = `Conversation with ${otherNames} at ${new Date(
+    data.conversation.created,
   ).toLocaleString()}: ${content}`;
-  const importance = await calculateImportance(description);
-  const { embedding } = await fetchEmbedding(description);
+  const importance = await calculateImportance(ctx, { worldId, agentId }, description);
+  const { embedding } = await trackLLMCall(
+    ctx,
+    { worldId, agentId, type: 'embedding', kind: 'summarize', model: data.embeddingConfig.model },
+    () => fetchEmbedding(description, data.embeddingConfig),
+  );
   authors.delete(player.id as GameId<'players'>);
   await ctx.runMutation(selfInternal.insertMemory, {
     agentId,
+    worldId,
     playerId: player.id,
     description,
     importance,
@@ -81,7 +113,15 @@ export async function rememberConversation(
     },
     embedding,
   });
-  await reflectOnMemories(ctx, worldId, playerId);
+  await updateRelationships(
+    ctx,
+    worldId,
+    agentId,
+    player,
+    otherPlayers,
+    content,
+    data.embeddingConfig,
+  );
   return description;
 }
 
@@ -107,72 +147,159 @@ export const loadConversation = internalQuery({
     if (!playerDescription) {
       throw new Error(`Player description for ${args.playerId} not found`);
     }
-    const conversation = await ctx.db
+    // Players who leave a group conversation early remember it while it's still going on.
+    let conversation: { created: number; participants: string[] };
+    const archived = await ctx.db
       .query('archivedConversations')
       .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('id', args.conversationId))
       .first();
-    if (!conversation) {
-      throw new Error(`Conversation ${args.conversationId} not found`);
-    }
-    const otherParticipator = await ctx.db
-      .query('participatedTogether')
-      .withIndex('conversation', (q) =>
-        q
-          .eq('worldId', args.worldId)
-          .eq('player1', args.playerId)
-          .eq('conversationId', args.conversationId),
-      )
-      .first();
-    if (!otherParticipator) {
-      throw new Error(
-        `Couldn't find other participant in conversation ${args.conversationId} with player ${args.playerId}`,
-      );
+    if (archived) {
+      conversation = archived;
+    } else {
+      const active = world.conversations.find((c) => c.id === args.conversationId);
+      if (!active) {
+        throw new Error(`Conversation ${args.conversationId} not found`);
+      }
+      conversation = {
+        created: active.created,
+        participants: [
+          ...active.participants.map((m) => m.playerId),
+          ...(active.formerParticipants ?? []),
+        ],
+      };
     }
-    const otherPlayerId = otherParticipator.player2;
-    let otherPlayer: SerializedPlayer | Doc<'archivedPlayers'> | null =
-      world.players.find((p) => p.id === otherPlayerId) ?? null;
-    if (!otherPlayer) {
-      otherPlayer = await ctx.db
-        .query('archivedPlayers')
-        .withIndex('worldId', (q) => q.eq('worldId', world._id).eq('id', otherPlayerId))
+    const otherPlayers = [];
+    for (const otherPlayerId of conversation.participants) {
+      if (otherPlayerId === args.playerId) {
+        continue;
+      }
+      let otherPlayer: SerializedPlayer | Doc<'archivedPlayers'> | null =
+        world.players.find((p) => p.id === otherPlayerId) ?? null;
+      if (!otherPlayer) {
+        otherPlayer = await ctx.db
+          .query('archivedPlayers')
+          .withIndex('worldId', (q) => q.eq('worldId', world._id).eq('id', otherPlayerId))
+          .first();
+      }
+      if (!otherPlayer) {
+        throw new Error(`Conversation ${args.conversationId} other player not found`);
+      }
+      const otherPlayerDescription = await ctx.db
+        .query('playerDescriptions')
+        .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', otherPlayerId))
         .first();
+      if (!otherPlayerDescription) {
+        throw new Error(`Player description for ${otherPlayerId} not found`);
+      }
+      otherPlayers.push({ ...otherPlayer, name: otherPlayerDescription.name });
     }
-    if (!otherPlayer) {
-      throw new Error(`Conversation ${args.conversationId} other player not found`);
-    }
-    const otherPlayerDescription = await ctx.db
-      .query('playerDescriptions')
-      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', otherPlayerId))
-      .first();
-    if (!otherPlayerDescription) {
-      throw new Error(`Player description for ${otherPlayerId} not found`);
+    if (otherPlayers.length === 0) {
+      throw new Error(
+        `Couldn't find other participants in conversation ${args.conversationId} with player ${args.playerId}`,
+      );
     }
+    const { write } = await loadEmbeddingConfig(ctx.db, args.worldId);
     return {
       player: { ...player, name: playerDescription.name },
-      conversation,
-      otherPlayer: { ...otherPlayer, name: otherPlayerDescription.name },
+      conversation: { created: conversation.created },
+      otherPlayers,
+      embeddingConfig: write,
     };
   },
 });
 
 export async function searchMemories(
   ctx: ActionCtx,
+  worldId: Id<'worlds'>,
   playerId: GameId<'players'>,
   searchEmbedding: number[],
+  searchText: string,
   n: number = 3,
 ) {
-  const candidates = await ctx.vectorSearch('memoryEmbeddings', 'embedding', {
-    vector: searchEmbedding,
-    filter: (q) => q.eq('playerId', playerId),
-    limit: n * MEMORY_OVERFETCH,
-  });
+  const candidates = await searchEmbeddings(ctx, worldId, playerId, searchEmbedding, n);
   const rankedMemories = await ctx.runMutation(selfInternal.rankAndTouchMemories, {
+    worldId,
+    playerId,
     candidates,
+    searchEmbedding,
+    searchText,
     n,
   });
   return rankedMemories.map(({ memory }) => memory);
 }
 
+// Like `searchMemories`, but leaves the memories untouched and returns how each was scored.
+export async function explainMemorySearch(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  playerId: GameId<'players'>,
+  searchEmbedding: number[],
+  searchText: string,
+  n: number = 3,
+) {
+  const candidates = await searchEmbeddings(ctx, worldId, playerId, searchEmbedding, n);
+  return await ctx.runQuery(selfInternal.rankMemories, {
+    worldId,
+    playerId,
+    candidates,
+    searchEmbedding,
+    searchText,
+    n,
+  });
+}
+
+async function searchEmbeddings(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  playerId: GameId<'players'>,
+  searchEmbedding: number[],
+  n: number,
+) {
+  // Search the index for the world's embedding model, which we can tell by its size.
+  return await ctx.vectorSearch('memoryEmbeddings', embeddingIndex(searchEmbedding.length), {
+    vector: searchEmbedding,
+    filter: (q) => q.eq('worldPlayerKey', worldPlayerKey(worldId, playerId)),
+    limit: n * MEMORY_OVERFETCH,
+  });
+}
+
+// Words that match nearly every memory, so they'd only crowd out the ones worth searching for.
+const STOP_WORDS = new Set(
+  (
+    'about and are but can did does for from had has have her him his how its just not now our ' +
+    'she that the their them then there they this was were what when where who why will with you ' +
+    'your'
+  ).split(' '),
+);
+// Convex's full-text search only looks at this many terms of a query.
+const MAX_SEARCH_TERMS = 16;
+
+// The words in `text` worth looking for in memories' descriptions.
+export function keywordQuery(text: string) {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const terms = words.filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS).join(' ');
+}
+
+export type MemoryWeights = ObjectType<typeof memoryWeightFields>;
+// Each from 0 to 1, relative to the other candidates.
+export type MemoryScores = Omit<MemoryWeights, 'recencyHalfLife'>;
+
+export type MemoryCandidate = {
+  memory: Memory;
+  // Cosine similarity of its embedding to the search's.
+  similarity: number;
+  // Where it came in the full-text search results, if it matched any keywords.
+  keywordRank?: number;
+};
+
+export type RankedMemory = {
+  memory: Memory;
+  overallScore: number;
+  // Unset for pinned memories, which always make it in.
+  scores?: MemoryScores;
+};
+
 function makeRange(values: number[]) {
   const min = Math.min(...values);
   const max = Math.max(...values);
@@ -181,43 +308,141 @@ function makeRange(values: number[]) {
 
 function normalize(value: number, range: readonly [number, number]) {
   const [min, max] = range;
-  return (value - min) / (max - min);
+  // Every candidate is as good as the best when they're all the same.
+  return max > min ? (value - min) / (max - min) : 1;
+}
+
+// Score the candidates on each of relevance, keyword matches, importance and recency, and
+// rank them by the weighted sum of their scores, best first.
+export function scoreMemories(
+  candidates: MemoryCandidate[],
+  weights: MemoryWeights,
+  now: number,
+): RankedMemory[] {
+  const recency = candidates.map(({ memory }) => {
+    const hoursSinceAccess = (now - memory.lastAccess) / 1000 / 60 / 60;
+    return 0.5 ** (Math.max(0, hoursSinceAccess) / weights.recencyHalfLife);
+  });
+  const relevanceRange = makeRange(candidates.map((c) => c.similarity));
+  const importanceRange = makeRange(candidates.map((c) => c.memory.importance));
+  const recencyRange = makeRange(recency);
+  const keywordMatches = candidates.filter((c) => c.keywordRank !== undefined).length;
+  const ranked = candidates.map(({ memory, similarity, keywordRank }, idx) => {
+    const scores: MemoryScores = {
+      relevance: normalize(similarity, relevanceRange),
+      // The best match scores 1, down to 1 / keywordMatches for the worst.
+      keyword: keywordRank === undefined ? 0 : 1 - keywordRank / keywordMatches,
+      importance: normalize(memory.importance, importanceRange),
+      recency: normalize(recency[idx], recencyRange),
+    };
+    const overallScore =
+      weights.relevance * scores.relevance +
+      weights.keyword * scores.keyword +
+      weights.importance * scores.importance +
+      weights.recency * scores.recency;
+    return { memory, overallScore, scores };
+  });
+  ranked.sort((a, b) => b.overallScore - a.overallScore);
+  return ranked;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export async function loadMemoryWeights(
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+  playerId: string,
+): Promise<MemoryWeights> {
+  const weights = await db
+    .query('memoryWeights')
+    .withIndex('playerId', (q) => q.eq('worldId', worldId).eq('playerId', playerId))
+    .unique();
+  if (!weights) {
+    return DEFAULT_MEMORY_WEIGHTS;
+  }
+  const { relevance, keyword, importance, recency, recencyHalfLife } = weights;
+  return { relevance, keyword, importance, recency, recencyHalfLife };
+}
+
+const rankArgs = {
+  worldId: v.id('worlds'),
+  playerId,
+  // The closest memories by embedding.
+  candidates: v.array(v.object({ _id: v.id('memoryEmbeddings'), _score: v.number() })),
+  searchEmbedding: v.array(v.float64()),
+  // Looked up in the full-text index, to find memories that mention the same names or facts
+  // even when their embeddings aren't close.
+  searchText: v.string(),
+  n: v.number(),
+};
+
+// Combine the closest memories by embedding with the best full-text matches, rank them,
+// and take the top `n`, along with the player's pinned memories.
+async function loadRankedMemories(
+  db: DatabaseReader,
+  args: ObjectType<typeof rankArgs>,
+  now: number,
+): Promise<RankedMemory[]> {
+  const candidates = new Map<Id<'memories'>, MemoryCandidate>();
+  for (const { _id, _score } of args.candidates) {
+    const memory = await db
+      .query('memories')
+      .withIndex('embeddingId', (q) => q.eq('embeddingId', _id))
+      .first();
+    if (!memory) throw new Error(`Memory for embedding ${_id} not found`);
+    candidates.set(memory._id, { memory, similarity: _score });
+  }
+  const keywords = keywordQuery(args.searchText);
+  if (keywords) {
+    const matches = await db
+      .query('memories')
+      .withSearchIndex('description', (q) =>
+        q.search('description', keywords).eq('worldId', args.worldId).eq('playerId', args.playerId),
+      )
+      .take(args.n * MEMORY_OVERFETCH);
+    for (const [keywordRank, memory] of matches.entries()) {
+      const candidate = candidates.get(memory._id);
+      if (candidate) {
+        candidate.keywordRank = keywordRank;
+        continue;
+      }
+      // Score memories only found by keyword against the search embedding ourselves.
+      const embedding = await db.get(memory.embeddingId);
+      const vector = embedding?.[embeddingIndex(args.searchEmbedding.length)];
+      const similarity = vector ? cosineSimilarity(args.searchEmbedding, vector) : 0;
+      candidates.set(memory._id, { memory, similarity, keywordRank });
+    }
+  }
+  const weights = await loadMemoryWeights(db, args.worldId, args.playerId);
+  const ranked = candidates.size ? scoreMemories([...candidates.values()], weights, now) : [];
+  const pinned = await db
+    .query('memories')
+    .withIndex('playerId_pinned', (q) =>
+      q.eq('worldId', args.worldId).eq('playerId', args.playerId).eq('pinned', true),
+    )
+    .take(MAX_PINNED_MEMORIES);
+  const pinnedIds = new Set(pinned.map((m) => m._id));
+  return [
+    ...pinned.map((memory) => ({ memory, overallScore: Infinity })),
+    ...ranked.filter(({ memory }) => !pinnedIds.has(memory._id)).slice(0, args.n),
+  ];
 }
 
 export const rankAndTouchMemories = internalMutation({
-  args: {
-    candidates: v.array(v.object({ _id: v.id('memoryEmbeddings'), _score: v.number() })),
-    n: v.number(),
-  },
+  args: rankArgs,
   handler: async (ctx, args) => {
     const ts = Date.now();
-    const relatedMemories = await asyncMap(args.candidates, async ({ _id }) => {
-      const memory = await ctx.db
-        .query('memories')
-        .withIndex('embeddingId', (q) => q.eq('embeddingId', _id))
-        .first();
-      if (!memory) throw new Error(`Memory for embedding ${_id} not found`);
-      return memory;
-    });
-
-    // TODO: fetch <count> recent memories and <count> important memories
-    // so we don't miss them in case they were a little less relevant.
-    const recencyScore = relatedMemories.map((memory) => {
-      const hoursSinceAccess = (ts - memory.lastAccess) / 1000 / 60 / 60;
-      return 0.99 ** Math.floor(hoursSinceAccess);
-    });
-    const relevanceRange = makeRange(args.candidates.map((c) => c._score));
-    const importanceRange = makeRange(relatedMemories.map((m) => m.importance));
-    const recencyRange = makeRange(recencyScore);
-    const memoryScores = relatedMemories.map((memory, idx) => ({
-      memory,
-      overallScore:
-        normalize(args.candidates[idx]._score, relevanceRange) +
-        normalize(memory.importance, importanceRange) +
-        normalize(recencyScore[idx], recencyRange),
-    }));
-    memoryScores.sort((a, b) => b.overallScore - a.overallScore);
-    const accessed = memoryScores.slice(0, args.n);
+    const accessed = await loadRankedMemories(ctx.db, args, ts);
     await asyncMap(accessed, async ({ memory }) => {
       if (memory.lastAccess < ts - MEMORY_ACCESS_THROTTLE) {
         await ctx.db.patch(memory._id, { lastAccess: ts });
@@ -227,6 +452,13 @@ export const rankAndTouchMemories = internalMutation({
   },
 });
 
+export const rankMemories = internalQuery({
+  args: rankArgs,
+  handler: async (ctx, args) => {
+    return await loadRankedMemories(ctx.db, args, Date.now());
+  },
+});
+
 export const loadMessages = internalQuery({
   args: {
     worldId: v.id('worlds'),
@@ -243,19 +475,28 @@ export const loadMessages = internalQuery({
   },
 });
 
-async function calculateImportance(description: string) {
-  const { content: importanceRaw } = await chatCompletion({
-    messages: [
-      {
-        role: 'user',
-        content: `On the scale of 0 to 9, where 0 is purely mundane (e.g., brushing teeth, making bed) and 9 is extremely poignant (e.g., a break up, college acceptance), rate the likely poignancy of the following piece of memory.
+export async function calculateImportance(
+  ctx: ActionCtx,
+  call: Omit<LLMCall, 'kind'>,
+  description: string,
+) {
+  const { content: importanceRaw } = await trackLLMCall(
+    ctx,
+    { ...call, type: 'chat', kind: 'importance' },
+    () =>
+      chatCompletion({
+        messages: [
+          {
+            role: 'user',
+            content: `On the scale of 0 to 9, where 0 is purely mundane (e.g., brushing teeth, making bed) and 9 is extremely poignant (e.g., a break up, college acceptance), rate the likely poignancy of the following piece of memory.
       Memory: ${description}
       Answer on a scale of 0 to 9. Respond with number only, e.g. "5"`,
-      },
-    ],
-    temperature: 0.0,
-    max_tokens: 1,
-  });
+          },
+        ],
+        temperature: 0.0,
+        max_tokens: 1,
+      }),
+  );
 
   let importance = parseFloat(importanceRaw);
   if (isNaN(importance)) {
@@ -275,12 +516,13 @@ export const insertMemory = internalMutation({
     agentId,
     embedding: v.array(v.float64()),
     ...memoryFieldsWithoutEmbeddingId,
+    worldId: v.id('worlds'),
   },
   handler: async (ctx, { agentId: _, embedding, ...memory }): Promise<void> => {
-    const embeddingId = await ctx.db.insert('memoryEmbeddings', {
-      playerId: memory.playerId,
-      embedding,
-    });
+    const embeddingId = await ctx.db.insert(
+      'memoryEmbeddings',
+      memoryEmbedding(memory.worldId, memory.playerId, embedding),
+    );
     await ctx.db.insert('memories', {
       ...memory,
       embeddingId,
@@ -288,161 +530,71 @@ export const insertMemory = internalMutation({
   },
 });
 
-export const insertReflectionMemories = internalMutation({
-  args: {
-    worldId: v.id('worlds'),
-    playerId,
-    reflections: v.array(
-      v.object({
-        description: v.string(),
-        relatedMemoryIds: v.array(v.id('memories')),
-        importance: v.number(),
-        embedding: v.array(v.float64()),
-      }),
-    ),
-  },
-  handler: async (ctx, { playerId, reflections }) => {
-    const lastAccess = Date.now();
-    for (const { embedding, relatedMemoryIds, ...rest } of reflections) {
-      const embeddingId = await ctx.db.insert('memoryEmbeddings', {
-        playerId,
-        embedding,
-      });
-      await ctx.db.insert('memories', {
-        playerId,
-        embeddingId,
-        lastAccess,
-        ...rest,
-        data: {
-          type: 'reflection',
-          relatedMemoryIds,
-        },
-      });
-    }
-  },
-});
-
-async function reflectOnMemories(
-  ctx: ActionCtx,
-  worldId: Id<'worlds'>,
-  playerId: GameId<'players'>,
-) {
-  const { memories, lastReflectionTs, name } = await ctx.runQuery(
-    internal.agent.memory.getReflectionMemories,
-    {
-      worldId,
-      playerId,
-      numberOfItems: 100,
-    },
-  );
-
-  // should only reflect if lastest 100 items have importance score of >500
-  const sumOfImportanceScore = memories
-    .filter((m) => m._creationTime > (lastReflectionTs ?? 0))
-    .reduce((acc, curr) => acc + curr.importance, 0);
-  const shouldReflect = sumOfImportanceScore > 500;
-
-  if (!shouldReflect) {
-    return false;
-  }
-  console.debug('sum of importance score = ', sumOfImportanceScore);
-  console.debug('Reflecting...');
-  const prompt = ['[no prose]', '[Output only JSON]', `You are ${name}, statements about you:`];
-  memories.forEach((m, idx) => {
-    prompt.push(`Statement ${idx}: ${m.description}`);
-  });
-  prompt.push('What 3 high-level insights can you infer from the above statements?');
-  prompt.push(
-    'Return in JSON format, where the key is a list of input statements that contributed to your insights and value is your insight. Make the response parseable by Typescript JSON.parse() function. DO NOT escape characters or include "\n" or white space in response.',
-  );
-  prompt.push(
-    'Example: [{insight: "...", statementIds: [1,2]}, {insight: "...", statementIds: [1]}, ...]',
-  );
-
-  const { content: reflection } = await chatCompletion({
-    messages: [
-      {
-        role: 'user',
-        content: prompt.join('\n'),
-      },
-    ],
-  });
-
-  try {
-    const insights = JSON.parse(reflection) as { insight: string; statementIds: number[] }[];
-    const memoriesToSave = await asyncMap(insights, async (item) => {
-      const relatedMemoryIds = item.statementIds.map((idx: number) => memories[idx]._id);
-      const importance = await calculateImportance(item.insight);
-      const { embedding } = await fetchEmbedding(item.insight);
-      console.debug('adding reflection memory...', item.insight);
-      return {
-        description: item.insight,
-        embedding,
-        importance,
-        relatedMemoryIds,
-      };
-    });
-
-    await ctx.runMutation(selfInternal.insertReflectionMemories, {
-      worldId,
-      playerId,
-      reflections: memoriesToSave,
-    });
-  } catch (e) {
-    console.error('error saving or parsing reflection', e);
-    console.debug('reflection', reflection);
-    return false;
-  }
-  return true;
-}
-export const getReflectionMemories = internalQuery({
-  args: { worldId: v.id('worlds'), playerId, numberOfItems: v.number() },
-  handler: async (ctx, args) => {
-    const world = await ctx.db.get(args.worldId);
-    if (!world) {
-      throw new Error(`World ${args.worldId} not found`);
-    }
-    const player = world.players.find((p) => p.id === args.playerId);
-    if (!player) {
-      throw new Error(`Player ${args.playerId} not found`);
-    }
-    const playerDescription = await ctx.db
-      .query('playerDescriptions')
-      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
-      .first();
-    if (!playerDescription) {
-      throw new Error(`Player description for ${args.playerId} not found`);
-    }
+// Memories from before worlds had their own don't say which world they're from. Fill that in,
+// along with their embeddings' world and key, from the world their player is in, a batch at a
+// time. Player IDs found in more than one world are taken to be the default world's, or else
+// the oldest world's.
+export const backfillWorlds = internalMutation({
+  args: {},
+  handler: async (ctx) => {
     const memories = await ctx.db
       .query('memories')
-      .withIndex('playerId', (q) => q.eq('playerId', player.id))
-      .order('desc')
-      .take(args.numberOfItems);
-
-    const lastReflection = await ctx.db
-      .query('memories')
-      .withIndex('playerId_type', (q) =>
-        q.eq('playerId', args.playerId).eq('data.type', 'reflection'),
+      .withIndex('playerId', (q) => q.eq('worldId', undefined))
+      .take(BACKFILL_BATCH_SIZE);
+    if (memories.length === 0) {
+      console.log('Every memory has its world');
+      return;
+    }
+    const worldStatuses = await ctx.db.query('worldStatus').collect();
+    const worldIds = worldStatuses
+      .sort(
+        (a, b) =>
+          Number(!!b.isDefault) - Number(!!a.isDefault) || a._creationTime - b._creationTime,
       )
-      .order('desc')
-      .first();
-
-    return {
-      name: playerDescription.name,
-      memories,
-      lastReflectionTs: lastReflection?._creationTime,
-    };
+      .map((s) => s.worldId);
+    if (worldIds.length === 0) {
+      throw new Error('No worlds to backfill memories from');
+    }
+    const playerWorlds = new Map<string, Id<'worlds'>>();
+    for (const memory of memories) {
+      let worldId = playerWorlds.get(memory.playerId);
+      if (!worldId) {
+        for (const candidate of worldIds) {
+          const description = await ctx.db
+            .query('playerDescriptions')
+            .withIndex('worldId', (q) => q.eq('worldId', candidate).eq('playerId', memory.playerId))
+            .first();
+          if (description) {
+            worldId = candidate;
+            break;
+          }
+        }
+        worldId = worldId ?? worldIds[0];
+        playerWorlds.set(memory.playerId, worldId);
+      }
+      await ctx.db.patch(memory._id, { worldId });
+      if (await ctx.db.get(memory.embeddingId)) {
+        await ctx.db.patch(memory.embeddingId, {
+          worldId,
+          worldPlayerKey: worldPlayerKey(worldId, memory.playerId),
+        });
+      }
+    }
+    await ctx.scheduler.runAfter(0, selfInternal.backfillWorlds, {});
   },
 });
 
 export async function latestMemoryOfType<T extends MemoryType>(
   db: DatabaseReader,
+  worldId: Id<'worlds'>,
   playerId: GameId<'players'>,
   type: T,
 ) {
   const entry = await db
     .query('memories')
-    .withIndex('playerId_type', (q) => q.eq('playerId', playerId).eq('data.type', type))
+    .withIndex('playerId_type', (q) =>
+      q.eq('worldId', worldId).eq('playerId', playerId).eq('data.type', type),
+    )
     .order('desc')
     .first();
   if (!entry) return null;
@@ -0,0 +1,36 @@
+import { parseInsights } from './reflection';
+
+describe('parseInsights', () => {
+  test('should parse a JSON array wrapped in prose', () => {
+    const raw =
+      'Sure! Here you go:\n```json\n[{"insight": "I like Bob.", "statementIds": [0, 2]}]\n```';
+    expect(parseInsights(raw, 3)).toEqual([{ insight: 'I like Bob.', statementIds: [0, 2] }]);
+  });
+
+  test('should repair unquoted keys, curly quotes and trailing commas', () => {
+    const raw = '[{insight: “I like Bob.”, statementIds: [1,],},]';
+    expect(parseInsights(raw, 3)).toEqual([{ insight: 'I like Bob.', statementIds: [1] }]);
+  });
+
+  test('should accept a single object without the array', () => {
+    expect(parseInsights('{"insight": "I like Bob.", "statementIds": [1]}', 3)).toEqual([
+      { insight: 'I like Bob.', statementIds: [1] },
+    ]);
+  });
+
+  test("should drop statement IDs that don't exist", () => {
+    const raw = '[{"insight": "I like Bob.", "statementIds": [1, "2", 2, 7, -1, 1.5]}]';
+    expect(parseInsights(raw, 3)).toEqual([{ insight: 'I like Bob.', statementIds: [1, 2] }]);
+  });
+
+  test('should skip items without an insight', () => {
+    const raw = '[{"statementIds": [1]}, "nope", {"insight": "I like Bob."}]';
+    expect(parseInsights(raw, 3)).toEqual([{ insight: 'I like Bob.', statementIds: [] }]);
+  });
+
+  test("should give up on responses that aren't insights", () => {
+    expect(parseInsights('I have no insights.', 3)).toBeNull();
+    expect(parseInsights('[{"insight": }]', 3)).toBeNull();
+    expect(parseInsights('[]', 3)).toBeNull();
+  });
+});
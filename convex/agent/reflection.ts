@@ -0,0 +1,350 @@
+import { Infer, v } from 'convex/values';
+import { ActionCtx, DatabaseReader, internalMutation, internalQuery } from '../_generated/server';
+import { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import { LLMMessage, chatCompletion, fetchEmbedding } from '../util/llm';
+import { GameId, playerId } from '../aiTown/ids';
+import { loadWorldConfig } from '../aiTown/worldConfig';
+import { trackLLMCall } from './llmCalls';
+import { withinLLMBudget } from './llmBudget';
+import { loadEmbeddingConfig } from './embeddings';
+import { calculateImportance } from './memory';
+import { reviseGoals } from './goals';
+import { memoryEmbedding, reflectionRunFields, reflectionTrigger } from './schema';
+import {
+  MAX_REFLECTION_LEVEL,
+  MIN_REFLECTION_MEMORIES,
+  REFLECTIONS_PER_LEVEL,
+  REFLECTION_MEMORIES,
+  REFLECTION_RETRIES,
+} from '../constants';
+
+const selfInternal = internal.agent.reflection;
+
+export type ReflectionTrigger = Infer<typeof reflectionTrigger>;
+type ReflectionRun = Omit<Doc<'reflectionRuns'>, '_id' | '_creationTime'>;
+
+export type Insight = {
+  insight: string;
+  // Indexes of the statements the insight came from.
+  statementIds: number[];
+};
+
+export function reflectionLevel(memory: Doc<'memories'>) {
+  return memory.data.type === 'reflection' ? (memory.data.level ?? 1) : 0;
+}
+
+// Reflect on what the agent's remembered since it last reflected, and then on its
+// reflections at each level up that have built up enough, logging each run. The agent then
+// revises its goals in light of whatever it realized.
+export async function reflect(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  agentId: GameId<'agents'>,
+  playerId: GameId<'players'>,
+  trigger: ReflectionTrigger,
+) {
+  const realized: string[] = [];
+  for (let level = 1; level <= MAX_REFLECTION_LEVEL; level++) {
+    const { name, memories, embeddingConfig } = await ctx.runQuery(
+      selfInternal.loadReflectionMemories,
+      { worldId, playerId, level },
+    );
+    const run: ReflectionRun = {
+      worldId,
+      agentId,
+      playerId,
+      trigger,
+      level,
+      outcome: 'skipped',
+      memories: memories.length,
+      insights: 0,
+      attempts: 0,
+    };
+    // Only reflect on reflections once enough have built up, and don't log it otherwise.
+    if (level > 1 && memories.length < REFLECTIONS_PER_LEVEL) {
+      break;
+    }
+    if (memories.length < MIN_REFLECTION_MEMORIES) {
+      await ctx.runMutation(selfInternal.logReflectionRun, run);
+      break;
+    }
+    try {
+      const prompt = [
+        `You are ${name}, statements about you:`,
+        ...memories.map((m, idx) => `Statement ${idx}: ${m.description}`),
+        'What 3 high-level insights can you infer from the above statements?',
+        'Respond with only a JSON array, with an object for each insight with the keys "insight" (the insight, in a sentence) and "statementIds" (the numbers of the statements that led to it).',
+        'Example: [{"insight": "...", "statementIds": [1, 2]}, {"insight": "...", "statementIds": [1]}]',
+      ];
+      let insights: Insight[] | null = null;
+      const messages: LLMMessage[] = [{ role: 'user', content: prompt.join('\n') }];
+      while (!insights && run.attempts <= REFLECTION_RETRIES) {
+        if (!(await withinLLMBudget(ctx, worldId, agentId))) {
+          run.outcome = 'overBudget';
+          break;
+        }
+        run.attempts++;
+        const { content } = await trackLLMCall(
+          ctx,
+          { worldId, agentId, type: 'chat', kind: 'reflection' },
+          () => chatCompletion({ messages }),
+        );
+        insights = parseInsights(content, memories.length);
+        if (!insights) {
+          console.debug(`Couldn't parse insights for ${playerId} from: ${content}`);
+          messages.push(
+            { role: 'assistant', content },
+            {
+              role: 'user',
+              content:
+                "That isn't a JSON array of insights in the format I asked for. Respond with only the JSON array.",
+            },
+          );
+        }
+      }
+      if (!insights) {
+        if (run.outcome !== 'overBudget') {
+          run.outcome = 'unparseable';
+        }
+        await ctx.runMutation(selfInternal.logReflectionRun, run);
+        break;
+      }
+      const reflections = [];
+      for (const { insight, statementIds } of insights) {
+        const importance = await calculateImportance(ctx, { worldId, agentId }, insight);
+        const { embedding } = await trackLLMCall(
+          ctx,
+          { worldId, agentId, type: 'embedding', kind: 'reflection', model: embeddingConfig.model },
+          () => fetchEmbedding(insight, embeddingConfig),
+        );
+        reflections.push({
+          description: insight,
+          importance,
+          embedding,
+          relatedMemoryIds: statementIds.map((idx) => memories[idx]._id),
+        });
+      }
+      await ctx.runMutation(selfInternal.insertReflectionMemories, {
+        worldId,
+        playerId,
+        level,
+        reflections,
+      });
+      run.outcome = 'reflected';
+      run.insights = reflections.length;
+      await ctx.runMutation(selfInternal.logReflectionRun, run);
+      realized.push(...reflections.map((r) => r.description));
+    } catch (error) {
+      run.outcome = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      await ctx.runMutation(selfInternal.logReflectionRun, run);
+      throw error;
+    }
+  }
+  if (realized.length > 0) {
+    await reviseGoals(ctx, worldId, agentId, playerId, realized);
+  }
+}
+
+// Pull the insights out of the LLM's response. Returns null if there aren't any usable
+// insights.
+export function parseInsights(raw: string, statementCount: number): Insight[] | null {
+  const parsed = parseJsonArray(raw);
+  if (!parsed) {
+    return null;
+  }
+  const insights: Insight[] = [];
+  for (const item of parsed) {
+    if (typeof item !== 'object' || item === null) {
+      continue;
+    }
+    const { insight, statementIds } = item as Record<string, unknown>;
+    if (typeof insight !== 'string' || !insight.trim()) {
+      continue;
+    }
+    const ids = Array.isArray(statementIds) ? statementIds.map(Number) : [];
+    insights.push({
+      insight: insight.trim(),
+      statementIds: [
+        ...new Set(ids.filter((id) => Number.isInteger(id) && id >= 0 && id < statementCount)),
+      ],
+    });
+  }
+  return insights.length > 0 ? insights : null;
+}
+
+// Pull a JSON array out of the LLM's response, repairing the ways models tend to get JSON
+// slightly wrong. Returns null if there isn't one.
+export function parseJsonArray(raw: string): unknown[] | null {
+  // Models like to wrap JSON in prose or code fences, and sometimes drop the array around a
+  // single object.
+  const match = raw.match(/[[{][\s\S]*[\]}]/);
+  if (!match) {
+    return null;
+  }
+  const json = match[0].startsWith('[') ? match[0] : `[${match[0]}]`;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    try {
+      parsed = JSON.parse(repairJson(json));
+    } catch (e) {
+      return null;
+    }
+  }
+  return Array.isArray(parsed) ? parsed : null;
+}
+
+// Fix up curly quotes, unquoted keys and trailing commas.
+function repairJson(json: string) {
+  return json
+    .replace(/[“”]/g, '"')
+    .replace(/([{,]\s*)([A-Za-z_]\w*)\s*:/g, '$1"$2":')
+    .replace(/,\s*([}\]])/g, '$1');
+}
+
+// What's made the agent due to reflect since it last did, if anything: remembering something
+// especially important, or the importance of what it's remembered adding up.
+export const checkReflectionTriggers = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+  },
+  handler: async (ctx, args): Promise<ReflectionTrigger | null> => {
+    const config = await loadWorldConfig(ctx.db, args.worldId);
+    const lastRun = await ctx.db
+      .query('reflectionRuns')
+      .withIndex('playerId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .order('desc')
+      .filter((q) => q.eq(q.field('level'), 1))
+      .first();
+    // Runs get vacuumed, so fall back to the latest reflection.
+    const lastReflection = await lastReflectionAt(ctx.db, args.worldId, args.playerId, 1);
+    const since = Math.max(lastRun?._creationTime ?? 0, lastReflection?._creationTime ?? 0);
+    const memories = await ctx.db
+      .query('memories')
+      .withIndex('playerId', (q) =>
+        q.eq('worldId', args.worldId).eq('playerId', args.playerId).gt('_creationTime', since),
+      )
+      .order('desc')
+      .filter((q) => q.neq(q.field('data.type'), 'reflection'))
+      .take(REFLECTION_MEMORIES);
+    if (memories.some((m) => m.importance >= config.reflectionEventImportance)) {
+      return 'event';
+    }
+    const importance = memories.reduce((sum, m) => sum + m.importance, 0);
+    return importance >= config.reflectionImportance ? 'importance' : null;
+  },
+});
+
+async function lastReflectionAt(
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+  playerId: string,
+  level: number,
+) {
+  const reflections = await db
+    .query('memories')
+    .withIndex('playerId_type', (q) =>
+      q.eq('worldId', worldId).eq('playerId', playerId).eq('data.type', 'reflection'),
+    )
+    .order('desc')
+    .take(REFLECTION_MEMORIES);
+  return reflections.find((m) => reflectionLevel(m) === level) ?? null;
+}
+
+// What the agent would reflect on at `level`: its latest memories, or reflections a level
+// down, since its last reflection at `level`, oldest first.
+export const loadReflectionMemories = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    level: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const playerDescription = await ctx.db
+      .query('playerDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .first();
+    if (!playerDescription) {
+      throw new Error(`Player description for ${args.playerId} not found`);
+    }
+    const last = await lastReflectionAt(ctx.db, args.worldId, args.playerId, args.level);
+    const since = last?._creationTime ?? 0;
+    const candidates =
+      args.level === 1
+        ? await ctx.db
+            .query('memories')
+            .withIndex('playerId', (q) =>
+              q
+                .eq('worldId', args.worldId)
+                .eq('playerId', args.playerId)
+                .gt('_creationTime', since),
+            )
+            .order('desc')
+            .filter((q) => q.neq(q.field('data.type'), 'reflection'))
+            .take(REFLECTION_MEMORIES)
+        : await ctx.db
+            .query('memories')
+            .withIndex('playerId_type', (q) =>
+              q
+                .eq('worldId', args.worldId)
+                .eq('playerId', args.playerId)
+                .eq('data.type', 'reflection')
+                .gt('_creationTime', since),
+            )
+            .order('desc')
+            .take(REFLECTION_MEMORIES);
+    const memories = candidates
+      .filter((m) => args.level === 1 || reflectionLevel(m) === args.level - 1)
+      .reverse();
+    const { write } = await loadEmbeddingConfig(ctx.db, args.worldId);
+    return { name: playerDescription.name, memories, embeddingConfig: write };
+  },
+});
+
+export const insertReflectionMemories = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    level: v.number(),
+    reflections: v.array(
+      v.object({
+        description: v.string(),
+        relatedMemoryIds: v.array(v.id('memories')),
+        importance: v.number(),
+        embedding: v.array(v.float64()),
+      }),
+    ),
+  },
+  handler: async (ctx, { worldId, playerId, level, reflections }) => {
+    const lastAccess = Date.now();
+    for (const { embedding, relatedMemoryIds, ...rest } of reflections) {
+      const embeddingId = await ctx.db.insert(
+        'memoryEmbeddings',
+        memoryEmbedding(worldId, playerId, embedding),
+      );
+      await ctx.db.insert('memories', {
+        worldId,
+        playerId,
+        embeddingId,
+        lastAccess,
+        ...rest,
+        data: {
+          type: 'reflection',
+          relatedMemoryIds,
+          level: level > 1 ? level : undefined,
+        },
+      });
+    }
+  },
+});
+
+export const logReflectionRun = internalMutation({
+  args: reflectionRunFields,
+  handler: async (ctx, args) => {
+    await ctx.db.insert('reflectionRuns', args);
+  },
+});
@@ -0,0 +1,99 @@
+import {
+  applyRelationshipUpdate,
+  describeAffinity,
+  parseRelationshipUpdate,
+  pickConversationCandidate,
+} from './relationships';
+
+describe('parseRelationshipUpdate', () => {
+  test('should parse a JSON update wrapped in prose', () => {
+    expect(
+      parseRelationshipUpdate(
+        'Sure! {"affinityChange": 2, "description": " Bob is a good listener. "} Hope that helps.',
+      ),
+    ).toEqual({ affinityChange: 2, description: 'Bob is a good listener.' });
+  });
+
+  test('should round and clamp the affinity change', () => {
+    expect(
+      parseRelationshipUpdate('{"affinityChange": "-1.4", "description": "Meh."}')?.affinityChange,
+    ).toBe(-1);
+    expect(
+      parseRelationshipUpdate('{"affinityChange": 10, "description": "Wonderful!"}')
+        ?.affinityChange,
+    ).toBe(3);
+  });
+
+  test('should reject unusable updates', () => {
+    expect(parseRelationshipUpdate('I like Bob a lot more now.')).toBeNull();
+    expect(parseRelationshipUpdate('{"affinityChange": "lots", "description": "Hi"}')).toBeNull();
+    expect(parseRelationshipUpdate('{"affinityChange": 1, "description": "  "}')).toBeNull();
+    expect(parseRelationshipUpdate('{"affinityChange": 1,')).toBeNull();
+  });
+});
+
+describe('applyRelationshipUpdate', () => {
+  test('should start new relationships from neutral', () => {
+    expect(applyRelationshipUpdate(null, { affinityChange: -2, description: 'Rude.' })).toEqual({
+      affinity: -2,
+      familiarity: 1,
+      description: 'Rude.',
+    });
+  });
+
+  test('should keep affinity within bounds', () => {
+    const update = { affinityChange: 3, description: 'My best friend.' };
+    expect(applyRelationshipUpdate({ affinity: 9, familiarity: 4 }, update)).toEqual({
+      affinity: 10,
+      familiarity: 5,
+      description: 'My best friend.',
+    });
+  });
+});
+
+describe('describeAffinity', () => {
+  test('should describe each range of affinity', () => {
+    expect(describeAffinity(8)).toBe('close friend');
+    expect(describeAffinity(3)).toBe('friend');
+    expect(describeAffinity(0)).toBe('acquaintance');
+    expect(describeAffinity(-3)).toBe('wary');
+    expect(describeAffinity(-5)).toBe('avoiding');
+  });
+});
+
+describe('pickConversationCandidate', () => {
+  const position = { x: 0, y: 0 };
+
+  test('should pick the nearest candidate without relationships', () => {
+    expect(
+      pickConversationCandidate(position, [
+        { id: 'p:1', position: { x: 5, y: 0 } },
+        { id: 'p:2', position: { x: 2, y: 0 } },
+      ]),
+    ).toBe('p:2');
+  });
+
+  test('should prefer players the agent likes', () => {
+    expect(
+      pickConversationCandidate(position, [
+        { id: 'p:1', position: { x: 5, y: 0 }, affinity: 4 },
+        { id: 'p:2', position: { x: 2, y: 0 }, affinity: 0 },
+      ]),
+    ).toBe('p:1');
+  });
+
+  test('should leave out players the agent is avoiding', () => {
+    expect(
+      pickConversationCandidate(position, [{ id: 'p:1', position: { x: 1, y: 0 }, affinity: -6 }]),
+    ).toBeUndefined();
+  });
+
+  test('should seek out players its goals involve, even ones it would avoid', () => {
+    expect(
+      pickConversationCandidate(position, [
+        { id: 'p:1', position: { x: 8, y: 0 }, affinity: -6, goal: true },
+        { id: 'p:2', position: { x: 2, y: 0 }, affinity: 2 },
+      ]),
+    ).toBe('p:1');
+  });
+});
@@ -0,0 +1,269 @@
+import { v } from 'convex/values';
+import { ActionCtx, DatabaseReader, internalMutation, internalQuery } from '../_generated/server';
+import { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import { chatCompletion, fetchEmbedding } from '../util/llm';
+import { GameId, playerId } from '../aiTown/ids';
+import { trackLLMCall } from './llmCalls';
+import { withinLLMBudget } from './llmBudget';
+import { memoryEmbedding } from './schema';
+import { Point } from '../util/types';
+import { distance } from '../util/geometry';
+import {
+  AFFINITY_DISTANCE,
+  AVOID_AFFINITY,
+  GOAL_DISTANCE,
+  MAX_AFFINITY,
+  MAX_AFFINITY_CHANGE,
+} from '../constants';
+
+const selfInternal = internal.agent.relationships;
+
+export type Relationship = Doc<'relationships'>;
+
+export type RelationshipUpdate = {
+  affinityChange: number;
+  description: string;
+};
+
+// Update how a player feels about each of the others after a conversation with them, from
+// the summary they just remembered it by.
+export async function updateRelationships(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  agentId: GameId<'agents'>,
+  player: { id: string; name: string },
+  otherPlayers: { id: string; name: string }[],
+  summary: string,
+  embeddingConfig: { model: string; dimension: number },
+) {
+  for (const otherPlayer of otherPlayers) {
+    if (!(await withinLLMBudget(ctx, worldId, agentId))) {
+      return;
+    }
+    const previous = await ctx.runQuery(selfInternal.loadRelationship, {
+      worldId,
+      playerId: player.id,
+      otherPlayerId: otherPlayer.id,
+    });
+    const prompt = [
+      `You are ${player.name}, and you just had a conversation with ${otherPlayer.name}.`,
+      `Here's how you remember it: ${summary}`,
+    ];
+    if (previous) {
+      prompt.push(
+        `Before it, this is how you felt about ${otherPlayer.name}: ${previous.description}`,
+      );
+    }
+    prompt.push(
+      `How did the conversation change how you feel about ${otherPlayer.name}?`,
+      `Respond with only a JSON object with the keys "affinityChange" (a whole number from -${MAX_AFFINITY_CHANGE}, if you like them much less now, to ${MAX_AFFINITY_CHANGE}, if you like them much more) and "description" (a sentence or two about your relationship with them now, using first-person pronouns like "I").`,
+      `Example: {"affinityChange": 1, "description": "${otherPlayer.name} is easy to talk to and I'd like to get to know them better."}`,
+    );
+    const { content } = await trackLLMCall(
+      ctx,
+      { worldId, agentId, type: 'chat', kind: 'relationship' },
+      () =>
+        chatCompletion({
+          messages: [{ role: 'user', content: prompt.join('\n') }],
+          max_tokens: 150,
+        }),
+    );
+    const update = parseRelationshipUpdate(content);
+    if (!update) {
+      console.debug(`Couldn't parse a relationship update for ${player.id} from: ${content}`);
+      continue;
+    }
+    const relationship = applyRelationshipUpdate(previous, update);
+    // Remember it too, so it comes up when the agent searches its memories.
+    const description = `My relationship with ${otherPlayer.name}: ${relationship.description}`;
+    const { embedding } = await trackLLMCall(
+      ctx,
+      { worldId, agentId, type: 'embedding', kind: 'relationship', model: embeddingConfig.model },
+      () => fetchEmbedding(description, embeddingConfig),
+    );
+    await ctx.runMutation(selfInternal.saveRelationship, {
+      worldId,
+      playerId: player.id,
+      otherPlayerId: otherPlayer.id,
+      ...relationship,
+      memory: { description, embedding },
+    });
+  }
+}
+
+// Validate the LLM's response, returning null if it isn't a usable update. Changes past
+// MAX_AFFINITY_CHANGE are clamped rather than rejected.
+export function parseRelationshipUpdate(raw: string): RelationshipUpdate | null {
+  // Models like to wrap JSON in prose or code fences, so pull out the object.
+  const match = raw.match(/\{[\s\S]*\}/);
+  if (!match) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch (e) {
+    return null;
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return null;
+  }
+  const { affinityChange, description } = parsed as Record<string, unknown>;
+  const change = typeof affinityChange === 'string' ? Number(affinityChange) : affinityChange;
+  if (typeof change !== 'number' || !Number.isFinite(change)) {
+    return null;
+  }
+  if (typeof description !== 'string' || !description.trim()) {
+    return null;
+  }
+  return {
+    affinityChange: Math.min(
+      MAX_AFFINITY_CHANGE,
+      Math.max(-MAX_AFFINITY_CHANGE, Math.round(change)),
+    ),
+    description: description.trim(),
+  };
+}
+
+export function applyRelationshipUpdate(
+  previous: Pick<Relationship, 'affinity' | 'familiarity'> | null,
+  update: RelationshipUpdate,
+) {
+  const affinity = (previous?.affinity ?? 0) + update.affinityChange;
+  return {
+    affinity: Math.min(MAX_AFFINITY, Math.max(-MAX_AFFINITY, affinity)),
+    familiarity: (previous?.familiarity ?? 0) + 1,
+    description: update.description,
+  };
+}
+
+// A word or two for how a player feels about someone, for the UI.
+export function describeAffinity(affinity: number) {
+  if (affinity >= 6) {
+    return 'close friend';
+  }
+  if (affinity >= 2) {
+    return 'friend';
+  }
+  if (affinity > -2) {
+    return 'acquaintance';
+  }
+  if (affinity > AVOID_AFFINITY) {
+    return 'wary';
+  }
+  return 'avoiding';
+}
+
+// Who to start a conversation with: the nearest candidate, counting players we like, and
+// players our goals involve, as closer. We leave out the ones we're avoiding, unless a goal
+// means talking to them anyway.
+export function pickConversationCandidate(
+  position: Point,
+  candidates: { id: string; position: Point; affinity?: number; goal?: boolean }[],
+) {
+  const scored = candidates
+    .filter((c) => c.goal || (c.affinity ?? 0) > AVOID_AFFINITY)
+    .map((c) => ({
+      id: c.id,
+      score:
+        distance(position, c.position) -
+        (c.affinity ?? 0) * AFFINITY_DISTANCE -
+        (c.goal ? GOAL_DISTANCE : 0),
+    }));
+  scored.sort((a, b) => a.score - b.score);
+  return scored[0]?.id;
+}
+
+export async function loadRelationships(
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+  playerId: string,
+) {
+  const relationships = await db
+    .query('relationships')
+    .withIndex('playerId', (q) => q.eq('worldId', worldId).eq('playerId', playerId))
+    .collect();
+  return new Map(relationships.map((r) => [r.otherPlayerId, r]));
+}
+
+export const loadRelationship = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    otherPlayerId: playerId,
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('relationships')
+      .withIndex('playerId', (q) =>
+        q
+          .eq('worldId', args.worldId)
+          .eq('playerId', args.playerId)
+          .eq('otherPlayerId', args.otherPlayerId),
+      )
+      .unique();
+  },
+});
+
+export const saveRelationship = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    otherPlayerId: playerId,
+    affinity: v.number(),
+    familiarity: v.number(),
+    description: v.string(),
+    memory: v.object({ description: v.string(), embedding: v.array(v.float64()) }),
+  },
+  handler: async (ctx, { memory, ...args }) => {
+    const lastUpdated = Date.now();
+    const existing = await ctx.db
+      .query('relationships')
+      .withIndex('playerId', (q) =>
+        q
+          .eq('worldId', args.worldId)
+          .eq('playerId', args.playerId)
+          .eq('otherPlayerId', args.otherPlayerId),
+      )
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...args, lastUpdated });
+    } else {
+      await ctx.db.insert('relationships', { ...args, lastUpdated });
+    }
+    const embeddingId = await ctx.db.insert(
+      'memoryEmbeddings',
+      memoryEmbedding(args.worldId, args.playerId, memory.embedding),
+    );
+    // Strong feelings either way are worth remembering.
+    const importance = Math.round((Math.abs(args.affinity) / MAX_AFFINITY) * 9);
+    // Keep one memory of how we feel about each player, rewritten as the relationship changes.
+    const previous = await ctx.db
+      .query('memories')
+      .withIndex('playerId_type', (q) =>
+        q.eq('worldId', args.worldId).eq('playerId', args.playerId).eq('data.type', 'relationship'),
+      )
+      .filter((q) => q.eq(q.field('data.playerId'), args.otherPlayerId))
+      .first();
+    if (previous) {
+      await ctx.db.delete(previous.embeddingId);
+      await ctx.db.patch(previous._id, {
+        description: memory.description,
+        embeddingId,
+        importance,
+        lastAccess: lastUpdated,
+      });
+      return;
+    }
+    await ctx.db.insert('memories', {
+      worldId: args.worldId,
+      playerId: args.playerId,
+      description: memory.description,
+      embeddingId,
+      importance,
+      lastAccess: lastUpdated,
+      data: { type: 'relationship', playerId: args.otherPlayerId },
+    });
+  },
+});
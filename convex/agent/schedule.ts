@@ -0,0 +1,169 @@
+import { v } from 'convex/values';
+import { Id } from '../_generated/dataModel';
+import { ActionCtx, internalMutation } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { chatCompletion } from '../util/llm';
+import { trackLLMCall } from './llmCalls';
+import { GameId, agentId, playerId } from '../aiTown/ids';
+import { ScheduleEntry, ScheduleKind, serializedSchedule } from '../aiTown/schedule';
+import { formatMinuteOfDay, parseMinuteOfDay } from '../aiTown/gameClock';
+import { DEFAULT_SCHEDULE } from '../constants';
+
+const SCHEDULE_KINDS: ScheduleKind[] = ['wake', 'work', 'meal', 'social', 'leisure', 'sleep'];
+
+// Longest description we'll keep for a schedule entry.
+const MAX_DESCRIPTION_LENGTH = 60;
+
+export async function planDay(
+  ctx: ActionCtx,
+  worldId: Id<'worlds'>,
+  playerId: GameId<'players'>,
+  agentId: GameId<'agents'>,
+  day: number,
+  zoneNames: string[],
+): Promise<ScheduleEntry[]> {
+  const { name, identity, plan, memories } = await ctx.runQuery(
+    internal.agent.activity.queryActivityData,
+    { worldId, playerId, agentId },
+  );
+  const prompt = [
+    `You are ${name}.`,
+    `About you: ${identity}`,
+    `Your plans: ${plan}`,
+    `It's the start of day ${day + 1} in town.`,
+  ];
+  if (memories.length > 0) {
+    prompt.push(`Here are some things you remember from recently:`);
+    for (const description of memories) {
+      prompt.push(' - ' + description);
+    }
+  }
+  if (zoneNames.length > 0) {
+    prompt.push(`Places in town: ${zoneNames.join(', ')}.`);
+  }
+  prompt.push(
+    `Plan your day: when you wake up, work, eat, spend time with others and go to sleep.`,
+    `Respond with only a JSON array of entries in the order they happen. Each entry has the keys "time" (24-hour "HH:MM"), "kind" (one of ${SCHEDULE_KINDS.map(
+      (k) => `"${k}"`,
+    ).join(', ')}), "activity" (a few words) and "emoji" (a single emoji).`,
+  );
+  if (zoneNames.length > 0) {
+    prompt.push(
+      `If an entry happens at one of the places in town, also include its name as "zone".`,
+    );
+  }
+  prompt.push(
+    `Example: ${JSON.stringify(
+      DEFAULT_SCHEDULE.slice(0, 2).map((e) => ({
+        time: formatMinuteOfDay(e.start),
+        kind: e.kind,
+        activity: e.description,
+        emoji: e.emoji,
+      })),
+    )}`,
+  );
+  try {
+    const { content } = await trackLLMCall(
+      ctx,
+      { worldId, agentId, type: 'chat', kind: 'schedule' },
+      () =>
+        chatCompletion({
+          messages: [{ role: 'user', content: prompt.join('\n') }],
+          max_tokens: 600,
+        }),
+    );
+    const entries = parseSchedule(content, zoneNames);
+    if (entries) {
+      return entries;
+    }
+    console.debug(`Couldn't parse a schedule for ${agentId} from: ${content}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Planning a schedule failed: ${message}`);
+  }
+  return fallbackSchedule();
+}
+
+export function fallbackSchedule(): ScheduleEntry[] {
+  return DEFAULT_SCHEDULE.map((entry) => ({ ...entry }));
+}
+
+// Validate the LLM's response, returning null if it isn't a usable schedule.
+// Individual malformed entries are skipped, but the day has to include sleep.
+export function parseSchedule(raw: string, zoneNames: string[] = []): ScheduleEntry[] | null {
+  const match = raw.match(/\[[\s\S]*\]/);
+  if (!match) {
+    return null;
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch (e) {
+    return null;
+  }
+  if (!Array.isArray(parsed)) {
+    return null;
+  }
+  const entries: ScheduleEntry[] = [];
+  for (const item of parsed) {
+    if (typeof item !== 'object' || item === null) {
+      continue;
+    }
+    const { time, kind, activity, emoji, zone } = item as Record<string, unknown>;
+    const start = typeof time === 'string' ? parseMinuteOfDay(time) : null;
+    if (start === null) {
+      continue;
+    }
+    if (!SCHEDULE_KINDS.includes(kind as ScheduleKind)) {
+      continue;
+    }
+    const description = typeof activity === 'string' ? activity.trim() : '';
+    if (!description || description.length > MAX_DESCRIPTION_LENGTH) {
+      continue;
+    }
+    // Later entries for the same time replace earlier ones.
+    const existing = entries.findIndex((e) => e.start === start);
+    if (existing !== -1) {
+      entries.splice(existing, 1);
+    }
+    const entry: ScheduleEntry = { start, kind: kind as ScheduleKind, description };
+    if (typeof emoji === 'string' && /\p{Extended_Pictographic}/u.test(emoji)) {
+      entry.emoji = emoji.trim();
+    }
+    const zoneName =
+      typeof zone === 'string'
+        ? zoneNames.find((name) => name.toLowerCase() === zone.trim().toLowerCase())
+        : undefined;
+    if (zoneName) {
+      entry.zone = zoneName;
+    }
+    entries.push(entry);
+  }
+  if (!entries.some((e) => e.kind === 'sleep')) {
+    return null;
+  }
+  entries.sort((a, b) => a.start - b.start);
+  return entries;
+}
+
+export const saveSchedule = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    agentId,
+    playerId,
+    ...serializedSchedule,
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query('schedules')
+      .withIndex('agentDay', (q) =>
+        q.eq('worldId', args.worldId).eq('agentId', args.agentId).eq('day', args.day),
+      )
+      .first();
+    if (existing) {
+      await ctx.db.replace(existing._id, args);
+    } else {
+      await ctx.db.insert('schedules', args);
+    }
+  },
+});
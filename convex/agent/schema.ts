@@ -1,14 +1,20 @@
-import { v } from 'convex/values';
-import { playerId, conversationId } from '../aiTown/ids';
+import { GenericId, v } from 'convex/values';
+import { agentId, playerId, conversationId } from '../aiTown/ids';
 import { defineTable } from 'convex/server';
-import { EMBEDDING_DIMENSION } from '../util/llm';
+import { serializedSchedule } from '../aiTown/schedule';
 
 export const memoryFields = {
+  // Player IDs are only unique within a world, so memories are looked up by both. Memories from
+  // before worlds had their own don't have one until `agent/memory:backfillWorlds` has run, and
+  // this can only be made required after that.
+  worldId: v.optional(v.id('worlds')),
   playerId,
   description: v.string(),
   embeddingId: v.id('memoryEmbeddings'),
   importance: v.number(),
   lastAccess: v.number(),
+  // Pinned memories always make it into the agent's prompts and never get consolidated.
+  pinned: v.optional(v.boolean()),
   data: v.union(
     // Setting up dynamics between players
     v.object({
@@ -26,22 +32,262 @@ export const memoryFields = {
     v.object({
       type: v.literal('reflection'),
       relatedMemoryIds: v.array(v.id('memories')),
+      // Unset for level 1, reflections on other memories. Level 2 reflections are on level 1
+      // reflections, and so on.
+      level: v.optional(v.number()),
     }),
+    // Written by hand by whoever owns the agent.
+    v.object({
+      type: v.literal('note'),
+    }),
+    // A summary of old conversation memories, which were deleted once it was written.
+    v.object({
+      type: v.literal('consolidation'),
+      replacedMemoryIds: v.array(v.id('memories')),
+      // The conversations the replaced memories were of, which are kept in the archive.
+      conversationIds: v.array(conversationId),
+      // The other players in those conversations.
+      playerIds: v.array(playerId),
+    }),
+  ),
+};
+// Each supported embedding size gets its own field and vector index on `memoryEmbeddings`,
+// so worlds can use different embedding models and migrate their memories between them.
+export const EMBEDDING_INDEXES = {
+  1536: 'embedding',
+  1024: 'embedding1024',
+  768: 'embedding768',
+} as const;
+export type EmbeddingIndex = (typeof EMBEDDING_INDEXES)[keyof typeof EMBEDDING_INDEXES];
+
+export function embeddingIndex(dimension: number): EmbeddingIndex {
+  const index = EMBEDDING_INDEXES[dimension as keyof typeof EMBEDDING_INDEXES];
+  if (!index) {
+    throw new Error(
+      `Unsupported embedding dimension ${dimension}, add a vector index for it in convex/agent/schema.ts`,
+    );
+  }
+  return index;
+}
+
+// Vector searches can only filter on one field's value at a time, so embeddings also carry
+// their world and player as one key.
+export function worldPlayerKey(worldId: string, playerId: string) {
+  return `${worldId}:${playerId}`;
+}
+
+// A `memoryEmbeddings` row for one of a player's memories.
+export function memoryEmbedding(
+  worldId: GenericId<'worlds'>,
+  playerId: string,
+  embedding: number[],
+) {
+  return {
+    worldId,
+    playerId,
+    worldPlayerKey: worldPlayerKey(worldId, playerId),
+    [embeddingIndex(embedding.length)]: embedding,
+  };
+}
+
+export const embeddingConfig = {
+  model: v.string(),
+  dimension: v.number(),
+};
+
+// What an LLM call was for: an agent's conversation messages, summarizing a conversation
+// into a memory, rating a memory's importance, reflecting, choosing an activity, planning
+// its day, updating how it feels about who it talked to, embedding a memory edited by hand,
+// or re-embedding memories for a new embedding model.
+export const llmCallKind = v.union(
+  v.literal('start'),
+  v.literal('continue'),
+  v.literal('leave'),
+  v.literal('summarize'),
+  v.literal('importance'),
+  v.literal('reflection'),
+  v.literal('activity'),
+  v.literal('schedule'),
+  v.literal('relationship'),
+  v.literal('note'),
+  v.literal('search'),
+  v.literal('consolidation'),
+  v.literal('goals'),
+  v.literal('migration'),
+);
+const llmCallType = v.union(v.literal('chat'), v.literal('embedding'));
+
+// A chat completion or embedding call made on behalf of a world.
+export const llmCallFields = {
+  // Unset for calls that aren't tied to a world.
+  worldId: v.optional(v.id('worlds')),
+  // Unset for calls that aren't made for an agent, like migrations.
+  agentId: v.optional(agentId),
+  type: llmCallType,
+  kind: llmCallKind,
+  provider: v.string(),
+  model: v.string(),
+  // Token counts, when the provider reports them.
+  promptTokens: v.optional(v.number()),
+  completionTokens: v.optional(v.number()),
+  // Including retries.
+  ms: v.number(),
+  retries: v.number(),
+  error: v.optional(v.string()),
+};
+
+// Running totals of `llmCalls` per world, UTC day, agent, kind and model, which outlive
+// the calls themselves (those get vacuumed).
+export const llmUsageFields = {
+  worldId: v.optional(v.id('worlds')),
+  // Start of the UTC day, in ms.
+  day: v.number(),
+  agentId: v.optional(agentId),
+  type: llmCallType,
+  kind: llmCallKind,
+  model: v.string(),
+  calls: v.number(),
+  errors: v.number(),
+  retries: v.number(),
+  ms: v.number(),
+  promptTokens: v.number(),
+  completionTokens: v.number(),
+};
+
+// Calls and tokens a world, or one of its agents, has used in the current clock minute or
+// hour, to hold them to the world's LLM budgets. Rows for past windows get cleared out as
+// new ones start.
+export const llmSpendFields = {
+  worldId: v.id('worlds'),
+  // Unset for the world's total.
+  agentId: v.optional(agentId),
+  window: v.union(v.literal('minute'), v.literal('hour')),
+  // Start of the window, in ms.
+  start: v.number(),
+  calls: v.number(),
+  tokens: v.number(),
+};
+
+// How a player feels about another, from their side. Each agent keeps its own view of the
+// players it has talked to, and updates it as it remembers each conversation.
+export const relationshipFields = {
+  worldId: v.id('worlds'),
+  playerId,
+  otherPlayerId: playerId,
+  // From -MAX_AFFINITY (can't stand them) to MAX_AFFINITY (close friends).
+  affinity: v.number(),
+  // How many conversations they've had.
+  familiarity: v.number(),
+  // A sentence or two from the LLM, in the player's words.
+  description: v.string(),
+  lastUpdated: v.number(),
+};
+
+export const goalStatus = v.union(
+  v.literal('active'),
+  v.literal('achieved'),
+  v.literal('abandoned'),
+);
+
+// Something an agent is working towards. Agents revise their goals after reflecting, and keep
+// the ones they've achieved or abandoned as their history.
+export const goalFields = {
+  worldId: v.id('worlds'),
+  playerId,
+  description: v.string(),
+  status: goalStatus,
+  // Who the agent needs to talk to for it, and where it needs to go, if anyone or anywhere.
+  playerIds: v.array(playerId),
+  zone: v.optional(v.string()),
+  // Why the agent set, achieved or abandoned it, in its own words.
+  reason: v.optional(v.string()),
+  lastUpdated: v.number(),
+};
+
+// What made an agent reflect: the importance of what it's remembered adding up, remembering
+// something especially important, or it being a while since it last reflected.
+export const reflectionTrigger = v.union(
+  v.literal('importance'),
+  v.literal('event'),
+  v.literal('interval'),
+);
+
+// Each time an agent reflected, or tried to, at each level.
+export const reflectionRunFields = {
+  worldId: v.id('worlds'),
+  agentId,
+  playerId,
+  trigger: reflectionTrigger,
+  level: v.number(),
+  outcome: v.union(
+    v.literal('reflected'),
+    // Not enough new memories to reflect on.
+    v.literal('skipped'),
+    v.literal('overBudget'),
+    // The LLM didn't give back insights we could parse, even after retrying.
+    v.literal('unparseable'),
+    v.literal('failed'),
   ),
+  // How many memories it reflected on and how many insights it saved.
+  memories: v.number(),
+  insights: v.number(),
+  // How many times we asked the LLM for insights.
+  attempts: v.number(),
+  error: v.optional(v.string()),
 };
+
+// How an agent ranks the memories it finds when it searches them. Each candidate gets a score
+// from 0 to 1 for each of these, and they're added up with these weights.
+export const memoryWeightFields = {
+  // How close its embedding is to what the agent is looking for.
+  relevance: v.number(),
+  // How well its text matches the words the agent is looking for.
+  keyword: v.number(),
+  importance: v.number(),
+  recency: v.number(),
+  // Hours since a memory was last accessed for its recency score to halve.
+  recencyHalfLife: v.number(),
+};
+
+const embeddingVector = v.optional(v.array(v.float64()));
+
 export const memoryTables = {
   memories: defineTable(memoryFields)
     .index('embeddingId', ['embeddingId'])
-    .index('playerId_type', ['playerId', 'data.type'])
-    .index('playerId', ['playerId']),
+    .index('playerId_type', ['worldId', 'playerId', 'data.type'])
+    .index('playerId_pinned', ['worldId', 'playerId', 'pinned'])
+    .index('playerId', ['worldId', 'playerId'])
+    .searchIndex('description', {
+      searchField: 'description',
+      filterFields: ['worldId', 'playerId'],
+    }),
+  // Only the field for the world's dimension is set, except while migrating to a new one.
   memoryEmbeddings: defineTable({
+    // Both set along with their memory's `worldId`.
+    worldId: v.optional(v.id('worlds')),
     playerId,
-    embedding: v.array(v.float64()),
-  }).vectorIndex('embedding', {
-    vectorField: 'embedding',
-    filterFields: ['playerId'],
-    dimensions: EMBEDDING_DIMENSION,
-  }),
+    // From `worldPlayerKey`.
+    worldPlayerKey: v.optional(v.string()),
+    embedding: embeddingVector,
+    embedding1024: embeddingVector,
+    embedding768: embeddingVector,
+  })
+    .index('worldId', ['worldId'])
+    .vectorIndex('embedding', {
+      vectorField: 'embedding',
+      filterFields: ['worldId', 'worldPlayerKey'],
+      dimensions: 1536,
+    })
+    .vectorIndex('embedding1024', {
+      vectorField: 'embedding1024',
+      filterFields: ['worldId', 'worldPlayerKey'],
+      dimensions: 1024,
+    })
+    .vectorIndex('embedding768', {
+      vectorField: 'embedding768',
+      filterFields: ['worldId', 'worldPlayerKey'],
+      dimensions: 768,
+    }),
 };
 
 export const agentTables = {
@@ -50,4 +296,31 @@ export const agentTables = {
     textHash: v.bytes(),
     embedding: v.array(v.float64()),
   }).index('text', ['textHash']),
+  // Every daily schedule an agent has planned, keyed by in-game day.
+  schedules: defineTable({
+    worldId: v.id('worlds'),
+    agentId,
+    playerId,
+    ...serializedSchedule,
+  }).index('agentDay', ['worldId', 'agentId', 'day']),
+  llmCalls: defineTable(llmCallFields).index('worldId', ['worldId']),
+  llmUsage: defineTable(llmUsageFields)
+    .index('worldId', ['worldId', 'day'])
+    .index('day', ['day', 'worldId', 'agentId', 'kind', 'type', 'model']),
+  relationships: defineTable(relationshipFields).index('playerId', [
+    'worldId',
+    'playerId',
+    'otherPlayerId',
+  ]),
+  reflectionRuns: defineTable(reflectionRunFields).index('playerId', ['worldId', 'playerId']),
+  goals: defineTable(goalFields)
+    .index('playerId', ['worldId', 'playerId', 'status'])
+    .index('playerId_lastUpdated', ['worldId', 'playerId', 'lastUpdated']),
+  // Set once someone changes an agent's weights from the defaults.
+  memoryWeights: defineTable({
+    worldId: v.id('worlds'),
+    playerId,
+    ...memoryWeightFields,
+  }).index('playerId', ['worldId', 'playerId']),
+  llmSpend: defineTable(llmSpendFields).index('worldId', ['worldId', 'window', 'start', 'agentId']),
 };
@@ -0,0 +1,78 @@
+import { agentTools, describeActions, parseToolCalls } from './tools';
+
+const context = {
+  zones: ['Library', 'Cafe'],
+  participants: [{ id: 'p:1', name: 'Bob' }],
+  invitable: [{ id: 'p:2', name: 'Stella' }],
+  inventory: ['a shiny coin'],
+};
+
+describe('agentTools', () => {
+  test('should only offer tools that make sense right now', () => {
+    const names = (tools: ReturnType<typeof agentTools>) => tools.map((t) => t.function.name);
+    expect(names(agentTools(context))).toEqual([
+      'move_to',
+      'invite',
+      'start_activity',
+      'give_item',
+      'end_conversation',
+    ]);
+    expect(names(agentTools({ ...context, zones: [], invitable: [], inventory: [] }))).toEqual([
+      'start_activity',
+      'end_conversation',
+    ]);
+  });
+});
+
+describe('parseToolCalls', () => {
+  test('should turn tool calls into actions', () => {
+    const { actions, errors } = parseToolCalls(
+      [
+        { name: 'give_item', arguments: '{"item": "A shiny coin", "to": "bob"}' },
+        { name: 'invite', arguments: '{"name": "Stella"}' },
+        { name: 'move_to', arguments: '{"zone": "cafe"}' },
+        {
+          name: 'start_activity',
+          arguments: '{"activity": "reading", "emoji": "📖", "durationSeconds": 60}',
+        },
+        { name: 'end_conversation', arguments: '' },
+      ],
+      context,
+    );
+    expect(errors).toEqual([]);
+    expect(actions).toEqual([
+      { kind: 'giveItem', playerId: 'p:1', item: 'a shiny coin' },
+      { kind: 'invite', playerId: 'p:2' },
+      { kind: 'moveTo', zone: 'Cafe' },
+      { kind: 'startActivity', description: 'reading', emoji: '📖', duration: 60_000 },
+      { kind: 'endConversation' },
+    ]);
+  });
+
+  test("should leave out calls that don't check out", () => {
+    const { actions, errors } = parseToolCalls(
+      [
+        { name: 'give_item', arguments: '{"item": "a banana", "to": "Bob"}' },
+        { name: 'give_item', arguments: '{"item": "a shiny coin", "to": "Stella"}' },
+        { name: 'invite', arguments: '{"name": "Bob"}' },
+        { name: 'move_to', arguments: '{"zone": "the moon"}' },
+        { name: 'move_to', arguments: '{"zone": ' },
+        { name: 'fly', arguments: '{}' },
+      ],
+      context,
+    );
+    expect(actions).toEqual([]);
+    expect(errors).toHaveLength(6);
+  });
+});
+
+describe('describeActions', () => {
+  test('should narrate what the agent did', () => {
+    expect(
+      describeActions(
+        [{ kind: 'giveItem', playerId: 'p:1', item: 'a shiny coin' }, { kind: 'endConversation' }],
+        context,
+      ),
+    ).toBe('*gives Bob a shiny coin* *waves goodbye*');
+  });
+});
@@ -0,0 +1,178 @@
+import { CreateChatCompletionRequest, LLMToolCall, getLLMConfig } from '../util/llm';
+import { AgentAction } from '../aiTown/agentActions';
+import { parseActivity } from './activity';
+import { MAX_ACTIVITY_DURATION, MIN_ACTIVITY_DURATION } from '../constants';
+
+// What an agent can do while it talks, for offering its LLM tools and checking the calls
+// it makes.
+export type ToolContext = {
+  zones: string[];
+  // The other players in the conversation, who it can give things to.
+  participants: { id: string; name: string }[];
+  // Players nearby who aren't talking to anyone, who it can invite to join.
+  invitable: { id: string; name: string }[];
+  inventory: string[];
+};
+
+type Tool = NonNullable<CreateChatCompletionRequest['tools']>[number];
+
+// Tool calling is only on by default with OpenAI, since other providers' models may not
+// support it. Set `LLM_TOOLS=true` for ones that do, or `false` to turn it off for OpenAI.
+export function toolsEnabled() {
+  const llmTools = process.env.LLM_TOOLS;
+  if (llmTools) {
+    return llmTools !== 'false';
+  }
+  return getLLMConfig().provider === 'openai';
+}
+
+// The tools that make sense for the agent right now, so e.g. there's no `give_item` when it
+// isn't carrying anything.
+export function agentTools(context: ToolContext): Tool[] {
+  const tools: Tool[] = [];
+  const tool = (
+    name: string,
+    description: string,
+    properties: Record<string, object>,
+    required: string[],
+  ) =>
+    tools.push({
+      type: 'function',
+      function: { name, description, parameters: { type: 'object', properties, required } },
+    });
+  const zone = { type: 'string', enum: context.zones };
+  if (context.zones.length > 0) {
+    tool('move_to', 'Leave the conversation and walk to a place in town.', { zone }, ['zone']);
+  }
+  if (context.invitable.length > 0) {
+    tool(
+      'invite',
+      'Invite someone nearby to join the conversation.',
+      { name: { type: 'string', enum: context.invitable.map((p) => p.name) } },
+      ['name'],
+    );
+  }
+  tool(
+    'start_activity',
+    'Leave the conversation to do something by yourself for a while.',
+    {
+      activity: { type: 'string', description: 'A few words, e.g. "reading a book"' },
+      emoji: { type: 'string', description: 'A single emoji' },
+      durationSeconds: {
+        type: 'number',
+        minimum: MIN_ACTIVITY_DURATION / 1000,
+        maximum: MAX_ACTIVITY_DURATION / 1000,
+      },
+      ...(context.zones.length > 0 ? { zone } : {}),
+    },
+    ['activity', 'emoji', 'durationSeconds'],
+  );
+  if (context.inventory.length > 0) {
+    tool(
+      'give_item',
+      'Give something you are carrying to someone in the conversation.',
+      {
+        item: { type: 'string', enum: context.inventory },
+        to: { type: 'string', enum: context.participants.map((p) => p.name) },
+      },
+      ['item', 'to'],
+    );
+  }
+  tool('end_conversation', 'Say goodbye and leave the conversation.', {}, []);
+  return tools;
+}
+
+export function toolsPrompt(context: ToolContext): string[] {
+  const prompt = [];
+  if (context.inventory.length > 0) {
+    prompt.push(`You're carrying: ${context.inventory.join(', ')}.`);
+  }
+  prompt.push(
+    `If you want to do something, like give someone an item or go somewhere, use one of your tools, but always say something too.`,
+  );
+  return prompt;
+}
+
+// Turn the LLM's tool calls into actions for the engine, leaving out the ones that don't
+// check out.
+export function parseToolCalls(calls: LLMToolCall[], context: ToolContext) {
+  const actions: AgentAction[] = [];
+  const errors: string[] = [];
+  for (const call of calls) {
+    const action = parseToolCall(call, context);
+    if (typeof action === 'string') {
+      errors.push(`${call.name}: ${action}`);
+    } else {
+      actions.push(action);
+    }
+  }
+  return { actions, errors };
+}
+
+function parseToolCall(call: LLMToolCall, context: ToolContext): AgentAction | string {
+  let args: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(call.arguments || '{}');
+    if (typeof parsed !== 'object' || parsed === null) {
+      return `expected an object, got ${call.arguments}`;
+    }
+    args = parsed;
+  } catch (e) {
+    return `invalid arguments ${call.arguments}`;
+  }
+  // Models don't always get the case right.
+  const sameName = (name: string, other: unknown) =>
+    typeof other === 'string' && name.toLowerCase() === other.trim().toLowerCase();
+  const matching = (names: string[], name: unknown) => names.find((n) => sameName(n, name));
+  const findPlayer = (players: { id: string; name: string }[], name: unknown) =>
+    players.find((p) => sameName(p.name, name));
+  switch (call.name) {
+    case 'move_to': {
+      const zone = matching(context.zones, args.zone);
+      return zone ? { kind: 'moveTo', zone } : `unknown place ${args.zone}`;
+    }
+    case 'invite': {
+      const invitee = findPlayer(context.invitable, args.name);
+      return invitee ? { kind: 'invite', playerId: invitee.id } : `can't invite ${args.name}`;
+    }
+    case 'start_activity': {
+      const activity = parseActivity(call.arguments, context.zones);
+      return activity ? { kind: 'startActivity', ...activity } : `invalid activity`;
+    }
+    case 'give_item': {
+      const item = matching(context.inventory, args.item);
+      if (!item) {
+        return `not carrying ${args.item}`;
+      }
+      const recipient = findPlayer(context.participants, args.to);
+      return recipient
+        ? { kind: 'giveItem', playerId: recipient.id, item }
+        : `${args.to} isn't in the conversation`;
+    }
+    case 'end_conversation':
+      return { kind: 'endConversation' };
+    default:
+      return 'unknown tool';
+  }
+}
+
+// Stand-in for a reply when the LLM only called tools, so the others see what happened.
+export function describeActions(actions: AgentAction[], context: ToolContext) {
+  const nameOf = (playerId: string) =>
+    [...context.participants, ...context.invitable].find((p) => p.id === playerId)?.name ?? 'them';
+  const descriptions = actions.map((action) => {
+    switch (action.kind) {
+      case 'moveTo':
+        return `heads to the ${action.zone}`;
+      case 'invite':
+        return `waves ${nameOf(action.playerId)} over`;
+      case 'startActivity':
+        return `heads off, ${action.description}`;
+      case 'giveItem':
+        return `gives ${nameOf(action.playerId)} ${action.item}`;
+      case 'endConversation':
+        return 'waves goodbye';
+    }
+  });
+  return descriptions.map((d) => `*${d}*`).join(' ');
+}
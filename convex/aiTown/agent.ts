@@ -1,27 +1,29 @@
-import { ObjectType, v } from 'convex/values';
+import { Infer, ObjectType, v } from 'convex/values';
 import { GameId, parseGameId } from './ids';
 import { agentId, conversationId, playerId } from './ids';
-import { serializedPlayer } from './player';
+import { Player, SerializedPlayer, serializedPlayer } from './player';
 import { Game } from './game';
-import {
-  ACTION_TIMEOUT,
-  AWKWARD_CONVERSATION_TIMEOUT,
-  CONVERSATION_COOLDOWN,
-  CONVERSATION_DISTANCE,
-  INVITE_ACCEPT_PROBABILITY,
-  INVITE_TIMEOUT,
-  MAX_CONVERSATION_DURATION,
-  MAX_CONVERSATION_MESSAGES,
-  MESSAGE_COOLDOWN,
-  MIDPOINT_THRESHOLD,
-  PLAYER_CONVERSATION_COOLDOWN,
-} from '../constants';
+import { CONVERSATION_DISTANCE, MIDPOINT_THRESHOLD } from '../constants';
 import { FunctionArgs } from 'convex/server';
 import { MutationCtx, internalMutation, internalQuery } from '../_generated/server';
+import { Id } from '../_generated/dataModel';
 import { distance } from '../util/geometry';
 import { internal } from '../_generated/api';
 import { movePlayer } from './movement';
+import { loadWorldConfig } from './worldConfig';
 import { insertInput } from './insertInput';
+import { agentAction } from './agentActions';
+import { loadRelationships, pickConversationCandidate } from '../agent/relationships';
+import { ReflectionTrigger } from '../agent/reflection';
+import { loadActiveGoals } from '../agent/goals';
+import { reflectionTrigger } from '../agent/schema';
+import {
+  ScheduleEntry,
+  SerializedSchedule,
+  currentScheduleEntry,
+  minutesUntilNextEntry,
+  serializedSchedule,
+} from './schedule';
 
 export class Agent {
   id: GameId<'agents'>;
@@ -29,6 +31,13 @@ export class Agent {
   toRemember?: GameId<'conversations'>;
   lastConversation?: number;
   lastInviteAttempt?: number;
+  // An activity we're walking over to a zone to start.
+  pendingActivity?: PendingActivity;
+  // Today's plan, replaced when the game clock rolls over to a new day.
+  schedule?: SerializedSchedule;
+  // When the agent last reflected, and what's made it due to reflect again, if anything.
+  lastReflection?: number;
+  reflectionTrigger?: ReflectionTrigger;
   inProgressOperation?: {
     name: string;
     operationId: string;
@@ -36,7 +45,16 @@ export class Agent {
   };
 
   constructor(serialized: SerializedAgent) {
-    const { id, lastConversation, lastInviteAttempt, inProgressOperation } = serialized;
+    const {
+      id,
+      lastConversation,
+      lastInviteAttempt,
+      pendingActivity,
+      schedule,
+      lastReflection,
+      reflectionTrigger,
+      inProgressOperation,
+    } = serialized;
     const playerId = parseGameId('players', serialized.playerId);
     this.id = parseGameId('agents', id);
     this.playerId = playerId;
@@ -46,16 +64,27 @@ export class Agent {
         : undefined;
     this.lastConversation = lastConversation;
     this.lastInviteAttempt = lastInviteAttempt;
+    this.pendingActivity = pendingActivity;
+    this.schedule = schedule;
+    this.lastReflection = lastReflection;
+    this.reflectionTrigger = reflectionTrigger;
     this.inProgressOperation = inProgressOperation;
   }
 
+  scheduledEntry(game: Game, now: number): ScheduleEntry | undefined {
+    if (!this.schedule) {
+      return undefined;
+    }
+    return currentScheduleEntry(this.schedule.entries, game.clock.timeAt(now).minuteOfDay);
+  }
+
   tick(game: Game, now: number) {
     const player = game.world.players.get(this.playerId);
     if (!player) {
       console.warn(`Agent ${this.id} missing player ${this.playerId}, removing agent.`);
       for (const conversation of [...game.world.conversations.values()]) {
         if (conversation.participants.has(this.playerId)) {
-          conversation.stop(game, now);
+          conversation.removeParticipant(game, now, this.playerId);
         }
       }
       game.world.agents.delete(this.id);
@@ -68,7 +97,7 @@ export class Agent {
       return;
     }
     if (this.inProgressOperation) {
-      if (now < this.inProgressOperation.started + ACTION_TIMEOUT) {
+      if (now < this.inProgressOperation.started + game.config.actionTimeout) {
         // Wait on the operation to finish.
         return;
       }
@@ -78,8 +107,67 @@ export class Agent {
     const conversation = game.world.playerConversation(player);
     const member = conversation?.participants.get(player.id);
 
+    // Plan out the day once it starts, finishing up any conversation first.
+    const time = game.clock.timeAt(now);
+    if (!conversation && this.schedule?.day !== time.day) {
+      this.startOperation(game, now, 'agentPlanDay', {
+        worldId: game.worldId,
+        playerId: this.playerId,
+        agentId: this.id,
+        day: time.day,
+        zones: game.worldMap.zones.map((z) => z.name),
+      });
+      return;
+    }
+    const scheduled = this.scheduledEntry(game, now);
+
+    // Reflect when something's made us due to, or otherwise every so often, between
+    // conversations.
+    if (this.lastReflection === undefined) {
+      this.lastReflection = now;
+    }
+    const reflectionTrigger =
+      this.reflectionTrigger ??
+      (now >= this.lastReflection + game.config.reflectionInterval ? 'interval' : undefined);
+    if (!conversation && reflectionTrigger) {
+      this.startOperation(game, now, 'agentReflect', {
+        worldId: game.worldId,
+        playerId: this.playerId,
+        agentId: this.id,
+        trigger: reflectionTrigger,
+      });
+      this.lastReflection = now;
+      delete this.reflectionTrigger;
+      return;
+    }
+
     const recentlyAttemptedInvite =
-      this.lastInviteAttempt && now < this.lastInviteAttempt + CONVERSATION_COOLDOWN;
+      this.lastInviteAttempt && now < this.lastInviteAttempt + game.config.conversationCooldown;
+    if (this.pendingActivity) {
+      if (conversation) {
+        delete this.pendingActivity;
+      } else if (!player.pathfinding) {
+        // We've either arrived or given up on getting there, so get started.
+        const { description, emoji, duration } = this.pendingActivity;
+        player.activity = { description, emoji, until: now + duration };
+        delete this.pendingActivity;
+      }
+    }
+    // Go to sleep where we are when our schedule says it's bedtime.
+    if (
+      !conversation &&
+      scheduled?.kind === 'sleep' &&
+      !(player.activity && player.activity.until > now)
+    ) {
+      delete player.pathfinding;
+      delete this.pendingActivity;
+      const minutes = minutesUntilNextEntry(this.schedule!.entries, time.minuteOfDay);
+      player.activity = {
+        description: scheduled.description,
+        emoji: scheduled.emoji ?? '💤',
+        until: now + game.clock.realDuration(minutes),
+      };
+    }
     const doingActivity = player.activity && player.activity.until > now;
     if (doingActivity && (conversation || player.pathfinding)) {
       player.activity!.until = now;
@@ -97,9 +185,17 @@ export class Agent {
           .filter(
             (p) => ![...game.world.conversations.values()].find((c) => c.participants.has(p.id)),
           )
+          // Let sleeping agents lie.
+          .filter((p) => {
+            const other = [...game.world.agents.values()].find((a) => a.playerId === p.id);
+            return other?.scheduledEntry(game, now)?.kind !== 'sleep';
+          })
           .map((p) => p.serialize()),
         agent: this.serialize(),
         map: game.worldMap.serialize(),
+        gameMinutes: game.clock.minutesAt(now),
+        seed: game.world.rng.int(2 ** 32),
+        config: game.config,
       });
       return;
     }
@@ -117,34 +213,50 @@ export class Agent {
       return;
     }
     if (conversation && member) {
-      const [otherPlayerId, otherMember] = [...conversation.participants.entries()].find(
-        ([id]) => id !== player.id,
-      )!;
-      const otherPlayer = game.world.players.get(otherPlayerId)!;
+      const otherPlayers = [...conversation.participants.keys()]
+        .filter((id) => id !== player.id)
+        .map((id) => game.world.players.get(id))
+        .filter((p): p is Player => !!p);
       if (member.status.kind === 'invited') {
-        // Accept a conversation with another agent with some probability and with
-        // a human unconditionally.
-        if (otherPlayer.human || Math.random() < INVITE_ACCEPT_PROBABILITY) {
-          console.log(`Agent ${player.id} accepting invite from ${otherPlayer.id}`);
+        // Accept a conversation with other agents with some probability, unless
+        // we're asleep, and unconditionally if there's a human in it.
+        const asleep = scheduled?.kind === 'sleep';
+        if (
+          otherPlayers.some((p) => p.human) ||
+          (!asleep && game.world.rng.next() < game.config.inviteAcceptProbability)
+        ) {
+          console.log(`Agent ${player.id} accepting invite to ${conversation.id}`);
           conversation.acceptInvite(game, player);
-          // Stop moving so we can start walking towards the other player.
+          // Stop moving so we can start walking towards the other players.
           if (player.pathfinding) {
             delete player.pathfinding;
           }
         } else {
-          console.log(`Agent ${player.id} rejecting invite from ${otherPlayer.id}`);
+          console.log(`Agent ${player.id} rejecting invite to ${conversation.id}`);
           conversation.rejectInvite(game, now, player);
         }
         return;
       }
       if (member.status.kind === 'walkingOver') {
         // Leave a conversation if we've been waiting for too long.
-        if (member.invited + INVITE_TIMEOUT < now) {
-          console.log(`Giving up on invite to ${otherPlayer.id}`);
+        if (member.invited + game.config.inviteTimeout < now) {
+          console.log(`Giving up on invite to ${conversation.id}`);
           conversation.leave(game, now, player);
           return;
         }
 
+        // Walk towards the nearest player who has accepted their invite.
+        const candidates = otherPlayers.filter(
+          (p) => conversation.participants.get(p.id)?.status.kind !== 'invited',
+        );
+        candidates.sort(
+          (a, b) => distance(player.position, a.position) - distance(player.position, b.position),
+        );
+        const otherPlayer = candidates[0];
+        if (!otherPlayer) {
+          return;
+        }
+
         // Don't keep moving around if we're near enough.
         const playerDistance = distance(player.position, otherPlayer.position);
         if (playerDistance < CONVERSATION_DISTANCE) {
@@ -173,17 +285,20 @@ export class Agent {
       }
       if (member.status.kind === 'participating') {
         const started = member.status.started;
+        const otherPlayerIds = otherPlayers
+          .filter((p) => conversation.participants.get(p.id)?.status.kind === 'participating')
+          .map((p) => p.id);
         if (conversation.isTyping && conversation.isTyping.playerId !== player.id) {
           // Wait for the other player to finish typing.
           return;
         }
         if (!conversation.lastMessage) {
           const isInitiator = conversation.creator === player.id;
-          const awkwardDeadline = started + AWKWARD_CONVERSATION_TIMEOUT;
+          const awkwardDeadline = started + game.config.awkwardConversationTimeout;
           // Send the first message if we're the initiator or if we've been waiting for too long.
           if (isInitiator || awkwardDeadline < now) {
             // Grab the lock on the conversation and send a "start" message.
-            console.log(`${player.id} initiating conversation with ${otherPlayer.id}.`);
+            console.log(`${player.id} initiating conversation ${conversation.id}.`);
             const messageUuid = crypto.randomUUID();
             conversation.setIsTyping(now, player, messageUuid);
             this.startOperation(game, now, 'agentGenerateMessage', {
@@ -191,7 +306,7 @@ export class Agent {
               playerId: player.id,
               agentId: this.id,
               conversationId: conversation.id,
-              otherPlayerId: otherPlayer.id,
+              otherPlayerIds,
               messageUuid,
               type: 'start',
             });
@@ -202,9 +317,12 @@ export class Agent {
           }
         }
         // See if the conversation has been going on too long and decide to leave.
-        const tooLongDeadline = started + MAX_CONVERSATION_DURATION;
-        if (tooLongDeadline < now || conversation.numMessages > MAX_CONVERSATION_MESSAGES) {
-          console.log(`${player.id} leaving conversation with ${otherPlayer.id}.`);
+        const tooLongDeadline = started + game.config.maxConversationDuration;
+        if (
+          tooLongDeadline < now ||
+          conversation.numMessages > game.config.maxConversationMessages
+        ) {
+          console.log(`${player.id} leaving conversation ${conversation.id}.`);
           const messageUuid = crypto.randomUUID();
           conversation.setIsTyping(now, player, messageUuid);
           this.startOperation(game, now, 'agentGenerateMessage', {
@@ -212,26 +330,27 @@ export class Agent {
             playerId: player.id,
             agentId: this.id,
             conversationId: conversation.id,
-            otherPlayerId: otherPlayer.id,
+            otherPlayerIds,
             messageUuid,
             type: 'leave',
           });
           return;
         }
-        // Wait for the awkward deadline if we sent the last message.
-        if (conversation.lastMessage.author === player.id) {
-          const awkwardDeadline = conversation.lastMessage.timestamp + AWKWARD_CONVERSATION_TIMEOUT;
-          if (now < awkwardDeadline) {
-            return;
-          }
+        // Wait for the awkward deadline if we sent the last message, or if it's someone
+        // else's turn in a group conversation.
+        const awkwardDeadline =
+          conversation.lastMessage.timestamp + game.config.awkwardConversationTimeout;
+        const myTurn = conversation.nextSpeaker() === player.id;
+        if (!myTurn && now < awkwardDeadline) {
+          return;
         }
         // Wait for a cooldown after the last message to simulate "reading" the message.
-        const messageCooldown = conversation.lastMessage.timestamp + MESSAGE_COOLDOWN;
+        const messageCooldown = conversation.lastMessage.timestamp + game.config.messageCooldown;
         if (now < messageCooldown) {
           return;
         }
         // Grab the lock and send a message!
-        console.log(`${player.id} continuing conversation with ${otherPlayer.id}.`);
+        console.log(`${player.id} continuing conversation ${conversation.id}.`);
         const messageUuid = crypto.randomUUID();
         conversation.setIsTyping(now, player, messageUuid);
         this.startOperation(game, now, 'agentGenerateMessage', {
@@ -239,7 +358,7 @@ export class Agent {
           playerId: player.id,
           agentId: this.id,
           conversationId: conversation.id,
-          otherPlayerId: otherPlayer.id,
+          otherPlayerIds,
           messageUuid,
           type: 'continue',
         });
@@ -276,17 +395,32 @@ export class Agent {
       toRemember: this.toRemember,
       lastConversation: this.lastConversation,
       lastInviteAttempt: this.lastInviteAttempt,
+      pendingActivity: this.pendingActivity,
+      schedule: this.schedule,
+      lastReflection: this.lastReflection,
+      reflectionTrigger: this.reflectionTrigger,
       inProgressOperation: this.inProgressOperation,
     };
   }
 }
 
+const pendingActivity = v.object({
+  description: v.string(),
+  emoji: v.optional(v.string()),
+  duration: v.number(),
+});
+type PendingActivity = Infer<typeof pendingActivity>;
+
 export const serializedAgent = {
   id: agentId,
   playerId: playerId,
   toRemember: v.optional(conversationId),
   lastConversation: v.optional(v.number()),
   lastInviteAttempt: v.optional(v.number()),
+  pendingActivity: v.optional(pendingActivity),
+  schedule: v.optional(v.object(serializedSchedule)),
+  lastReflection: v.optional(v.number()),
+  reflectionTrigger: v.optional(reflectionTrigger),
   inProgressOperation: v.optional(
     v.object({
       name: v.string(),
@@ -311,6 +445,12 @@ export async function runAgentOperation(ctx: MutationCtx, operation: string, arg
     case 'agentDoSomething':
       reference = internal.aiTown.agentOperations.agentDoSomething;
       break;
+    case 'agentPlanDay':
+      reference = internal.aiTown.agentOperations.agentPlanDay;
+      break;
+    case 'agentReflect':
+      reference = internal.aiTown.agentOperations.agentReflect;
+      break;
     default:
       throw new Error(`Unknown operation: ${operation}`);
   }
@@ -326,26 +466,90 @@ export const agentSendMessage = internalMutation({
     text: v.string(),
     messageUuid: v.string(),
     leaveConversation: v.boolean(),
+    actions: v.optional(v.array(agentAction)),
     operationId: v.string(),
   },
   handler: async (ctx, args) => {
-    await ctx.db.insert('messages', {
-      conversationId: args.conversationId,
-      author: args.playerId,
-      text: args.text,
-      messageUuid: args.messageUuid,
-      worldId: args.worldId,
-    });
+    const draft = await findDraftMessage(ctx, args.worldId, args.conversationId, args.messageUuid);
+    if (draft) {
+      await ctx.db.patch(draft._id, { text: args.text, draft: undefined });
+    } else {
+      await ctx.db.insert('messages', {
+        conversationId: args.conversationId,
+        author: args.playerId,
+        text: args.text,
+        messageUuid: args.messageUuid,
+        worldId: args.worldId,
+      });
+    }
     await insertInput(ctx, args.worldId, 'agentFinishSendingMessage', {
       conversationId: args.conversationId,
       agentId: args.agentId,
       timestamp: Date.now(),
       leaveConversation: args.leaveConversation,
+      actions: args.actions,
       operationId: args.operationId,
     });
   },
 });
 
+// Show the agent's reply as it streams in. `agentSendMessage` finalizes it.
+export const agentUpdateDraftMessage = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    conversationId,
+    playerId,
+    text: v.string(),
+    messageUuid: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const draft = await findDraftMessage(ctx, args.worldId, args.conversationId, args.messageUuid);
+    if (draft) {
+      await ctx.db.patch(draft._id, { text: args.text });
+      return;
+    }
+    await ctx.db.insert('messages', {
+      conversationId: args.conversationId,
+      author: args.playerId,
+      text: args.text,
+      messageUuid: args.messageUuid,
+      worldId: args.worldId,
+      draft: true,
+    });
+  },
+});
+
+export const agentDeleteDraftMessage = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    conversationId,
+    messageUuid: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const draft = await findDraftMessage(ctx, args.worldId, args.conversationId, args.messageUuid);
+    if (draft) {
+      await ctx.db.delete(draft._id);
+    }
+  },
+});
+
+// Conversation IDs are only unique within a world, so drafts are matched by world too.
+async function findDraftMessage(
+  ctx: MutationCtx,
+  worldId: Id<'worlds'>,
+  conversationId: string,
+  messageUuid: string,
+) {
+  const message = await ctx.db
+    .query('messages')
+    .withIndex('messageUuid', (q) =>
+      q.eq('conversationId', conversationId).eq('messageUuid', messageUuid),
+    )
+    .filter((q) => q.eq(q.field('worldId'), worldId))
+    .first();
+  return message?.draft ? message : null;
+}
+
 export const findConversationCandidate = internalQuery({
   args: {
     now: v.number(),
@@ -354,9 +558,10 @@ export const findConversationCandidate = internalQuery({
     otherFreePlayers: v.array(v.object(serializedPlayer)),
   },
   handler: async (ctx, { now, worldId, player, otherFreePlayers }) => {
-    const { position } = player;
-    const candidates = [];
-
+    const { playerConversationCooldown } = await loadWorldConfig(ctx.db, worldId);
+    const relationships = await loadRelationships(ctx.db, worldId, player.id);
+    const goals = await loadActiveGoals(ctx.db, worldId, player.id);
+    const lastConversations = new Map<string, number>();
     for (const otherPlayer of otherFreePlayers) {
       // Find the latest conversation we're both members of.
       const lastMember = await ctx.db
@@ -367,15 +572,45 @@ export const findConversationCandidate = internalQuery({
         .order('desc')
         .first();
       if (lastMember) {
-        if (now < lastMember.ended + PLAYER_CONVERSATION_COOLDOWN) {
-          continue;
-        }
+        lastConversations.set(otherPlayer.id, lastMember.ended);
       }
-      candidates.push({ id: otherPlayer.id, position });
     }
-
-    // Sort by distance and take the nearest candidate.
-    candidates.sort((a, b) => distance(a.position, position) - distance(b.position, position));
-    return candidates[0]?.id;
+    return conversationCandidate(
+      now,
+      player,
+      otherFreePlayers,
+      playerConversationCooldown,
+      lastConversations,
+      relationships,
+      goals,
+    );
   },
 });
+
+// Who to invite out of the free players, leaving out the ones we talked to too recently.
+// `lastConversations` has when we last finished talking to each of them.
+export function conversationCandidate(
+  now: number,
+  player: SerializedPlayer,
+  otherFreePlayers: SerializedPlayer[],
+  playerConversationCooldown: number,
+  lastConversations: Map<string, number>,
+  relationships: Map<string, { affinity: number }>,
+  goals: { playerIds: string[] }[],
+) {
+  const goalPlayerIds = new Set(goals.flatMap((g) => g.playerIds));
+  const candidates = [];
+  for (const otherPlayer of otherFreePlayers) {
+    const ended = lastConversations.get(otherPlayer.id);
+    if (ended !== undefined && now < ended + playerConversationCooldown) {
+      continue;
+    }
+    candidates.push({
+      id: otherPlayer.id,
+      position: otherPlayer.position,
+      affinity: relationships.get(otherPlayer.id)?.affinity,
+      goal: goalPlayerIds.has(otherPlayer.id),
+    });
+  }
+  return pickConversationCandidate(player.position, candidates);
+}
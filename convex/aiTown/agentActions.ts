@@ -0,0 +1,120 @@
+import { Infer, v } from 'convex/values';
+import { Game } from './game';
+import { Agent } from './agent';
+import { Player } from './player';
+import { Conversation } from './conversation';
+import { movePlayer } from './movement';
+import { parseGameId, playerId } from './ids';
+
+// Things agents can do in the world while they talk, which their LLM picks with tool calls
+// (see `convex/agent/tools.ts`). They're checked against the world again when they're
+// applied, since it may have changed while the agent was thinking.
+export const agentAction = v.union(
+  v.object({ kind: v.literal('moveTo'), zone: v.string() }),
+  v.object({ kind: v.literal('invite'), playerId }),
+  v.object({
+    kind: v.literal('startActivity'),
+    description: v.string(),
+    emoji: v.optional(v.string()),
+    duration: v.number(),
+    zone: v.optional(v.string()),
+  }),
+  v.object({ kind: v.literal('giveItem'), playerId, item: v.string() }),
+  v.object({ kind: v.literal('endConversation') }),
+);
+export type AgentAction = Infer<typeof agentAction>;
+
+// Apply the actions an agent took along with a message, returning whether it's leaving the
+// conversation. Actions that no longer make sense are skipped.
+export function applyAgentActions(
+  game: Game,
+  now: number,
+  agent: Agent,
+  player: Player,
+  conversation: Conversation,
+  actions: AgentAction[],
+) {
+  let leaving = false;
+  // Leave last, since that can end the conversation.
+  const afterLeaving: AgentAction[] = [];
+  for (const action of actions) {
+    try {
+      switch (action.kind) {
+        case 'invite': {
+          const invitee = game.world.players.get(parseGameId('players', action.playerId));
+          if (!invitee) {
+            throw new Error(`Couldn't find player: ${action.playerId}`);
+          }
+          conversation.invite(game, now, player, invitee);
+          break;
+        }
+        case 'giveItem': {
+          const recipient = game.world.players.get(parseGameId('players', action.playerId));
+          if (!recipient || !conversation.participants.has(recipient.id)) {
+            throw new Error(`${action.playerId} isn't in conversation ${conversation.id}`);
+          }
+          const index = player.inventory?.indexOf(action.item) ?? -1;
+          if (index < 0) {
+            throw new Error(`${player.id} isn't carrying ${action.item}`);
+          }
+          player.inventory!.splice(index, 1);
+          recipient.inventory = [...(recipient.inventory ?? []), action.item];
+          break;
+        }
+        case 'moveTo':
+        case 'startActivity':
+          afterLeaving.push(action);
+          leaving = true;
+          break;
+        case 'endConversation':
+          leaving = true;
+          break;
+      }
+    } catch (error: any) {
+      console.warn(`Skipping ${action.kind} for ${agent.id}: ${error.message}`);
+    }
+  }
+  if (!leaving) {
+    return false;
+  }
+  conversation.leave(game, now, player);
+  for (const action of afterLeaving) {
+    if (action.kind === 'moveTo') {
+      const zone = game.worldMap.findZone(action.zone);
+      const destination = zone && game.worldMap.randomPointInZone(zone, game.world.rng);
+      if (destination) {
+        movePlayer(game, now, player, destination);
+      }
+    } else if (action.kind === 'startActivity') {
+      const { description, emoji, duration, zone } = action;
+      startActivity(game, now, agent, player, { description, emoji, duration }, zone);
+    }
+  }
+  return true;
+}
+
+// Start an activity, walking over to its zone first if we aren't there already.
+export function startActivity(
+  game: Game,
+  now: number,
+  agent: Agent,
+  player: Player,
+  activity: { description: string; emoji?: string; duration: number },
+  zoneName?: string,
+) {
+  const zone = zoneName !== undefined ? game.worldMap.findZone(zoneName) : undefined;
+  const destination =
+    zone && game.worldMap.zoneAt(player.position) !== zone
+      ? game.worldMap.randomPointInZone(zone, game.world.rng)
+      : null;
+  if (destination) {
+    movePlayer(game, now, player, destination);
+    agent.pendingActivity = activity;
+  } else {
+    player.activity = {
+      description: activity.description,
+      emoji: activity.emoji,
+      until: now + activity.duration,
+    };
+  }
+}
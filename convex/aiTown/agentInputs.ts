@@ -8,12 +8,17 @@ import { point } from '../util/types';
 import { Descriptions } from '../../data/characters';
 import { AgentDescription } from './agentDescription';
 import { Agent } from './agent';
+import { serializedSchedule } from './schedule';
+import { reflectionTrigger } from '../agent/schema';
+import { agentAction, applyAgentActions, startActivity } from './agentActions';
 
 export const agentInputs = {
   finishRememberConversation: inputHandler({
     args: {
       operationId: v.string(),
       agentId,
+      // Set if what the agent's remembered makes it due to reflect.
+      reflectionTrigger: v.optional(reflectionTrigger),
     },
     handler: (game, now, args) => {
       const agentId = parseGameId('agents', args.agentId);
@@ -29,10 +34,35 @@ export const agentInputs = {
       } else {
         delete agent.inProgressOperation;
         delete agent.toRemember;
+        if (args.reflectionTrigger) {
+          agent.reflectionTrigger = args.reflectionTrigger;
+        }
       }
       return null;
     },
   }),
+  finishReflect: inputHandler({
+    args: {
+      operationId: v.string(),
+      agentId,
+    },
+    handler: (game, now, args) => {
+      const agentId = parseGameId('agents', args.agentId);
+      const agent = game.world.agents.get(agentId);
+      if (!agent) {
+        throw new Error(`Couldn't find agent: ${agentId}`);
+      }
+      if (
+        !agent.inProgressOperation ||
+        agent.inProgressOperation.operationId !== args.operationId
+      ) {
+        console.debug(`Agent ${agentId} wasn't reflecting ${args.operationId}`);
+        return null;
+      }
+      delete agent.inProgressOperation;
+      return null;
+    },
+  }),
   finishDoSomething: inputHandler({
     args: {
       operationId: v.string(),
@@ -40,6 +70,7 @@ export const agentInputs = {
       destination: v.optional(point),
       invitee: v.optional(v.id('players')),
       activity: v.optional(activity),
+      zone: v.optional(v.string()),
     },
     handler: (game, now, args) => {
       const agentId = parseGameId('agents', args.agentId);
@@ -69,11 +100,37 @@ export const agentInputs = {
         movePlayer(game, now, player, args.destination);
       }
       if (args.activity) {
-        player.activity = args.activity;
+        const { description, emoji, until } = args.activity;
+        const duration = Math.max(until - now, 0);
+        startActivity(game, now, agent, player, { description, emoji, duration }, args.zone);
       }
       return null;
     },
   }),
+  finishPlanDay: inputHandler({
+    args: {
+      operationId: v.string(),
+      agentId,
+      schedule: v.object(serializedSchedule),
+    },
+    handler: (game, now, args) => {
+      const agentId = parseGameId('agents', args.agentId);
+      const agent = game.world.agents.get(agentId);
+      if (!agent) {
+        throw new Error(`Couldn't find agent: ${agentId}`);
+      }
+      if (
+        !agent.inProgressOperation ||
+        agent.inProgressOperation.operationId !== args.operationId
+      ) {
+        console.debug(`Agent ${agentId} wasn't planning ${args.operationId}`);
+        return null;
+      }
+      delete agent.inProgressOperation;
+      agent.schedule = args.schedule;
+      return null;
+    },
+  }),
   agentFinishSendingMessage: inputHandler({
     args: {
       agentId,
@@ -81,6 +138,8 @@ export const agentInputs = {
       timestamp: v.number(),
       operationId: v.string(),
       leaveConversation: v.boolean(),
+      // What the agent did along with the message, from its LLM's tool calls.
+      actions: v.optional(v.array(agentAction)),
     },
     handler: (game, now, args) => {
       const agentId = parseGameId('agents', args.agentId);
@@ -110,7 +169,8 @@ export const agentInputs = {
         conversationId: args.conversationId,
         timestamp: args.timestamp,
       });
-      if (args.leaveConversation) {
+      const left = applyAgentActions(game, now, agent, player, conversation, args.actions ?? []);
+      if (args.leaveConversation && !left) {
         conversation.leave(game, now, player);
       }
       return null;
@@ -170,6 +230,7 @@ export const agentInputs = {
         description.character,
         description.identity,
       );
+      game.world.players.get(playerId)!.inventory = [...description.items];
       const agentId = game.allocId('agents');
       game.world.agents.set(
         agentId,
@@ -2,6 +2,10 @@ import { v } from 'convex/values';
 import { internalAction } from '../_generated/server';
 import { WorldMap, serializedWorldMap } from './worldMap';
 import { rememberConversation } from '../agent/memory';
+import { reflect } from '../agent/reflection';
+import { reflectionTrigger } from '../agent/schema';
+import { ChosenActivity, chooseActivity, fallbackActivity } from '../agent/activity';
+import { fallbackSchedule, planDay } from '../agent/schedule';
 import { GameId, agentId, conversationId, playerId } from './ids';
 import {
   continueConversationMessage,
@@ -9,11 +13,21 @@ import {
   startConversationMessage,
 } from '../agent/conversation';
 import { assertNever } from '../util/assertNever';
-import { serializedAgent } from './agent';
-import { ACTIVITIES, ACTIVITY_COOLDOWN, CONVERSATION_COOLDOWN } from '../constants';
-import { api, internal } from '../_generated/api';
+import { SerializedAgent, serializedAgent } from './agent';
+import {
+  LEAVE_MESSAGES,
+  MESSAGE_STREAM_UPDATE_INTERVAL,
+  ZONE_WANDER_PROBABILITY,
+} from '../constants';
+import { internal } from '../_generated/api';
 import { sleep } from '../util/sleep';
-import { serializedPlayer } from './player';
+import { SerializedPlayer, serializedPlayer } from './player';
+import { ClockTime, clockTime } from './gameClock';
+import { ScheduleEntry, currentScheduleEntry } from './schedule';
+import { Rng } from '../util/rng';
+import { WorldConfigOverrides, resolveWorldConfig, worldConfigFields } from './worldConfig';
+import { Point } from '../util/types';
+import { withinLLMBudget } from '../agent/llmBudget';
 
 export const agentRememberConversation = internalAction({
   args: {
@@ -24,6 +38,7 @@ export const agentRememberConversation = internalAction({
     operationId: v.string(),
   },
   handler: async (ctx, args) => {
+    let reflectionTrigger;
     try {
       await rememberConversation(
         ctx,
@@ -32,14 +47,53 @@ export const agentRememberConversation = internalAction({
         args.playerId as GameId<'players'>,
         args.conversationId as GameId<'conversations'>,
       );
+      reflectionTrigger = await ctx.runQuery(internal.agent.reflection.checkReflectionTriggers, {
+        worldId: args.worldId,
+        playerId: args.playerId,
+      });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       console.error(`agentRememberConversation failed: ${message}`);
     } finally {
       await sleep(Math.random() * 1000);
-      await ctx.runMutation(api.aiTown.main.sendInput, {
+      await ctx.runMutation(internal.aiTown.main.sendInput, {
         worldId: args.worldId,
         name: 'finishRememberConversation',
+        args: {
+          agentId: args.agentId,
+          operationId: args.operationId,
+          reflectionTrigger: reflectionTrigger ?? undefined,
+        },
+      });
+    }
+  },
+});
+
+export const agentReflect = internalAction({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    agentId,
+    trigger: reflectionTrigger,
+    operationId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    try {
+      await reflect(
+        ctx,
+        args.worldId,
+        args.agentId as GameId<'agents'>,
+        args.playerId as GameId<'players'>,
+        args.trigger,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`agentReflect failed: ${message}`);
+    } finally {
+      await sleep(Math.random() * 1000);
+      await ctx.runMutation(internal.aiTown.main.sendInput, {
+        worldId: args.worldId,
+        name: 'finishReflect',
         args: {
           agentId: args.agentId,
           operationId: args.operationId,
@@ -55,7 +109,7 @@ export const agentGenerateMessage = internalAction({
     playerId,
     agentId,
     conversationId,
-    otherPlayerId: playerId,
+    otherPlayerIds: v.array(playerId),
     operationId: v.string(),
     type: v.union(v.literal('start'), v.literal('continue'), v.literal('leave')),
     messageUuid: v.string(),
@@ -75,28 +129,61 @@ export const agentGenerateMessage = internalAction({
       default:
         assertNever(args.type);
     }
+    // Write the reply to a draft message as it streams in, at most every so often.
+    let lastUpdate = 0;
+    const onText = async (text: string) => {
+      const now = Date.now();
+      if (now < lastUpdate + MESSAGE_STREAM_UPDATE_INTERVAL) {
+        return;
+      }
+      lastUpdate = now;
+      await ctx.runMutation(internal.aiTown.agent.agentUpdateDraftMessage, {
+        worldId: args.worldId,
+        conversationId: args.conversationId,
+        playerId: args.playerId,
+        text,
+        messageUuid: args.messageUuid,
+      });
+    };
     try {
-      const text = await completionFn(
-        ctx,
-        args.worldId,
-        args.conversationId as GameId<'conversations'>,
-        args.playerId as GameId<'players'>,
-        args.otherPlayerId as GameId<'players'>,
-      );
+      let reply;
+      let leaveConversation = args.type === 'leave';
+      if (await withinLLMBudget(ctx, args.worldId, args.agentId as GameId<'agents'>)) {
+        reply = await completionFn(
+          ctx,
+          args.worldId,
+          args.conversationId as GameId<'conversations'>,
+          args.playerId as GameId<'players'>,
+          args.otherPlayerIds as GameId<'players'>[],
+          onText,
+        );
+      } else {
+        // Say goodbye without the LLM once we're out of budget. Like the LLM's replies, the
+        // text doesn't affect the game, so it needn't come from the world's seeded RNG.
+        const text = LEAVE_MESSAGES[Math.floor(Math.random() * LEAVE_MESSAGES.length)];
+        reply = { text, actions: [] };
+        leaveConversation = true;
+      }
       await ctx.runMutation(internal.aiTown.agent.agentSendMessage, {
         worldId: args.worldId,
         conversationId: args.conversationId,
         agentId: args.agentId,
         playerId: args.playerId,
-        text,
+        text: reply.text,
         messageUuid: args.messageUuid,
-        leaveConversation: args.type === 'leave',
+        leaveConversation,
+        actions: reply.actions,
         operationId: args.operationId,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       console.error(`agentGenerateMessage failed: ${message}`);
-      await ctx.runMutation(api.aiTown.main.sendInput, {
+      await ctx.runMutation(internal.aiTown.agent.agentDeleteDraftMessage, {
+        worldId: args.worldId,
+        conversationId: args.conversationId,
+        messageUuid: args.messageUuid,
+      });
+      await ctx.runMutation(internal.aiTown.main.sendInput, {
         worldId: args.worldId,
         name: 'agentAbortConversation',
         args: {
@@ -110,6 +197,46 @@ export const agentGenerateMessage = internalAction({
   },
 });
 
+export const agentPlanDay = internalAction({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    agentId,
+    day: v.number(),
+    zones: v.array(v.string()),
+    operationId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const entries = (await withinLLMBudget(ctx, args.worldId, args.agentId as GameId<'agents'>))
+      ? await planDay(
+          ctx,
+          args.worldId,
+          args.playerId as GameId<'players'>,
+          args.agentId as GameId<'agents'>,
+          args.day,
+          args.zones,
+        )
+      : fallbackSchedule();
+    await ctx.runMutation(internal.agent.schedule.saveSchedule, {
+      worldId: args.worldId,
+      agentId: args.agentId,
+      playerId: args.playerId,
+      day: args.day,
+      entries,
+    });
+    await sleep(Math.random() * 1000);
+    await ctx.runMutation(internal.aiTown.main.sendInput, {
+      worldId: args.worldId,
+      name: 'finishPlanDay',
+      args: {
+        operationId: args.operationId,
+        agentId: args.agentId,
+        schedule: { day: args.day, entries },
+      },
+    });
+  },
+});
+
 export const agentDoSomething = internalAction({
   args: {
     worldId: v.id('worlds'),
@@ -117,82 +244,139 @@ export const agentDoSomething = internalAction({
     agent: v.object(serializedAgent),
     map: v.object(serializedWorldMap),
     otherFreePlayers: v.array(v.object(serializedPlayer)),
+    // In-game minutes on the world's clock when the operation started.
+    gameMinutes: v.number(),
+    // Drawn from the world's generator so the operation's choices are reproducible.
+    seed: v.number(),
+    // The world's rules when the operation started.
+    config: v.optional(v.object(worldConfigFields)),
     operationId: v.string(),
   },
   handler: async (ctx, args) => {
     const { player, agent } = args;
+    const worldId = args.worldId;
+    const agentId = agent.id as GameId<'agents'>;
     const map = new WorldMap(args.map);
+    const rng = new Rng(args.seed);
     const now = Date.now();
-    // Don't try to start a new conversation if we were just in one.
-    const justLeftConversation =
-      agent.lastConversation && now < agent.lastConversation + CONVERSATION_COOLDOWN;
-    // Don't try again if we recently tried to find someone to invite.
-    const recentlyAttemptedInvite =
-      agent.lastInviteAttempt && now < agent.lastInviteAttempt + CONVERSATION_COOLDOWN;
-    const recentActivity = player.activity && now < player.activity.until + ACTIVITY_COOLDOWN;
-    // Decide whether to do an activity or wander somewhere.
-    if (!player.pathfinding) {
-      if (recentActivity || justLeftConversation) {
-        await sleep(Math.random() * 1000);
-        await ctx.runMutation(api.aiTown.main.sendInput, {
-          worldId: args.worldId,
-          name: 'finishDoSomething',
-          args: {
-            operationId: args.operationId,
-            agentId: agent.id,
-            destination: wanderDestination(map),
-          },
-        });
-        return;
-      } else {
-        // TODO: have LLM choose the activity & emoji
-        const activity = ACTIVITIES[Math.floor(Math.random() * ACTIVITIES.length)];
-        await sleep(Math.random() * 1000);
-        await ctx.runMutation(api.aiTown.main.sendInput, {
-          worldId: args.worldId,
-          name: 'finishDoSomething',
-          args: {
-            operationId: args.operationId,
-            agentId: agent.id,
-            activity: {
-              description: activity.description,
-              emoji: activity.emoji,
-              until: Date.now() + activity.duration,
-            },
-          },
-        });
-        return;
-      }
-    }
-    const invitee =
-      justLeftConversation || recentlyAttemptedInvite
-        ? undefined
-        : await ctx.runQuery(internal.aiTown.agent.findConversationCandidate, {
+    const decision = await decideDoSomething(
+      { ...args, map, rng, now },
+      {
+        withinLLMBudget: () => withinLLMBudget(ctx, worldId, agentId),
+        loadCurrentGoal: () =>
+          ctx.runQuery(internal.agent.goals.loadCurrentGoal, { worldId, playerId: player.id }),
+        chooseActivity: (time, scheduled) =>
+          chooseActivity(ctx, worldId, player, agentId, map, time, rng, scheduled),
+        findConversationCandidate: () =>
+          ctx.runQuery(internal.aiTown.agent.findConversationCandidate, {
             now,
-            worldId: args.worldId,
-            player: args.player,
+            worldId,
+            player,
             otherFreePlayers: args.otherFreePlayers,
-          });
-
+          }),
+      },
+    );
     // TODO: We hit a lot of OCC errors on sending inputs in this file. It's
     // easy for them to get scheduled at the same time and line up in time.
-    await sleep(Math.random() * 1000);
-    await ctx.runMutation(api.aiTown.main.sendInput, {
-      worldId: args.worldId,
+    await sleep(rng.next() * 1000);
+    await ctx.runMutation(internal.aiTown.main.sendInput, {
+      worldId,
       name: 'finishDoSomething',
       args: {
         operationId: args.operationId,
-        agentId: args.agent.id,
-        invitee,
+        agentId: agent.id,
+        ...finishDoSomethingArgs(decision, Date.now()),
       },
     });
   },
 });
 
-function wanderDestination(worldMap: WorldMap) {
-  // Wander someonewhere at least one tile away from the edge.
+// What an idle agent does next: wander somewhere, stay put and do an activity, or invite
+// someone to talk. The LLM calls and lookups it needs are passed in, so the simulation can
+// make the same decisions without the database or the LLM.
+export async function decideDoSomething(
+  args: {
+    player: SerializedPlayer;
+    agent: SerializedAgent;
+    map: WorldMap;
+    rng: Rng;
+    now: number;
+    gameMinutes: number;
+    config?: WorldConfigOverrides;
+  },
+  calls: {
+    withinLLMBudget: () => Promise<boolean>;
+    loadCurrentGoal: () => Promise<{ zone?: string } | null>;
+    chooseActivity: (time: ClockTime, scheduled?: ScheduleEntry) => Promise<ChosenActivity>;
+    findConversationCandidate: () => Promise<string | undefined>;
+  },
+): Promise<DoSomethingDecision> {
+  const { player, agent, map, rng, now } = args;
+  const { activityCooldown, conversationCooldown } = resolveWorldConfig(args.config);
+  const time = clockTime(args.gameMinutes);
+  const scheduled = agent.schedule
+    ? currentScheduleEntry(agent.schedule.entries, time.minuteOfDay)
+    : undefined;
+  // Don't try to start a new conversation if we were just in one.
+  const justLeftConversation =
+    agent.lastConversation && now < agent.lastConversation + conversationCooldown;
+  // Don't try again if we recently tried to find someone to invite.
+  const recentlyAttemptedInvite =
+    agent.lastInviteAttempt && now < agent.lastInviteAttempt + conversationCooldown;
+  const recentActivity = player.activity && now < player.activity.until + activityCooldown;
+  // Once we're out of LLM budget, keep to ourselves and do something that doesn't need it.
+  const withinBudget = await calls.withinLLMBudget();
+  // Decide whether to do an activity or wander somewhere.
+  if (!player.pathfinding) {
+    if (recentActivity || justLeftConversation) {
+      // Head wherever our goal takes us when our schedule doesn't say otherwise.
+      const goal = scheduled?.zone ? null : await calls.loadCurrentGoal();
+      return { destination: wanderDestination(map, rng, scheduled?.zone ?? goal?.zone) };
+    }
+    const activity = withinBudget
+      ? await calls.chooseActivity(time, scheduled)
+      : fallbackActivity(rng, scheduled);
+    return { activity };
+  }
+  const invitee =
+    justLeftConversation || recentlyAttemptedInvite || !withinBudget
+      ? undefined
+      : await calls.findConversationCandidate();
+  return { invitee };
+}
+
+export type DoSomethingDecision =
+  | { destination: Point }
+  | { activity: ChosenActivity }
+  | { invitee?: string };
+
+// The `finishDoSomething` input's arguments for a decision, with any activity starting `now`.
+export function finishDoSomethingArgs(decision: DoSomethingDecision, now: number) {
+  if ('activity' in decision) {
+    const { description, emoji, duration, zone } = decision.activity;
+    return { activity: { description, emoji, until: now + duration }, zone };
+  }
+  return decision;
+}
+
+export function wanderDestination(worldMap: WorldMap, rng: Rng, scheduledZone?: string) {
+  // Head to where our schedule says we should be.
+  const scheduled = scheduledZone !== undefined ? worldMap.findZone(scheduledZone) : undefined;
+  const scheduledPoint = scheduled && worldMap.randomPointInZone(scheduled, rng);
+  if (scheduledPoint) {
+    return scheduledPoint;
+  }
+  // Prefer places on the map that mean something, when it has any.
+  if (worldMap.zones.length > 0 && rng.next() < ZONE_WANDER_PROBABILITY) {
+    const zone = rng.pick(worldMap.zones);
+    const point = worldMap.randomPointInZone(zone, rng);
+    if (point) {
+      return point;
+    }
+  }
+  // Otherwise wander someonewhere at least one tile away from the edge.
   return {
-    x: 1 + Math.floor(Math.random() * (worldMap.width - 2)),
-    y: 1 + Math.floor(Math.random() * (worldMap.height - 2)),
+    x: 1 + rng.int(worldMap.width - 2),
+    y: 1 + rng.int(worldMap.height - 2),
   };
 }
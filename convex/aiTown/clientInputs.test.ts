@@ -0,0 +1,39 @@
+import { authorizeInput } from './clientInputs';
+
+const worldId = 'worlds:1' as any;
+const alice = { tokenIdentifier: 'local|alice', name: 'alice' };
+const bob = { tokenIdentifier: 'local|bob', name: 'bob' };
+
+// Just enough of a database for `authorizeInput` to look up the world.
+const db = {
+  get: async () => ({
+    players: [
+      { id: 'p:1', human: alice.tokenIdentifier },
+      { id: 'p:2', human: undefined },
+    ],
+  }),
+} as any;
+
+describe('authorizeInput', () => {
+  test('should let humans act as their own player', async () => {
+    await expect(
+      authorizeInput(db, worldId, alice, 'moveTo', { playerId: 'p:1', destination: null }),
+    ).resolves.toBeUndefined();
+  });
+
+  test("should reject acting as someone else's player", async () => {
+    await expect(
+      authorizeInput(db, worldId, bob, 'moveTo', { playerId: 'p:1', destination: null }),
+    ).rejects.toThrow("You aren't controlling player p:1");
+    await expect(
+      authorizeInput(db, worldId, alice, 'startConversation', { playerId: 'p:2', invitee: 'p:1' }),
+    ).rejects.toThrow("You aren't controlling player p:2");
+  });
+
+  test('should reject inputs that only agents can send', async () => {
+    await expect(
+      authorizeInput(db, worldId, alice, 'finishDoSomething', { agentId: 'a:1', operationId: 'x' }),
+    ).rejects.toThrow("Input finishDoSomething can't be sent by clients");
+    await expect(authorizeInput(db, worldId, alice, 'notAnInput', {})).rejects.toThrow();
+  });
+});
@@ -0,0 +1,56 @@
+import { ConvexError } from 'convex/values';
+import { DatabaseReader } from '../_generated/server';
+import { Id } from '../_generated/dataModel';
+import { AuthIdentity } from '../auth';
+import { InputArgs, InputNames } from './inputs';
+
+// What the caller has to own to send an input: the player or agent named by one of its args.
+type InputPermission<Name extends InputNames> =
+  | { player: keyof InputArgs<Name> & string }
+  | { agent: keyof InputArgs<Name> & string };
+
+// Inputs clients can send with `world:sendWorldInput`. Everything else, like agents
+// reporting back from their operations, can only be sent from internal functions, or
+// from the mutations in `world.ts` that check their own permissions.
+export const clientInputs: { [Name in InputNames]?: InputPermission<Name> } = {
+  moveTo: { player: 'playerId' },
+  startConversation: { player: 'playerId' },
+  inviteToConversation: { player: 'playerId' },
+  startTyping: { player: 'playerId' },
+  acceptInvite: { player: 'playerId' },
+  rejectInvite: { player: 'playerId' },
+  leaveConversation: { player: 'playerId' },
+};
+
+// Throw unless the caller is allowed to send the input with these args.
+export async function authorizeInput(
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+  identity: AuthIdentity,
+  name: string,
+  args: any,
+) {
+  const permission = Object.prototype.hasOwnProperty.call(clientInputs, name)
+    ? clientInputs[name as InputNames]
+    : undefined;
+  if (!permission) {
+    throw new ConvexError(`Input ${name} can't be sent by clients`);
+  }
+  if ('player' in permission) {
+    const playerId = args?.[permission.player];
+    const world = await db.get(worldId);
+    const player = world?.players.find((p) => p.id === playerId);
+    if (!player || player.human !== identity.tokenIdentifier) {
+      throw new ConvexError(`You aren't controlling player ${playerId}`);
+    }
+    return;
+  }
+  const agentId = args?.[permission.agent];
+  const agentDescription = await db
+    .query('agentDescriptions')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId).eq('agentId', agentId))
+    .first();
+  if (!agentDescription || agentDescription.ownerId !== identity.tokenIdentifier) {
+    throw new ConvexError(`You don't own agent ${agentId}`);
+  }
+}
@@ -4,7 +4,7 @@ import { conversationId, playerId } from './ids';
 import { Player } from './player';
 import { inputHandler } from './inputHandler';
 
-import { TYPING_TIMEOUT, CONVERSATION_DISTANCE } from '../constants';
+import { CONVERSATION_DISTANCE } from '../constants';
 import { distance, normalize, vector } from '../util/geometry';
 import { Point } from '../util/types';
 import { Game } from './game';
@@ -27,6 +27,8 @@ export class Conversation {
   };
   numMessages: number;
   participants: Map<GameId<'players'>, ConversationMembership>;
+  // Players who participated in the conversation but left before it ended.
+  formerParticipants: GameId<'players'>[];
 
   constructor(serialized: SerializedConversation) {
     const { id, creator, created, isTyping, lastMessage, numMessages, participants } = serialized;
@@ -44,79 +46,139 @@ export class Conversation {
     };
     this.numMessages = numMessages;
     this.participants = parseMap(participants, ConversationMembership, (m) => m.playerId);
+    this.formerParticipants = (serialized.formerParticipants ?? []).map((p) =>
+      parseGameId('players', p),
+    );
   }
 
   tick(game: Game, now: number) {
-    if (this.isTyping && this.isTyping.since + TYPING_TIMEOUT < now) {
+    if (this.isTyping && this.isTyping.since + game.config.typingTimeout < now) {
       delete this.isTyping;
     }
-    if (this.participants.size !== 2) {
-      console.warn(`Conversation ${this.id} has ${this.participants.size} participants`);
+    const members = [...this.participants.values()].filter((m) => m.status.kind !== 'invited');
+    if (members.length < 2) {
+      // Wait for the invitees to accept before doing anything.
       return;
     }
-    const [playerId1, playerId2] = [...this.participants.keys()];
-    const member1 = this.participants.get(playerId1)!;
-    const member2 = this.participants.get(playerId2)!;
+    const participating = members.filter((m) => m.status.kind === 'participating');
+    const walkingOver = members.filter((m) => m.status.kind === 'walkingOver');
 
-    const player1 = game.world.players.get(playerId1)!;
-    const player2 = game.world.players.get(playerId2)!;
+    if (participating.length === 0) {
+      // Nobody's talking yet, so start the conversation once the creator (or whoever's
+      // still around) is close enough to someone else who's walking over.
+      const anchor = walkingOver.find((m) => m.playerId === this.creator) ?? walkingOver[0];
+      const anchorPlayer = anchor && game.world.players.get(anchor.playerId);
+      if (!anchorPlayer) {
+        return;
+      }
+      for (const member of walkingOver) {
+        if (member === anchor) {
+          continue;
+        }
+        const player = game.world.players.get(member.playerId);
+        if (player && distance(anchorPlayer.position, player.position) < CONVERSATION_DISTANCE) {
+          this.startParticipating(game, now, anchor, anchorPlayer, member, player);
+          break;
+        }
+      }
+    } else {
+      // Once a conversation is underway, players who are walking over join as soon as
+      // they're close enough to anyone who's already participating.
+      for (const member of walkingOver) {
+        const player = game.world.players.get(member.playerId);
+        if (!player) {
+          continue;
+        }
+        const nearby = participating.some((m) => {
+          const other = game.world.players.get(m.playerId);
+          return other && distance(player.position, other.position) < CONVERSATION_DISTANCE;
+        });
+        if (nearby) {
+          console.log(`${player.id} joining conversation ${this.id}`);
+          stopPlayer(player);
+          member.status = { kind: 'participating', started: now };
+        }
+      }
+    }
 
-    const playerDistance = distance(player1?.position, player2?.position);
+    // Orient the participating players towards the rest of the group if they're not moving.
+    const speakers = [...this.participants.values()]
+      .filter((m) => m.status.kind === 'participating')
+      .map((m) => game.world.players.get(m.playerId))
+      .filter((p): p is Player => !!p);
+    if (speakers.length < 2) {
+      return;
+    }
+    for (const player of speakers) {
+      if (player.pathfinding) {
+        continue;
+      }
+      const others = speakers.filter((p) => p.id !== player.id);
+      const center = {
+        x: others.reduce((sum, p) => sum + p.position.x, 0) / others.length,
+        y: others.reduce((sum, p) => sum + p.position.y, 0) / others.length,
+      };
+      const v = normalize(vector(player.position, center));
+      if (v) {
+        player.facing = v;
+      }
+    }
+  }
 
-    // If the players are both in the "walkingOver" state and they're sufficiently close, transition both
-    // of them to "participating" and stop their paths.
-    if (member1.status.kind === 'walkingOver' && member2.status.kind === 'walkingOver') {
-      if (playerDistance < CONVERSATION_DISTANCE) {
-        console.log(`Starting conversation between ${player1.id} and ${player2.id}`);
+  private startParticipating(
+    game: Game,
+    now: number,
+    member1: ConversationMembership,
+    player1: Player,
+    member2: ConversationMembership,
+    player2: Player,
+  ) {
+    console.log(`Starting conversation between ${player1.id} and ${player2.id}`);
 
-        // First, stop the two players from moving.
-        stopPlayer(player1);
-        stopPlayer(player2);
+    // First, stop the two players from moving.
+    stopPlayer(player1);
+    stopPlayer(player2);
 
-        member1.status = { kind: 'participating', started: now };
-        member2.status = { kind: 'participating', started: now };
+    member1.status = { kind: 'participating', started: now };
+    member2.status = { kind: 'participating', started: now };
 
-        // Try to move the first player to grid point nearest the other player.
-        const neighbors = (p: Point) => [
-          { x: p.x + 1, y: p.y },
-          { x: p.x - 1, y: p.y },
-          { x: p.x, y: p.y + 1 },
-          { x: p.x, y: p.y - 1 },
-        ];
-        const floorPos1 = { x: Math.floor(player1.position.x), y: Math.floor(player1.position.y) };
-        const p1Candidates = neighbors(floorPos1).filter((p) => !blocked(game, now, p, player1.id));
-        p1Candidates.sort((a, b) => distance(a, player2.position) - distance(b, player2.position));
-        if (p1Candidates.length > 0) {
-          const p1Candidate = p1Candidates[0];
+    // Try to move the first player to grid point nearest the other player.
+    const neighbors = (p: Point) => [
+      { x: p.x + 1, y: p.y },
+      { x: p.x - 1, y: p.y },
+      { x: p.x, y: p.y + 1 },
+      { x: p.x, y: p.y - 1 },
+    ];
+    const floorPos1 = { x: Math.floor(player1.position.x), y: Math.floor(player1.position.y) };
+    const p1Candidates = neighbors(floorPos1).filter((p) => !blocked(game, now, p, player1.id));
+    p1Candidates.sort((a, b) => distance(a, player2.position) - distance(b, player2.position));
+    if (p1Candidates.length > 0) {
+      const p1Candidate = p1Candidates[0];
 
-          // Try to move the second player to the grid point nearest the first player's
-          // destination.
-          const p2Candidates = neighbors(p1Candidate).filter(
-            (p) => !blocked(game, now, p, player2.id),
-          );
-          p2Candidates.sort(
-            (a, b) => distance(a, player2.position) - distance(b, player2.position),
-          );
-          if (p2Candidates.length > 0) {
-            const p2Candidate = p2Candidates[0];
-            movePlayer(game, now, player1, p1Candidate, true);
-            movePlayer(game, now, player2, p2Candidate, true);
-          }
-        }
+      // Try to move the second player to the grid point nearest the first player's
+      // destination.
+      const p2Candidates = neighbors(p1Candidate).filter((p) => !blocked(game, now, p, player2.id));
+      p2Candidates.sort((a, b) => distance(a, player2.position) - distance(b, player2.position));
+      if (p2Candidates.length > 0) {
+        const p2Candidate = p2Candidates[0];
+        movePlayer(game, now, player1, p1Candidate, true);
+        movePlayer(game, now, player2, p2Candidate, true);
       }
     }
+  }
 
-    // Orient the two players towards each other if they're not moving.
-    if (member1.status.kind === 'participating' && member2.status.kind === 'participating') {
-      const v = normalize(vector(player1.position, player2.position));
-      if (!player1.pathfinding && v) {
-        player1.facing = v;
-      }
-      if (!player2.pathfinding && v) {
-        player2.facing.dx = -v.dx;
-        player2.facing.dy = -v.dy;
-      }
+  // Pick who should talk after the last message: the participating player who comes after
+  // the last author in join order. Returns undefined if nobody's said anything yet.
+  nextSpeaker(): GameId<'players'> | undefined {
+    if (!this.lastMessage) {
+      return undefined;
     }
+    const speakers = [...this.participants.values()]
+      .filter((m) => m.status.kind === 'participating')
+      .map((m) => m.playerId);
+    const lastIndex = speakers.indexOf(this.lastMessage.author);
+    const candidates = [...speakers.slice(lastIndex + 1), ...speakers.slice(0, lastIndex + 1)];
+    return candidates.find((id) => id !== this.lastMessage!.author);
   }
 
   static start(game: Game, now: number, player: Player, invitee: Player) {
@@ -130,7 +192,7 @@ export class Conversation {
       return { error: reason };
     }
     if ([...game.world.conversations.values()].find((c) => c.participants.has(invitee.id))) {
-      const reason = `Player ${player.id} is already in a conversation`;
+      const reason = `Player ${invitee.id} is already in a conversation`;
       console.log(reason);
       return { error: reason };
     }
@@ -152,6 +214,31 @@ export class Conversation {
     return { conversationId };
   }
 
+  invite(game: Game, now: number, player: Player, invitee: Player) {
+    const member = this.participants.get(player.id);
+    if (!member || member.status.kind !== 'participating') {
+      throw new Error(`Player ${player.id} isn't participating in ${this.id}`);
+    }
+    if ([...game.world.conversations.values()].find((c) => c.participants.has(invitee.id))) {
+      throw new Error(`Player ${invitee.id} is already in a conversation`);
+    }
+    const { maxConversationParticipants } = game.config;
+    if (this.participants.size >= maxConversationParticipants) {
+      throw new Error(
+        `Conversation ${this.id} already has ${maxConversationParticipants} participants`,
+      );
+    }
+    console.log(`${player.id} inviting ${invitee.id} to ${this.id}`);
+    this.participants.set(
+      invitee.id,
+      new ConversationMembership({
+        playerId: invitee.id,
+        invited: now,
+        status: { kind: 'invited' },
+      }),
+    );
+  }
+
   setIsTyping(now: number, player: Player, messageUuid: string) {
     if (this.isTyping) {
       if (this.isTyping.playerId !== player.id) {
@@ -187,12 +274,12 @@ export class Conversation {
         )}`,
       );
     }
-    this.stop(game, now);
+    this.removeParticipant(game, now, player.id);
   }
 
   stop(game: Game, now: number) {
     delete this.isTyping;
-    for (const [playerId, member] of this.participants.entries()) {
+    for (const playerId of this.participants.keys()) {
       const agent = [...game.world.agents.values()].find((a) => a.playerId === playerId);
       if (agent) {
         agent.lastConversation = now;
@@ -207,11 +294,41 @@ export class Conversation {
     if (!member) {
       throw new Error(`Couldn't find membership for ${this.id}:${player.id}`);
     }
-    this.stop(game, now);
+    this.removeParticipant(game, now, player.id);
+  }
+
+  // Remove a single player from the conversation, ending it for everyone once fewer than
+  // two players are left who have accepted their invites.
+  removeParticipant(game: Game, now: number, playerId: GameId<'players'>) {
+    const member = this.participants.get(playerId);
+    if (!member) {
+      return;
+    }
+    const remaining = [...this.participants.values()].filter(
+      (m) => m.playerId !== playerId && m.status.kind !== 'invited',
+    );
+    if (remaining.length < 2) {
+      this.stop(game, now);
+      return;
+    }
+    this.participants.delete(playerId);
+    if (this.isTyping?.playerId === playerId) {
+      delete this.isTyping;
+    }
+    // Players who never accepted their invite weren't really part of the conversation.
+    if (member.status.kind === 'invited') {
+      return;
+    }
+    this.formerParticipants.push(playerId);
+    const agent = [...game.world.agents.values()].find((a) => a.playerId === playerId);
+    if (agent) {
+      agent.lastConversation = now;
+      agent.toRemember = this.id;
+    }
   }
 
   serialize(): SerializedConversation {
-    const { id, creator, created, isTyping, lastMessage, numMessages } = this;
+    const { id, creator, created, isTyping, lastMessage, numMessages, formerParticipants } = this;
     return {
       id,
       creator,
@@ -220,6 +337,7 @@ export class Conversation {
       lastMessage,
       numMessages,
       participants: serializeMap(this.participants),
+      formerParticipants,
     };
   }
 }
@@ -243,13 +361,13 @@ export const serializedConversation = {
   ),
   numMessages: v.number(),
   participants: v.array(v.object(serializedConversationMembership)),
+  formerParticipants: v.optional(v.array(playerId)),
 };
 export type SerializedConversation = ObjectType<typeof serializedConversation>;
 
 export const conversationInputs = {
   // Start a conversation, inviting the specified player.
-  // Conversations can only have two participants for now,
-  // so we don't have a separate "invite" input.
+  // Use `inviteToConversation` to add more players once it's underway.
   startConversation: inputHandler({
     args: {
       playerId,
@@ -276,6 +394,34 @@ export const conversationInputs = {
     },
   }),
 
+  // Invite another player to a conversation we're already participating in.
+  inviteToConversation: inputHandler({
+    args: {
+      playerId,
+      conversationId,
+      invitee: playerId,
+    },
+    handler: (game: Game, now: number, args): null => {
+      const playerId = parseGameId('players', args.playerId);
+      const player = game.world.players.get(playerId);
+      if (!player) {
+        throw new Error(`Invalid player ID: ${playerId}`);
+      }
+      const inviteeId = parseGameId('players', args.invitee);
+      const invitee = game.world.players.get(inviteeId);
+      if (!invitee) {
+        throw new Error(`Invalid player ID: ${inviteeId}`);
+      }
+      const conversationId = parseGameId('conversations', args.conversationId);
+      const conversation = game.world.conversations.get(conversationId);
+      if (!conversation) {
+        throw new Error(`Invalid conversation ID: ${conversationId}`);
+      }
+      conversation.invite(game, now, player, invitee);
+      return null;
+    },
+  }),
+
   startTyping: inputHandler({
     args: {
       playerId,
@@ -327,7 +473,7 @@ export const conversationInputs = {
 
   // Accept an invite to a conversation, which puts the
   // player in the "walkingOver" state until they're close
-  // enough to the other participant.
+  // enough to the other participants.
   acceptInvite: inputHandler({
     args: {
       playerId,
@@ -25,6 +25,9 @@ import { internal } from '../_generated/api';
 import { HistoricalObject } from '../engine/historicalObject';
 import { AgentDescription, serializedAgentDescription } from './agentDescription';
 import { parseMap, serializeMap } from '../util/object';
+import { GameClock } from './gameClock';
+import { GAME_CLOCK_SPEED, GAME_CLOCK_START_HOUR } from '../constants';
+import { DEFAULT_WORLD_CONFIG, WorldConfig, loadWorldConfig } from './worldConfig';
 
 const gameState = v.object({
   world: v.object(serializedWorld),
@@ -32,7 +35,7 @@ const gameState = v.object({
   agentDescriptions: v.array(v.object(serializedAgentDescription)),
   worldMap: v.object(serializedWorldMap),
 });
-type GameState = Infer<typeof gameState>;
+export type GameState = Infer<typeof gameState>;
 
 const gameStateDiff = v.object({
   world: v.object(serializedWorld),
@@ -50,6 +53,7 @@ export class Game extends AbstractGame {
   maxInputsPerStep = 32;
 
   world: World;
+  clock: GameClock;
 
   historicalLocations: Map<GameId<'players'>, HistoricalObject<Location>>;
 
@@ -66,11 +70,21 @@ export class Game extends AbstractGame {
     engine: Doc<'engines'>,
     public worldId: Id<'worlds'>,
     state: GameState,
+    // The world's rules, as of when the engine started this run.
+    public config: WorldConfig = DEFAULT_WORLD_CONFIG,
   ) {
     super(engine);
 
     this.world = new World(state.world);
     delete this.world.historicalLocations;
+    if (!this.world.clock) {
+      this.world.clock = new GameClock({
+        epoch: engine.currentTime ?? Date.now(),
+        epochMinutes: GAME_CLOCK_START_HOUR * 60,
+        speed: GAME_CLOCK_SPEED,
+      });
+    }
+    this.clock = this.world.clock;
 
     this.descriptionsModified = false;
     this.worldMap = new WorldMap(state.worldMap);
@@ -90,11 +104,7 @@ export class Game extends AbstractGame {
     db: DatabaseReader,
     worldId: Id<'worlds'>,
     generationNumber: number,
-  ): Promise<{ engine: Doc<'engines'>; gameState: GameState }> {
-    const worldDoc = await db.get(worldId);
-    if (!worldDoc) {
-      throw new Error(`No world found with id ${worldId}`);
-    }
+  ): Promise<{ engine: Doc<'engines'>; gameState: GameState; config: WorldConfig }> {
     const worldStatus = await db
       .query('worldStatus')
       .withIndex('worldId', (q) => q.eq('worldId', worldId))
@@ -103,6 +113,17 @@ export class Game extends AbstractGame {
       throw new Error(`No engine found for world ${worldId}`);
     }
     const engine = await loadEngine(db, worldStatus.engineId, generationNumber);
+    const gameState = await Game.loadState(db, worldId);
+    const config = await loadWorldConfig(db, worldId);
+    return { engine, gameState, config };
+  }
+
+  // Load the world along with its descriptions and map, without checking on the engine.
+  static async loadState(db: DatabaseReader, worldId: Id<'worlds'>): Promise<GameState> {
+    const worldDoc = await db.get(worldId);
+    if (!worldDoc) {
+      throw new Error(`No world found with id ${worldId}`);
+    }
     const playerDescriptionsDocs = await db
       .query('playerDescriptions')
       .withIndex('worldId', (q) => q.eq('worldId', worldId))
@@ -134,13 +155,10 @@ export class Game extends AbstractGame {
       ...worldMap
     } = worldMapDoc;
     return {
-      engine,
-      gameState: {
-        world,
-        playerDescriptions,
-        agentDescriptions,
-        worldMap,
-      },
+      world,
+      playerDescriptions,
+      agentDescriptions,
+      worldMap,
     };
   }
 
@@ -261,7 +279,10 @@ export class Game extends AbstractGame {
     }
     for (const conversation of existingWorld.conversations) {
       if (!newWorld.conversations.some((c) => c.id === conversation.id)) {
-        const participants = conversation.participants.map((p) => p.playerId);
+        const participants = [
+          ...conversation.participants.map((p) => p.playerId),
+          ...(conversation.formerParticipants ?? []),
+        ];
         const archivedConversation = {
           worldId,
           id: conversation.id,
@@ -0,0 +1,39 @@
+import { GameClock, clockTime, formatMinuteOfDay, parseMinuteOfDay } from './gameClock';
+
+describe('GameClock', () => {
+  test('should run faster than real time from its epoch', () => {
+    const clock = new GameClock({ epoch: 1000, epochMinutes: 8 * 60, speed: 60 });
+    expect(clock.minutesAt(1000)).toBe(8 * 60);
+    // A real second is a game minute at 60x.
+    expect(clock.minutesAt(2000)).toBe(8 * 60 + 1);
+    expect(clock.realDuration(30)).toBe(30_000);
+  });
+
+  test('should roll over into the next day', () => {
+    const clock = new GameClock({ epoch: 0, epochMinutes: 23 * 60 + 30, speed: 60 });
+    expect(clock.timeAt(0)).toEqual({ day: 0, minuteOfDay: 23 * 60 + 30 });
+    expect(clock.timeAt(45_000)).toEqual({ day: 1, minuteOfDay: 15 });
+  });
+
+  test('should not jump when the speed changes', () => {
+    const clock = new GameClock({ epoch: 0, epochMinutes: 0, speed: 60 });
+    clock.setSpeed(60_000, 120);
+    expect(clock.minutesAt(60_000)).toBe(60);
+    expect(clock.minutesAt(120_000)).toBe(180);
+    expect(() => clock.setSpeed(120_000, 0)).toThrow();
+  });
+});
+
+describe('clock time helpers', () => {
+  test('should split minutes into days', () => {
+    expect(clockTime(3 * 24 * 60 + 61.5)).toEqual({ day: 3, minuteOfDay: 61 });
+  });
+
+  test('should format and parse times of day', () => {
+    expect(formatMinuteOfDay(7 * 60 + 5)).toBe('07:05');
+    expect(parseMinuteOfDay('7:05')).toBe(7 * 60 + 5);
+    expect(parseMinuteOfDay(' 23:59 ')).toBe(23 * 60 + 59);
+    expect(parseMinuteOfDay('24:00')).toBeNull();
+    expect(parseMinuteOfDay('noon')).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { ObjectType, v } from 'convex/values';
+import { inputHandler } from './inputHandler';
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// The in-game clock is derived from the engine's time: it counts in-game
+// minutes from `epochMinutes` at engine time `epoch`, running `speed` times
+// faster than real time. Changing the speed rebases the epoch so the clock
+// doesn't jump.
+export const serializedGameClock = {
+  epoch: v.number(),
+  epochMinutes: v.number(),
+  speed: v.number(),
+};
+export type SerializedGameClock = ObjectType<typeof serializedGameClock>;
+
+export type ClockTime = {
+  day: number;
+  // Minutes since midnight, in [0, MINUTES_PER_DAY).
+  minuteOfDay: number;
+};
+
+export class GameClock {
+  epoch: number;
+  epochMinutes: number;
+  speed: number;
+
+  constructor(serialized: SerializedGameClock) {
+    const { epoch, epochMinutes, speed } = serialized;
+    this.epoch = epoch;
+    this.epochMinutes = epochMinutes;
+    this.speed = speed;
+  }
+
+  // In-game minutes since the start of day 0.
+  minutesAt(now: number): number {
+    return this.epochMinutes + ((now - this.epoch) * this.speed) / 60_000;
+  }
+
+  timeAt(now: number): ClockTime {
+    return clockTime(this.minutesAt(now));
+  }
+
+  // How long in real milliseconds it takes for `minutes` in-game minutes to pass.
+  realDuration(minutes: number): number {
+    return (minutes * 60_000) / this.speed;
+  }
+
+  setSpeed(now: number, speed: number) {
+    if (!(speed > 0)) {
+      throw new Error(`Invalid clock speed: ${speed}`);
+    }
+    this.epochMinutes = this.minutesAt(now);
+    this.epoch = now;
+    this.speed = speed;
+  }
+
+  serialize(): SerializedGameClock {
+    const { epoch, epochMinutes, speed } = this;
+    return { epoch, epochMinutes, speed };
+  }
+}
+
+export function clockTime(minutes: number): ClockTime {
+  const whole = Math.max(0, Math.floor(minutes));
+  return {
+    day: Math.floor(whole / MINUTES_PER_DAY),
+    minuteOfDay: whole % MINUTES_PER_DAY,
+  };
+}
+
+// Format minutes since midnight as "HH:MM".
+export function formatMinuteOfDay(minuteOfDay: number): string {
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = Math.floor(minuteOfDay % 60);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+// Parse "HH:MM" (or "H:MM") into minutes since midnight, returning null if it isn't a time.
+export function parseMinuteOfDay(raw: string): number | null {
+  const match = raw.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+export const clockInputs = {
+  setClockSpeed: inputHandler({
+    args: {
+      speed: v.number(),
+    },
+    handler: (game, now, args) => {
+      game.clock.setSpeed(now, args.speed);
+      return null;
+    },
+  }),
+};
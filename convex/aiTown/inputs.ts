@@ -2,10 +2,16 @@ import { ObjectType } from 'convex/values';
 import { playerInputs } from './player';
 import { conversationInputs } from './conversation';
 import { agentInputs } from './agentInputs';
+import { clockInputs } from './gameClock';
 
 // It's easy to hit circular dependencies with these imports,
 // so assert at module scope so we hit errors when analyzing.
-if (playerInputs === undefined || conversationInputs === undefined || agentInputs === undefined) {
+if (
+  playerInputs === undefined ||
+  conversationInputs === undefined ||
+  agentInputs === undefined ||
+  clockInputs === undefined
+) {
   throw new Error("Input map is undefined, check if there's a circular import.");
 }
 export const inputs = {
@@ -14,12 +20,12 @@ export const inputs = {
   ...conversationInputs,
   // Inputs for the agent layer.
   ...agentInputs,
+  // Inputs for the in-game clock.
+  ...clockInputs,
 };
 export type Inputs = typeof inputs;
 export type InputNames = keyof Inputs;
 export type InputArgs<Name extends InputNames> = ObjectType<Inputs[Name]['args']>;
-export type InputReturnValue<Name extends InputNames> = ReturnType<
-  Inputs[Name]['handler']
-> extends Promise<infer T>
-  ? T
-  : never;
+export type InputReturnValue<Name extends InputNames> = Awaited<
+  ReturnType<Inputs[Name]['handler']>
+>;
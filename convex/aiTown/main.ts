@@ -1,5 +1,11 @@
 import { ConvexError, v } from 'convex/values';
-import { DatabaseReader, MutationCtx, internalAction, mutation, query } from '../_generated/server';
+import {
+  DatabaseReader,
+  MutationCtx,
+  internalAction,
+  internalMutation,
+  query,
+} from '../_generated/server';
 import { insertInput } from './insertInput';
 import { Game } from './game';
 import { internal } from '../_generated/api';
@@ -94,11 +100,11 @@ export const runStep = internalAction({
   },
   handler: async (ctx, args) => {
     try {
-      const { engine, gameState } = await ctx.runQuery(internal.aiTown.game.loadWorld, {
+      const { engine, gameState, config } = await ctx.runQuery(internal.aiTown.game.loadWorld, {
         worldId: args.worldId,
         generationNumber: args.generationNumber,
       });
-      const game = new Game(engine, args.worldId, gameState);
+      const game = new Game(engine, args.worldId, gameState, config);
 
       let now = Date.now();
       const deadline = now + args.maxDuration;
@@ -129,7 +135,9 @@ export const runStep = internalAction({
   },
 });
 
-export const sendInput = mutation({
+// For agent operations to report back to the engine. Clients send inputs with
+// `world:sendWorldInput` instead, which checks they're allowed to.
+export const sendInput = internalMutation({
   args: {
     worldId: v.id('worlds'),
     name: v.string(),
@@ -1,13 +1,7 @@
 import { Infer, ObjectType, v } from 'convex/values';
 import { Point, Vector, path, point, vector } from '../util/types';
 import { GameId, parseGameId, agentId, playerId } from './ids';
-import {
-  PATHFINDING_TIMEOUT,
-  PATHFINDING_BACKOFF,
-  HUMAN_IDLE_TOO_LONG,
-  MAX_HUMAN_PLAYERS,
-  MAX_PATHFINDS_PER_STEP,
-} from '../constants';
+import { PATHFINDING_TIMEOUT, PATHFINDING_BACKOFF, MAX_PATHFINDS_PER_STEP } from '../constants';
 import { pointsEqual, pathPosition } from '../util/geometry';
 import { Game } from './game';
 import { stopPlayer, findRoute, blocked, movePlayer } from './movement';
@@ -49,6 +43,8 @@ export const serializedPlayer = {
   human: v.optional(v.string()),
   pathfinding: v.optional(pathfinding),
   activity: v.optional(activity),
+  // Items the player is carrying, which agents can give away while they talk.
+  inventory: v.optional(v.array(v.string())),
 
   // The last time they did something.
   lastInput: v.number(),
@@ -64,6 +60,7 @@ export class Player {
   human?: string;
   pathfinding?: Pathfinding;
   activity?: Activity;
+  inventory?: string[];
 
   lastInput: number;
 
@@ -72,11 +69,13 @@ export class Player {
   speed: number;
 
   constructor(serialized: SerializedPlayer) {
-    const { id, human, pathfinding, activity, lastInput, position, facing, speed } = serialized;
+    const { id, human, pathfinding, activity, inventory, lastInput, position, facing, speed } =
+      serialized;
     this.id = parseGameId('players', id);
     this.human = human;
     this.pathfinding = pathfinding;
     this.activity = activity;
+    this.inventory = inventory;
     this.lastInput = lastInput;
     this.position = position;
     this.facing = facing;
@@ -84,7 +83,7 @@ export class Player {
   }
 
   tick(game: Game, now: number) {
-    if (this.human && this.lastInput < now - HUMAN_IDLE_TOO_LONG) {
+    if (this.human && this.lastInput < now - game.config.humanIdleTooLong) {
       const agent = [...game.world.agents.values()].find((candidate) => candidate.playerId === this.id);
       if (agent) {
         delete this.human;
@@ -161,7 +160,7 @@ export class Player {
     const { position, facing, velocity } = candidate;
     const collisionReason = blocked(game, now, position, this.id);
     if (collisionReason !== null) {
-      const backoff = Math.random() * PATHFINDING_BACKOFF;
+      const backoff = game.world.rng.next() * PATHFINDING_BACKOFF;
       console.warn(`Stopping path for ${this.id}, waiting for ${backoff}ms: ${collisionReason}`);
       this.pathfinding.state = {
         kind: 'waiting',
@@ -193,15 +192,15 @@ export class Player {
           throw new Error(`You are already in this game!`);
         }
       }
-      if (numHumans >= MAX_HUMAN_PLAYERS) {
-        throw new Error(`Only ${MAX_HUMAN_PLAYERS} human players allowed at once.`);
+      if (numHumans >= game.config.maxHumanPlayers) {
+        throw new Error(`Only ${game.config.maxHumanPlayers} human players allowed at once.`);
       }
     }
     let position;
     for (let attempt = 0; attempt < 10; attempt++) {
       const candidate = {
-        x: Math.floor(Math.random() * game.worldMap.width),
-        y: Math.floor(Math.random() * game.worldMap.height),
+        x: game.world.rng.int(game.worldMap.width),
+        y: game.world.rng.int(game.worldMap.height),
       };
       if (blocked(game, now, candidate)) {
         continue;
@@ -218,7 +217,7 @@ export class Player {
       { dx: 0, dy: 1 },
       { dx: 0, dy: -1 },
     ];
-    const facing = facingOptions[Math.floor(Math.random() * facingOptions.length)];
+    const facing = game.world.rng.pick(facingOptions);
     if (!isValidCharacterId(character)) {
       throw new Error(`Invalid character: ${character}`);
     }
@@ -248,23 +247,25 @@ export class Player {
   }
 
   leave(game: Game, now: number) {
-    // Stop our conversation if we're leaving the game.
+    // Leave our conversation if we're leaving the game.
     const conversation = [...game.world.conversations.values()].find((c) =>
       c.participants.has(this.id),
     );
     if (conversation) {
-      conversation.stop(game, now);
+      conversation.removeParticipant(game, now, this.id);
     }
     game.world.players.delete(this.id);
   }
 
   serialize(): SerializedPlayer {
-    const { id, human, pathfinding, activity, lastInput, position, facing, speed } = this;
+    const { id, human, pathfinding, activity, inventory, lastInput, position, facing, speed } =
+      this;
     return {
       id,
       human,
       pathfinding,
       activity,
+      inventory,
       lastInput,
       position,
       facing,
@@ -320,8 +321,8 @@ export const playerInputs = {
           throw new Error('You are already in this game!');
         }
       }
-      if (numHumans >= MAX_HUMAN_PLAYERS) {
-        throw new Error(`Only ${MAX_HUMAN_PLAYERS} human players allowed at once.`);
+      if (numHumans >= game.config.maxHumanPlayers) {
+        throw new Error(`Only ${game.config.maxHumanPlayers} human players allowed at once.`);
       }
       player.human = args.tokenIdentifier;
       player.lastInput = now;
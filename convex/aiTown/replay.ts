@@ -0,0 +1,227 @@
+import { v } from 'convex/values';
+import { Doc, Id } from '../_generated/dataModel';
+import {
+  MutationCtx,
+  QueryCtx,
+  action,
+  internalMutation,
+  internalQuery,
+  query,
+} from '../_generated/server';
+import { internal } from '../_generated/api';
+import { Game } from './game';
+import { MAX_REPLAY_DURATION } from '../constants';
+import { WorldConfig, loadWorldConfig, resolveWorldConfig } from './worldConfig';
+import { SerializedWorldMap } from './worldMap';
+import { getIdentity, sessionArgs } from '../auth';
+import { canManageWorld } from '../world';
+
+const selfInternal = internal.aiTown.replay;
+
+// How many inputs to load at a time when replaying.
+const INPUT_PAGE_SIZE = 256;
+
+export async function snapshotWorld(ctx: MutationCtx, worldId: Id<'worlds'>) {
+  const worldStatus = await ctx.db
+    .query('worldStatus')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId))
+    .unique();
+  if (!worldStatus) {
+    throw new Error(`No engine found for world ${worldId}`);
+  }
+  const engineDoc = await ctx.db.get(worldStatus.engineId);
+  if (!engineDoc) {
+    throw new Error(`Invalid engine ID: ${worldStatus.engineId}`);
+  }
+  // The engine and world are saved in the same mutation at the end of each step,
+  // so reading both here gives us a consistent step boundary.
+  const { _id, _creationTime, ...engine } = engineDoc;
+  // The map is most of the game state and rarely changes, so replays use the world's current one.
+  const { worldMap: _, ...gameState } = await Game.loadState(ctx.db, worldId);
+  return await ctx.db.insert('worldSnapshots', {
+    worldId,
+    engineId: worldStatus.engineId,
+    engine,
+    ...gameState,
+    config: await loadWorldConfig(ctx.db, worldId),
+  });
+}
+
+export const snapshotWorlds = internalMutation({
+  handler: async (ctx) => {
+    const worlds = await ctx.db
+      .query('worldStatus')
+      .filter((q) => q.eq(q.field('status'), 'running'))
+      .collect();
+    for (const worldStatus of worlds) {
+      await snapshotWorld(ctx, worldStatus.worldId);
+    }
+  },
+});
+
+// Rebuild the game as of `until` by loading a snapshot and re-running the engine
+// over the inputs it processed afterwards, each at the tick it was originally
+// processed. Agent operations aren't rerun since their results come back as inputs,
+// and the world's random number generator is restored along with the rest of its state.
+// Replays follow the rules recorded with the snapshot, or `config` for older snapshots without
+// them.
+export function replayGame(
+  snapshot: Doc<'worldSnapshots'>,
+  worldMap: SerializedWorldMap,
+  inputs: Doc<'inputs'>[],
+  until: number,
+  config?: WorldConfig,
+) {
+  const { worldId, engineId, engine, world, playerDescriptions, agentDescriptions } = snapshot;
+  const game = new Game(
+    { _id: engineId, _creationTime: snapshot._creationTime, ...engine },
+    worldId,
+    { world, playerDescriptions, agentDescriptions, worldMap },
+    snapshot.config ? resolveWorldConfig(snapshot.config) : config,
+  );
+  const replayInputs = inputs
+    .filter((input) => input.processedTs !== undefined)
+    .map((input) => ({ ...input, received: input.processedTs! }));
+  let now = engine.currentTime ?? snapshot._creationTime;
+  while (now < until) {
+    now = Math.min(now + game.stepDuration, until);
+    const pending = replayInputs.filter(
+      (input) => input.number > (game.engine.processedInputNumber ?? -1),
+    );
+    game.simulate(now, pending);
+    // Nobody's going to run these, so don't let them pile up.
+    game.pendingOperations = [];
+  }
+  return game;
+}
+
+// A world's history is only for whoever can manage it. Null if the caller can't.
+export const listSnapshots = query({
+  args: {
+    worldId: v.id('worlds'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    if (!(await canReplay(ctx, args.worldId, args.sessionId))) {
+      return null;
+    }
+    const snapshots = await ctx.db
+      .query('worldSnapshots')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .order('desc')
+      .take(50);
+    return snapshots.map((s) => ({ _id: s._id, time: s.engine.currentTime ?? s._creationTime }));
+  },
+});
+
+// Replaying can take a lot of steps and inputs, so it's an action that loads the inputs a page
+// at a time rather than a query. Null if the caller can't replay the world.
+export const replayWorld = action({
+  args: {
+    snapshotId: v.id('worldSnapshots'),
+    until: v.number(),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const replay = await ctx.runQuery(selfInternal.loadReplay, {
+      snapshotId: args.snapshotId,
+      sessionId: args.sessionId,
+    });
+    if (!replay) {
+      return null;
+    }
+    const { snapshot, worldMap, config } = replay;
+    const start = snapshot.engine.currentTime ?? snapshot._creationTime;
+    if (args.until - start > MAX_REPLAY_DURATION) {
+      throw new Error(`Can't replay more than ${MAX_REPLAY_DURATION}ms past a snapshot`);
+    }
+    const inputs: Doc<'inputs'>[] = [];
+    let after = snapshot.engine.processedInputNumber ?? -1;
+    while (true) {
+      const page = await ctx.runQuery(selfInternal.loadReplayInputs, {
+        engineId: snapshot.engineId,
+        after,
+        until: args.until,
+      });
+      inputs.push(...page.inputs);
+      if (page.isDone) {
+        break;
+      }
+      after = page.inputs[page.inputs.length - 1].number;
+    }
+    const game = replayGame(snapshot, worldMap, inputs, args.until, config ?? undefined);
+    const { historicalLocations: _, ...world } = game.world.serialize();
+    return {
+      time: game.engine.currentTime ?? args.until,
+      world,
+      playerDescriptions: [...game.playerDescriptions.values()].map((d) => d.serialize()),
+      agentDescriptions: [...game.agentDescriptions.values()].map((d) => d.serialize()),
+      worldMap: game.worldMap.serialize(),
+    };
+  },
+});
+
+// The snapshot to replay from, along with the map and, for older snapshots, the rules to
+// replay it with. Null if the caller can't replay the world.
+export const loadReplay = internalQuery({
+  args: {
+    snapshotId: v.id('worldSnapshots'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const snapshot = await ctx.db.get(args.snapshotId);
+    if (!snapshot) {
+      throw new Error(`Invalid snapshot ID: ${args.snapshotId}`);
+    }
+    if (!(await canReplay(ctx, snapshot.worldId, args.sessionId))) {
+      return null;
+    }
+    let worldMap: SerializedWorldMap | undefined = snapshot.worldMap;
+    if (!worldMap) {
+      const mapDoc = await ctx.db
+        .query('maps')
+        .withIndex('worldId', (q) => q.eq('worldId', snapshot.worldId))
+        .unique();
+      if (!mapDoc) {
+        throw new Error(`No map found for world ${snapshot.worldId}`);
+      }
+      const { _id, _creationTime, worldId: _, ...map } = mapDoc;
+      worldMap = map;
+    }
+    const config = snapshot.config ? null : await loadWorldConfig(ctx.db, snapshot.worldId);
+    return { snapshot, worldMap, config };
+  },
+});
+
+// A page of the inputs the engine processed after input number `after`, up to `until`.
+export const loadReplayInputs = internalQuery({
+  args: {
+    engineId: v.id('engines'),
+    after: v.number(),
+    until: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query('inputs')
+      .withIndex('byInputNumber', (q) => q.eq('engineId', args.engineId).gt('number', args.after))
+      .order('asc')
+      .take(INPUT_PAGE_SIZE);
+    const inputs = [];
+    for (const input of page) {
+      if (input.processedTs === undefined || input.processedTs > args.until) {
+        return { inputs, isDone: true };
+      }
+      inputs.push(input);
+    }
+    return { inputs, isDone: page.length < INPUT_PAGE_SIZE };
+  },
+});
+
+async function canReplay(ctx: QueryCtx, worldId: Id<'worlds'>, sessionId?: string) {
+  const identity = await getIdentity(ctx, sessionId);
+  const worldStatus = await ctx.db
+    .query('worldStatus')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId))
+    .unique();
+  return !!identity && !!worldStatus && canManageWorld(identity, worldStatus);
+}
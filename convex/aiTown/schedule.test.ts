@@ -0,0 +1,25 @@
+import { ScheduleEntry, currentScheduleEntry, minutesUntilNextEntry } from './schedule';
+
+const entries: ScheduleEntry[] = [
+  { start: 7 * 60, kind: 'wake', description: 'waking up' },
+  { start: 9 * 60, kind: 'work', description: 'working' },
+  { start: 22 * 60, kind: 'sleep', description: 'sleeping' },
+];
+
+describe('schedule', () => {
+  test('should find the entry covering a time of day', () => {
+    expect(currentScheduleEntry(entries, 7 * 60)?.kind).toBe('wake');
+    expect(currentScheduleEntry(entries, 12 * 60)?.kind).toBe('work');
+    expect(currentScheduleEntry(entries, 23 * 60)?.kind).toBe('sleep');
+    // Still asleep from the night before.
+    expect(currentScheduleEntry(entries, 3 * 60)?.kind).toBe('sleep');
+    expect(currentScheduleEntry([], 3 * 60)).toBeUndefined();
+  });
+
+  test('should count minutes until the next entry, wrapping past midnight', () => {
+    expect(minutesUntilNextEntry(entries, 8 * 60)).toBe(60);
+    expect(minutesUntilNextEntry(entries, 23 * 60)).toBe(8 * 60);
+    expect(minutesUntilNextEntry(entries, 3 * 60)).toBe(4 * 60);
+    expect(minutesUntilNextEntry([], 0)).toBe(Infinity);
+  });
+});
@@ -0,0 +1,57 @@
+import { Infer, ObjectType, v } from 'convex/values';
+import { MINUTES_PER_DAY } from './gameClock';
+
+export const scheduleKind = v.union(
+  v.literal('wake'),
+  v.literal('work'),
+  v.literal('meal'),
+  v.literal('social'),
+  v.literal('leisure'),
+  v.literal('sleep'),
+);
+export type ScheduleKind = Infer<typeof scheduleKind>;
+
+// One block of an agent's day. It lasts from `start` (minutes since midnight)
+// until the next entry starts, wrapping around past midnight.
+export const scheduleEntry = {
+  start: v.number(),
+  kind: scheduleKind,
+  description: v.string(),
+  emoji: v.optional(v.string()),
+  // Name of the map zone where this part of the day happens.
+  zone: v.optional(v.string()),
+};
+export type ScheduleEntry = ObjectType<typeof scheduleEntry>;
+
+export const serializedSchedule = {
+  day: v.number(),
+  // Sorted by `start`.
+  entries: v.array(v.object(scheduleEntry)),
+};
+export type SerializedSchedule = ObjectType<typeof serializedSchedule>;
+
+// Find the entry that covers `minuteOfDay`. Before the first entry of the day,
+// we're still in the last one from the night before.
+export function currentScheduleEntry(
+  entries: ScheduleEntry[],
+  minuteOfDay: number,
+): ScheduleEntry | undefined {
+  let current = entries[entries.length - 1];
+  for (const entry of entries) {
+    if (entry.start > minuteOfDay) {
+      break;
+    }
+    current = entry;
+  }
+  return current;
+}
+
+// How many in-game minutes from `minuteOfDay` until the next entry starts.
+export function minutesUntilNextEntry(entries: ScheduleEntry[], minuteOfDay: number): number {
+  const next = entries.find((e) => e.start > minuteOfDay) ?? entries[0];
+  if (!next) {
+    return Infinity;
+  }
+  const minutes = next.start - minuteOfDay;
+  return minutes > 0 ? minutes : minutes + MINUTES_PER_DAY;
+}
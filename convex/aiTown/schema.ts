@@ -9,6 +9,9 @@ import { serializedWorldMap } from './worldMap';
 import { serializedConversation } from './conversation';
 import { conversationId, playerId } from './ids';
 import { serializedCharacterSprite } from './characterSprite';
+import { engine } from '../engine/schema';
+import { embeddingConfig } from '../agent/schema';
+import { worldConfigFields } from './worldConfig';
 
 export const aiTownTables = {
   // This table has a single document that stores all players, conversations, and agents. This
@@ -23,6 +26,29 @@ export const aiTownTables = {
     engineId: v.id('engines'),
     lastViewed: v.number(),
     status: v.union(v.literal('running'), v.literal('stoppedByDeveloper'), v.literal('inactive')),
+    // Shown in the lobby. Worlds created before we named them show up as the default name.
+    name: v.optional(v.string()),
+    // Which of `data/maps.ts` the world was created with.
+    map: v.optional(v.string()),
+    // Token identifier of the player who created the world, who may start, stop and delete it.
+    creator: v.optional(v.string()),
+    // How long the world can go unviewed before we stop it, overriding `IDLE_WORLD_TIMEOUT`.
+    idleTimeout: v.optional(v.number()),
+    // Model that agents' memories are embedded with. Worlds created before we recorded
+    // it use 1536-dimensional embeddings from the configured provider.
+    embedding: v.optional(v.object(embeddingConfig)),
+    // Where `agent/embeddings:migrate` is moving the world's memories to, while it runs.
+    embeddingMigration: v.optional(v.object(embeddingConfig)),
+  })
+    .index('worldId', ['worldId'])
+    .index('engineId', ['engineId'])
+    .index('creator', ['creator']),
+
+  // Rules a world's admins have changed from the defaults, which the engine picks up
+  // on its next step. See `worldConfig.ts`.
+  worldConfig: defineTable({
+    worldId: v.id('worlds'),
+    ...worldConfigFields,
   }).index('worldId', ['worldId']),
 
   // This table contains the map data for a given world. Since it's a bit larger than the player
@@ -65,6 +91,21 @@ export const aiTownTables = {
     'id',
   ]),
 
+  // Periodic copies of a world's game state along with its engine, so we can load one
+  // and replay the inputs processed after it to reconstruct any point in the world's history.
+  worldSnapshots: defineTable({
+    worldId: v.id('worlds'),
+    engineId: v.id('engines'),
+    engine,
+    world: v.object(serializedWorld),
+    playerDescriptions: v.array(v.object(serializedPlayerDescription)),
+    agentDescriptions: v.array(v.object(serializedAgentDescription)),
+    // Only in snapshots taken before we stopped copying the map into each one.
+    worldMap: v.optional(v.object(serializedWorldMap)),
+    // The world's rules at the time. Missing from snapshots taken before we recorded them.
+    config: v.optional(v.object(worldConfigFields)),
+  }).index('worldId', ['worldId', 'engine.currentTime']),
+
   characterSprites: defineTable({
     ...serializedCharacterSprite,
   })
@@ -0,0 +1,210 @@
+import { Simulation, blankMap, emptyWorld } from './simulation';
+import { GameId } from './ids';
+import { INVITE_TIMEOUT, MAX_AFFINITY } from '../constants';
+
+function newSimulation(seed = 1) {
+  return new Simulation(emptyWorld(seed), blankMap(12, 12), { startTime: 1_000_000 });
+}
+
+async function joinHuman(simulation: Simulation, name = 'Alice') {
+  await simulation.run('join', { name, character: 'f1', description: '', tokenIdentifier: name });
+  return playerNamed(simulation, name);
+}
+
+async function createAgent(simulation: Simulation, descriptionIndex: number) {
+  const { agentId } = await simulation.run('createAgent', { descriptionIndex });
+  const agent = simulation.world.agents.get(agentId)!;
+  return { agentId: agent.id, playerId: agent.playerId };
+}
+
+function playerNamed(simulation: Simulation, name: string) {
+  const description = [...simulation.game.playerDescriptions.values()].find((d) => d.name === name);
+  if (!description) {
+    throw new Error(`No player named ${name}`);
+  }
+  return description.playerId;
+}
+
+function conversationOf(simulation: Simulation, playerId: GameId<'players'>) {
+  const player = simulation.world.players.get(playerId)!;
+  return simulation.world.playerConversation(player);
+}
+
+describe('Simulation', () => {
+  test('should walk a player to their destination', async () => {
+    const simulation = newSimulation();
+    const playerId = await joinHuman(simulation);
+    await simulation.run('moveTo', { playerId, destination: { x: 10, y: 10 } });
+    await simulation.advanceUntil((s) => !s.world.players.get(playerId)!.pathfinding, 60_000);
+    expect(simulation.world.players.get(playerId)!.position).toEqual({ x: 10, y: 10 });
+  });
+
+  test('should report errors from inputs', async () => {
+    const simulation = newSimulation();
+    await expect(simulation.run('moveTo', { playerId: 'p:42', destination: null })).rejects.toThrow(
+      'Invalid player ID',
+    );
+  });
+
+  test('should plan the day and pick an activity for a new agent', async () => {
+    const simulation = newSimulation();
+    const { agentId, playerId } = await createAgent(simulation, 0);
+    await simulation.advanceUntil((s) => !!s.world.players.get(playerId)!.activity, 10_000);
+    const agent = simulation.world.agents.get(agentId)!;
+    expect(agent.schedule?.day).toBe(0);
+    expect(simulation.operations.map((o) => o.name)).toEqual(['agentPlanDay', 'agentDoSomething']);
+    expect(simulation.world.players.get(playerId)!.activity?.description).toBe(
+      agent.scheduledEntry(simulation.game, simulation.now)?.description,
+    );
+  });
+
+  test('should have agents accept invites from humans and start talking', async () => {
+    const simulation = newSimulation();
+    const human = await joinHuman(simulation);
+    const { playerId } = await createAgent(simulation, 0);
+    await simulation.run('startConversation', { playerId: human, invitee: playerId });
+    const conversation = conversationOf(simulation, human)!;
+    await simulation.advanceUntil(
+      () => conversation.participants.get(playerId)?.status.kind === 'participating',
+      60_000,
+    );
+    // The human started the conversation, so the agent waits for them to speak first
+    // until the silence gets too awkward.
+    await simulation.advanceUntil((s) => s.messages.length > 0, 120_000);
+    expect(simulation.messages[0]).toMatchObject({
+      conversationId: conversation.id,
+      author: playerId,
+      text: `start message from ${playerId}`,
+    });
+  });
+
+  test('should apply the actions agents take while they talk', async () => {
+    const simulation = new Simulation(emptyWorld(1), blankMap(12, 12), {
+      startTime: 1_000_000,
+      responses: {
+        message: ({ otherPlayerIds }) => ({
+          text: 'Here, have some cheese!',
+          actions: [
+            { kind: 'giveItem', playerId: otherPlayerIds[0], item: 'a wheel of moon cheese' },
+            // Agents can only give away what they're carrying.
+            { kind: 'giveItem', playerId: otherPlayerIds[0], item: 'a banana' },
+            { kind: 'endConversation' },
+          ],
+        }),
+      },
+    });
+    const human = await joinHuman(simulation);
+    const { playerId } = await createAgent(simulation, 0);
+    await simulation.run('startConversation', { playerId: human, invitee: playerId });
+    const conversation = conversationOf(simulation, human)!;
+    await simulation.advanceUntil((s) => !s.world.conversations.has(conversation.id), 5 * 60_000);
+    expect(simulation.messages.map((m) => m.text)).toEqual(['Here, have some cheese!']);
+    expect(simulation.world.players.get(human)!.inventory).toEqual(['a wheel of moon cheese']);
+    expect(simulation.world.players.get(playerId)!.inventory).toEqual(['a star chart']);
+  });
+
+  test('should give up on invites that are never answered', async () => {
+    const simulation = newSimulation();
+    const human = await joinHuman(simulation);
+    const { playerId } = await createAgent(simulation, 0);
+    // Wait for the agent to get bored and wander off, inviting the human on the way.
+    await simulation.advanceUntil((s) => !!conversationOf(s, human), 5 * 60_000);
+    const conversation = conversationOf(simulation, human)!;
+    expect(conversation.creator).toBe(playerId);
+    expect(conversation.participants.get(human)?.status.kind).toBe('invited');
+    const invited = simulation.now;
+    await simulation.advanceUntil((s) => !conversationOf(s, playerId), 2 * INVITE_TIMEOUT);
+    expect(simulation.now - invited).toBeGreaterThanOrEqual(INVITE_TIMEOUT - 1000);
+  });
+
+  test("should keep agents from inviting players they can't stand", async () => {
+    const simulation = newSimulation();
+    const human = await joinHuman(simulation);
+    const { playerId } = await createAgent(simulation, 0);
+    simulation.relationships.push({ playerId, otherPlayerId: human, affinity: -MAX_AFFINITY });
+    await simulation.advance(5 * 60_000);
+    expect(simulation.messages).toEqual([]);
+    expect(conversationOf(simulation, human)).toBeUndefined();
+  });
+
+  test("should follow the world's rules", async () => {
+    const simulation = new Simulation(emptyWorld(1), blankMap(12, 12), {
+      startTime: 1_000_000,
+      config: { maxHumanPlayers: 1 },
+    });
+    await joinHuman(simulation, 'Alice');
+    await expect(joinHuman(simulation, 'Bob')).rejects.toThrow(
+      'Only 1 human players allowed at once.',
+    );
+  });
+
+  test('should run a conversation between agents from start to finish', async () => {
+    const simulation = newSimulation();
+    const first = await createAgent(simulation, 0);
+    const second = await createAgent(simulation, 1);
+    await simulation.advanceUntil((s) => !!conversationOf(s, first.playerId), 10 * 60_000);
+    const conversation = conversationOf(simulation, first.playerId)!;
+    await simulation.advanceUntil((s) => !s.world.conversations.has(conversation.id), 10 * 60_000);
+
+    const messages = simulation.messages.filter((m) => m.conversationId === conversation.id);
+    expect(messages[0].text).toMatch(/^start message/);
+    expect(messages[messages.length - 1].text).toMatch(/^leave message/);
+    // Both agents remember the conversation once they've moved on.
+    const remembered = (s: Simulation) =>
+      s.operations
+        .filter((o) => o.name === 'agentRememberConversation')
+        .map((o) => o.args.agentId)
+        .sort();
+    await simulation.advanceUntil((s) => remembered(s).length >= 2, 5 * 60_000);
+    expect(remembered(simulation)).toEqual([first.agentId, second.agentId].sort());
+  });
+
+  test('should reflect once the reflection interval has passed', async () => {
+    const simulation = new Simulation(emptyWorld(1), blankMap(12, 12), {
+      startTime: 1_000_000,
+      config: { reflectionInterval: 60_000 },
+    });
+    await createAgent(simulation, 0);
+    const reflections = (s: Simulation) => s.operations.filter((o) => o.name === 'agentReflect');
+    await simulation.advanceUntil((s) => reflections(s).length > 0, 5 * 60_000);
+    const [reflection] = reflections(simulation);
+    expect(reflection.args.trigger).toBe('interval');
+    expect(reflection.started - simulation.operations[0].started).toBeGreaterThanOrEqual(60_000);
+  });
+
+  test('should remove custom agents', async () => {
+    const simulation = newSimulation();
+    const { agentId } = await simulation.run('createCustomAgent', {
+      name: 'Custom',
+      character: 'f2',
+      identity: 'A test agent.',
+      plan: 'Nothing much.',
+    });
+    await simulation.advance(5_000);
+    await simulation.run('removeAgent', { agentId });
+    expect(simulation.world.agents.size).toBe(0);
+    expect(simulation.world.players.size).toBe(0);
+  });
+
+  test('should be deterministic for a given seed', async () => {
+    const run = async (seed: number) => {
+      const simulation = newSimulation(seed);
+      for (const descriptionIndex of [0, 1, 2]) {
+        simulation.input('createAgent', { descriptionIndex });
+      }
+      await simulation.advance(3 * 60_000);
+      // Message IDs don't affect the game, so they're random rather than seeded.
+      const world = simulation.world.serialize();
+      for (const conversation of world.conversations) {
+        if (conversation.isTyping) {
+          conversation.isTyping.messageUuid = 'uuid';
+        }
+      }
+      return {
+        world,
+        messages: simulation.messages.map((m) => ({ ...m, messageUuid: 'uuid' })),
+      };
+    };
+    expect(await run(7)).toEqual(await run(7));
+  });
+});
@@ -0,0 +1,392 @@
+import { GenericId } from 'convex/values';
+import { Doc, Id } from '../_generated/dataModel';
+import { Game } from './game';
+import { SerializedWorld } from './world';
+import { SerializedWorldMap, WorldMap } from './worldMap';
+import { SerializedPlayerDescription } from './playerDescription';
+import { SerializedAgentDescription } from './agentDescription';
+import { SerializedPlayer } from './player';
+import { SerializedAgent, conversationCandidate } from './agent';
+import { InputArgs, InputNames, InputReturnValue } from './inputs';
+import { GameId } from './ids';
+import { ScheduleEntry } from './schedule';
+import { decideDoSomething, finishDoSomethingArgs } from './agentOperations';
+import { DEFAULT_SCHEDULE } from '../constants';
+import { Rng } from '../util/rng';
+import { WorldConfig, WorldConfigOverrides, resolveWorldConfig } from './worldConfig';
+import { AgentAction } from './agentActions';
+import { ChosenActivity } from '../agent/activity';
+import { exhaustedLLMBudget, windowStart } from '../agent/llmBudget';
+
+// Stand-ins for the LLM calls the agent operations make.
+export type FakeResponses = {
+  // Text for a message, and optionally what the agent does along with it, in place of the
+  // conversation prompts.
+  message: (args: {
+    playerId: GameId<'players'>;
+    conversationId: GameId<'conversations'>;
+    otherPlayerIds: GameId<'players'>[];
+    type: 'start' | 'continue' | 'leave';
+  }) => string | { text: string; actions: AgentAction[] };
+  // What to do when an agent decides to stay put, in place of `chooseActivity`.
+  activity: (args: { agentId: GameId<'agents'>; scheduled?: ScheduleEntry }) => ChosenActivity;
+  // The agent's plan for a day, in place of `planDay`.
+  schedule: (args: { agentId: GameId<'agents'>; day: number }) => ScheduleEntry[];
+};
+
+const defaultResponses: FakeResponses = {
+  message: ({ playerId, type }) => `${type} message from ${playerId}`,
+  activity: ({ scheduled }) => ({
+    description: scheduled?.description ?? 'reading a book',
+    emoji: scheduled?.emoji ?? '📖',
+    duration: 60_000,
+    zone: scheduled?.zone,
+  }),
+  schedule: () => DEFAULT_SCHEDULE.map((entry) => ({ ...entry })),
+};
+
+export type SimulationOptions = {
+  playerDescriptions?: SerializedPlayerDescription[];
+  agentDescriptions?: SerializedAgentDescription[];
+  // Virtual time the simulation starts at.
+  startTime?: number;
+  // How long the fake agent operations take to report back.
+  operationLatency?: number;
+  responses?: Partial<FakeResponses>;
+  // Rules to change from the defaults, like a world's `worldConfig` document.
+  config?: WorldConfigOverrides;
+};
+
+export type SimulatedMessage = {
+  conversationId: GameId<'conversations'>;
+  author: GameId<'players'>;
+  messageUuid: string;
+  text: string;
+  timestamp: number;
+};
+
+type InputResult = NonNullable<Doc<'inputs'>['returnValue']>;
+
+type SimulatedGoal = { playerId: string; playerIds: string[]; zone?: string };
+type SimulatedRelationship = { playerId: string; otherPlayerId: string; affinity: number };
+
+// Runs a `Game` in memory on a virtual clock, without a Convex backend. Inputs are
+// fed to the engine the same way `runStep` does, and agent operations are handled
+// in-process with canned responses instead of LLM calls, so tests can drive
+// movement, conversations and agents through whole lifecycles deterministically.
+export class Simulation {
+  game: Game;
+  now: number;
+  operationLatency: number;
+  responses: FakeResponses;
+
+  // Messages the agents have "written", since there's no messages table.
+  messages: SimulatedMessage[] = [];
+  // Every agent operation the game has started, in order.
+  operations: Array<{ name: string; args: any; started: number }> = [];
+  // Agents' active goals and how they feel about each other, since there's no database.
+  // Tests can fill these in to steer who agents talk to and where they go.
+  goals: SimulatedGoal[] = [];
+  relationships: SimulatedRelationship[] = [];
+  // When each pair of players last finished a conversation together, keyed by both IDs.
+  private lastConversations = new Map<string, number>();
+  // Stand-in LLM calls each agent has made, and when, to hold them to the world's budget.
+  private llmCalls: Array<{ agentId: string; at: number }> = [];
+
+  private nextInputNumber = 0;
+  private inputs: Doc<'inputs'>[] = [];
+  private results = new Map<number, InputResult>();
+  // Inputs from operations that haven't "arrived" at the server yet.
+  private scheduled: Array<{ at: number; name: InputNames; args: any }> = [];
+
+  constructor(world: SerializedWorld, map: SerializedWorldMap, options: SimulationOptions = {}) {
+    this.now = options.startTime ?? 0;
+    this.operationLatency = options.operationLatency ?? 500;
+    this.responses = { ...defaultResponses, ...options.responses };
+    const engine = {
+      _id: 'engines:simulation' as Id<'engines'>,
+      _creationTime: this.now,
+      currentTime: this.now,
+      generationNumber: 0,
+      running: true,
+    };
+    this.game = new Game(
+      engine,
+      'worlds:simulation' as Id<'worlds'>,
+      {
+        world,
+        playerDescriptions: options.playerDescriptions ?? [],
+        agentDescriptions: options.agentDescriptions ?? [],
+        worldMap: map,
+      },
+      resolveWorldConfig(options.config),
+    );
+  }
+
+  get world() {
+    return this.game.world;
+  }
+
+  // Submit an input as if it was just received, returning its number.
+  input<Name extends InputNames>(name: Name, args: InputArgs<Name>): number {
+    return this.receive(name, args, this.now);
+  }
+
+  private receive(name: InputNames, args: any, received: number) {
+    const number = this.nextInputNumber++;
+    this.inputs.push({
+      _id: `inputs:${number}` as Id<'inputs'>,
+      _creationTime: received,
+      engineId: this.game.engine._id,
+      number,
+      name,
+      args,
+      received,
+    });
+    return number;
+  }
+
+  // The input's return value, or undefined if the engine hasn't processed it yet.
+  result(inputNumber: number): InputResult | undefined {
+    return this.results.get(inputNumber);
+  }
+
+  // Submit an input and step the engine until it's been processed, throwing if it failed.
+  async run<Name extends InputNames>(
+    name: Name,
+    args: InputArgs<Name>,
+  ): Promise<InputReturnValue<Name>> {
+    const number = this.input(name, args);
+    await this.advance(this.game.stepDuration);
+    const result = this.result(number);
+    if (!result) {
+      throw new Error(`Input ${number} wasn't processed`);
+    }
+    if (result.kind === 'error') {
+      throw new Error(result.message);
+    }
+    return result.value as InputReturnValue<Name>;
+  }
+
+  // Move the virtual clock forward, running engine steps and agent operations along the way.
+  async advance(duration: number) {
+    const end = this.now + duration;
+    while (this.now < end) {
+      await this.step(Math.min(this.now + this.game.stepDuration, end));
+    }
+  }
+
+  // Step until `condition` holds, failing if it doesn't within `timeout`.
+  async advanceUntil(condition: (simulation: Simulation) => boolean, timeout: number) {
+    const deadline = this.now + timeout;
+    while (!condition(this)) {
+      if (this.now >= deadline) {
+        throw new Error(`Condition not met within ${timeout}ms`);
+      }
+      await this.step(Math.min(this.now + this.game.stepDuration, deadline));
+    }
+  }
+
+  private async step(next: number) {
+    const arrived = this.scheduled.filter((s) => s.at <= next).sort((a, b) => a.at - b.at);
+    this.scheduled = this.scheduled.filter((s) => s.at > next);
+    for (const { at, name, args } of arrived) {
+      this.receive(name, args, at);
+    }
+    const processed = this.game.engine.processedInputNumber ?? -1;
+    const pending = this.inputs
+      .filter((input) => input.number > processed)
+      .slice(0, this.game.maxInputsPerStep);
+    const conversations = [...this.world.conversations.values()].map((c) => ({
+      id: c.id,
+      participants: [...c.participants.keys(), ...c.formerParticipants],
+    }));
+    const { completedInputs } = this.game.simulate(next, pending);
+    // Note who talked to whom in conversations that just ended, like `saveDiff` does.
+    for (const { id, participants } of conversations) {
+      if (this.world.conversations.has(id)) {
+        continue;
+      }
+      for (const player1 of participants) {
+        for (const player2 of participants) {
+          if (player1 !== player2) {
+            this.lastConversations.set(`${player1}:${player2}`, next);
+          }
+        }
+      }
+    }
+    for (const { inputId, returnValue } of completedInputs) {
+      const input = this.inputs.find((i) => i._id === inputId)!;
+      input.returnValue = returnValue;
+      this.results.set(input.number, returnValue);
+    }
+    this.now = next;
+    const operations = this.game.pendingOperations;
+    this.game.pendingOperations = [];
+    for (const { name, args } of operations) {
+      this.operations.push({ name, args, started: this.now });
+      await this.runOperation(name, args);
+    }
+  }
+
+  private reply<Name extends InputNames>(name: Name, args: InputArgs<Name>) {
+    this.scheduled.push({ at: this.now + this.operationLatency, name, args });
+  }
+
+  // Mirrors the actions in `agentOperations.ts`, minus the database and the LLM.
+  private async runOperation(name: string, args: any) {
+    switch (name) {
+      case 'agentRememberConversation': {
+        this.reply('finishRememberConversation', {
+          agentId: args.agentId,
+          operationId: args.operationId,
+        });
+        break;
+      }
+      case 'agentGenerateMessage': {
+        this.recordLLMCall(args.agentId);
+        const response = this.responses.message(args);
+        const { text, actions } =
+          typeof response === 'string' ? { text: response, actions: undefined } : response;
+        const timestamp = this.now + this.operationLatency;
+        this.messages.push({
+          conversationId: args.conversationId,
+          author: args.playerId,
+          messageUuid: args.messageUuid,
+          text,
+          timestamp,
+        });
+        this.reply('agentFinishSendingMessage', {
+          agentId: args.agentId,
+          conversationId: args.conversationId,
+          timestamp,
+          leaveConversation: args.type === 'leave',
+          actions,
+          operationId: args.operationId,
+        });
+        break;
+      }
+      case 'agentPlanDay': {
+        this.recordLLMCall(args.agentId);
+        const entries = this.responses.schedule(args);
+        this.reply('finishPlanDay', {
+          operationId: args.operationId,
+          agentId: args.agentId,
+          schedule: { day: args.day, entries },
+        });
+        break;
+      }
+      case 'agentDoSomething': {
+        await this.doSomething(args);
+        break;
+      }
+      case 'agentReflect': {
+        this.reply('finishReflect', {
+          agentId: args.agentId,
+          operationId: args.operationId,
+        });
+        break;
+      }
+      default:
+        throw new Error(`Unknown operation: ${name}`);
+    }
+  }
+
+  private async doSomething(args: {
+    player: SerializedPlayer;
+    agent: SerializedAgent;
+    map: SerializedWorldMap;
+    otherFreePlayers: SerializedPlayer[];
+    gameMinutes: number;
+    seed: number;
+    config?: WorldConfig;
+    operationId: string;
+  }) {
+    const { player, agent } = args;
+    const agentId = agent.id as GameId<'agents'>;
+    const now = this.now;
+    const decision = await decideDoSomething(
+      { ...args, map: new WorldMap(args.map), rng: new Rng(args.seed), now },
+      {
+        withinLLMBudget: async () => this.withinLLMBudget(agentId),
+        loadCurrentGoal: async () => this.goals.find((g) => g.playerId === player.id) ?? null,
+        chooseActivity: async (_time, scheduled) => {
+          this.recordLLMCall(agentId);
+          return this.responses.activity({ agentId, scheduled });
+        },
+        findConversationCandidate: async () => {
+          const lastConversations = new Map<string, number>();
+          for (const other of args.otherFreePlayers) {
+            const ended = this.lastConversations.get(`${player.id}:${other.id}`);
+            if (ended !== undefined) {
+              lastConversations.set(other.id, ended);
+            }
+          }
+          const relationships = new Map(
+            this.relationships
+              .filter((r) => r.playerId === player.id)
+              .map((r) => [r.otherPlayerId, r]),
+          );
+          return conversationCandidate(
+            now,
+            player,
+            args.otherFreePlayers,
+            this.game.config.playerConversationCooldown,
+            lastConversations,
+            relationships,
+            this.goals.filter((g) => g.playerId === player.id),
+          );
+        },
+      },
+    );
+    const finish = finishDoSomethingArgs(decision, now + this.operationLatency);
+    this.reply('finishDoSomething', {
+      operationId: args.operationId,
+      agentId: agent.id as GenericId<'agents'>,
+      ...(finish as Partial<InputArgs<'finishDoSomething'>>),
+    });
+  }
+
+  private recordLLMCall(agentId: string) {
+    this.llmCalls.push({ agentId, at: this.now });
+  }
+
+  // Counts calls against the world's budget. The stand-ins don't use any tokens.
+  private withinLLMBudget(agentId: string) {
+    const start = windowStart('minute', this.now);
+    const calls = this.llmCalls.filter((c) => c.at >= start);
+    const spend = (n: number) => ({ callsThisMinute: n, tokensThisHour: 0 });
+    return !exhaustedLLMBudget(
+      this.game.config,
+      spend(calls.length),
+      spend(calls.filter((c) => c.agentId === agentId).length),
+    );
+  }
+}
+
+// An empty world for a new simulation, seeded so its randomness is reproducible.
+export function emptyWorld(seed: number = 0): SerializedWorld {
+  return {
+    nextId: 0,
+    rngState: seed,
+    conversations: [],
+    players: [],
+    agents: [],
+  };
+}
+
+// A map with nothing on it, for simulations that don't care about the scenery.
+export function blankMap(width: number, height: number): SerializedWorldMap {
+  return {
+    width,
+    height,
+    tileSetUrl: '',
+    tileSetDimX: 0,
+    tileSetDimY: 0,
+    tileDim: 32,
+    bgTiles: [],
+    objectTiles: [Array.from({ length: width }, () => Array.from({ length: height }, () => -1))],
+    animatedSprites: [],
+    zones: [],
+  };
+}
@@ -4,6 +4,8 @@ import { Player, serializedPlayer } from './player';
 import { Agent, serializedAgent } from './agent';
 import { GameId, parseGameId, playerId } from './ids';
 import { parseMap } from '../util/object';
+import { GameClock, serializedGameClock } from './gameClock';
+import { Rng } from '../util/rng';
 
 export const historicalLocations = v.array(
   v.object({
@@ -14,27 +16,36 @@ export const historicalLocations = v.array(
 
 export const serializedWorld = {
   nextId: v.number(),
+  // State of the world's seeded random number generator. Worlds created before
+  // it existed start from zero.
+  rngState: v.optional(v.number()),
   conversations: v.array(v.object(serializedConversation)),
   players: v.array(v.object(serializedPlayer)),
   agents: v.array(v.object(serializedAgent)),
   historicalLocations: v.optional(historicalLocations),
+  // Optional since the engine starts the clock on its first step.
+  clock: v.optional(v.object(serializedGameClock)),
 };
 export type SerializedWorld = ObjectType<typeof serializedWorld>;
 
 export class World {
   nextId: number;
+  rng: Rng;
   conversations: Map<GameId<'conversations'>, Conversation>;
   players: Map<GameId<'players'>, Player>;
   agents: Map<GameId<'agents'>, Agent>;
   historicalLocations?: Map<GameId<'players'>, ArrayBuffer>;
+  clock?: GameClock;
 
   constructor(serialized: SerializedWorld) {
-    const { nextId, historicalLocations } = serialized;
+    const { nextId, historicalLocations, clock } = serialized;
 
     this.nextId = nextId;
+    this.rng = new Rng(serialized.rngState ?? 0);
     this.conversations = parseMap(serialized.conversations, Conversation, (c) => c.id);
     this.players = parseMap(serialized.players, Player, (p) => p.id);
     this.agents = parseMap(serialized.agents, Agent, (a) => a.id);
+    this.clock = clock && new GameClock(clock);
 
     if (historicalLocations) {
       this.historicalLocations = new Map();
@@ -51,6 +62,7 @@ export class World {
   serialize(): SerializedWorld {
     return {
       nextId: this.nextId,
+      rngState: this.rng.state,
       conversations: [...this.conversations.values()].map((c) => c.serialize()),
       players: [...this.players.values()].map((p) => p.serialize()),
       agents: [...this.agents.values()].map((a) => a.serialize()),
@@ -60,6 +72,7 @@ export class World {
           playerId,
           location,
         })),
+      clock: this.clock?.serialize(),
     };
   }
 }
@@ -0,0 +1,30 @@
+import { DEFAULT_WORLD_CONFIG, resolveWorldConfig, validateWorldConfig } from './worldConfig';
+
+describe('resolveWorldConfig', () => {
+  test('should fill in the defaults for rules that are unchanged', () => {
+    expect(resolveWorldConfig(undefined)).toEqual(DEFAULT_WORLD_CONFIG);
+    expect(resolveWorldConfig({ maxHumanPlayers: 2, inviteTimeout: undefined })).toEqual({
+      ...DEFAULT_WORLD_CONFIG,
+      maxHumanPlayers: 2,
+    });
+  });
+});
+
+describe('validateWorldConfig', () => {
+  test('should accept rules in range', () => {
+    expect(() =>
+      validateWorldConfig({ maxHumanPlayers: 0, inviteAcceptProbability: 0.5 }),
+    ).not.toThrow();
+  });
+
+  test('should reject rules out of range', () => {
+    expect(() => validateWorldConfig({ inviteAcceptProbability: 1.5 })).toThrow();
+    expect(() => validateWorldConfig({ maxConversationParticipants: 1 })).toThrow();
+    expect(() => validateWorldConfig({ messageCooldown: NaN })).toThrow();
+  });
+
+  test('should reject fractional counts and unknown rules', () => {
+    expect(() => validateWorldConfig({ maxConversationMessages: 2.5 })).toThrow();
+    expect(() => validateWorldConfig({ tickDuration: 5 } as any)).toThrow();
+  });
+});
@@ -0,0 +1,251 @@
+import { ConvexError, ObjectType, v } from 'convex/values';
+import { DatabaseReader } from '../_generated/server';
+import { Id } from '../_generated/dataModel';
+import {
+  ACTION_TIMEOUT,
+  ACTIVITY_COOLDOWN,
+  AGENT_LLM_CALLS_PER_MINUTE,
+  AGENT_TOKENS_PER_HOUR,
+  AWKWARD_CONVERSATION_TIMEOUT,
+  CONVERSATION_COOLDOWN,
+  HUMAN_IDLE_TOO_LONG,
+  INVITE_ACCEPT_PROBABILITY,
+  INVITE_TIMEOUT,
+  MAX_CONVERSATION_DURATION,
+  MAX_CONVERSATION_MESSAGES,
+  MAX_CONVERSATION_PARTICIPANTS,
+  MAX_HUMAN_PLAYERS,
+  MESSAGE_COOLDOWN,
+  PLAYER_CONVERSATION_COOLDOWN,
+  REFLECTION_EVENT_IMPORTANCE,
+  REFLECTION_IMPORTANCE,
+  REFLECTION_INTERVAL,
+  TYPING_TIMEOUT,
+  WORLD_LLM_CALLS_PER_MINUTE,
+  WORLD_TOKENS_PER_HOUR,
+} from '../constants';
+
+// Rules each world can tune while it runs. A world's `worldConfig` document only holds
+// the rules its admins have changed, and everything else comes from `constants.ts`.
+export const worldConfigFields = {
+  maxHumanPlayers: v.optional(v.number()),
+  humanIdleTooLong: v.optional(v.number()),
+  actionTimeout: v.optional(v.number()),
+  activityCooldown: v.optional(v.number()),
+  conversationCooldown: v.optional(v.number()),
+  playerConversationCooldown: v.optional(v.number()),
+  inviteAcceptProbability: v.optional(v.number()),
+  inviteTimeout: v.optional(v.number()),
+  awkwardConversationTimeout: v.optional(v.number()),
+  maxConversationDuration: v.optional(v.number()),
+  maxConversationMessages: v.optional(v.number()),
+  maxConversationParticipants: v.optional(v.number()),
+  messageCooldown: v.optional(v.number()),
+  typingTimeout: v.optional(v.number()),
+  worldTokensPerHour: v.optional(v.number()),
+  agentTokensPerHour: v.optional(v.number()),
+  worldCallsPerMinute: v.optional(v.number()),
+  agentCallsPerMinute: v.optional(v.number()),
+  reflectionImportance: v.optional(v.number()),
+  reflectionEventImportance: v.optional(v.number()),
+  reflectionInterval: v.optional(v.number()),
+};
+export type WorldConfigOverrides = ObjectType<typeof worldConfigFields>;
+export type WorldConfig = Required<WorldConfigOverrides>;
+
+export const DEFAULT_WORLD_CONFIG: WorldConfig = {
+  maxHumanPlayers: MAX_HUMAN_PLAYERS,
+  humanIdleTooLong: HUMAN_IDLE_TOO_LONG,
+  actionTimeout: ACTION_TIMEOUT,
+  activityCooldown: ACTIVITY_COOLDOWN,
+  conversationCooldown: CONVERSATION_COOLDOWN,
+  playerConversationCooldown: PLAYER_CONVERSATION_COOLDOWN,
+  inviteAcceptProbability: INVITE_ACCEPT_PROBABILITY,
+  inviteTimeout: INVITE_TIMEOUT,
+  awkwardConversationTimeout: AWKWARD_CONVERSATION_TIMEOUT,
+  maxConversationDuration: MAX_CONVERSATION_DURATION,
+  maxConversationMessages: MAX_CONVERSATION_MESSAGES,
+  maxConversationParticipants: MAX_CONVERSATION_PARTICIPANTS,
+  messageCooldown: MESSAGE_COOLDOWN,
+  typingTimeout: TYPING_TIMEOUT,
+  worldTokensPerHour: WORLD_TOKENS_PER_HOUR,
+  agentTokensPerHour: AGENT_TOKENS_PER_HOUR,
+  worldCallsPerMinute: WORLD_LLM_CALLS_PER_MINUTE,
+  agentCallsPerMinute: AGENT_LLM_CALLS_PER_MINUTE,
+  reflectionImportance: REFLECTION_IMPORTANCE,
+  reflectionEventImportance: REFLECTION_EVENT_IMPORTANCE,
+  reflectionInterval: REFLECTION_INTERVAL,
+};
+
+// How the settings panel shows each rule, and the range it accepts. Durations are in milliseconds.
+type Setting = {
+  label: string;
+  kind: 'count' | 'duration' | 'probability';
+  min: number;
+  max: number;
+};
+const MINUTE = 60_000;
+export const worldConfigSettings: Record<keyof WorldConfig, Setting> = {
+  maxHumanPlayers: { label: 'Human players at once', kind: 'count', min: 0, max: 64 },
+  humanIdleTooLong: {
+    label: 'Hand idle humans back to their agent after',
+    kind: 'duration',
+    min: MINUTE,
+    max: 60 * MINUTE,
+  },
+  actionTimeout: {
+    label: 'Give up on agent operations after',
+    kind: 'duration',
+    min: 10_000,
+    max: 10 * MINUTE,
+  },
+  activityCooldown: {
+    label: 'Wait between activities',
+    kind: 'duration',
+    min: 0,
+    max: 10 * MINUTE,
+  },
+  conversationCooldown: {
+    label: 'Wait between conversations',
+    kind: 'duration',
+    min: 0,
+    max: 10 * MINUTE,
+  },
+  playerConversationCooldown: {
+    label: 'Wait before talking to the same player again',
+    kind: 'duration',
+    min: 0,
+    max: 60 * MINUTE,
+  },
+  inviteAcceptProbability: {
+    label: 'Chance agents accept invites from agents',
+    kind: 'probability',
+    min: 0,
+    max: 1,
+  },
+  inviteTimeout: { label: 'Invites expire after', kind: 'duration', min: 5_000, max: 10 * MINUTE },
+  awkwardConversationTimeout: {
+    label: 'Speak up after a silence of',
+    kind: 'duration',
+    min: 5_000,
+    max: 10 * MINUTE,
+  },
+  maxConversationDuration: {
+    label: 'Leave conversations after',
+    kind: 'duration',
+    min: 30_000,
+    max: 60 * MINUTE,
+  },
+  maxConversationMessages: {
+    label: 'Leave conversations after this many messages',
+    kind: 'count',
+    min: 1,
+    max: 100,
+  },
+  maxConversationParticipants: {
+    label: 'Players per conversation',
+    kind: 'count',
+    min: 2,
+    max: 16,
+  },
+  messageCooldown: { label: 'Wait between messages', kind: 'duration', min: 0, max: MINUTE },
+  typingTimeout: {
+    label: 'Stop showing "typing" after',
+    kind: 'duration',
+    min: 1_000,
+    max: MINUTE,
+  },
+  worldTokensPerHour: {
+    label: 'LLM tokens per hour for the world (0 for no limit)',
+    kind: 'count',
+    min: 0,
+    max: 100_000_000,
+  },
+  agentTokensPerHour: {
+    label: 'LLM tokens per hour for each agent (0 for no limit)',
+    kind: 'count',
+    min: 0,
+    max: 10_000_000,
+  },
+  worldCallsPerMinute: {
+    label: 'LLM calls per minute for the world (0 for no limit)',
+    kind: 'count',
+    min: 0,
+    max: 10_000,
+  },
+  agentCallsPerMinute: {
+    label: 'LLM calls per minute for each agent (0 for no limit)',
+    kind: 'count',
+    min: 0,
+    max: 1_000,
+  },
+  reflectionImportance: {
+    label: 'Reflect once the importance of new memories adds up to',
+    kind: 'count',
+    min: 1,
+    max: 1_000,
+  },
+  reflectionEventImportance: {
+    label: 'Reflect right away on memories this important (10 for never)',
+    kind: 'count',
+    min: 0,
+    max: 10,
+  },
+  reflectionInterval: {
+    label: 'Otherwise reflect every',
+    kind: 'duration',
+    min: MINUTE,
+    max: 24 * 60 * MINUTE,
+  },
+};
+
+export function resolveWorldConfig(overrides?: WorldConfigOverrides): WorldConfig {
+  const config = { ...DEFAULT_WORLD_CONFIG };
+  for (const key of Object.keys(DEFAULT_WORLD_CONFIG) as Array<keyof WorldConfig>) {
+    const value = overrides?.[key];
+    if (value !== undefined) {
+      config[key] = value;
+    }
+  }
+  return config;
+}
+
+// Throw unless every override is in its setting's range.
+export function validateWorldConfig(overrides: WorldConfigOverrides) {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+    const setting = Object.prototype.hasOwnProperty.call(worldConfigSettings, key)
+      ? worldConfigSettings[key as keyof WorldConfig]
+      : undefined;
+    if (!setting) {
+      throw new ConvexError(`Unknown setting: ${key}`);
+    }
+    if (!Number.isFinite(value) || value < setting.min || value > setting.max) {
+      throw new ConvexError(`${setting.label} must be between ${setting.min} and ${setting.max}.`);
+    }
+    if (setting.kind === 'count' && !Number.isInteger(value)) {
+      throw new ConvexError(`${setting.label} must be a whole number.`);
+    }
+  }
+}
+
+export async function loadWorldConfigOverrides(
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+): Promise<WorldConfigOverrides> {
+  const doc = await db
+    .query('worldConfig')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId))
+    .unique();
+  if (!doc) {
+    return {};
+  }
+  const { _id, _creationTime, worldId: _, ...overrides } = doc;
+  return overrides;
+}
+
+export async function loadWorldConfig(db: DatabaseReader, worldId: Id<'worlds'>) {
+  return resolveWorldConfig(await loadWorldConfigOverrides(db, worldId));
+}
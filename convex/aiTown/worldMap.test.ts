@@ -0,0 +1,58 @@
+import { SerializedWorldMap, WorldMap } from './worldMap';
+import { Rng } from '../util/rng';
+
+function testMap(zones: SerializedWorldMap['zones']) {
+  const width = 4;
+  const height = 3;
+  const objectLayer = Array.from({ length: width }, () => Array.from({ length: height }, () => -1));
+  // Block the top-left tile.
+  objectLayer[0][0] = 1;
+  return new WorldMap({
+    width,
+    height,
+    tileSetUrl: '',
+    tileSetDimX: 0,
+    tileSetDimY: 0,
+    tileDim: 32,
+    bgTiles: [],
+    objectTiles: [objectLayer],
+    animatedSprites: [],
+    zones,
+  });
+}
+
+describe('WorldMap zones', () => {
+  test('should default to no zones for older maps', () => {
+    const map = testMap(undefined);
+    expect(map.zones).toEqual([]);
+    expect(map.serialize().zones).toEqual([]);
+  });
+
+  test('should find the zone containing a position', () => {
+    const map = testMap([
+      { name: 'library', x: 0, y: 0, w: 2, h: 2 },
+      { name: 'campfire', x: 3, y: 2, w: 1, h: 1 },
+    ]);
+    expect(map.zoneAt({ x: 1.5, y: 0.2 })?.name).toBe('library');
+    expect(map.zoneAt({ x: 3, y: 2 })?.name).toBe('campfire');
+    expect(map.zoneAt({ x: 2, y: 0 })).toBeUndefined();
+  });
+
+  test('should look up zones by name case-insensitively', () => {
+    const map = testMap([{ name: 'Garden Plot', x: 0, y: 0, w: 1, h: 1 }]);
+    expect(map.findZone(' garden plot ')?.name).toBe('Garden Plot');
+    expect(map.findZone('library')).toBeUndefined();
+  });
+
+  test('should only pick unblocked points within the zone', () => {
+    const map = testMap([
+      { name: 'library', x: 0, y: 0, w: 2, h: 1 },
+      { name: 'blocked', x: 0, y: 0, w: 1, h: 1 },
+    ]);
+    const rng = new Rng(0);
+    for (let i = 0; i < 10; i++) {
+      expect(map.randomPointInZone(map.zones[0], rng)).toEqual({ x: 1, y: 0 });
+    }
+    expect(map.randomPointInZone(map.zones[1], rng)).toBeNull();
+  });
+});
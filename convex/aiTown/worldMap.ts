@@ -1,4 +1,6 @@
 import { Infer, ObjectType, v } from 'convex/values';
+import { Point } from '../util/types';
+import { Rng } from '../util/rng';
 
 // `layer[position.x][position.y]` is the tileIndex or -1 if empty.
 const tileLayer = v.array(v.array(v.number()));
@@ -15,6 +17,18 @@ const animatedSprite = {
 };
 export type AnimatedSprite = ObjectType<typeof animatedSprite>;
 
+// A named rectangle of tiles that gives a part of the map meaning, like
+// "library" or "campfire". Points of interest are just 1x1 zones.
+const zone = {
+  name: v.string(),
+  description: v.optional(v.string()),
+  x: v.number(),
+  y: v.number(),
+  w: v.number(),
+  h: v.number(),
+};
+export type Zone = ObjectType<typeof zone>;
+
 export const serializedWorldMap = {
   width: v.number(),
   height: v.number(),
@@ -29,6 +43,8 @@ export const serializedWorldMap = {
   bgTiles: v.array(v.array(v.array(v.number()))),
   objectTiles: v.array(tileLayer),
   animatedSprites: v.array(v.object(animatedSprite)),
+  // Optional since maps created before zones existed don't have them.
+  zones: v.optional(v.array(v.object(zone))),
 };
 export type SerializedWorldMap = ObjectType<typeof serializedWorldMap>;
 
@@ -45,6 +61,7 @@ export class WorldMap {
   bgTiles: TileLayer[];
   objectTiles: TileLayer[];
   animatedSprites: AnimatedSprite[];
+  zones: Zone[];
 
   constructor(serialized: SerializedWorldMap) {
     this.width = serialized.width;
@@ -56,6 +73,35 @@ export class WorldMap {
     this.bgTiles = serialized.bgTiles;
     this.objectTiles = serialized.objectTiles;
     this.animatedSprites = serialized.animatedSprites;
+    this.zones = serialized.zones ?? [];
+  }
+
+  zoneAt(position: Point): Zone | undefined {
+    const x = Math.floor(position.x);
+    const y = Math.floor(position.y);
+    return this.zones.find((z) => z.x <= x && x < z.x + z.w && z.y <= y && y < z.y + z.h);
+  }
+
+  findZone(name: string): Zone | undefined {
+    const normalized = name.trim().toLowerCase();
+    return this.zones.find((z) => z.name.toLowerCase() === normalized);
+  }
+
+  // Pick a random tile within the zone that isn't blocked by an object,
+  // returning null if the whole zone is blocked.
+  randomPointInZone(zone: Zone, rng: Rng): Point | null {
+    const candidates = [];
+    for (let x = Math.max(zone.x, 0); x < Math.min(zone.x + zone.w, this.width); x++) {
+      for (let y = Math.max(zone.y, 0); y < Math.min(zone.y + zone.h, this.height); y++) {
+        if (this.objectTiles.every((layer) => layer[x][y] === -1)) {
+          candidates.push({ x, y });
+        }
+      }
+    }
+    if (candidates.length === 0) {
+      return null;
+    }
+    return rng.pick(candidates);
   }
 
   serialize(): SerializedWorldMap {
@@ -69,6 +115,7 @@ export class WorldMap {
       bgTiles: this.bgTiles,
       objectTiles: this.objectTiles,
       animatedSprites: this.animatedSprites,
+      zones: this.zones,
     };
   }
 }
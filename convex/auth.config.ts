@@ -0,0 +1,7 @@
+// Auth providers that can sign players in, besides the local accounts in `auth.ts`.
+// To use Clerk, set CLERK_JWT_ISSUER_DOMAIN here and VITE_CLERK_PUBLISHABLE_KEY in .env.local.
+const clerkDomain = process.env.CLERK_JWT_ISSUER_DOMAIN;
+
+export default {
+  providers: clerkDomain ? [{ domain: clerkDomain, applicationID: 'convex' }] : [],
+};
@@ -0,0 +1,184 @@
+import { ConvexError, v } from 'convex/values';
+import { Doc, Id } from './_generated/dataModel';
+import { MutationCtx, QueryCtx, mutation, query } from './_generated/server';
+import { SESSION_DURATION } from './constants';
+
+// Who's calling a function. Identities come from the auth provider configured in
+// `auth.config.ts` (e.g. Clerk) when there is one, and otherwise from the local
+// username/password accounts below, which are meant for development.
+export type AuthIdentity = {
+  tokenIdentifier: string;
+  name: string;
+};
+
+// Local accounts are identified by a session token, which clients pass as `sessionId`
+// to any function that needs to know who's calling.
+export const sessionArgs = {
+  sessionId: v.optional(v.string()),
+};
+
+export async function getIdentity(
+  ctx: Pick<QueryCtx, 'auth' | 'db'>,
+  sessionId?: string,
+): Promise<AuthIdentity | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (identity) {
+    const name =
+      identity.givenName ||
+      identity.nickname ||
+      identity.name ||
+      (identity.email && identity.email.split('@')[0]);
+    if (!name) {
+      throw new ConvexError(`Missing name on ${JSON.stringify(identity)}`);
+    }
+    return { tokenIdentifier: identity.tokenIdentifier, name };
+  }
+  if (!sessionId || !localAuthEnabled()) {
+    return null;
+  }
+  const session = await ctx.db
+    .query('sessions')
+    .withIndex('token', (q) => q.eq('token', sessionId))
+    .unique();
+  if (!session || session.expires < Date.now()) {
+    return null;
+  }
+  const user = await ctx.db.get(session.userId);
+  if (!user) {
+    return null;
+  }
+  return localIdentity(user);
+}
+
+export async function requireIdentity(
+  ctx: Pick<QueryCtx, 'auth' | 'db'>,
+  sessionId?: string,
+): Promise<AuthIdentity> {
+  const identity = await getIdentity(ctx, sessionId);
+  if (!identity) {
+    throw new ConvexError('Not logged in');
+  }
+  return identity;
+}
+
+function localIdentity(user: Doc<'users'>): AuthIdentity {
+  return { tokenIdentifier: `local|${user._id}`, name: user.username };
+}
+
+// Deployment admins can manage every world, including the default one. List their token
+// identifiers, comma-separated, in `ADMINS`. Local accounts' identifiers are `local|<user ID>`.
+export function isAdmin(identity: AuthIdentity) {
+  const admins = (process.env.ADMINS ?? '').split(',').map((admin) => admin.trim());
+  return admins.includes(identity.tokenIdentifier);
+}
+
+// Local accounts are on unless Clerk is configured, and `LOCAL_AUTH` can turn them on or off
+// either way.
+function localAuthEnabled() {
+  const localAuth = process.env.LOCAL_AUTH;
+  return localAuth ? localAuth !== 'false' : !process.env.CLERK_JWT_ISSUER_DOMAIN;
+}
+
+export const currentUser = query({
+  args: sessionArgs,
+  handler: async (ctx, args) => {
+    const identity = await getIdentity(ctx, args.sessionId);
+    return identity && { ...identity, isAdmin: isAdmin(identity) };
+  },
+});
+
+export const signUp = mutation({
+  args: {
+    username: v.string(),
+    password: v.string(),
+  },
+  handler: async (ctx, args) => {
+    checkLocalAuth();
+    const username = args.username.trim();
+    if (!/^[\w-]{3,24}$/.test(username)) {
+      throw new ConvexError('Usernames must be 3-24 letters, numbers, dashes or underscores.');
+    }
+    if (args.password.length < 8) {
+      throw new ConvexError('Passwords must be at least 8 characters.');
+    }
+    const existing = await ctx.db
+      .query('users')
+      .withIndex('username', (q) => q.eq('username', username))
+      .first();
+    if (existing) {
+      throw new ConvexError(`The username ${username} is taken.`);
+    }
+    const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    const userId = await ctx.db.insert('users', {
+      username,
+      salt,
+      passwordHash: await hashPassword(args.password, salt),
+    });
+    return await startSession(ctx, userId);
+  },
+});
+
+export const signIn = mutation({
+  args: {
+    username: v.string(),
+    password: v.string(),
+  },
+  handler: async (ctx, args) => {
+    checkLocalAuth();
+    const user = await ctx.db
+      .query('users')
+      .withIndex('username', (q) => q.eq('username', args.username.trim()))
+      .first();
+    if (!user || (await hashPassword(args.password, user.salt)) !== user.passwordHash) {
+      throw new ConvexError('Invalid username or password.');
+    }
+    return await startSession(ctx, user._id);
+  },
+});
+
+export const signOut = mutation({
+  args: {
+    sessionId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db
+      .query('sessions')
+      .withIndex('token', (q) => q.eq('token', args.sessionId))
+      .unique();
+    if (session) {
+      await ctx.db.delete(session._id);
+    }
+  },
+});
+
+function checkLocalAuth() {
+  if (!localAuthEnabled()) {
+    throw new ConvexError('Local accounts are disabled on this deployment.');
+  }
+}
+
+async function startSession(ctx: MutationCtx, userId: Id<'users'>) {
+  const token = crypto.randomUUID();
+  await ctx.db.insert('sessions', { userId, token, expires: Date.now() + SESSION_DURATION });
+  return token;
+}
+
+async function hashPassword(password: string, salt: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: 100_000 },
+    key,
+    256,
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+function toHex(bytes: Uint8Array) {
+  return [...bytes].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
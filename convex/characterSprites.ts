@@ -1,6 +1,6 @@
 import { v } from 'convex/values';
 import { mutation, query, action } from './_generated/server';
-import { DEFAULT_NAME } from './constants';
+import { getIdentity, requireIdentity, sessionArgs } from './auth';
 
 // SSRF protection: validate URLs before fetching
 const isAllowedUrl = (urlString: string): boolean => {
@@ -44,11 +44,6 @@ const isAllowedUrl = (urlString: string): boolean => {
   }
 };
 
-const resolveOwnerId = async (ctx: { auth: { getUserIdentity: () => Promise<{ tokenIdentifier?: string } | null> } }) => {
-  const identity = await ctx.auth.getUserIdentity();
-  return identity?.tokenIdentifier ?? DEFAULT_NAME;
-};
-
 const buildSpriteResponse = async (
   ctx: { storage: { getUrl: (storageId: string) => Promise<string | null> } },
   sprite: {
@@ -137,8 +132,13 @@ export const list = query({
 });
 
 export const listMine = query({
-  handler: async (ctx) => {
-    const ownerId = await resolveOwnerId(ctx);
+  args: sessionArgs,
+  handler: async (ctx, args) => {
+    const identity = await getIdentity(ctx, args.sessionId);
+    if (!identity) {
+      return [];
+    }
+    const ownerId = identity.tokenIdentifier;
     const sprites = await ctx.db
       .query('characterSprites')
       .withIndex('ownerId', (q) => q.eq('ownerId', ownerId))
@@ -156,9 +156,10 @@ export const create = mutation({
     frameHeight: v.number(),
     framesPerDirection: v.number(),
     directions: v.number(),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
-    const ownerId = await resolveOwnerId(ctx);
+    const { tokenIdentifier: ownerId } = await requireIdentity(ctx, args.sessionId);
     const displayName = args.displayName.trim() || 'Custom Sprite';
     if (args.frameWidth !== 32 || args.frameHeight !== 32) {
       throw new Error('Only 32x32 frame sprites are supported right now.');
@@ -191,9 +192,10 @@ export const create = mutation({
 export const remove = mutation({
   args: {
     spriteId: v.string(),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
-    const ownerId = await resolveOwnerId(ctx);
+    const { tokenIdentifier: ownerId } = await requireIdentity(ctx, args.sessionId);
     const sprite = await ctx.db
       .query('characterSprites')
       .withIndex('spriteId', (q) => q.eq('spriteId', args.spriteId))
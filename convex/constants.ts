@@ -1,7 +1,17 @@
-export const ACTION_TIMEOUT = 120_000; // more time for local dev
-// export const ACTION_TIMEOUT = 60_000;// normally fine
+// Defaults for the rules each world can change in its `worldConfig` document, which
+// admins edit from the game's settings panel (see `aiTown/worldConfig.ts`).
+
+// Give up on an agent operation after 2m.
+export const ACTION_TIMEOUT = 120_000;
 
 export const IDLE_WORLD_TIMEOUT = 5 * 60 * 1000;
+// Bounds on the idle timeout players can pick when creating a world.
+export const MIN_IDLE_WORLD_TIMEOUT = 60 * 1000;
+export const MAX_IDLE_WORLD_TIMEOUT = 24 * 60 * 60 * 1000;
+// What to call worlds that weren't given a name, like the one `init` creates.
+export const DEFAULT_WORLD_NAME = 'Coo Town';
+// How many worlds each player can create.
+export const MAX_WORLDS_PER_CREATOR = 3;
 export const WORLD_HEARTBEAT_INTERVAL = 60 * 1000;
 
 export const MAX_STEP = 10 * 60 * 1000;
@@ -12,6 +22,7 @@ export const PATHFINDING_TIMEOUT = 60 * 1000;
 export const PATHFINDING_BACKOFF = 1000;
 export const CONVERSATION_DISTANCE = 1.3;
 export const MIDPOINT_THRESHOLD = 4;
+// Stop showing that someone's typing after 15s.
 export const TYPING_TIMEOUT = 15 * 1000;
 export const COLLISION_THRESHOLD = 0.75;
 
@@ -34,16 +45,17 @@ export const INVITE_ACCEPT_PROBABILITY = 0.8;
 export const INVITE_TIMEOUT = 60000;
 
 // Wait for another player to say something before jumping in.
-export const AWKWARD_CONVERSATION_TIMEOUT = 60_000; // more time locally
-// export const AWKWARD_CONVERSATION_TIMEOUT = 20_000;
+export const AWKWARD_CONVERSATION_TIMEOUT = 60_000;
 
 // Leave a conversation after participating too long.
-export const MAX_CONVERSATION_DURATION = 10 * 60_000; // more time locally
-// export const MAX_CONVERSATION_DURATION = 2 * 60_000;
+export const MAX_CONVERSATION_DURATION = 10 * 60_000;
 
 // Leave a conversation if it has more than 8 messages;
 export const MAX_CONVERSATION_MESSAGES = 8;
 
+// How many players can be in a single conversation, including invitees.
+export const MAX_CONVERSATION_PARTICIPANTS = 6;
+
 // Wait for 1s after sending an input to the engine. We can remove this
 // once we can await on an input being processed.
 export const INPUT_DELAY = 1000;
@@ -52,27 +64,161 @@ export const INPUT_DELAY = 1000;
 // This is over-fetched by 10x so we can prioritize memories by more than relevance.
 export const NUM_MEMORIES_TO_SEARCH = 3;
 
+// When agents reflect on their memories, unless a world changes it: once the importance of
+// what they've remembered since they last reflected adds up to REFLECTION_IMPORTANCE, right
+// after remembering something at least REFLECTION_EVENT_IMPORTANCE important, and otherwise
+// every REFLECTION_INTERVAL.
+export const REFLECTION_IMPORTANCE = 150;
+export const REFLECTION_EVENT_IMPORTANCE = 8;
+export const REFLECTION_INTERVAL = 60 * 60 * 1000;
+// How many of their latest memories agents reflect on at most, and how few new ones aren't
+// worth reflecting on.
+export const REFLECTION_MEMORIES = 100;
+export const MIN_REFLECTION_MEMORIES = 3;
+// Reflections on memories are level 1, reflections on those level 2, and so on. Agents reflect
+// at the next level up once this many reflections have built up at the level below.
+export const REFLECTIONS_PER_LEVEL = 6;
+export const MAX_REFLECTION_LEVEL = 3;
+// How many more times to ask for insights when the LLM's answer can't be parsed.
+export const REFLECTION_RETRIES = 1;
+
+// How many pinned memories an agent can have, which go into its prompts on top of the ones
+// it finds by searching.
+export const MAX_PINNED_MEMORIES = 5;
+
+// How many of an agent's latest memories the memory inspector shows.
+export const MEMORY_INSPECTOR_LIMIT = 200;
+// How many of an agent's latest reflection runs the memory inspector shows.
+export const REFLECTION_LOG_LIMIT = 50;
+
+// How agents weigh each memory's scores when ranking what they find, until whoever owns them
+// changes it. A half-life of 69 hours is about 1% less recency per hour.
+export const DEFAULT_MEMORY_WEIGHTS = {
+  relevance: 1,
+  keyword: 1,
+  importance: 1,
+  recency: 1,
+  recencyHalfLife: 69,
+};
+export const MAX_MEMORY_WEIGHT = 10;
+
 // Wait for at least two seconds before sending another message.
 export const MESSAGE_COOLDOWN = 2000;
 
+// How often to update an agent's message in the database while its reply streams in.
+export const MESSAGE_STREAM_UPDATE_INTERVAL = 250;
+
 // Don't run a turn of the agent more than once a second.
 export const AGENT_WAKEUP_THRESHOLD = 1000;
 
-// How old we let memories be before we vacuum them
+// How old we let inputs, snapshots and LLM calls be before we vacuum them
 export const VACUUM_MAX_AGE = 2 * 7 * 24 * 60 * 60 * 1000;
 export const DELETE_BATCH_SIZE = 64;
 
+// Conversation memories older than this get summarized in groups of similar ones, which
+// replace them. Memories at least MIN_DURABLE_IMPORTANCE important, and pinned memories,
+// are kept as they are indefinitely.
+export const MEMORY_CONSOLIDATION_AGE = VACUUM_MAX_AGE;
+export const MIN_DURABLE_IMPORTANCE = 6;
+// How many memories to consolidate for an agent at a time, how many go into each summary at
+// most, and how similar a memory's embedding has to be to a group's to join it.
+export const CONSOLIDATION_BATCH_SIZE = 48;
+export const MAX_CONSOLIDATION_GROUP = 8;
+export const CONSOLIDATION_SIMILARITY = 0.8;
+
+// How many memories to re-embed at a time when migrating a world to a new embedding model.
+export const EMBEDDING_MIGRATION_BATCH_SIZE = 32;
+
+// Hand humans' players back to their agents after 5m without any input.
 export const HUMAN_IDLE_TOO_LONG = 5 * 60 * 1000;
 
+// Bounds on how long an activity chosen by the LLM can last.
+export const MIN_ACTIVITY_DURATION = 30_000;
+export const MAX_ACTIVITY_DURATION = 5 * 60_000;
+
+// How many recent memories to show the LLM when it's choosing an activity.
+export const NUM_ACTIVITY_MEMORIES = 5;
+
+// How often a wandering agent heads for one of the map's zones rather than a
+// random tile.
+export const ZONE_WANDER_PROBABILITY = 0.75;
+
+// Fallback activities for when the LLM doesn't give us a usable one.
 export const ACTIVITIES = [
   { description: 'reading a book', emoji: '📖', duration: 60_000 },
   { description: 'daydreaming', emoji: '🤔', duration: 60_000 },
   { description: 'gardening', emoji: '🥕', duration: 60_000 },
 ];
 
+// LLM budgets for each world and each of its agents, where 0 means no limit. Agents that
+// run out keep to fallback activities, leave conversations with a canned goodbye and skip
+// remembering and reflecting until the next minute or hour.
+export const WORLD_TOKENS_PER_HOUR = 0;
+export const AGENT_TOKENS_PER_HOUR = 0;
+export const WORLD_LLM_CALLS_PER_MINUTE = 0;
+export const AGENT_LLM_CALLS_PER_MINUTE = 0;
+
+// Goodbyes for agents that are out of LLM budget.
+export const LEAVE_MESSAGES = [
+  "Sorry, I've got to run. Talk to you later!",
+  'I just remembered something I need to take care of. See you around!',
+  "It's been nice chatting, but I should get going.",
+];
+
+// How agents feel about each other runs from -10 (can't stand them) to 10 (close friends),
+// and each conversation moves it by at most 3.
+export const MAX_AFFINITY = 10;
+export const MAX_AFFINITY_CHANGE = 3;
+
+// Agents don't start conversations with players they feel this badly about or worse.
+export const AVOID_AFFINITY = -5;
+
+// When picking who to talk to, each point of affinity counts as much as being this many
+// tiles closer.
+export const AFFINITY_DISTANCE = 2;
+
+// Agents work towards at most this many goals at once, and their goal counts as much as being
+// this many tiles closer to the players it involves when picking who to talk to.
+export const MAX_ACTIVE_GOALS = 3;
+export const GOAL_DISTANCE = 30;
+// How many of an agent's goals, active or not, its details panel shows.
+export const GOAL_HISTORY_LIMIT = 20;
+
+// How many times faster than real time the in-game clock runs, so a game day
+// lasts an hour by default.
+export const GAME_CLOCK_SPEED = 24;
+
+// New worlds start their clock at this hour on day 0.
+export const GAME_CLOCK_START_HOUR = 8;
+
+// Fallback daily schedule for when the LLM doesn't give us a usable one.
+export const DEFAULT_SCHEDULE = [
+  { start: 7 * 60, kind: 'wake' as const, description: 'waking up', emoji: '☀️' },
+  { start: 8 * 60, kind: 'meal' as const, description: 'eating breakfast', emoji: '🍳' },
+  { start: 9 * 60, kind: 'work' as const, description: 'working', emoji: '🔨' },
+  { start: 12 * 60, kind: 'meal' as const, description: 'eating lunch', emoji: '🥪' },
+  { start: 13 * 60, kind: 'work' as const, description: 'working', emoji: '🔨' },
+  { start: 17 * 60, kind: 'social' as const, description: 'catching up with friends', emoji: '💬' },
+  { start: 19 * 60, kind: 'meal' as const, description: 'eating dinner', emoji: '🍲' },
+  { start: 20 * 60, kind: 'leisure' as const, description: 'relaxing', emoji: '🎶' },
+  { start: 22 * 60, kind: 'sleep' as const, description: 'sleeping', emoji: '💤' },
+];
+
 export const ENGINE_ACTION_DURATION = 30000;
 
+// How often to snapshot running worlds for replays.
+export const SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+
+// Don't replay more than this far past a snapshot in one go.
+export const MAX_REPLAY_DURATION = 2 * SNAPSHOT_INTERVAL;
+
 // Bound the number of pathfinding searches we do per game step.
 export const MAX_PATHFINDS_PER_STEP = 16;
 
-export const DEFAULT_NAME = 'Me';
+// How far back into each player's conversations the relationship graph looks, and how many
+// of a pair's conversations it shows.
+export const CONVERSATION_GRAPH_HISTORY = 200;
+export const CONVERSATION_GRAPH_PAIR_CONVERSATIONS = 20;
+
+// How long a local account stays signed in.
+export const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000;
@@ -1,5 +1,10 @@
 import { cronJobs } from 'convex/server';
-import { DELETE_BATCH_SIZE, IDLE_WORLD_TIMEOUT, VACUUM_MAX_AGE } from './constants';
+import {
+  DELETE_BATCH_SIZE,
+  MIN_IDLE_WORLD_TIMEOUT,
+  SNAPSHOT_INTERVAL,
+  VACUUM_MAX_AGE,
+} from './constants';
 import { internal } from './_generated/api';
 import { internalMutation } from './_generated/server';
 import { TableNames } from './_generated/dataModel';
@@ -7,34 +12,46 @@ import { v } from 'convex/values';
 
 const crons = cronJobs();
 
+// Check often enough to catch worlds with the shortest idle timeout.
 crons.interval(
   'stop inactive worlds',
-  { seconds: IDLE_WORLD_TIMEOUT / 1000 },
+  { seconds: MIN_IDLE_WORLD_TIMEOUT / 1000 },
   internal.world.stopInactiveWorlds,
 );
 
 crons.interval('restart dead worlds', { seconds: 60 }, internal.world.restartDeadWorlds);
 
+crons.interval(
+  'snapshot worlds',
+  { seconds: SNAPSHOT_INTERVAL / 1000 },
+  internal.aiTown.replay.snapshotWorlds,
+);
+
 crons.daily('vacuum old entries', { hourUTC: 4, minuteUTC: 20 }, internal.crons.vacuumOldEntries);
 
+crons.daily(
+  'consolidate old memories',
+  { hourUTC: 4, minuteUTC: 40 },
+  internal.agent.consolidation.consolidateAllMemories,
+);
+
 export default crons;
 
 const TablesToVacuum: TableNames[] = [
   // Un-comment this to also clean out old conversations.
   // 'conversationMembers', 'conversations', 'messages',
 
-  // Inputs aren't useful unless you're trying to replay history.
-  // If you want to support that, you should add a snapshot table, so you can
-  // replay from a certain time period. Or stop vacuuming inputs and replay from
-  // the beginning of time
+  // Inputs are only useful for replaying history from a snapshot, so vacuum them
+  // along with the snapshots. Stop vacuuming both to keep history around for longer.
   'inputs',
+  'worldSnapshots',
+
+  // Memories aren't vacuumed: old ones get consolidated instead, in `agent/consolidation.ts`.
 
-  // We can keep memories without their embeddings for inspection, but we won't
-  // retrieve them when searching memories via vector search.
-  'memories',
-  // We can vacuum fewer tables without serious consequences, but the only
-  // one that will cause issues over time is having >>100k vectors.
-  'memoryEmbeddings',
+  // LLM calls are only kept for the admin dashboard's recent stats.
+  'llmCalls',
+  // Like the log of agents' reflections.
+  'reflectionRuns',
 ];
 
 export const vacuumOldEntries = internalMutation({
@@ -57,6 +74,38 @@ export const vacuumOldEntries = internalMutation({
         });
       }
     }
+    // Local accounts' sessions are only ignored once they expire, so clear them out too.
+    await ctx.scheduler.runAfter(0, internal.crons.vacuumSessions, {
+      before: Date.now(),
+      cursor: null,
+      soFar: 0,
+    });
+  },
+});
+
+export const vacuumSessions = internalMutation({
+  args: {
+    before: v.number(),
+    cursor: v.union(v.string(), v.null()),
+    soFar: v.number(),
+  },
+  handler: async (ctx, { before, cursor, soFar }) => {
+    const results = await ctx.db
+      .query('sessions')
+      .withIndex('expires', (q) => q.lt('expires', before))
+      .paginate({ cursor, numItems: DELETE_BATCH_SIZE });
+    for (const session of results.page) {
+      await ctx.db.delete(session._id);
+    }
+    if (!results.isDone) {
+      await ctx.scheduler.runAfter(0, internal.crons.vacuumSessions, {
+        before,
+        soFar: results.page.length + soFar,
+        cursor: results.continueCursor,
+      });
+    } else {
+      console.log(`Vacuumed ${soFar + results.page.length} expired sessions`);
+    }
   },
 });
 
@@ -3,6 +3,7 @@ import { v } from 'convex/values';
 import { internal } from '../_generated/api';
 import { api } from '../_generated/api';
 import { Id } from '../_generated/dataModel';
+import { sessionArgs } from '../auth';
 
 const ELIZA_SERVER = process.env.ELIZA_SERVER_URL || 'https://fliza-agent-production.up.railway.app';
 
@@ -14,6 +15,7 @@ export const createElizaAgent = action({
     identity: v.string(), // Maps to bio
     plan: v.string(),
     personality: v.array(v.string()), // ['Friendly', 'Curious']
+    ...sessionArgs,
   },
   handler: async (ctx, args): Promise<{ inputId: Id<"inputs"> | string; elizaAgentId: string }> => {
     // 1. Create in ElizaOS
@@ -69,6 +71,7 @@ export const createElizaAgent = action({
          character: args.character,
          identity: args.identity,
          plan: args.plan,
+         sessionId: args.sessionId,
       });
       
       // 3. Save Mapping
@@ -172,6 +175,7 @@ export const importElizaAgent = action({
     identity: v.string(),
     plan: v.string(),
     personality: v.array(v.string()),
+    ...sessionArgs,
   },
   handler: async (ctx, args): Promise<{ inputId: Id<"inputs"> | string; elizaAgentId: string }> => {
     try {
@@ -184,6 +188,7 @@ export const importElizaAgent = action({
         character: args.character,
         identity: args.identity,
         plan: args.plan,
+        sessionId: args.sessionId,
       });
 
       // 2. Save Mapping with existing ElizaOS ID
@@ -20,12 +20,24 @@ export abstract class AbstractGame {
   abstract saveStep(ctx: ActionCtx, engineUpdate: EngineUpdate): Promise<void>;
 
   async runStep(ctx: ActionCtx, now: number) {
+    const start = Date.now();
     const inputs = await ctx.runQuery(internal.engine.abstractGame.loadInputs, {
       engineId: this.engine._id,
       processedInputNumber: this.engine.processedInputNumber,
       max: this.maxInputsPerStep,
     });
+    const engineUpdate = this.simulate(now, inputs);
+    engineUpdate.engine.lastStepDuration = Date.now() - start;
+    await this.saveStep(ctx, engineUpdate);
+
+    const { lastStepTs, currentTime } = engineUpdate.engine;
+    console.debug(`Simulated from ${lastStepTs} to ${currentTime}`);
+  }
 
+  // Simulate the game forward to `now`, feeding in each input at the first tick
+  // at or after it was received. This doesn't touch the database, so replays can
+  // drive it directly with archived inputs.
+  simulate(now: number, inputs: Doc<'inputs'>[]): EngineUpdate {
     const lastStepTs = this.engine.currentTime;
     const startTs = lastStepTs ? lastStepTs + this.tickDuration : now;
     let currentTs = startTs;
@@ -61,7 +73,7 @@ export abstract class AbstractGame {
           console.error(`Input ${input._id} failed: ${e.message}`);
           returnValue = { kind: 'error' as const, message: e.message };
         }
-        completedInputs.push({ inputId: input._id, returnValue });
+        completedInputs.push({ inputId: input._id, returnValue, processedTs: currentTs });
       }
 
       // Simulate the game forward one tick.
@@ -74,17 +86,16 @@ export abstract class AbstractGame {
       currentTs = candidateTs;
     }
 
-    // Commit the step by moving time forward, consuming our inputs, and saving the game's state.
+    // Commit the step by moving time forward and consuming our inputs.
     const expectedGenerationNumber = this.engine.generationNumber;
     this.engine.currentTime = currentTs;
     this.engine.lastStepTs = lastStepTs;
     this.engine.generationNumber += 1;
     this.engine.processedInputNumber = processedInputNumber;
+    this.engine.lastStepTicks = numTicks;
+    this.engine.lastStepInputs = completedInputs.length;
     const { _id, _creationTime, ...engine } = this.engine;
-    const engineUpdate = { engine, completedInputs, expectedGenerationNumber };
-    await this.saveStep(ctx, engineUpdate);
-
-    console.debug(`Simulated from ${startTs} to ${currentTs} (${currentTs - startTs}ms)`);
+    return { engine, completedInputs, expectedGenerationNumber };
   }
 }
 
@@ -100,6 +111,7 @@ const completedInput = v.object({
       message: v.string(),
     }),
   ),
+  processedTs: v.number(),
 });
 
 export const engineUpdate = v.object({
@@ -194,6 +206,7 @@ export async function applyEngineUpdate(
       throw new Error(`Input ${completedInput.inputId} already completed`);
     }
     input.returnValue = completedInput.returnValue;
+    input.processedTs = completedInput.processedTs;
     await ctx.db.replace(input._id, input);
   }
 }
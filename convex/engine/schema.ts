@@ -30,6 +30,9 @@ const input = v.object({
   // since we don't guarantee strict monotonicity here. So, an input may not get
   // assigned to the engine step whose time interval contains this timestamp.
   received: v.number(),
+  // Simulation time of the tick that processed the input, so replays can feed
+  // it to the game at exactly the same point.
+  processedTs: v.optional(v.number()),
 });
 
 export const engine = v.object({
@@ -43,6 +46,13 @@ export const engine = v.object({
 
   running: v.boolean(),
 
+  // How the preceding step went, for the admin dashboard: how many ticks it
+  // simulated, how many inputs it processed, and how long loading its inputs
+  // and simulating took in ms.
+  lastStepTicks: v.optional(v.number()),
+  lastStepInputs: v.optional(v.number()),
+  lastStepDuration: v.optional(v.number()),
+
   // Monotonically increasing counter that serializes all engine runs. If we ever
   // end up with two steps overlapping in time, this counter will force them to
   // conflict.
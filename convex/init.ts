@@ -2,20 +2,22 @@ import { v } from 'convex/values';
 import { internal } from './_generated/api';
 import { DatabaseReader, MutationCtx, mutation } from './_generated/server';
 import { Descriptions } from '../data/characters';
-import * as map from '../data/gentle';
+import { DEFAULT_MAP, MapName, maps } from '../data/maps';
 import { insertInput } from './aiTown/insertInput';
 import { Id } from './_generated/dataModel';
 import { createEngine } from './aiTown/main';
-import { ENGINE_ACTION_DURATION } from './constants';
-import { detectMismatchedLLMProvider } from './util/llm';
+import { DEFAULT_WORLD_NAME, ENGINE_ACTION_DURATION } from './constants';
+import { defaultEmbeddingConfig } from './agent/embeddings';
+import { randomSeed } from './util/rng';
 
 const init = mutation({
   args: {
     numAgents: v.optional(v.number()),
+    // Seed for the world's random number generator, to reproduce a run.
+    seed: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    detectMismatchedLLMProvider();
-    const { worldStatus, engine } = await getOrCreateDefaultWorld(ctx);
+    const { worldStatus, engine } = await getOrCreateDefaultWorld(ctx, args.seed);
     if (worldStatus.status !== 'running') {
       console.warn(
         `Engine ${engine._id} is not active! Run "npx convex run testing:resume" to restart it.`,
@@ -39,10 +41,8 @@ const init = mutation({
 });
 export default init;
 
-async function getOrCreateDefaultWorld(ctx: MutationCtx) {
-  const now = Date.now();
-
-  let worldStatus = await ctx.db
+async function getOrCreateDefaultWorld(ctx: MutationCtx, seed?: number) {
+  const worldStatus = await ctx.db
     .query('worldStatus')
     .filter((q) => q.eq(q.field('isDefault'), true))
     .unique();
@@ -50,23 +50,53 @@ async function getOrCreateDefaultWorld(ctx: MutationCtx) {
     const engine = (await ctx.db.get(worldStatus.engineId))!;
     return { worldStatus, engine };
   }
+  return await insertWorld(ctx, {
+    name: DEFAULT_WORLD_NAME,
+    map: DEFAULT_MAP,
+    isDefault: true,
+    seed,
+  });
+}
 
+// Create a running world with an empty map, without any agents in it yet.
+export async function insertWorld(
+  ctx: MutationCtx,
+  options: {
+    name: string;
+    map: MapName;
+    isDefault: boolean;
+    seed?: number;
+    creator?: string;
+    idleTimeout?: number;
+  },
+) {
+  const now = Date.now();
+  const map = maps[options.map];
+
+  // Check the LLM provider's embeddings fit one of our vector indexes before making a world.
+  const embedding = defaultEmbeddingConfig();
   const engineId = await createEngine(ctx);
   const engine = (await ctx.db.get(engineId))!;
   const worldId = await ctx.db.insert('worlds', {
     nextId: 0,
+    rngState: options.seed ?? randomSeed(),
     agents: [],
     conversations: [],
     players: [],
   });
   const worldStatusId = await ctx.db.insert('worldStatus', {
     engineId: engineId,
-    isDefault: true,
+    isDefault: options.isDefault,
     lastViewed: now,
     status: 'running',
     worldId: worldId,
+    embedding,
+    name: options.name,
+    map: options.map,
+    creator: options.creator,
+    idleTimeout: options.idleTimeout,
   });
-  worldStatus = (await ctx.db.get(worldStatusId))!;
+  const worldStatus = (await ctx.db.get(worldStatusId))!;
   await ctx.db.insert('maps', {
     worldId,
     width: map.mapwidth,
@@ -78,6 +108,7 @@ async function getOrCreateDefaultWorld(ctx: MutationCtx) {
     bgTiles: map.bgtiles,
     objectTiles: map.objmap,
     animatedSprites: map.animatedsprites,
+    zones: map.zones,
   });
   await ctx.scheduler.runAfter(0, internal.aiTown.main.runStep, {
     worldId,
@@ -0,0 +1,373 @@
+import { ConvexError, v } from 'convex/values';
+import {
+  DatabaseReader,
+  QueryCtx,
+  action,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from './_generated/server';
+import { Doc, Id } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import { GameId, playerId } from './aiTown/ids';
+import { AuthIdentity, getIdentity, requireIdentity, sessionArgs } from './auth';
+import { canManageWorld } from './world';
+import { memoryEmbedding, memoryWeightFields } from './agent/schema';
+import { loadEmbeddingConfig } from './agent/embeddings';
+import { trackLLMCall } from './agent/llmCalls';
+import * as embeddingsCache from './agent/embeddingsCache';
+import { RankedMemory, explainMemorySearch, loadMemoryWeights } from './agent/memory';
+import { fetchEmbedding } from './util/llm';
+import {
+  MAX_MEMORY_WEIGHT,
+  MAX_PINNED_MEMORIES,
+  MEMORY_INSPECTOR_LIMIT,
+  NUM_MEMORIES_TO_SEARCH,
+  REFLECTION_LOG_LIMIT,
+} from './constants';
+
+// Longest memory someone can write by hand.
+const MAX_MEMORY_LENGTH = 2000;
+// How many memories to look up when following reflections back to what they're based on.
+const MAX_RELATED_MEMORIES = 100;
+
+// An agent's memories, for the memory inspector, along with the memories its reflections are
+// based on that are too old to be listed. Null if the caller can't edit them.
+export const listMemories = query({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    if (!(await canEditMemories(ctx, args.worldId, args.playerId, args.sessionId))) {
+      return null;
+    }
+    const memories = await ctx.db
+      .query('memories')
+      .withIndex('playerId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .order('desc')
+      .take(MEMORY_INSPECTOR_LIMIT);
+    const listed = new Set<Id<'memories'>>(memories.map((m) => m._id));
+    const related: Doc<'memories'>[] = [];
+    const toVisit = memories.flatMap(relatedMemoryIds);
+    while (toVisit.length > 0 && related.length < MAX_RELATED_MEMORIES) {
+      const memoryId = toVisit.shift()!;
+      if (listed.has(memoryId)) {
+        continue;
+      }
+      listed.add(memoryId);
+      const memory = await ctx.db.get(memoryId);
+      if (memory && memory.worldId === args.worldId) {
+        related.push(memory);
+        toVisit.push(...relatedMemoryIds(memory));
+      }
+    }
+    const weights = await loadMemoryWeights(ctx.db, args.worldId, args.playerId);
+    return { memories, related, weights };
+  },
+});
+
+// An agent's latest reflection runs, for the memory inspector: what set each one off and how
+// it went. Null if the caller can't edit its memories.
+export const listReflectionRuns = query({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    if (!(await canEditMemories(ctx, args.worldId, args.playerId, args.sessionId))) {
+      return null;
+    }
+    return await ctx.db
+      .query('reflectionRuns')
+      .withIndex('playerId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .order('desc')
+      .take(REFLECTION_LOG_LIMIT);
+  },
+});
+
+function relatedMemoryIds(memory: Doc<'memories'>) {
+  return memory.data.type === 'reflection' ? memory.data.relatedMemoryIds : [];
+}
+
+export const setMemoryPinned = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    memoryId: v.id('memories'),
+    pinned: v.boolean(),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    await requireMemoryEditor(ctx, args.worldId, args.playerId, args.sessionId);
+    const memory = await loadPlayerMemory(ctx.db, args.worldId, args.playerId, args.memoryId);
+    if (args.pinned && !memory.pinned) {
+      const pinned = await ctx.db
+        .query('memories')
+        .withIndex('playerId_pinned', (q) =>
+          q.eq('worldId', args.worldId).eq('playerId', args.playerId).eq('pinned', true),
+        )
+        .take(MAX_PINNED_MEMORIES);
+      if (pinned.length >= MAX_PINNED_MEMORIES) {
+        throw new ConvexError(`Agents can only have ${MAX_PINNED_MEMORIES} pinned memories.`);
+      }
+    }
+    await ctx.db.patch(memory._id, { pinned: args.pinned || undefined });
+  },
+});
+
+export const deleteMemory = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    memoryId: v.id('memories'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    await requireMemoryEditor(ctx, args.worldId, args.playerId, args.sessionId);
+    const memory = await loadPlayerMemory(ctx.db, args.worldId, args.playerId, args.memoryId);
+    // Reflections based on it keep their IDs for it, and show it as forgotten.
+    await ctx.db.delete(memory.embeddingId);
+    await ctx.db.delete(memory._id);
+  },
+});
+
+// Change how an agent weighs relevance, keywords, importance and recency when it searches
+// its memories.
+export const setMemoryWeights = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    weights: v.object(memoryWeightFields),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    await requireMemoryEditor(ctx, args.worldId, args.playerId, args.sessionId);
+    const { recencyHalfLife, ...weights } = args.weights;
+    for (const [name, weight] of Object.entries(weights)) {
+      if (!(weight >= 0 && weight <= MAX_MEMORY_WEIGHT)) {
+        throw new ConvexError(`The ${name} weight must be from 0 to ${MAX_MEMORY_WEIGHT}.`);
+      }
+    }
+    if (!(recencyHalfLife > 0 && Number.isFinite(recencyHalfLife))) {
+      throw new ConvexError('The recency half-life must be a positive number of hours.');
+    }
+    const existing = await ctx.db
+      .query('memoryWeights')
+      .withIndex('playerId', (q) => q.eq('worldId', args.worldId).eq('playerId', args.playerId))
+      .unique();
+    if (existing) {
+      await ctx.db.patch(existing._id, args.weights);
+    } else {
+      await ctx.db.insert('memoryWeights', {
+        worldId: args.worldId,
+        playerId: args.playerId,
+        ...args.weights,
+      });
+    }
+  },
+});
+
+// Search an agent's memories the way it would, without touching them, showing how each one
+// it'd pick was scored.
+export const previewMemorySearch = action({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    text: v.string(),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args): Promise<RankedMemory[]> => {
+    const text = args.text.trim();
+    if (!text) {
+      throw new ConvexError('Enter something to search for.');
+    }
+    const { agentId, embeddingConfig } = await ctx.runQuery(internal.memories.loadMemoryEditor, {
+      worldId: args.worldId,
+      playerId: args.playerId,
+      sessionId: args.sessionId,
+    });
+    const embedding = await embeddingsCache.fetch(
+      ctx,
+      { worldId: args.worldId, agentId, kind: 'search' },
+      text,
+      embeddingConfig,
+    );
+    return await explainMemorySearch(
+      ctx,
+      args.worldId,
+      args.playerId as GameId<'players'>,
+      embedding,
+      text,
+      NUM_MEMORIES_TO_SEARCH,
+    );
+  },
+});
+
+// Write a new memory for an agent, or change what one says, embedding its new text.
+export const saveMemory = action({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    // Unset to write a new memory.
+    memoryId: v.optional(v.id('memories')),
+    description: v.string(),
+    importance: v.number(),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args): Promise<Id<'memories'>> => {
+    const description = args.description.trim();
+    if (!description) {
+      throw new ConvexError("Memories can't be empty.");
+    }
+    if (description.length > MAX_MEMORY_LENGTH) {
+      throw new ConvexError(`Memories can be at most ${MAX_MEMORY_LENGTH} characters long.`);
+    }
+    if (!Number.isInteger(args.importance) || args.importance < 0 || args.importance > 9) {
+      throw new ConvexError('Importance must be a whole number from 0 to 9.');
+    }
+    const { agentId, embeddingConfig } = await ctx.runQuery(internal.memories.loadMemoryEditor, {
+      worldId: args.worldId,
+      playerId: args.playerId,
+      memoryId: args.memoryId,
+      sessionId: args.sessionId,
+    });
+    const { embedding } = await trackLLMCall(
+      ctx,
+      {
+        worldId: args.worldId,
+        agentId,
+        type: 'embedding',
+        kind: 'note',
+        model: embeddingConfig.model,
+      },
+      () => fetchEmbedding(description, embeddingConfig),
+    );
+    return await ctx.runMutation(internal.memories.writeMemory, {
+      worldId: args.worldId,
+      playerId: args.playerId,
+      memoryId: args.memoryId,
+      description,
+      importance: args.importance,
+      embedding,
+    });
+  },
+});
+
+// Check the caller can edit the agent's memories, returning what `saveMemory` needs.
+export const loadMemoryEditor = internalQuery({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    memoryId: v.optional(v.id('memories')),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const agentId = await requireMemoryEditor(ctx, args.worldId, args.playerId, args.sessionId);
+    if (args.memoryId) {
+      await loadPlayerMemory(ctx.db, args.worldId, args.playerId, args.memoryId);
+    }
+    const { write } = await loadEmbeddingConfig(ctx.db, args.worldId);
+    return { agentId, embeddingConfig: write };
+  },
+});
+
+export const writeMemory = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+    memoryId: v.optional(v.id('memories')),
+    description: v.string(),
+    importance: v.number(),
+    embedding: v.array(v.float64()),
+  },
+  handler: async (ctx, { worldId, playerId, memoryId, description, importance, embedding }) => {
+    const embeddingId = await ctx.db.insert(
+      'memoryEmbeddings',
+      memoryEmbedding(worldId, playerId, embedding),
+    );
+    if (memoryId) {
+      const memory = await loadPlayerMemory(ctx.db, worldId, playerId, memoryId);
+      await ctx.db.delete(memory.embeddingId);
+      await ctx.db.patch(memory._id, { description, importance, embeddingId });
+      return memory._id;
+    }
+    return await ctx.db.insert('memories', {
+      worldId,
+      playerId,
+      description,
+      importance,
+      embeddingId,
+      lastAccess: Date.now(),
+      data: { type: 'note' },
+    });
+  },
+});
+
+// Agents' memories can be edited by whoever owns the agent and by the world's managers.
+// Returns the ID of the player's agent if the caller can edit its memories.
+async function editableAgent(
+  ctx: QueryCtx,
+  identity: AuthIdentity,
+  worldId: Id<'worlds'>,
+  playerId: string,
+) {
+  const world = await ctx.db.get(worldId);
+  const agent = world?.agents.find((a) => a.playerId === playerId);
+  if (!agent) {
+    return null;
+  }
+  const agentId = agent.id as GameId<'agents'>;
+  const agentDescription = await ctx.db
+    .query('agentDescriptions')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId).eq('agentId', agentId))
+    .first();
+  if (agentDescription?.ownerId === identity.tokenIdentifier) {
+    return agentId;
+  }
+  const worldStatus = await ctx.db
+    .query('worldStatus')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId))
+    .unique();
+  return worldStatus && canManageWorld(identity, worldStatus) ? agentId : null;
+}
+
+async function canEditMemories(
+  ctx: QueryCtx,
+  worldId: Id<'worlds'>,
+  playerId: string,
+  sessionId?: string,
+) {
+  const identity = await getIdentity(ctx, sessionId);
+  return !!identity && !!(await editableAgent(ctx, identity, worldId, playerId));
+}
+
+async function requireMemoryEditor(
+  ctx: QueryCtx,
+  worldId: Id<'worlds'>,
+  playerId: string,
+  sessionId?: string,
+) {
+  const identity = await requireIdentity(ctx, sessionId);
+  const agentId = await editableAgent(ctx, identity, worldId, playerId);
+  if (!agentId) {
+    throw new ConvexError("You can't edit this agent's memories.");
+  }
+  return agentId;
+}
+
+async function loadPlayerMemory(
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+  playerId: string,
+  memoryId: Id<'memories'>,
+) {
+  const memory = await db.get(memoryId);
+  if (!memory || memory.worldId !== worldId || memory.playerId !== playerId) {
+    throw new ConvexError(`Memory not found: ${memoryId}`);
+  }
+  return memory;
+}
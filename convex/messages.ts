@@ -1,7 +1,8 @@
-import { v } from 'convex/values';
+import { ConvexError, v } from 'convex/values';
 import { mutation, query } from './_generated/server';
 import { insertInput } from './aiTown/insertInput';
 import { conversationId, playerId } from './aiTown/ids';
+import { requireIdentity, sessionArgs } from './auth';
 
 export const listMessages = query({
   args: {
@@ -33,8 +34,31 @@ export const writeMessage = mutation({
     messageUuid: v.string(),
     playerId,
     text: v.string(),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
+    const { tokenIdentifier } = await requireIdentity(ctx, args.sessionId);
+    const world = await ctx.db.get(args.worldId);
+    const player = world?.players.find((p) => p.id === args.playerId);
+    if (!player || player.human !== tokenIdentifier) {
+      throw new ConvexError(`You aren't controlling player ${args.playerId}`);
+    }
+    const conversation = world?.conversations.find((c) => c.id === args.conversationId);
+    const member = conversation?.participants.find((m) => m.playerId === args.playerId);
+    if (member?.status.kind !== 'participating') {
+      throw new ConvexError(`You aren't participating in conversation ${args.conversationId}`);
+    }
+    // Message UUIDs are how agents' drafts get replaced, so players can't reuse someone else's.
+    const existing = await ctx.db
+      .query('messages')
+      .withIndex('messageUuid', (q) =>
+        q.eq('conversationId', args.conversationId).eq('messageUuid', args.messageUuid),
+      )
+      .filter((q) => q.eq(q.field('worldId'), args.worldId))
+      .first();
+    if (existing && existing.author !== args.playerId) {
+      throw new ConvexError(`Message ${args.messageUuid} was written by someone else`);
+    }
     await ctx.db.insert('messages', {
       conversationId: args.conversationId,
       author: args.playerId,
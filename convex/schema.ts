@@ -18,10 +18,26 @@ export default defineSchema({
     author: playerId,
     text: v.string(),
     worldId: v.optional(v.id('worlds')),
+    // Set while an agent's reply is still streaming in.
+    draft: v.optional(v.boolean()),
   })
     .index('conversationId', ['worldId', 'conversationId'])
     .index('messageUuid', ['conversationId', 'messageUuid']),
 
+  // Local username/password accounts, for when there's no auth provider (see `auth.ts`).
+  users: defineTable({
+    username: v.string(),
+    passwordHash: v.string(),
+    salt: v.string(),
+  }).index('username', ['username']),
+  sessions: defineTable({
+    userId: v.id('users'),
+    token: v.string(),
+    expires: v.number(),
+  })
+    .index('token', ['token'])
+    .index('expires', ['expires']),
+
   ...agentTables,
   ...aiTownTables,
   ...engineTables,
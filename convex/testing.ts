@@ -12,6 +12,7 @@ import schema from './schema';
 import { DELETE_BATCH_SIZE } from './constants';
 import { kickEngine, startEngine, stopEngine } from './aiTown/main';
 import { insertInput } from './aiTown/insertInput';
+import { snapshotWorld } from './aiTown/replay';
 import { fetchEmbedding } from './util/llm';
 import { chatCompletion } from './util/llm';
 import { startConversationMessage } from './agent/conversation';
@@ -142,6 +143,26 @@ export const debugCreatePlayers = internalMutation({
   },
 });
 
+// Take a snapshot of the default world right away instead of waiting for the cron.
+export const snapshot = internalMutation({
+  handler: async (ctx) => {
+    const { worldStatus } = await getDefaultWorld(ctx.db);
+    return await snapshotWorld(ctx, worldStatus.worldId);
+  },
+});
+
+// Speed up or slow down the default world's in-game clock, e.g.
+// `npx convex run testing:setClockSpeed '{"speed": 60}'` for a day every 24 minutes.
+export const setClockSpeed = internalMutation({
+  args: {
+    speed: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { worldStatus } = await getDefaultWorld(ctx.db);
+    await insertInput(ctx, worldStatus.worldId, 'setClockSpeed', { speed: args.speed });
+  },
+});
+
 export const randomPositions = internalMutation({
   handler: async (ctx) => {
     const { worldStatus } = await getDefaultWorld(ctx.db);
@@ -195,7 +216,7 @@ export const testConvo = internalAction({
       'm1707m46wmefpejw1k50rqz7856qw3ew' as Id<'worlds'>,
       'c:115' as GameId<'conversations'>,
       'p:0' as GameId<'players'>,
-      'p:6' as GameId<'players'>,
+      ['p:6' as GameId<'players'>],
     )) as any;
     return await a.readAll();
   },
@@ -0,0 +1,45 @@
+import { forceLayout } from './forceLayout';
+import { distance } from './geometry';
+
+describe('forceLayout', () => {
+  test('should handle empty and single node graphs', () => {
+    expect(forceLayout(0, [], 100, 100)).toEqual([]);
+    expect(forceLayout(1, [], 100, 100)).toEqual([{ x: 50, y: 50 }]);
+  });
+
+  test('should keep nodes within the bounds', () => {
+    const edges = [
+      { source: 0, target: 1, weight: 5 },
+      { source: 2, target: 3, weight: 1 },
+    ];
+    for (const { x, y } of forceLayout(6, edges, 200, 100)) {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(200);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(100);
+    }
+  });
+
+  test('should pull connected nodes closer than unconnected ones', () => {
+    const positions = forceLayout(4, [{ source: 0, target: 2, weight: 3 }], 400, 400);
+    expect(distance(positions[0], positions[2])).toBeLessThan(distance(positions[1], positions[3]));
+  });
+
+  test('should pull more strongly along heavier edges', () => {
+    const positions = forceLayout(
+      4,
+      [
+        { source: 0, target: 1, weight: 10 },
+        { source: 2, target: 3, weight: 0.5 },
+      ],
+      400,
+      400,
+    );
+    expect(distance(positions[0], positions[1])).toBeLessThan(distance(positions[2], positions[3]));
+  });
+
+  test('should lay out the same graph the same way', () => {
+    const edges = [{ source: 0, target: 1, weight: 1 }];
+    expect(forceLayout(3, edges, 100, 100)).toEqual(forceLayout(3, edges, 100, 100));
+  });
+});
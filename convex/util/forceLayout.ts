@@ -0,0 +1,76 @@
+import { Point } from './types';
+
+export type LayoutEdge = {
+  source: number;
+  target: number;
+  // How strongly the edge pulls its nodes together, relative to other edges.
+  weight: number;
+};
+
+// Lay out a graph with a force-directed (Fruchterman-Reingold) simulation: every pair of
+// nodes pushes apart and every edge pulls its nodes together, while a cooling step size
+// lets them settle. Nodes start evenly spaced on a circle, so the same graph always gets
+// the same layout.
+export function forceLayout(
+  nodeCount: number,
+  edges: LayoutEdge[],
+  width: number,
+  height: number,
+  iterations = 300,
+): Point[] {
+  const margin = Math.min(width, height) / 10;
+  const center = { x: width / 2, y: height / 2 };
+  if (nodeCount < 2) {
+    return nodeCount === 1 ? [center] : [];
+  }
+  const radius = Math.min(width, height) / 2 - margin;
+  const positions = Array.from({ length: nodeCount }, (_, i) => ({
+    x: center.x + radius * Math.cos((2 * Math.PI * i) / nodeCount),
+    y: center.y + radius * Math.sin((2 * Math.PI * i) / nodeCount),
+  }));
+  // The ideal distance between nodes, given how much room there is.
+  const k = Math.sqrt((width * height) / nodeCount);
+  const initialTemperature = width / 10;
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacements = positions.map(() => ({ x: 0, y: 0 }));
+    const push = (i: number, j: number, force: (distance: number) => number) => {
+      let dx = positions[i].x - positions[j].x;
+      let dy = positions[i].y - positions[j].y;
+      let d = Math.sqrt(dx * dx + dy * dy);
+      if (d < 0.01) {
+        // Nudge apart nodes that landed on top of each other.
+        dx = 0.01 * Math.cos(i + j);
+        dy = 0.01 * Math.sin(i + j);
+        d = 0.01;
+      }
+      const f = force(d);
+      displacements[i].x += (dx / d) * f;
+      displacements[i].y += (dy / d) * f;
+      displacements[j].x -= (dx / d) * f;
+      displacements[j].y -= (dy / d) * f;
+    };
+    for (let i = 0; i < nodeCount; i++) {
+      for (let j = i + 1; j < nodeCount; j++) {
+        push(i, j, (d) => (k * k) / d);
+      }
+    }
+    for (const { source, target, weight } of edges) {
+      if (source !== target) {
+        push(source, target, (d) => (-weight * d * d) / k);
+      }
+    }
+    const temperature = initialTemperature * (1 - iteration / iterations);
+    for (let i = 0; i < nodeCount; i++) {
+      const { x, y } = displacements[i];
+      const length = Math.sqrt(x * x + y * y);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        positions[i].x += (x / length) * step;
+        positions[i].y += (y / length) * step;
+      }
+      positions[i].x = Math.min(width - margin, Math.max(margin, positions[i].x));
+      positions[i].y = Math.min(height - margin, Math.max(margin, positions[i].y));
+    }
+  }
+  return positions;
+}
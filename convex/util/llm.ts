@@ -1,4 +1,6 @@
-// That's right! No imports and no dependencies 🤯
+// That's right! No third-party dependencies 🤯
+
+import { mockChatCompletion, mockCompletionStream, mockEmbedding, mockTokens } from './mockLLM';
 
 const OPENAI_EMBEDDING_DIMENSION = 1536;
 const TOGETHER_EMBEDDING_DIMENSION = 768;
@@ -10,70 +12,62 @@ const getRequestTimeoutMs = () => {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_LLM_REQUEST_TIMEOUT_MS;
 };
 
-export const EMBEDDING_DIMENSION: number = OPENAI_EMBEDDING_DIMENSION;
-
-export function detectMismatchedLLMProvider() {
-  switch (EMBEDDING_DIMENSION) {
-    case OPENAI_EMBEDDING_DIMENSION:
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error(
-          "Are you trying to use OpenAI? If so, run: npx convex env set OPENAI_API_KEY 'your-key'",
-        );
-      }
-      break;
-    case TOGETHER_EMBEDDING_DIMENSION:
-      if (!process.env.TOGETHER_API_KEY) {
-        throw new Error(
-          "Are you trying to use Together.ai? If so, run: npx convex env set TOGETHER_API_KEY 'your-key'",
-        );
-      }
-      break;
-    case OLLAMA_EMBEDDING_DIMENSION:
-      break;
-    default:
-      if (!process.env.LLM_API_URL) {
-        throw new Error(
-          "Are you trying to use a custom cloud-hosted LLM? If so, run: npx convex env set LLM_API_URL 'your-url'",
-        );
-      }
-      break;
+// Providers' embedding sizes can be overridden for other models with `LLM_EMBEDDING_DIMENSION`.
+// Each world records the model and dimension its memories were embedded with, so changing
+// these only affects new worlds until you migrate existing ones (see convex/agent/embeddings.ts).
+const getEmbeddingDimension = (providerDefault?: number) => {
+  const parsed = Number(process.env.LLM_EMBEDDING_DIMENSION);
+  if (Number.isInteger(parsed) && parsed > 0) {
+    return parsed;
   }
-}
+  if (providerDefault === undefined) {
+    throw new Error('LLM_EMBEDDING_DIMENSION is required');
+  }
+  return providerDefault;
+};
 
 export interface LLMConfig {
-  provider: 'openai' | 'together' | 'ollama' | 'custom';
+  provider: 'openai' | 'together' | 'ollama' | 'custom' | 'mock';
   url: string; // Should not have a trailing slash
   chatModel: string;
   embeddingModel: string;
+  embeddingDimension: number;
   stopWords: string[];
   apiKey: string | undefined;
 }
 
 export function getLLMConfig(): LLMConfig {
   let provider = process.env.LLM_PROVIDER;
+  if (provider === 'mock') {
+    return {
+      provider: 'mock',
+      url: '',
+      chatModel: 'mock',
+      embeddingModel: 'mock',
+      embeddingDimension: getEmbeddingDimension(OPENAI_EMBEDDING_DIMENSION),
+      stopWords: [],
+      apiKey: undefined,
+    };
+  }
   if (provider ? provider === 'openai' : process.env.OPENAI_API_KEY) {
-    if (EMBEDDING_DIMENSION !== OPENAI_EMBEDDING_DIMENSION) {
-      throw new Error('EMBEDDING_DIMENSION must be 1536 for OpenAI');
-    }
     return {
       provider: 'openai',
       url: 'https://api.openai.com',
       chatModel: process.env.OPENAI_CHAT_MODEL ?? 'gpt-4o-mini',
       embeddingModel: process.env.OPENAI_EMBEDDING_MODEL ?? 'text-embedding-ada-002',
+      embeddingDimension: getEmbeddingDimension(OPENAI_EMBEDDING_DIMENSION),
       stopWords: [],
       apiKey: process.env.OPENAI_API_KEY,
     };
   }
   if (process.env.TOGETHER_API_KEY) {
-    if (EMBEDDING_DIMENSION !== TOGETHER_EMBEDDING_DIMENSION) {
-      throw new Error('EMBEDDING_DIMENSION must be 768 for Together.ai');
-    }
     return {
       provider: 'together',
       url: 'https://api.together.xyz',
       chatModel: process.env.TOGETHER_CHAT_MODEL ?? 'meta-llama/Llama-3-8b-chat-hf',
       embeddingModel:
         process.env.TOGETHER_EMBEDDING_MODEL ?? 'togethercomputer/m2-bert-80M-8k-retrieval',
+      embeddingDimension: getEmbeddingDimension(TOGETHER_EMBEDDING_DIMENSION),
       stopWords: ['<|eot_id|>'],
       apiKey: process.env.TOGETHER_API_KEY,
     };
@@ -90,26 +84,20 @@ export function getLLMConfig(): LLMConfig {
       url,
       chatModel,
       embeddingModel,
+      embeddingDimension: getEmbeddingDimension(),
       stopWords: [],
       apiKey,
     };
   }
   // Assume Ollama
-  if (EMBEDDING_DIMENSION !== OLLAMA_EMBEDDING_DIMENSION) {
-    detectMismatchedLLMProvider();
-    throw new Error(
-      `Unknown EMBEDDING_DIMENSION ${EMBEDDING_DIMENSION} found` +
-        `. See convex/util/llm.ts for details.`,
-    );
-  }
-  // Alternative embedding model:
+  // Alternative embedding model (set LLM_EMBEDDING_DIMENSION to 4096):
   // embeddingModel: 'llama3'
-  // const OLLAMA_EMBEDDING_DIMENSION = 4096,
   return {
     provider: 'ollama',
     url: process.env.OLLAMA_HOST ?? 'http://127.0.0.1:11434',
     chatModel: process.env.OLLAMA_MODEL ?? 'llama3',
     embeddingModel: process.env.OLLAMA_EMBEDDING_MODEL ?? 'mxbai-embed-large',
+    embeddingDimension: getEmbeddingDimension(OLLAMA_EMBEDDING_DIMENSION),
     stopWords: ['<|eot_id|>'],
     apiKey: undefined,
   };
@@ -145,6 +133,25 @@ const fetchWithTimeout = async (url: string, options: RequestInit) => {
   }
 };
 
+// Tokens a call used, when the provider reports them.
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// A function the model asked to call, with its arguments as a JSON string it wrote, which
+// may not be valid.
+export interface LLMToolCall {
+  name: string;
+  arguments: string;
+}
+
+function parseUsage(usage?: { prompt_tokens: number; completion_tokens?: number }) {
+  return usage
+    ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+}
+
 // Overload for non-streaming
 export async function chatCompletion(
   body: Omit<CreateChatCompletionRequest, 'model'> & {
@@ -152,7 +159,7 @@ export async function chatCompletion(
   } & {
     stream?: false | null | undefined;
   },
-): Promise<{ content: string; retries: number; ms: number }>;
+): Promise<{ content: string; usage?: LLMUsage; retries: number; ms: number }>;
 // Overload for streaming
 export async function chatCompletion(
   body: Omit<CreateChatCompletionRequest, 'model'> & {
@@ -160,19 +167,48 @@ export async function chatCompletion(
   } & {
     stream?: true;
   },
-): Promise<{ content: ChatCompletionContent; retries: number; ms: number }>;
+): Promise<{ content: ChatCompletionContent; usage?: LLMUsage; retries: number; ms: number }>;
 export async function chatCompletion(
   body: Omit<CreateChatCompletionRequest, 'model'> & {
     model?: CreateChatCompletionRequest['model'];
   },
-) {
+): Promise<{
+  content: string | ChatCompletionContent;
+  usage?: LLMUsage;
+  retries: number;
+  ms: number;
+}> {
   const config = getLLMConfig();
   body.model = body.model ?? config.chatModel;
   const stopWords = body.stop ? (typeof body.stop === 'string' ? [body.stop] : body.stop) : [];
   if (config.stopWords) stopWords.push(...config.stopWords);
+  // Ask for token counts at the end of streams too. They're read into `ChatCompletionContent.usage`.
+  if (body.stream) {
+    body.stream_options = { include_usage: true };
+  }
   console.log(body);
+  if (config.provider === 'mock') {
+    const prompt = body.messages.map((m) => m.content ?? '').join('\n');
+    const content = mockChatCompletion(prompt);
+    if (body.stream) {
+      return {
+        content: new ChatCompletionContent(
+          mockCompletionStream(content, mockTokens(prompt)),
+          stopWords,
+        ),
+        retries: 0,
+        ms: 0,
+      };
+    }
+    return {
+      content,
+      usage: { promptTokens: mockTokens(prompt), completionTokens: mockTokens(content) },
+      retries: 0,
+      ms: 0,
+    };
+  }
   const {
-    result: content,
+    result: { content, usage },
     retries,
     ms,
   } = await retryWithBackoff(async () => {
@@ -201,7 +237,7 @@ export async function chatCompletion(
       };
     }
     if (body.stream) {
-      return new ChatCompletionContent(result.body!, stopWords);
+      return { content: new ChatCompletionContent(result.body!, stopWords), usage: undefined };
     } else {
       const json = (await result.json()) as CreateChatCompletionResponse;
       const content = json.choices[0].message?.content;
@@ -209,12 +245,13 @@ export async function chatCompletion(
         throw new Error('Unexpected result from OpenAI: ' + JSON.stringify(json));
       }
       console.log(content);
-      return content;
+      return { content, usage: parseUsage(json.usage) };
     }
   });
 
   return {
     content,
+    usage,
     retries,
     ms,
   };
@@ -235,13 +272,43 @@ export async function tryPullOllama(model: string, error: string) {
   }
 }
 
-export async function fetchEmbeddingBatch(texts: string[]) {
+// Which model to embed with and how big its vectors are, defaulting to the provider's.
+export interface EmbeddingConfig {
+  model: string;
+  dimension: number;
+}
+
+export async function fetchEmbeddingBatch(texts: string[], embedding?: EmbeddingConfig) {
   const config = getLLMConfig();
+  const model = embedding?.model ?? config.embeddingModel;
+  const dimension = embedding?.dimension ?? config.embeddingDimension;
+  const checkDimension = (embeddings: number[][]) => {
+    const mismatched = embeddings.find((e) => e.length !== dimension);
+    if (mismatched) {
+      throw new Error(
+        `Expected ${dimension}-dimensional embeddings from ${model}, got ${mismatched.length}. ` +
+          `If you've switched models, migrate with "npx convex run agent/embeddings:migrate".`,
+      );
+    }
+    return embeddings;
+  };
+  if (config.provider === 'mock') {
+    return {
+      ollama: false as const,
+      embeddings: texts.map((text) => mockEmbedding(text, dimension)),
+      usage: {
+        promptTokens: texts.reduce((sum, text) => sum + mockTokens(text), 0),
+        completionTokens: 0,
+      },
+      retries: 0,
+      ms: 0,
+    };
+  }
   if (config.provider === 'ollama') {
     return {
       ollama: true as const,
-      embeddings: await Promise.all(
-        texts.map(async (t) => (await ollamaFetchEmbedding(t)).embedding),
+      embeddings: checkDimension(
+        await Promise.all(texts.map(async (t) => (await ollamaFetchEmbedding(t, model)).embedding)),
       ),
     };
   }
@@ -260,7 +327,7 @@ export async function fetchEmbeddingBatch(texts: string[]) {
         },
 
         body: JSON.stringify({
-          model: config.embeddingModel,
+          model,
           input: texts.map((text) => text.replace(/\n/g, ' ')),
         }),
       });
@@ -283,19 +350,22 @@ export async function fetchEmbeddingBatch(texts: string[]) {
   allembeddings.sort((a, b) => a.index - b.index);
   return {
     ollama: false as const,
-    embeddings: allembeddings.map(({ embedding }) => embedding),
-    usage: json.usage?.total_tokens,
+    embeddings: checkDimension(allembeddings.map(({ embedding }) => embedding)),
+    usage: parseUsage(json.usage),
     retries,
     ms,
   };
 }
 
-export async function fetchEmbedding(text: string) {
-  const { embeddings, ...stats } = await fetchEmbeddingBatch([text]);
+export async function fetchEmbedding(text: string, embedding?: EmbeddingConfig) {
+  const { embeddings, ...stats } = await fetchEmbeddingBatch([text], embedding);
   return { embedding: embeddings[0], ...stats };
 }
 
 export async function fetchModeration(content: string) {
+  if (getLLMConfig().provider === 'mock') {
+    return { results: [{ flagged: false }] };
+  }
   const { result: flagged } = await retryWithBackoff(async () => {
     let result;
     try {
@@ -329,6 +399,13 @@ const RETRY_BACKOFF = [1000, 10_000, 20_000]; // In ms
 const RETRY_JITTER = 100; // In ms
 type RetryError = { retry: boolean; error: any };
 
+// Errors thrown once retrying has given up carry how many retries it took.
+export type ErrorAfterRetries = Error & { retries?: number };
+
+export function retriesBeforeError(error: unknown) {
+  return error instanceof Error ? ((error as ErrorAfterRetries).retries ?? 0) : 0;
+}
+
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
 ): Promise<{ retries: number; result: T; ms: number }> {
@@ -353,8 +430,11 @@ export async function retryWithBackoff<T>(
           continue;
         }
       }
-      if (retryError.error) throw retryError.error;
-      else throw e;
+      const error = retryError.error ?? e;
+      if (error instanceof Error) {
+        (error as ErrorAfterRetries).retries = i;
+      }
+      throw error;
     }
   }
   throw new Error('Unreachable');
@@ -478,6 +558,8 @@ export interface CreateChatCompletionRequest {
    * @memberof CreateChatCompletionRequest
    */
   stream?: boolean | null;
+  // Set `include_usage` to get token counts in a last chunk of the stream.
+  stream_options?: { include_usage: boolean };
   /**
    *
    * @type {CreateChatCompletionRequestStop}
@@ -641,9 +723,18 @@ const suffixOverlapsPrefix = (s1: string, s2: string) => {
   return false;
 };
 
+type ToolCallDelta = {
+  index: number;
+  function?: { name?: string; arguments?: string };
+};
+
 export class ChatCompletionContent {
   private readonly body: ReadableStream<Uint8Array>;
   private readonly stopWords: string[];
+  // Token counts, once the stream's been read, if the provider sent them.
+  usage?: LLMUsage;
+  // Tools the model called, once the stream's been read.
+  toolCalls: LLMToolCall[] = [];
 
   constructor(body: ReadableStream<Uint8Array>, stopWords: string[]) {
     this.body = body;
@@ -655,10 +746,21 @@ export class ChatCompletionContent {
       if (data.startsWith('data: ')) {
         try {
           const json = JSON.parse(data.substring('data: '.length)) as {
-            choices: { delta: { content?: string } }[];
+            choices: { delta: { content?: string; tool_calls?: ToolCallDelta[] } }[];
+            usage?: { prompt_tokens: number; completion_tokens: number };
           };
-          if (json.choices[0].delta.content) {
-            yield json.choices[0].delta.content;
+          if (json.usage) {
+            this.usage = parseUsage(json.usage);
+          }
+          // Tool calls arrive in pieces: the name first, then the arguments a bit at a time.
+          for (const delta of json.choices[0]?.delta.tool_calls ?? []) {
+            const call = (this.toolCalls[delta.index] ??= { name: '', arguments: '' });
+            call.name += delta.function?.name ?? '';
+            call.arguments += delta.function?.arguments ?? '';
+          }
+          const content = json.choices[0]?.delta.content;
+          if (content) {
+            yield content;
           }
         } catch (e) {
           // e.g. the last chunk is [DONE] which is not valid JSON.
@@ -728,8 +830,9 @@ export class ChatCompletionContent {
   }
 }
 
-export async function ollamaFetchEmbedding(text: string) {
+export async function ollamaFetchEmbedding(text: string, model?: string) {
   const config = getLLMConfig();
+  const embeddingModel = model ?? config.embeddingModel;
   const { result } = await retryWithBackoff(async () => {
     let resp;
     try {
@@ -738,14 +841,14 @@ export async function ollamaFetchEmbedding(text: string) {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ model: config.embeddingModel, prompt: text }),
+        body: JSON.stringify({ model: embeddingModel, prompt: text }),
       });
     } catch (error) {
       throw toRetryError(error, 'Embedding');
     }
     if (resp.status === 404) {
       const error = await resp.text();
-      await tryPullOllama(config.embeddingModel, error);
+      await tryPullOllama(embeddingModel, error);
       throw new Error(`Failed to fetch embeddings: ${resp.status}`);
     }
     return (await resp.json()).embedding as number[];
@@ -0,0 +1,133 @@
+import { mockChatCompletion, mockEmbedding, setMockResponder } from './mockLLM';
+import { ChatCompletionContent, chatCompletion, fetchEmbeddingBatch, getLLMConfig } from './llm';
+
+function cosine(a: number[], b: number[]) {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+describe('mockChatCompletion', () => {
+  afterEach(() => {
+    setMockResponder(undefined);
+    delete process.env.MOCK_LLM_SCRIPT;
+  });
+
+  test('should answer the same prompt the same way', () => {
+    expect(mockChatCompletion('Hello there')).toBe(mockChatCompletion('Hello there'));
+  });
+
+  test('should rate importance with a single digit', () => {
+    const response = mockChatCompletion('On the scale of 0 to 9, rate this memory: ...');
+    expect(response).toMatch(/^[0-9]$/);
+  });
+
+  test('should reflect on the given statements', () => {
+    const prompt = [
+      'Statement 0: I like cheese.',
+      'Statement 1: I saw a squirrel.',
+      'What 3 high-level insights can you infer from the above statements?',
+    ].join('\n');
+    const insights = JSON.parse(mockChatCompletion(prompt));
+    expect(insights).toHaveLength(3);
+    for (const { insight, statementIds } of insights) {
+      expect(typeof insight).toBe('string');
+      expect(statementIds.every((id: number) => id === 0 || id === 1)).toBe(true);
+    }
+  });
+
+  test('should echo back the example for structured prompts', () => {
+    const prompt = 'Respond with JSON.\nExample: {"activity": "gardening"}';
+    expect(mockChatCompletion(prompt)).toBe('{"activity": "gardening"}');
+  });
+
+  test('should follow scripted rules before the built-in responses', () => {
+    process.env.MOCK_LLM_SCRIPT = JSON.stringify([{ match: 'scale of 0', response: '9' }]);
+    expect(mockChatCompletion('On the scale of 0 to 9...')).toBe('9');
+    setMockResponder((prompt) => (prompt.includes('scale') ? '3' : undefined));
+    expect(mockChatCompletion('On the scale of 0 to 9...')).toBe('3');
+  });
+});
+
+describe('mockEmbedding', () => {
+  test('should make deterministic unit vectors', () => {
+    const embedding = mockEmbedding('Lucky loves cheese', 64);
+    expect(embedding).toHaveLength(64);
+    expect(embedding).toEqual(mockEmbedding('Lucky loves cheese', 64));
+    expect(cosine(embedding, embedding)).toBeCloseTo(1);
+  });
+
+  test('should put texts that share words closer together', () => {
+    const cheese = mockEmbedding('Lucky loves cheese', 256);
+    const moreCheese = mockEmbedding('Lucky really loves cheese', 256);
+    const other = mockEmbedding('the rocket launch was delayed', 256);
+    expect(cosine(cheese, moreCheese)).toBeGreaterThan(cosine(cheese, other));
+  });
+});
+
+describe('mock provider', () => {
+  beforeAll(() => {
+    process.env.LLM_PROVIDER = 'mock';
+  });
+  afterAll(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  test('should complete chats without a network', async () => {
+    const messages = [{ role: 'user' as const, content: 'Hello there' }];
+    const { content } = await chatCompletion({ messages });
+    expect(content).toBe(mockChatCompletion('Hello there'));
+    const { content: stream } = await chatCompletion({ messages, stream: true });
+    expect(await stream.readAll()).toBe(content);
+  });
+
+  test('should report usage for streams once they are read', async () => {
+    const messages = [{ role: 'user' as const, content: 'Hello there' }];
+    const { usage } = await chatCompletion({ messages });
+    const { content: stream } = await chatCompletion({ messages, stream: true });
+    expect(stream.usage).toBeUndefined();
+    await stream.readAll();
+    expect(stream.usage).toEqual(usage);
+  });
+
+  test('should embed at the configured dimension', async () => {
+    const { embeddingDimension } = getLLMConfig();
+    const { embeddings } = await fetchEmbeddingBatch(['one', 'two']);
+    expect(embeddings.map((e) => e.length)).toEqual([embeddingDimension, embeddingDimension]);
+    const { embeddings: small } = await fetchEmbeddingBatch(['one'], {
+      model: 'mock',
+      dimension: 768,
+    });
+    expect(small[0]).toHaveLength(768);
+  });
+});
+
+describe('ChatCompletionContent', () => {
+  test('should put together tool calls that stream in pieces', async () => {
+    const events = [
+      { choices: [{ delta: { content: 'Here you go!' } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { name: 'give_item' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '{"item":' } }] } }] },
+      { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"coin"}' } }] } }] },
+      {
+        choices: [
+          { delta: { tool_calls: [{ index: 1, function: { name: 'end_conversation' } }] } },
+        ],
+      },
+    ];
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    });
+    const content = new ChatCompletionContent(body, []);
+    expect(await content.readAll()).toBe('Here you go!');
+    expect(content.toolCalls).toEqual([
+      { name: 'give_item', arguments: '{"item":"coin"}' },
+      { name: 'end_conversation', arguments: '' },
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { Rng } from './rng';
+import { xxHash32 } from './xxhash';
+
+// A stand-in for a real model, selected with `LLM_PROVIDER=mock`. Responses depend only
+// on the prompt, so runs are reproducible, and they're shaped well enough for the town's
+// prompts (activities, importance scores, reflections) to take their happy paths.
+
+// Rules for scripting responses: the first rule whose `match` regex matches the
+// prompt wins. Set `MOCK_LLM_SCRIPT` to a JSON array of these to script a deployment.
+export type MockRule = { match: string; response: string };
+
+export type MockResponder = (prompt: string) => string | undefined;
+
+let responder: MockResponder | undefined;
+
+// Override responses in-process, e.g. from tests. Returning undefined falls through
+// to the scripted and built-in responses.
+export function setMockResponder(fn: MockResponder | undefined) {
+  responder = fn;
+}
+
+const SMALL_TALK = [
+  "It's a lovely day in town, isn't it?",
+  "I've been meaning to ask you about that.",
+  'That sounds fascinating, tell me more!',
+  "I'm not sure I agree, but I see your point.",
+  'Ha! That reminds me of something that happened last week.',
+  'I should probably get going soon.',
+];
+
+function scriptedRules(): MockRule[] {
+  const raw = process.env.MOCK_LLM_SCRIPT;
+  if (!raw) {
+    return [];
+  }
+  try {
+    const rules = JSON.parse(raw);
+    return Array.isArray(rules) ? rules : [];
+  } catch (e) {
+    console.error(`Ignoring invalid MOCK_LLM_SCRIPT: ${raw}`);
+    return [];
+  }
+}
+
+export function mockChatCompletion(prompt: string): string {
+  const custom = responder?.(prompt);
+  if (custom !== undefined) {
+    return custom;
+  }
+  for (const rule of scriptedRules()) {
+    if (new RegExp(rule.match).test(prompt)) {
+      return rule.response;
+    }
+  }
+  const rng = new Rng(xxHash32(prompt));
+  if (/on the scale of 0 to 9/i.test(prompt)) {
+    return String(rng.int(10));
+  }
+  if (/high-level insights/i.test(prompt)) {
+    const statements = prompt.match(/^Statement \d+:/gm)?.length ?? 0;
+    const insights = [];
+    for (let i = 0; i < 3 && statements > 0; i++) {
+      const id = rng.int(statements);
+      insights.push({ insight: `I keep thinking about statement ${id}.`, statementIds: [id] });
+    }
+    return JSON.stringify(insights);
+  }
+  // Prompts that want structured output come with an example we can echo back.
+  const example = prompt.match(/^Example: (.*)$/m);
+  if (example) {
+    return example[1];
+  }
+  return rng.pick(SMALL_TALK);
+}
+
+// Bag-of-words pseudo-embedding: each word contributes a fixed random vector, so texts
+// that share words end up close together and memory search still behaves sensibly.
+export function mockEmbedding(text: string, dimension: number): number[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [''];
+  const embedding = new Array<number>(dimension).fill(0);
+  for (const word of words) {
+    const rng = new Rng(xxHash32(word));
+    for (let i = 0; i < dimension; i++) {
+      embedding[i] += rng.next() * 2 - 1;
+    }
+  }
+  const norm = Math.sqrt(embedding.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? embedding : embedding.map((x) => x / norm);
+}
+
+// Rough token count, so usage accounting has something to show without a real provider.
+export function mockTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+// Server-sent events in the same format as OpenAI's streaming API, a word at a time,
+// ending with the usage chunk OpenAI sends when asked to with `stream_options`.
+export function mockCompletionStream(
+  content: string,
+  promptTokens: number,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks = content.match(/\s*\S+\s*/g) ?? [];
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        const event = { choices: [{ delta: { content: chunk } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      const usage = {
+        prompt_tokens: promptTokens,
+        completion_tokens: mockTokens(content),
+        total_tokens: promptTokens + mockTokens(content),
+      };
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [], usage })}\n\n`));
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+}
@@ -0,0 +1,39 @@
+import { Rng } from './rng';
+
+describe('Rng', () => {
+  test('should produce the same sequence from the same seed', () => {
+    const a = new Rng(42);
+    const b = new Rng(42);
+    const c = new Rng(43);
+    const seqA = Array.from({ length: 10 }, () => a.next());
+    const seqB = Array.from({ length: 10 }, () => b.next());
+    const seqC = Array.from({ length: 10 }, () => c.next());
+    expect(seqA).toEqual(seqB);
+    expect(seqA).not.toEqual(seqC);
+    for (const x of seqA) {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThan(1);
+    }
+  });
+
+  test('should resume from its saved state', () => {
+    const rng = new Rng(7);
+    rng.next();
+    rng.next();
+    const resumed = new Rng(rng.state);
+    expect(resumed.next()).toBe(rng.next());
+  });
+
+  test('should pick integers and items in range', () => {
+    const rng = new Rng(1);
+    const seen = new Set<number>();
+    for (let i = 0; i < 100; i++) {
+      const n = rng.int(4);
+      expect(Number.isInteger(n)).toBe(true);
+      seen.add(n);
+    }
+    expect([...seen].sort()).toEqual([0, 1, 2, 3]);
+    expect(['a', 'b', 'c']).toContain(rng.pick(['a', 'b', 'c']));
+    expect(() => rng.pick([])).toThrow();
+  });
+});
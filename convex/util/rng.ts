@@ -0,0 +1,35 @@
+// A small seeded PRNG (mulberry32) whose whole state is a single 32-bit integer,
+// so it can be saved with the game state and resumed exactly where it left off.
+export class Rng {
+  state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1), like `Math.random()`.
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform integer in [0, n).
+  int(n: number): number {
+    return Math.floor(this.next() * n);
+  }
+
+  pick<T>(items: T[]): T {
+    if (items.length === 0) {
+      throw new Error(`Can't pick from an empty list`);
+    }
+    return items[this.int(items.length)];
+  }
+}
+
+// A seed for a new world or operation, for when we don't need to reproduce it.
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
@@ -1,18 +1,46 @@
 import { ConvexError, v } from 'convex/values';
-import { internalMutation, mutation, query, MutationCtx } from './_generated/server';
-import { Id } from './_generated/dataModel';
-import { characters } from '../data/characters';
+import { PaginationOptions, PaginationResult } from 'convex/server';
+import {
+  DatabaseReader,
+  internalMutation,
+  mutation,
+  query,
+  MutationCtx,
+  QueryCtx,
+} from './_generated/server';
+import { Doc, Id, TableNames } from './_generated/dataModel';
+import { internal } from './_generated/api';
+import { Descriptions, characters } from '../data/characters';
+import { DEFAULT_MAP, MapName, maps } from '../data/maps';
 import { insertInput } from './aiTown/insertInput';
 import { InputArgs, InputNames } from './aiTown/inputs';
 import {
-  DEFAULT_NAME,
+  CONVERSATION_GRAPH_HISTORY,
+  CONVERSATION_GRAPH_PAIR_CONVERSATIONS,
+  DEFAULT_WORLD_NAME,
+  DELETE_BATCH_SIZE,
   ENGINE_ACTION_DURATION,
+  GOAL_HISTORY_LIMIT,
   IDLE_WORLD_TIMEOUT,
+  MAX_IDLE_WORLD_TIMEOUT,
+  MAX_WORLDS_PER_CREATOR,
+  MIN_IDLE_WORLD_TIMEOUT,
   WORLD_HEARTBEAT_INTERVAL,
 } from './constants';
 import { playerId } from './aiTown/ids';
 import { kickEngine, startEngine, stopEngine } from './aiTown/main';
 import { engineInsertInput } from './engine/abstractGame';
+import { AuthIdentity, getIdentity, isAdmin, requireIdentity, sessionArgs } from './auth';
+import { authorizeInput } from './aiTown/clientInputs';
+import { insertWorld } from './init';
+import { loadRelationships } from './agent/relationships';
+import { loadActiveGoals } from './agent/goals';
+import {
+  loadWorldConfigOverrides,
+  resolveWorldConfig,
+  validateWorldConfig,
+  worldConfigFields,
+} from './aiTown/worldConfig';
 
 const ensureWorldRunning = async (ctx: MutationCtx, worldId: Id<'worlds'>) => {
   const worldStatus = await ctx.db
@@ -70,6 +98,74 @@ export const defaultWorldStatus = query({
   },
 });
 
+// The status of the world with the given ID, or of the default world if there isn't one.
+// Takes the ID as a string since it comes from the URL.
+export const worldStatus = query({
+  args: {
+    worldId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (args.worldId === undefined) {
+      return await ctx.db
+        .query('worldStatus')
+        .filter((q) => q.eq(q.field('isDefault'), true))
+        .first();
+    }
+    const worldId = ctx.db.normalizeId('worlds', args.worldId);
+    if (!worldId) {
+      return null;
+    }
+    return await ctx.db
+      .query('worldStatus')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .unique();
+  },
+});
+
+// Every world for the lobby, with how many humans and agents are in each right now.
+export const listWorlds = query({
+  args: sessionArgs,
+  handler: async (ctx, args) => {
+    const identity = await getIdentity(ctx, args.sessionId);
+    const worlds = [];
+    for (const worldStatus of await ctx.db.query('worldStatus').collect()) {
+      const world = await ctx.db.get(worldStatus.worldId);
+      if (!world) {
+        continue;
+      }
+      worlds.push({
+        worldId: worldStatus.worldId,
+        name: worldStatus.name ?? DEFAULT_WORLD_NAME,
+        map: worldStatus.map ?? DEFAULT_MAP,
+        status: worldStatus.status,
+        isDefault: worldStatus.isDefault,
+        canManage: !!identity && canManageWorld(identity, worldStatus),
+        numHumans: world.players.filter((p) => p.human).length,
+        numAgents: world.agents.length,
+        lastViewed: worldStatus.lastViewed,
+      });
+    }
+    // Show the default world first, then the most recently viewed.
+    worlds.sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || b.lastViewed - a.lastViewed);
+    return worlds;
+  },
+});
+
+// The maps and characters to offer when creating a world.
+export const worldOptions = query({
+  handler: async () => {
+    return {
+      maps: Object.keys(maps),
+      characters: Descriptions.map((d) => d.name),
+      idleTimeout: {
+        default: IDLE_WORLD_TIMEOUT,
+        min: MIN_IDLE_WORLD_TIMEOUT,
+        max: MAX_IDLE_WORLD_TIMEOUT,
+      },
+    };
+  },
+});
+
 export const heartbeatWorld = mutation({
   args: {
     worldId: v.id('worlds'),
@@ -106,9 +202,10 @@ export const heartbeatWorld = mutation({
 
 export const stopInactiveWorlds = internalMutation({
   handler: async (ctx) => {
-    const cutoff = Date.now() - IDLE_WORLD_TIMEOUT;
+    const now = Date.now();
     const worlds = await ctx.db.query('worldStatus').collect();
     for (const worldStatus of worlds) {
+      const cutoff = now - (worldStatus.idleTimeout ?? IDLE_WORLD_TIMEOUT);
       if (cutoff < worldStatus.lastViewed || worldStatus.status !== 'running') {
         continue;
       }
@@ -142,17 +239,381 @@ export const restartDeadWorlds = internalMutation({
   },
 });
 
+export const createWorld = mutation({
+  args: {
+    name: v.string(),
+    map: v.optional(v.string()),
+    // Names from `data/characters.ts` of the agents to start the world with.
+    characters: v.array(v.string()),
+    idleTimeout: v.optional(v.number()),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const { tokenIdentifier } = await requireIdentity(ctx, args.sessionId);
+    const name = args.name.trim();
+    if (!name || name.length > 40) {
+      throw new ConvexError('World names must be 1-40 characters.');
+    }
+    const map = args.map ?? DEFAULT_MAP;
+    if (!Object.prototype.hasOwnProperty.call(maps, map)) {
+      throw new ConvexError(`Unknown map: ${map}`);
+    }
+    const descriptionIndexes = args.characters.map((character) => {
+      const index = Descriptions.findIndex((d) => d.name === character);
+      if (index === -1) {
+        throw new ConvexError(`Unknown character: ${character}`);
+      }
+      return index;
+    });
+    if (
+      args.idleTimeout !== undefined &&
+      (args.idleTimeout < MIN_IDLE_WORLD_TIMEOUT || args.idleTimeout > MAX_IDLE_WORLD_TIMEOUT)
+    ) {
+      throw new ConvexError(
+        `Idle timeouts must be between ${MIN_IDLE_WORLD_TIMEOUT / 60000} and ${
+          MAX_IDLE_WORLD_TIMEOUT / 60000
+        } minutes.`,
+      );
+    }
+    const created = await ctx.db
+      .query('worldStatus')
+      .withIndex('creator', (q) => q.eq('creator', tokenIdentifier))
+      .take(MAX_WORLDS_PER_CREATOR);
+    if (created.length >= MAX_WORLDS_PER_CREATOR) {
+      throw new ConvexError(`You can only create ${MAX_WORLDS_PER_CREATOR} worlds.`);
+    }
+    const { worldStatus } = await insertWorld(ctx, {
+      name,
+      map: map as MapName,
+      isDefault: false,
+      creator: tokenIdentifier,
+      idleTimeout: args.idleTimeout,
+    });
+    for (const descriptionIndex of descriptionIndexes) {
+      await insertInput(ctx, worldStatus.worldId, 'createAgent', { descriptionIndex });
+    }
+    return worldStatus.worldId;
+  },
+});
+
+// Worlds can be managed by the player who created them and by the deployment's admins.
+export function canManageWorld(identity: AuthIdentity, worldStatus: Doc<'worldStatus'>) {
+  return worldStatus.creator === identity.tokenIdentifier || isAdmin(identity);
+}
+
+// Load a world's status, checking that the caller can manage it.
+async function loadManagedWorld(ctx: QueryCtx, worldId: Id<'worlds'>, sessionId?: string) {
+  const identity = await requireIdentity(ctx, sessionId);
+  const worldStatus = await ctx.db
+    .query('worldStatus')
+    .withIndex('worldId', (q) => q.eq('worldId', worldId))
+    .unique();
+  if (!worldStatus) {
+    throw new ConvexError(`Invalid world ID: ${worldId}`);
+  }
+  if (!canManageWorld(identity, worldStatus)) {
+    throw new ConvexError("You can't manage this world.");
+  }
+  return worldStatus;
+}
+
+export const startWorld = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const worldStatus = await loadManagedWorld(ctx, args.worldId, args.sessionId);
+    if (worldStatus.status === 'running') {
+      return;
+    }
+    await ctx.db.patch(worldStatus._id, { status: 'running', lastViewed: Date.now() });
+    // Check the engine too, so a world whose status and engine disagree can still be fixed.
+    const engine = await ctx.db.get(worldStatus.engineId);
+    if (!engine?.running) {
+      await startEngine(ctx, worldStatus.worldId);
+    }
+  },
+});
+
+export const stopWorld = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const worldStatus = await loadManagedWorld(ctx, args.worldId, args.sessionId);
+    if (worldStatus.status === 'stoppedByDeveloper') {
+      return;
+    }
+    await ctx.db.patch(worldStatus._id, { status: 'stoppedByDeveloper' });
+    const engine = await ctx.db.get(worldStatus.engineId);
+    if (engine?.running) {
+      await stopEngine(ctx, worldStatus.worldId);
+    }
+  },
+});
+
+// Make the engine reload the world, e.g. to get it going again after a stuck step.
+export const kickWorld = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const worldStatus = await loadManagedWorld(ctx, args.worldId, args.sessionId);
+    const engine = await ctx.db.get(worldStatus.engineId);
+    if (worldStatus.status !== 'running' || !engine?.running) {
+      throw new ConvexError("The world isn't running, start it instead.");
+    }
+    await kickEngine(ctx, worldStatus.worldId);
+  },
+});
+
+// The world's rules, along with which of them have been changed from the defaults.
+export const worldConfig = query({
+  args: {
+    worldId: v.id('worlds'),
+  },
+  handler: async (ctx, args) => {
+    const overrides = await loadWorldConfigOverrides(ctx.db, args.worldId);
+    return { config: resolveWorldConfig(overrides), overrides };
+  },
+});
+
+// Replace the world's changes to its rules, where leaving a rule out resets it to the default.
+// Running engines restart their step so the new rules apply right away.
+export const updateWorldConfig = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    overrides: v.object(worldConfigFields),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const worldStatus = await loadManagedWorld(ctx, args.worldId, args.sessionId);
+    validateWorldConfig(args.overrides);
+    const existing = await ctx.db
+      .query('worldConfig')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    if (existing) {
+      await ctx.db.replace(existing._id, { worldId: args.worldId, ...args.overrides });
+    } else {
+      await ctx.db.insert('worldConfig', { worldId: args.worldId, ...args.overrides });
+    }
+    const engine = await ctx.db.get(worldStatus.engineId);
+    if (worldStatus.status === 'running' && engine?.running) {
+      await kickEngine(ctx, args.worldId);
+    }
+  },
+});
+
+// Pages through the rows of a table that belong to a world, by an index whose first field is
+// `worldId`.
+type WorldRows = (
+  db: DatabaseReader,
+  worldId: Id<'worlds'>,
+  paginationOpts: PaginationOptions,
+) => Promise<PaginationResult<{ _id: Id<TableNames> }>>;
+
+const worldTables: WorldRows[] = [
+  (db, worldId, opts) =>
+    db
+      .query('maps')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('worldConfig')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('playerDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('agentDescriptions')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('archivedPlayers')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('archivedConversations')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('archivedAgents')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('worldSnapshots')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('participatedTogether')
+      .withIndex('edge', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('schedules')
+      .withIndex('agentDay', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('messages')
+      .withIndex('conversationId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('elizaAgents')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('llmCalls')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('llmUsage')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('llmSpend')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('relationships')
+      .withIndex('playerId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('memoryWeights')
+      .withIndex('playerId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('reflectionRuns')
+      .withIndex('playerId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('goals')
+      .withIndex('playerId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('memories')
+      .withIndex('playerId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+  (db, worldId, opts) =>
+    db
+      .query('memoryEmbeddings')
+      .withIndex('worldId', (q) => q.eq('worldId', worldId))
+      .paginate(opts),
+];
+
+export const deleteWorld = mutation({
+  args: {
+    worldId: v.id('worlds'),
+    ...sessionArgs,
+  },
+  handler: async (ctx, args) => {
+    const worldStatus = await loadManagedWorld(ctx, args.worldId, args.sessionId);
+    if (worldStatus.isDefault) {
+      throw new ConvexError("The default world can't be deleted.");
+    }
+    // The engine may have stopped on its own, e.g. after crashing.
+    const engine = await ctx.db.get(worldStatus.engineId);
+    if (engine?.running) {
+      await stopEngine(ctx, worldStatus.worldId);
+    }
+    // Take the world out of the lobby right away, and clean up the rest in the background.
+    await ctx.db.delete(worldStatus._id);
+    await ctx.scheduler.runAfter(0, internal.world.deleteWorldData, {
+      worldId: worldStatus.worldId,
+      engineId: worldStatus.engineId,
+      tableIndex: 0,
+      cursor: null,
+    });
+  },
+});
+
+export const deleteWorldData = internalMutation({
+  args: {
+    worldId: v.id('worlds'),
+    engineId: v.id('engines'),
+    // Index into `worldTables`, where one past the end is the engine's inputs.
+    tableIndex: v.number(),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    if (args.tableIndex > worldTables.length) {
+      await ctx.db.delete(args.engineId);
+      await ctx.db.delete(args.worldId);
+      console.log(`Deleted world ${args.worldId}`);
+      return;
+    }
+    let results;
+    if (args.tableIndex === worldTables.length) {
+      results = await ctx.db
+        .query('inputs')
+        .withIndex('byInputNumber', (q) => q.eq('engineId', args.engineId))
+        .paginate({ cursor: args.cursor, numItems: DELETE_BATCH_SIZE });
+    } else {
+      results = await worldTables[args.tableIndex](ctx.db, args.worldId, {
+        cursor: args.cursor,
+        numItems: DELETE_BATCH_SIZE,
+      });
+    }
+    for (const row of results.page) {
+      await ctx.db.delete(row._id);
+    }
+    await ctx.scheduler.runAfter(0, internal.world.deleteWorldData, {
+      worldId: args.worldId,
+      engineId: args.engineId,
+      tableIndex: results.isDone ? args.tableIndex + 1 : args.tableIndex,
+      cursor: results.isDone ? null : results.continueCursor,
+    });
+  },
+});
+
+// The caller's identity and the player they're controlling in the world, if any.
 export const userStatus = query({
   args: {
     worldId: v.id('worlds'),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
-    // const identity = await ctx.auth.getUserIdentity();
-    // if (!identity) {
-    //   return null;
-    // }
-    // return identity.tokenIdentifier;
-    return DEFAULT_NAME;
+    const identity = await getIdentity(ctx, args.sessionId);
+    if (!identity) {
+      return null;
+    }
+    const world = await ctx.db.get(args.worldId);
+    if (!world) {
+      throw new ConvexError(`Invalid world ID: ${args.worldId}`);
+    }
+    const player = world.players.find((p) => p.human === identity.tokenIdentifier);
+    const worldStatus = await ctx.db
+      .query('worldStatus')
+      .withIndex('worldId', (q) => q.eq('worldId', args.worldId))
+      .unique();
+    return {
+      ...identity,
+      playerId: player?.id ?? null,
+      canManage: !!worldStatus && canManageWorld(identity, worldStatus),
+    };
   },
 });
 
@@ -160,33 +621,22 @@ export const joinWorld = mutation({
   args: {
     worldId: v.id('worlds'),
     character: v.optional(v.string()),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
-    // const identity = await ctx.auth.getUserIdentity();
-    // if (!identity) {
-    //   throw new ConvexError(`Not logged in`);
-    // }
-    // const name =
-    //   identity.givenName || identity.nickname || (identity.email && identity.email.split('@')[0]);
-    const name = DEFAULT_NAME;
-
-    // if (!name) {
-    //   throw new ConvexError(`Missing name on ${JSON.stringify(identity)}`);
-    // }
+    const { name, tokenIdentifier } = await requireIdentity(ctx, args.sessionId);
     const world = await ctx.db.get(args.worldId);
     if (!world) {
       throw new ConvexError(`Invalid world ID: ${args.worldId}`);
     }
     await ensureWorldRunning(ctx, world._id);
-    // const { tokenIdentifier } = identity;
     const chosenCharacter =
       args.character ?? characters[Math.floor(Math.random() * characters.length)].name;
     return await insertInputAndKick(ctx, world._id, 'join', {
       name,
       character: chosenCharacter,
-      description: `${DEFAULT_NAME} is a human player`,
-      // description: `${identity.givenName} is a human player`,
-      tokenIdentifier: DEFAULT_NAME,
+      description: `${name} is a human player`,
+      tokenIdentifier,
     });
   },
 });
@@ -198,8 +648,10 @@ export const createAgent = mutation({
     character: v.string(),
     identity: v.string(),
     plan: v.string(),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
+    const { tokenIdentifier } = await requireIdentity(ctx, args.sessionId);
     const world = await ctx.db.get(args.worldId);
     if (!world) {
       throw new ConvexError(`Invalid world ID: ${args.worldId}`);
@@ -210,7 +662,7 @@ export const createAgent = mutation({
       character: args.character,
       identity: args.identity,
       plan: args.plan,
-      ownerId: DEFAULT_NAME,
+      ownerId: tokenIdentifier,
     });
   },
 });
@@ -219,8 +671,10 @@ export const takeOverAgent = mutation({
   args: {
     worldId: v.id('worlds'),
     agentId: v.string(),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
+    const { tokenIdentifier } = await requireIdentity(ctx, args.sessionId);
     const world = await ctx.db.get(args.worldId);
     if (!world) {
       throw new ConvexError(`Invalid world ID: ${args.worldId}`);
@@ -231,7 +685,7 @@ export const takeOverAgent = mutation({
     }
     return await insertInputAndKick(ctx, world._id, 'takeOverAgent', {
       agentId: args.agentId,
-      tokenIdentifier: DEFAULT_NAME,
+      tokenIdentifier,
     });
   },
 });
@@ -239,22 +693,16 @@ export const takeOverAgent = mutation({
 export const leaveWorld = mutation({
   args: {
     worldId: v.id('worlds'),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
-    // const identity = await ctx.auth.getUserIdentity();
-    // if (!identity) {
-    //   throw new Error(`Not logged in`);
-    // }
-    // const { tokenIdentifier } = identity;
+    const { tokenIdentifier } = await requireIdentity(ctx, args.sessionId);
     const world = await ctx.db.get(args.worldId);
     if (!world) {
       throw new Error(`Invalid world ID: ${args.worldId}`);
     }
     await ensureWorldRunning(ctx, world._id);
-    // const existingPlayer = world.players.find((p) => p.human === tokenIdentifier);
-    const existingPlayer =
-      world.players.find((p) => p.human === DEFAULT_NAME) ??
-      world.players.find((p) => p.human);
+    const existingPlayer = world.players.find((p) => p.human === tokenIdentifier);
     if (!existingPlayer) {
       throw new ConvexError('You are not controlling an agent.');
     }
@@ -268,8 +716,10 @@ export const removeAgent = mutation({
   args: {
     worldId: v.id('worlds'),
     agentId: v.string(),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
+    const { tokenIdentifier } = await requireIdentity(ctx, args.sessionId);
     const world = await ctx.db.get(args.worldId);
     if (!world) {
       throw new ConvexError(`Invalid world ID: ${args.worldId}`);
@@ -280,7 +730,7 @@ export const removeAgent = mutation({
     }
     return await insertInputAndKick(ctx, world._id, 'removeAgent', {
       agentId: args.agentId,
-      tokenIdentifier: DEFAULT_NAME,
+      tokenIdentifier,
     });
   },
 });
@@ -290,12 +740,18 @@ export const sendWorldInput = mutation({
     engineId: v.id('engines'),
     name: v.string(),
     args: v.any(),
+    ...sessionArgs,
   },
   handler: async (ctx, args) => {
-    // const identity = await ctx.auth.getUserIdentity();
-    // if (!identity) {
-    //   throw new Error(`Not logged in`);
-    // }
+    const identity = await requireIdentity(ctx, args.sessionId);
+    const worldStatus = await ctx.db
+      .query('worldStatus')
+      .withIndex('engineId', (q) => q.eq('engineId', args.engineId))
+      .unique();
+    if (!worldStatus) {
+      throw new ConvexError(`Invalid engine ID: ${args.engineId}`);
+    }
+    await authorizeInput(ctx.db, worldStatus.worldId, identity, args.name, args.args);
     return await engineInsertInput(ctx, args.engineId, args.name as any, args.args);
   },
 });
@@ -376,3 +832,105 @@ export const previousConversation = query({
     return null;
   },
 });
+
+// Who has talked to whom, for the relationship graph: how many conversations each pair of
+// the world's current players has had, and when their latest one ended.
+export const conversationGraph = query({
+  args: {
+    worldId: v.id('worlds'),
+  },
+  handler: async (ctx, args) => {
+    const world = await ctx.db.get(args.worldId);
+    if (!world) {
+      throw new Error(`Invalid world ID: ${args.worldId}`);
+    }
+    const playerIds = new Set(world.players.map((p) => p.id));
+    const edges = [];
+    for (const player1 of playerIds) {
+      const history = await ctx.db
+        .query('participatedTogether')
+        .withIndex('playerHistory', (q) => q.eq('worldId', args.worldId).eq('player1', player1))
+        .order('desc')
+        .take(CONVERSATION_GRAPH_HISTORY);
+      const byPlayer2 = new Map<string, { conversations: number; lastEnded: number }>();
+      for (const { player2, ended } of history) {
+        // Each pair is recorded from both sides, so only count it from one.
+        if (player2 < player1 || !playerIds.has(player2)) {
+          continue;
+        }
+        const edge = byPlayer2.get(player2) ?? { conversations: 0, lastEnded: ended };
+        edge.conversations += 1;
+        edge.lastEnded = Math.max(edge.lastEnded, ended);
+        byPlayer2.set(player2, edge);
+      }
+      for (const [player2, edge] of byPlayer2) {
+        edges.push({ player1, player2, ...edge });
+      }
+    }
+    return edges;
+  },
+});
+
+// The latest conversations between two players that had any messages, newest first.
+export const conversationsBetween = query({
+  args: {
+    worldId: v.id('worlds'),
+    player1: playerId,
+    player2: playerId,
+  },
+  handler: async (ctx, args) => {
+    const members = await ctx.db
+      .query('participatedTogether')
+      .withIndex('edge', (q) =>
+        q.eq('worldId', args.worldId).eq('player1', args.player1).eq('player2', args.player2),
+      )
+      .order('desc')
+      .take(CONVERSATION_GRAPH_PAIR_CONVERSATIONS);
+    const conversations = [];
+    for (const member of members) {
+      const conversation = await ctx.db
+        .query('archivedConversations')
+        .withIndex('worldId', (q) => q.eq('worldId', args.worldId).eq('id', member.conversationId))
+        .unique();
+      if (!conversation) {
+        throw new Error(`Invalid conversation ID: ${member.conversationId}`);
+      }
+      if (conversation.numMessages > 0) {
+        conversations.push(conversation);
+      }
+    }
+    return conversations;
+  },
+});
+
+// How a player feels about everyone they've talked to, warmest first.
+export const playerRelationships = query({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+  },
+  handler: async (ctx, args) => {
+    const relationships = await loadRelationships(ctx.db, args.worldId, args.playerId);
+    return [...relationships.values()].sort((a, b) => b.affinity - a.affinity);
+  },
+});
+
+// What an agent's working towards, and the goals it's most recently achieved or abandoned.
+export const playerGoals = query({
+  args: {
+    worldId: v.id('worlds'),
+    playerId,
+  },
+  handler: async (ctx, args) => {
+    const active = await loadActiveGoals(ctx.db, args.worldId, args.playerId);
+    const finished = await ctx.db
+      .query('goals')
+      .withIndex('playerId_lastUpdated', (q) =>
+        q.eq('worldId', args.worldId).eq('playerId', args.playerId),
+      )
+      .order('desc')
+      .filter((q) => q.neq(q.field('status'), 'active'))
+      .take(GOAL_HISTORY_LIMIT);
+    return { active, finished };
+  },
+});
@@ -51,7 +51,21 @@ jsContent += `export const screenytiles = ${height};\n`;
 jsContent += `export const tilesetpxw = ${tilesetpxw};\n`;
 jsContent += `export const tilesetpxh = ${tilesetpxh};\n\n`;
 
+// Rectangles drawn on Tiled object layers become named zones.
+const zones = [];
 tiledMapData.layers.forEach(layer => {
+  if (layer.type === 'objectgroup') {
+    for (const object of layer.objects) {
+      zones.push({
+        name: object.name,
+        x: Math.floor(object.x / tileDimension),
+        y: Math.floor(object.y / tileDimension),
+        w: Math.max(1, Math.round(object.width / tileDimension)),
+        h: Math.max(1, Math.round(object.height / tileDimension)),
+      });
+    }
+    return;
+  }
   const processedData = convertLayerData(layer.data, layer.width, layer.height);
   jsContent += `export const ${layer.name} = ${JSON.stringify(processedData)};\n`;
 });
@@ -60,6 +74,7 @@ tiledMapData.layers.forEach(layer => {
 jsContent += `export const animatedsprites = [
 
 ]\n`
+jsContent += `export const zones = ${JSON.stringify(zones)};\n`;
 
 // Optionally, add map dimensions based on the first layer
 if (tiledMapData.layers.length > 0) {
@@ -327,4 +327,12 @@ export const animatedsprites = [
 ];
 
 export const mapwidth = bgtiles[0].length;
-export const mapheight = bgtiles[0][0].length;
\ No newline at end of file
+export const mapheight = bgtiles[0][0].length;
+
+export const zones = [
+{ name: "campfire", description: "a cozy campfire in the clearing", x: 42, y: 9, w: 6, h: 5 },
+{ name: "waterfall", description: "the pond at the foot of the waterfall", x: 21, y: 12, w: 8, h: 2 },
+{ name: "windmill fields", description: "open fields by the windmills", x: 40, y: 17, w: 20, h: 8 },
+{ name: "village green", description: "the grassy green in the middle of the village", x: 6, y: 13, w: 12, h: 6 },
+{ name: "south meadow", description: "a quiet meadow at the south end of town", x: 26, y: 41, w: 16, h: 4 },
+];
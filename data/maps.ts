@@ -0,0 +1,11 @@
+import * as gentle from './gentle';
+
+// Maps new worlds can be created with. To add one, export a map generated by
+// `convertMap.js` or the map editor next to `gentle.js` and list it here.
+export const maps = {
+  gentle,
+};
+
+export type MapName = keyof typeof maps;
+
+export const DEFAULT_MAP: MapName = 'gentle';
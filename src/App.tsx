@@ -19,6 +19,14 @@ import CreateAgentDialog from './components/CreateAgentDialog.tsx';
 import WorldJoinControls from './components/WorldJoinControls.tsx';
 import AgentListDialog from './components/AgentListDialog.tsx';
 import ImportAgentDialog from './components/ImportAgentDialog.tsx';
+import LoginButton from './ui/buttons/LoginButton.tsx';
+import WorldLobby from './components/WorldLobby.tsx';
+import WorldSettingsDialog from './components/WorldSettingsDialog.tsx';
+import RelationshipGraphDialog from './components/RelationshipGraphDialog.tsx';
+import { useWorldStatus } from './hooks/useWorldStatus.ts';
+import { useSessionQuery, useUserStatus } from './hooks/useSession.tsx';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { api } from '../convex/_generated/api';
 
 const modalStyles = {
   overlay: {
@@ -47,7 +55,17 @@ export default function Home() {
   const [createAgentOpen, setCreateAgentOpen] = useState(false);
   const [agentListOpen, setAgentListOpen] = useState(false);
   const [importAgentOpen, setImportAgentOpen] = useState(false);
-  const [gameStarted, setGameStarted] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [graphOpen, setGraphOpen] = useState(false);
+  // The world being played is in the URL, so it can be linked to; without one we show the lobby.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const gameStarted = searchParams.has('world');
+  const enterWorld = (worldId: string) => setSearchParams({ world: worldId });
+  const exitWorld = () => setSearchParams({});
+  const worldId = useWorldStatus()?.worldId;
+  const canManageWorld = useUserStatus(gameStarted ? worldId : undefined)?.canManage ?? false;
+  const isAdmin = useSessionQuery(api.auth.currentUser, {})?.isAdmin ?? false;
+  const navigate = useNavigate();
   const [showEditor, setShowEditor] = useState(false);
   const [showVisualTest, setShowVisualTest] = useState(false);
 
@@ -131,20 +149,35 @@ export default function Home() {
           setCreateCharacterOpen(true);
         }}
       />
+      <RelationshipGraphDialog isOpen={graphOpen} onClose={() => setGraphOpen(false)} />
+      {worldId && (
+        <WorldSettingsDialog
+          worldId={worldId}
+          isOpen={settingsOpen}
+          onClose={() => setSettingsOpen(false)}
+        />
+      )}
 
       {!gameStarted ? (
         // LANDING PAGE STATE
         <div className="w-full h-screen flex flex-col items-center justify-center relative z-10">
+          <div className="absolute top-4 left-4 flex gap-3">
+            <LoginButton />
+            {isAdmin && (
+              <Button
+                imgUrl={helpImg}
+                onClick={() => navigate('admin')}
+                title="World health and engine metrics"
+              >
+                Admin
+              </Button>
+            )}
+          </div>
           <h1 className="text-6xl sm:text-9xl font-bold font-display game-title mb-8 tracking-wider text-center">
             COO TOWN
           </h1>
           
-          <button
-            onClick={() => setGameStarted(true)}
-            className="px-12 py-6 bg-white/10 hover:bg-white/20 border-4 border-white text-white text-4xl font-bold font-display rounded-xl transition-all hover:scale-105 active:scale-95 shadow-[0_0_30px_rgba(255,255,255,0.2)]"
-          >
-             ENTER WORLD 
-          </button>
+          <WorldLobby onEnter={enterWorld} />
 
           <div className="absolute bottom-10 flex gap-6">
              <Button imgUrl={helpImg} onClick={() => setHelpModalOpen(true)}>
@@ -170,6 +203,7 @@ export default function Home() {
 
           {/* Minimal Overlay Controls for Game Mode */}
           <div className="absolute top-4 left-4 z-10 flex flex-wrap items-start gap-3 pointer-events-auto max-w-[calc(100%-2rem)]">
+            <LoginButton />
             <WorldJoinControls onCreateAgent={() => setCreateAgentOpen(true)} />
             <Button
               imgUrl={charactersImg}
@@ -199,7 +233,23 @@ export default function Home() {
             >
               Import
             </Button>
-            <Button imgUrl={closeImg} onClick={() => setGameStarted(false)}>
+            <Button
+              imgUrl={agentsImg}
+              onClick={() => setGraphOpen(true)}
+              title="See who talks to whom in this world"
+            >
+              Graph
+            </Button>
+            {canManageWorld && (
+              <Button
+                imgUrl={helpImg}
+                onClick={() => setSettingsOpen(true)}
+                title="Change this world's rules"
+              >
+                Settings
+              </Button>
+            )}
+            <Button imgUrl={closeImg} onClick={exitWorld}>
               Exit
             </Button>
           </div>
@@ -0,0 +1,374 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { useSessionMutation, useSessionQuery } from '../hooks/useSession';
+import LoginButton from '../ui/buttons/LoginButton';
+import { showError } from '../toasts';
+
+const statusLabels = {
+  running: 'Running',
+  inactive: 'Idle',
+  stoppedByDeveloper: 'Stopped',
+};
+
+function formatAgo(now: number, ts: number | undefined) {
+  if (ts === undefined) {
+    return 'never';
+  }
+  return `${Math.max(0, Math.round((now - ts) / 1000))}s ago`;
+}
+
+// Refreshes every second, for showing how long ago things happened.
+function useNow() {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  return now;
+}
+
+// Shows the deployment's admins how each world's engine, agents and LLM calls are doing,
+// and lets them stop, start or kick its engine.
+export default function AdminDashboard() {
+  const user = useSessionQuery(api.auth.currentUser, {});
+  const worlds = useSessionQuery(api.world.listWorlds, user?.isAdmin ? {} : 'skip');
+  const [selected, setSelected] = useState<Id<'worlds'>>();
+  const worldId = selected ?? worlds?.[0]?.worldId;
+
+  if (user === undefined) {
+    return <p className="text-white/60">Loading...</p>;
+  }
+  if (!user?.isAdmin) {
+    return (
+      <div className="flex flex-col items-start gap-4">
+        <p>Log in as one of the deployment's admins (see `ADMINS`) to see the dashboard.</p>
+        <LoginButton />
+      </div>
+    );
+  }
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap gap-2">
+        {worlds?.map((world) => (
+          <button
+            key={world.worldId}
+            className={`px-3 py-1 border-2 ${
+              world.worldId === worldId ? 'border-white bg-white/10' : 'border-[#4a3b5b]'
+            } hover:bg-[#4a3b5b]`}
+            onClick={() => setSelected(world.worldId)}
+          >
+            {world.name} · {statusLabels[world.status]}
+          </button>
+        ))}
+      </div>
+      {worldId && <WorldHealth worldId={worldId} />}
+      {worldId && <LLMUsage worldId={worldId} />}
+    </div>
+  );
+}
+
+function WorldHealth({ worldId }: { worldId: Id<'worlds'> }) {
+  const health = useSessionQuery(api.admin.worldHealth, { worldId });
+  const startWorld = useSessionMutation(api.world.startWorld);
+  const stopWorld = useSessionMutation(api.world.stopWorld);
+  const kickWorld = useSessionMutation(api.world.kickWorld);
+  const now = useNow();
+
+  if (!health) {
+    return <p className="text-white/60">Loading...</p>;
+  }
+  const { engine, inputs, operations, llm, budget } = health;
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      showError(error, fallback);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <Panel title="Engine">
+        <Stat label="World">{statusLabels[health.status]}</Stat>
+        <Stat label="Engine">{engine.running ? 'Running' : 'Stopped'}</Stat>
+        <Stat label="Generation">{engine.generationNumber}</Stat>
+        <Stat label="Last step">{formatAgo(now, engine.currentTime)}</Stat>
+        <Stat label="Ticks in last step">{engine.lastStepTicks ?? '-'}</Stat>
+        <Stat label="Inputs in last step">{engine.lastStepInputs ?? '-'}</Stat>
+        <Stat label="Last step took">
+          {engine.lastStepDuration !== undefined ? `${engine.lastStepDuration}ms` : '-'}
+        </Stat>
+        <div className="flex gap-2 mt-3">
+          {health.status === 'running' ? (
+            <button
+              className="px-3 py-1 border-2 border-[#4a3b5b] hover:bg-[#4a3b5b]"
+              onClick={() => void run(() => stopWorld({ worldId }), 'Failed to stop world.')}
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              className="px-3 py-1 border-2 border-[#4a3b5b] hover:bg-[#4a3b5b]"
+              onClick={() => void run(() => startWorld({ worldId }), 'Failed to start world.')}
+            >
+              Resume
+            </button>
+          )}
+          <button
+            className="px-3 py-1 border-2 border-[#4a3b5b] hover:bg-[#4a3b5b] disabled:opacity-50"
+            disabled={health.status !== 'running' || !engine.running}
+            title="Reload the world and start a new step"
+            onClick={() => void run(() => kickWorld({ worldId }), 'Failed to kick world.')}
+          >
+            Kick
+          </button>
+        </div>
+      </Panel>
+      <Panel title="Inputs">
+        <Stat label="Queued">
+          {inputs.queued}
+          {inputs.queuedCapped && '+'}
+        </Stat>
+        <Stat label={`Failed of the last ${inputs.checked}`}>{inputs.failed.length}</Stat>
+        <ul className="mt-2 text-sm flex flex-col gap-1">
+          {inputs.failed.map((input) => (
+            <li key={input.number}>
+              <span className="text-[#a395b8]">
+                #{input.number} {input.name}, {formatAgo(now, input.received)}:
+              </span>{' '}
+              {input.message}
+            </li>
+          ))}
+        </ul>
+      </Panel>
+      <Panel title="Agent operations">
+        {operations.length === 0 && <p className="text-white/60">No agents are busy.</p>}
+        <ul className="text-sm flex flex-col gap-1">
+          {operations.map((operation) => {
+            const stuck = now - operation.started > health.actionTimeout;
+            return (
+              <li key={operation.agentId} className={stuck ? 'text-red-400' : undefined}>
+                {operation.name}: {operation.operation}, started {formatAgo(now, operation.started)}
+                {stuck && ' (stuck)'}
+              </li>
+            );
+          })}
+        </ul>
+      </Panel>
+      <Panel title={`Last ${llm.calls} LLM calls`}>
+        <Stat label="Errors">{llm.errors}</Stat>
+        <Stat label="Retries">{llm.retries}</Stat>
+        <Stat label="Latency (median)">{llm.p50}ms</Stat>
+        <Stat label="Latency (95th percentile)">{llm.p95}ms</Stat>
+        <Stat label="Latency (max)">{llm.max}ms</Stat>
+        <ul className="mt-2 text-sm flex flex-col gap-1">
+          {llm.recentErrors.map((call, i) => (
+            <li key={i}>
+              <span className="text-[#a395b8]">
+                {call.type} with {call.model}, {formatAgo(now, call.time)}:
+              </span>{' '}
+              {call.error}
+            </li>
+          ))}
+        </ul>
+      </Panel>
+      <Panel title="LLM budget">
+        <Stat label="World calls this minute">
+          {formatSpend(budget.world.callsThisMinute, budget.worldCallsPerMinute)}
+        </Stat>
+        <Stat label="World tokens this hour">
+          {formatSpend(budget.world.tokensThisHour, budget.worldTokensPerHour)}
+        </Stat>
+        {budget.world.exhausted && (
+          <p className="text-red-400">
+            Agents are skipping the LLM: out of {budget.world.exhausted}.
+          </p>
+        )}
+        <table className="mt-2 text-sm w-full">
+          <thead className="text-[#a395b8]">
+            <tr>
+              <th className="text-left">Agent</th>
+              <th className="text-right">Calls this minute</th>
+              <th className="text-right">Tokens this hour</th>
+            </tr>
+          </thead>
+          <tbody>
+            {budget.agents.map((agent) => (
+              <tr key={agent.agentId} className={agent.exhausted ? 'text-red-400' : undefined}>
+                <td>{agent.name ?? agent.agentId}</td>
+                <td className="text-right">
+                  {formatSpend(agent.callsThisMinute, budget.agentCallsPerMinute)}
+                </td>
+                <td className="text-right">
+                  {formatSpend(agent.tokensThisHour, budget.agentTokensPerHour)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Panel>
+    </div>
+  );
+}
+
+// How much of a budget has been used, where a limit of 0 means there isn't one.
+function formatSpend(used: number, limit: number) {
+  return limit > 0
+    ? `${used.toLocaleString()} / ${limit.toLocaleString()}`
+    : `${used.toLocaleString()} (no limit)`;
+}
+
+const usageDays = [1, 7, 30];
+const kindLabels = {
+  start: 'Starting conversations',
+  continue: 'Continuing conversations',
+  leave: 'Leaving conversations',
+  summarize: 'Summarizing conversations',
+  importance: 'Rating memories',
+  reflection: 'Reflecting',
+  activity: 'Choosing activities',
+  schedule: 'Planning days',
+  relationship: 'Updating relationships',
+  note: 'Editing memories',
+  search: 'Searching memories',
+  consolidation: 'Consolidating memories',
+  goals: 'Revising goals',
+  migration: 'Migrating embeddings',
+};
+
+// Tokens, cost and latency of the LLM calls made for one world, or for every world.
+function LLMUsage({ worldId }: { worldId: Id<'worlds'> }) {
+  const [days, setDays] = useState(7);
+  const [allWorlds, setAllWorlds] = useState(false);
+  const usage = useSessionQuery(api.admin.llmUsage, {
+    worldId: allWorlds ? undefined : worldId,
+    days,
+  });
+  return (
+    <Panel title="LLM usage">
+      <div className="flex flex-wrap gap-2 mb-3">
+        {usageDays.map((d) => (
+          <button
+            key={d}
+            className={`px-3 py-1 border-2 ${
+              d === days ? 'border-white bg-white/10' : 'border-[#4a3b5b]'
+            } hover:bg-[#4a3b5b]`}
+            onClick={() => setDays(d)}
+          >
+            {d === 1 ? 'Today' : `${d} days`}
+          </button>
+        ))}
+        <label className="flex items-center gap-2 ml-4">
+          <input
+            type="checkbox"
+            checked={allWorlds}
+            onChange={(e) => setAllWorlds(e.target.checked)}
+          />
+          All worlds
+        </label>
+      </div>
+      {!usage ? (
+        <p className="text-white/60">Loading...</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <UsageTable
+            title="By day"
+            rows={usage.byDay.map((row) => ({
+              ...row,
+              label: new Date(row.key).toLocaleDateString(undefined, { timeZone: 'UTC' }),
+            }))}
+          />
+          <UsageTable
+            title="By prompt"
+            rows={usage.byKind.map((row) => ({ ...row, label: kindLabels[row.key] }))}
+          />
+          {usage.byWorld && (
+            <UsageTable
+              title="By world"
+              rows={usage.byWorld.map((row) => ({ ...row, label: row.name }))}
+            />
+          )}
+          {usage.byAgent && (
+            <UsageTable
+              title="By agent"
+              rows={usage.byAgent.map((row) => ({
+                ...row,
+                label: row.name ?? row.key ?? 'No agent',
+              }))}
+            />
+          )}
+          <UsageTable
+            title="By model"
+            rows={usage.byModel.map((row) => ({ ...row, label: row.key }))}
+          />
+        </div>
+      )}
+    </Panel>
+  );
+}
+
+type UsageRow = {
+  label: string;
+  calls: number;
+  errors: number;
+  ms: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+};
+
+function UsageTable({ title, rows }: { title: string; rows: UsageRow[] }) {
+  return (
+    <table className="text-sm w-full">
+      <thead className="text-[#a395b8]">
+        <tr>
+          <th className="text-left">{title}</th>
+          <th className="text-right">Calls</th>
+          <th className="text-right">Errors</th>
+          <th className="text-right">Tokens in</th>
+          <th className="text-right">Tokens out</th>
+          <th className="text-right">Avg latency</th>
+          <th className="text-right">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.length === 0 && (
+          <tr>
+            <td className="text-white/60">No calls yet.</td>
+          </tr>
+        )}
+        {rows.map((row, i) => (
+          <tr key={i}>
+            <td>{row.label}</td>
+            <td className="text-right">{row.calls}</td>
+            <td className="text-right">{row.errors}</td>
+            <td className="text-right">{row.promptTokens.toLocaleString()}</td>
+            <td className="text-right">{row.completionTokens.toLocaleString()}</td>
+            <td className="text-right">{row.calls ? Math.round(row.ms / row.calls) : 0}ms</td>
+            <td className="text-right">${row.cost.toFixed(2)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Panel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="px-4 py-3 bg-[#2d2438] border-4 border-[#4a3b5b]">
+      <h2 className="text-xl text-[#a395b8] uppercase tracking-wide mb-2">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function Stat({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span>{label}</span>
+      <span>{children}</span>
+    </div>
+  );
+}
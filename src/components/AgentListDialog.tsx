@@ -1,11 +1,13 @@
 import { useEffect, useMemo, useState } from 'react';
 import ReactModal from 'react-modal';
-import { useConvex, useMutation, useQuery } from 'convex/react';
+import { useConvex } from 'convex/react';
 import { ConvexError } from 'convex/values';
 import { toast } from 'react-toastify';
 import { api } from '../../convex/_generated/api';
 import { waitForInput } from '../hooks/sendInput';
 import { useServerGame } from '../hooks/serverGame';
+import { useSessionMutation, useUserStatus } from '../hooks/useSession';
+import { useWorldStatus } from '../hooks/useWorldStatus';
 import { CharacterDefinition, useCharacters } from '../lib/characterRegistry';
 
 const modalStyles = {
@@ -45,12 +47,12 @@ type AgentEntry = {
 
 export default function AgentListDialog({ isOpen, onClose, onCreateAgent }: Props) {
   const { characters } = useCharacters();
-  const worldStatus = useQuery(api.world.defaultWorldStatus);
+  const worldStatus = useWorldStatus();
   const worldId = worldStatus?.worldId;
   const game = useServerGame(worldId);
-  const humanTokenIdentifier = useQuery(api.world.userStatus, worldId ? { worldId } : 'skip');
-  const removeAgent = useMutation(api.world.removeAgent);
-  const leaveWorld = useMutation(api.world.leaveWorld);
+  const humanTokenIdentifier = useUserStatus(worldId)?.tokenIdentifier;
+  const removeAgent = useSessionMutation(api.world.removeAgent);
+  const leaveWorld = useSessionMutation(api.world.leaveWorld);
   const convex = useConvex();
   const [removingAgentId, setRemovingAgentId] = useState<string | null>(null);
   const [confirmingAgentId, setConfirmingAgentId] = useState<string | null>(null);
@@ -68,7 +70,7 @@ export default function AgentListDialog({ isOpen, onClose, onCreateAgent }: Prop
   );
 
   const userPlayerId = useMemo(() => {
-    if (!game || !humanTokenIdentifier || humanTokenIdentifier === 'skip') {
+    if (!game || !humanTokenIdentifier) {
       return null;
     }
     return [...game.world.players.values()].find((player) => player.human === humanTokenIdentifier)
@@ -77,8 +79,7 @@ export default function AgentListDialog({ isOpen, onClose, onCreateAgent }: Prop
 
   const agents = useMemo<AgentEntry[]>(() => {
     if (!game) return [];
-    const userToken =
-      humanTokenIdentifier && humanTokenIdentifier !== 'skip' ? humanTokenIdentifier : null;
+    const userToken = humanTokenIdentifier ?? null;
     return [...game.world.agents.values()].flatMap((agent) => {
       const agentDescription = game.agentDescriptions.get(agent.id);
       if (!agentDescription || agentDescription.isCustom !== true) return [];
@@ -0,0 +1,15 @@
+import { GameClock, formatMinuteOfDay } from '../../convex/aiTown/gameClock.ts';
+
+export default function ClockDisplay({ clock, time }: { clock?: GameClock; time?: number }) {
+  if (!clock || time === undefined) {
+    return null;
+  }
+  const { day, minuteOfDay } = clock.timeAt(time);
+  const hour = Math.floor(minuteOfDay / 60);
+  const isNight = hour < 6 || hour >= 20;
+  return (
+    <div className="absolute top-4 left-4 z-10 bg-black/70 text-white px-4 py-2 rounded-full text-sm pointer-events-none">
+      {isNight ? '🌙' : '☀️'} Day {day + 1} · {formatMinuteOfDay(minuteOfDay)}
+    </div>
+  );
+}
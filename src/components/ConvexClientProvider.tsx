@@ -1,7 +1,8 @@
 import { ReactNode } from 'react';
 import { ConvexReactClient, ConvexProvider } from 'convex/react';
-// import { ConvexProviderWithClerk } from 'convex/react-clerk';
-// import { ClerkProvider, useAuth } from '@clerk/clerk-react';
+import { ConvexProviderWithClerk } from 'convex/react-clerk';
+import { ClerkProvider, useAuth } from '@clerk/clerk-react';
+import { SessionProvider } from '../hooks/useSession';
 
 /**
  * Determines the Convex deployment to use.
@@ -19,12 +20,22 @@ function convexUrl(): string {
 
 const convex = new ConvexReactClient(convexUrl(), { unsavedChangesWarning: false });
 
+// Sign in with Clerk when it's configured, and with local accounts otherwise.
+export const clerkPublishableKey = import.meta.env.VITE_CLERK_PUBLISHABLE_KEY as string | undefined;
+
 export default function ConvexClientProvider({ children }: { children: ReactNode }) {
+  if (clerkPublishableKey) {
+    return (
+      <ClerkProvider publishableKey={clerkPublishableKey}>
+        <ConvexProviderWithClerk client={convex} useAuth={useAuth}>
+          <SessionProvider>{children}</SessionProvider>
+        </ConvexProviderWithClerk>
+      </ClerkProvider>
+    );
+  }
   return (
-    // <ClerkProvider publishableKey={import.meta.env.VITE_CLERK_PUBLISHABLE_KEY as string}>
-    // <ConvexProviderWithClerk client={convex} useAuth={useAuth}>
-    <ConvexProvider client={convex}>{children}</ConvexProvider>
-    // </ConvexProviderWithClerk>
-    // </ClerkProvider>
+    <ConvexProvider client={convex}>
+      <SessionProvider>{children}</SessionProvider>
+    </ConvexProvider>
   );
 }
@@ -1,11 +1,13 @@
 import { useEffect, useMemo, useState } from 'react';
 import ReactModal from 'react-modal';
-import { useAction, useConvex, useQuery } from 'convex/react';
+import { useConvex } from 'convex/react';
 import { ConvexError } from 'convex/values';
 import { api } from '../../convex/_generated/api';
 import { Id } from '../../convex/_generated/dataModel';
 import agentAvatar from '../../assets/ui/agent-avatar.svg';
 import { waitForInput } from '../hooks/sendInput';
+import { useSessionAction, useUserStatus } from '../hooks/useSession';
+import { useWorldStatus } from '../hooks/useWorldStatus';
 import { useCharacters } from '../lib/characterRegistry';
 import CharacterSelectGrid from './CharacterSelectGrid';
 
@@ -56,16 +58,16 @@ export default function CreateAgentDialog({ isOpen, onClose, onCreateCharacter }
   const [error, setError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   
-  const worldStatus = useQuery(api.world.defaultWorldStatus);
+  const worldStatus = useWorldStatus();
   const worldId = worldStatus?.worldId;
-  const userTokenIdentifier = useQuery(api.world.userStatus, worldId ? { worldId } : 'skip');
+  const userTokenIdentifier = useUserStatus(worldId)?.tokenIdentifier;
   
-  const createElizaAgent = useAction(api.elizaAgent.actions.createElizaAgent);
+  const createElizaAgent = useSessionAction(api.elizaAgent.actions.createElizaAgent);
   const convex = useConvex();
 
   const customCharacters = useMemo(() => {
     const filtered = characters.filter((character) => character.isCustom);
-    if (!userTokenIdentifier || userTokenIdentifier === 'skip') {
+    if (!userTokenIdentifier) {
       return filtered;
     }
     return filtered.filter((character) => character.ownerId === userTokenIdentifier);
@@ -1,7 +1,8 @@
 import { useEffect, useState, type ChangeEvent } from 'react';
 import ReactModal from 'react-modal';
-import { useMutation, useQuery, useAction } from 'convex/react';
+import { useQuery, useAction } from 'convex/react';
 import { api } from '../../convex/_generated/api';
+import { useSessionMutation, useSessionQuery } from '../hooks/useSession';
 
 const modalStyles = {
   overlay: {
@@ -57,9 +58,9 @@ export default function CreateCharacterDialog({ isOpen, onClose }: Props) {
 
   const generateCharacterConcept = useAction(api.characterGeneration.generateCharacterConcept);
   const generateCharacter = useAction(api.characterGeneration.generate);
-  const createSprite = useMutation(api.characterSprites.create);
-  const removeSprite = useMutation(api.characterSprites.remove);
-  const mySprites = useQuery(api.characterSprites.listMine) ?? [];
+  const createSprite = useSessionMutation(api.characterSprites.create);
+  const removeSprite = useSessionMutation(api.characterSprites.remove);
+  const mySprites = useSessionQuery(api.characterSprites.listMine, {}) ?? [];
   const generatedPreviewUrl = useQuery(api.characterSprites.getUrl, generatedStorageId ? { storageId: generatedStorageId } : "skip");
 
   // Reset state on open
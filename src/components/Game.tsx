@@ -7,10 +7,13 @@ import { ConvexProvider, useConvex, useQuery } from 'convex/react';
 import PlayerDetails from './PlayerDetails.tsx';
 import { api } from '../../convex/_generated/api';
 import { useWorldHeartbeat } from '../hooks/useWorldHeartbeat.ts';
+import { useWorldStatus } from '../hooks/useWorldStatus.ts';
 import { useHistoricalTime } from '../hooks/useHistoricalTime.ts';
 import { DebugTimeManager } from './DebugTimeManager.tsx';
 import { GameId } from '../../convex/aiTown/ids.ts';
-import { useServerGame } from '../hooks/serverGame.ts';
+import { useReplayGame, useServerGame } from '../hooks/serverGame.ts';
+import { Replay, ReplayControls } from './ReplayControls.tsx';
+import ClockDisplay from './ClockDisplay.tsx';
 
 export const SHOW_DEBUG_UI = !!import.meta.env.VITE_SHOW_DEBUG_UI;
 
@@ -35,17 +38,22 @@ export default function Game() {
   const [showMobilePanel, setShowMobilePanel] = useState(false);
   const [gameWrapperRef, { width, height }] = useElementSize();
 
-  const worldStatus = useQuery(api.world.defaultWorldStatus);
+  const worldStatus = useWorldStatus();
   const worldId = worldStatus?.worldId;
   const engineId = worldStatus?.engineId;
 
-  const game = useServerGame(worldId);
+  const liveGame = useServerGame(worldId);
+  const [replay, setReplay] = useState<Replay>();
+  const replayGame = useReplayGame(replay);
+  // Keep showing the live game until the replay has caught up.
+  const game = (replay && replayGame) || liveGame;
 
   // Send a periodic heartbeat to our world to keep it alive.
   useWorldHeartbeat();
 
   const worldState = useQuery(api.world.worldState, worldId ? { worldId } : 'skip');
-  const { historicalTime, timeManager } = useHistoricalTime(worldState?.engine);
+  const { historicalTime: liveTime, timeManager } = useHistoricalTime(worldState?.engine);
+  const historicalTime = replay ? replay.until : liveTime;
 
   // Auto-show panel on mobile when player is selected
   useEffect(() => {
@@ -83,6 +91,11 @@ export default function Game() {
           </ConvexProvider>
         </Stage>
 
+        <ClockDisplay clock={game.world.clock} time={historicalTime} />
+        {SHOW_DEBUG_UI && (
+          <ReplayControls worldId={worldId} replay={replay} setReplay={setReplay} />
+        )}
+
         {/* Desktop: Right-side overlay */}
         {!isMobile && (
           <div className="absolute top-0 right-0 z-10 h-full w-80 lg:w-96 p-4 flex flex-col pointer-events-auto overflow-y-auto">
@@ -1,10 +1,12 @@
 import { useEffect, useMemo, useState } from 'react';
 import ReactModal from 'react-modal';
-import { useAction, useConvex, useQuery } from 'convex/react';
+import { useAction, useConvex } from 'convex/react';
 import { ConvexError } from 'convex/values';
 import { api } from '../../convex/_generated/api';
 import { Id } from '../../convex/_generated/dataModel';
 import { waitForInput } from '../hooks/sendInput';
+import { useSessionAction, useUserStatus } from '../hooks/useSession';
+import { useWorldStatus } from '../hooks/useWorldStatus';
 import { useCharacters } from '../lib/characterRegistry';
 
 const modalStyles = {
@@ -57,17 +59,17 @@ export default function ImportAgentDialog({ isOpen, onClose, onCreateCharacter }
   const [isLoading, setIsLoading] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
 
-  const worldStatus = useQuery(api.world.defaultWorldStatus);
+  const worldStatus = useWorldStatus();
   const worldId = worldStatus?.worldId;
-  const userTokenIdentifier = useQuery(api.world.userStatus, worldId ? { worldId } : 'skip');
+  const userTokenIdentifier = useUserStatus(worldId)?.tokenIdentifier;
 
   const fetchElizaAgents = useAction(api.elizaAgent.actions.fetchElizaAgents);
-  const importElizaAgent = useAction(api.elizaAgent.actions.importElizaAgent);
+  const importElizaAgent = useSessionAction(api.elizaAgent.actions.importElizaAgent);
   const convex = useConvex();
 
   const customCharacters = useMemo(() => {
     const filtered = characters.filter((character) => character.isCustom);
-    if (!userTokenIdentifier || userTokenIdentifier === 'skip') {
+    if (!userTokenIdentifier) {
       return filtered;
     }
     return filtered.filter((character) => character.ownerId === userTokenIdentifier);
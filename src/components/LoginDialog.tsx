@@ -0,0 +1,109 @@
+import { FormEvent, useState } from 'react';
+import ReactModal from 'react-modal';
+import { useMutation } from 'convex/react';
+import { ConvexError } from 'convex/values';
+import { api } from '../../convex/_generated/api';
+import { useSetSessionId } from '../hooks/useSession';
+
+const modalStyles = {
+  overlay: {
+    backgroundColor: 'rgb(0, 0, 0, 75%)',
+    zIndex: 12,
+  },
+  content: {
+    top: '50%',
+    left: '50%',
+    right: 'auto',
+    bottom: 'auto',
+    marginRight: '-50%',
+    transform: 'translate(-50%, -50%)',
+    maxWidth: '50%',
+    border: '10px solid rgb(23, 20, 33)',
+    borderRadius: '0',
+    background: 'rgb(35, 38, 58)',
+    color: 'white',
+    fontFamily: '"Upheaval Pro", "sans-serif"',
+  },
+};
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+// Username/password login for local accounts, used when there's no auth provider.
+export default function LoginDialog({ isOpen, onClose }: Props) {
+  const signIn = useMutation(api.auth.signIn);
+  const signUp = useMutation(api.auth.signUp);
+  const setSessionId = useSetSessionId();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [mode, setMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const submit = mode === 'signIn' ? signIn : signUp;
+      setSessionId(await submit({ username, password }));
+      setPassword('');
+      onClose();
+    } catch (error) {
+      setError(error instanceof ConvexError ? String(error.data) : 'Failed to log in.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <ReactModal
+      isOpen={isOpen}
+      onRequestClose={onClose}
+      style={modalStyles}
+      contentLabel="Log in"
+      ariaHideApp={false}
+    >
+      <form className="space-y-4 font-dialog" onSubmit={(e) => void handleSubmit(e)}>
+        <h2 className="text-3xl">{mode === 'signIn' ? 'Log in' : 'Create an account'}</h2>
+        <input
+          className="w-full bg-white/10 border border-white/30 px-3 py-2 text-sm"
+          placeholder="Username"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <input
+          className="w-full bg-white/10 border border-white/30 px-3 py-2 text-sm"
+          type="password"
+          placeholder="Password"
+          autoComplete={mode === 'signIn' ? 'current-password' : 'new-password'}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        {error && <p className="text-xs text-red-300">{error}</p>}
+        <div className="flex items-center justify-between gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === 'signIn' ? 'signUp' : 'signIn');
+              setError(null);
+            }}
+            className="text-xs text-white/70 underline hover:text-white"
+          >
+            {mode === 'signIn' ? 'New here? Create an account' : 'Have an account? Log in'}
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || !username || !password}
+            className="bg-emerald-500/80 hover:bg-emerald-500 px-4 py-2 text-sm font-bold border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {mode === 'signIn' ? 'Log in' : 'Sign up'}
+          </button>
+        </div>
+      </form>
+    </ReactModal>
+  );
+}
@@ -49,6 +49,16 @@ type MapAnimatedSprite = {
   animation: string;
 };
 
+// Named rectangle of tiles, in tile coordinates, that agents can head to.
+type MapZone = {
+  name: string;
+  description?: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
 type TilesetConfig = {
   id: string;
   name: string;
@@ -291,6 +301,17 @@ const MapEditor = () => {
   const [recentTiles, setRecentTiles] = useState<number[]>([]);
   const [recentObjects, setRecentObjects] = useState<string[]>([]);
   const [animatedSprites, setAnimatedSprites] = useState<MapAnimatedSprite[]>(() => INITIAL_ANIMATED_SPRITES);
+  const [zones, setZones] = useState<MapZone[]>([]);
+  const [showZones, setShowZones] = useState(true);
+  const [zoneCaptureMode, setZoneCaptureMode] = useState(false);
+  const [zoneSelection, setZoneSelection] = useState<{
+    startRow: number;
+    startCol: number;
+    endRow: number;
+    endCol: number;
+  } | null>(null);
+  const [isZoneSelecting, setIsZoneSelecting] = useState(false);
+  const [zoneNameDraft, setZoneNameDraft] = useState('');
   const [tilesetLoadError, setTilesetLoadError] = useState<string | null>(null);
   const [transparentTiles, setTransparentTiles] = useState<boolean[]>([]);
   const [hiddenTiles, setHiddenTiles] = useState<boolean[]>([]);
@@ -678,6 +699,8 @@ const MapEditor = () => {
     setBgLayers(createBlankLayers(DEFAULT_LAYER_COUNT, MAP_WIDTH, MAP_HEIGHT));
     setCollisionLayer(createBlankLayer(MAP_WIDTH, MAP_HEIGHT));
     setAnimatedSprites(options?.animated ?? []);
+    setZones([]);
+    setZoneSelection(null);
     setPlacedObjects([]);
     setRecentTiles([]);
     setSelectedTileId(null);
@@ -1077,6 +1100,15 @@ const MapEditor = () => {
     return { minRow, maxRow, minCol, maxCol };
   }, [stampSelection]);
 
+  const zoneSelectionBounds = useMemo(() => {
+    if (!zoneSelection) return null;
+    const minRow = Math.min(zoneSelection.startRow, zoneSelection.endRow);
+    const maxRow = Math.max(zoneSelection.startRow, zoneSelection.endRow);
+    const minCol = Math.min(zoneSelection.startCol, zoneSelection.endCol);
+    const maxCol = Math.max(zoneSelection.startCol, zoneSelection.endCol);
+    return { minRow, maxRow, minCol, maxCol };
+  }, [zoneSelection]);
+
   const transformedStampSize = useMemo(() => {
     if (!activeStamp) return null;
     if (stampRotation === 90 || stampRotation === 270) {
@@ -1258,6 +1290,26 @@ const MapEditor = () => {
     setStampNameDraft('');
   };
 
+  const saveZoneFromSelection = () => {
+    if (!zoneSelectionBounds) return;
+    const name = zoneNameDraft.trim() || `Zone ${zones.length + 1}`;
+    const newZone: MapZone = {
+      name,
+      x: zoneSelectionBounds.minCol,
+      y: zoneSelectionBounds.minRow,
+      w: zoneSelectionBounds.maxCol - zoneSelectionBounds.minCol + 1,
+      h: zoneSelectionBounds.maxRow - zoneSelectionBounds.minRow + 1,
+    };
+    setZones((prev) => [...prev.filter((zone) => zone.name !== name), newZone]);
+    setZoneCaptureMode(false);
+    setZoneSelection(null);
+    setZoneNameDraft('');
+  };
+
+  const removeZone = (name: string) => {
+    setZones((prev) => prev.filter((zone) => zone.name !== name));
+  };
+
   const saveObjectFromSelection = () => {
     if (!objectSelectionBounds) return;
     const width = objectSelectionBounds.maxCol - objectSelectionBounds.minCol + 1;
@@ -1796,6 +1848,11 @@ const MapEditor = () => {
     col: number,
   ) => {
     event.preventDefault();
+    if (zoneCaptureMode) {
+      setZoneSelection({ startRow: row, startCol: col, endRow: row, endCol: col });
+      setIsZoneSelecting(true);
+      return;
+    }
     if (stampCaptureMode) {
       setStampSelection({ startRow: row, startCol: col, endRow: row, endCol: col });
       setIsStampSelecting(true);
@@ -1824,6 +1881,12 @@ const MapEditor = () => {
   };
 
   const handlePointerEnter = (row: number, col: number) => {
+    if (zoneCaptureMode && isZoneSelecting) {
+      setZoneSelection((prev) =>
+        prev ? { ...prev, endRow: row, endCol: col } : { startRow: row, startCol: col, endRow: row, endCol: col },
+      );
+      return;
+    }
     if (stampCaptureMode && isStampSelecting) {
       setStampSelection((prev) =>
         prev ? { ...prev, endRow: row, endCol: col } : { startRow: row, startCol: col, endRow: row, endCol: col },
@@ -1866,6 +1929,7 @@ const MapEditor = () => {
       setIsPointerDown(false);
       dragToolRef.current = null;
       setIsStampSelecting(false);
+      setIsZoneSelecting(false);
       setIsPaletteSelecting(false);
       setIsObjectPaletteSelecting(false);
     };
@@ -1921,6 +1985,8 @@ export const objmap = ${JSON.stringify([collisionLayer])};
 
 export const animatedsprites = ${JSON.stringify(animatedSprites)};
 
+export const zones = ${JSON.stringify(zones)};
+
 export const mapwidth = ${MAP_WIDTH};
 export const mapheight = ${MAP_HEIGHT};
 `;
@@ -2408,6 +2474,22 @@ export const mapheight = ${MAP_HEIGHT};
                 </div>
              )}
 
+             {/* Zones */}
+             {showZones && zones.length > 0 && (
+                <div className="absolute inset-0 pointer-events-none">
+                  {zones.map((zone) => (
+                    <div key={`zone-${zone.name}`} className="absolute border-2 border-dashed border-[#ffd93d]/80 bg-[#ffd93d]/10" style={{ left: zone.x * tileSize, top: zone.y * tileSize, width: zone.w * tileSize, height: zone.h * tileSize }}>
+                      <span className="absolute top-0 left-0 bg-black/60 text-[#f3e2b5] text-[9px] px-1 font-display uppercase">{zone.name}</span>
+                    </div>
+                  ))}
+                </div>
+             )}
+
+             {/* Zone Selection */}
+             {zoneSelectionBounds && (
+                <div className="absolute pointer-events-none border-2 border-[#ffd93d] bg-[#ffd93d]/20" style={{ left: zoneSelectionBounds.minCol * tileSize, top: zoneSelectionBounds.minRow * tileSize, width: (zoneSelectionBounds.maxCol - zoneSelectionBounds.minCol + 1) * tileSize, height: (zoneSelectionBounds.maxRow - zoneSelectionBounds.minRow + 1) * tileSize }} />
+             )}
+
              {/* Selection Bounds */}
              {selectionBounds && (
                 <div className="absolute pointer-events-none border-2 border-cyan-400/80 bg-cyan-400/10" style={{ left: selectionBounds.minCol * tileSize, top: selectionBounds.minRow * tileSize, width: (selectionBounds.maxCol - selectionBounds.minCol + 1) * tileSize, height: (selectionBounds.maxRow - selectionBounds.minRow + 1) * tileSize }} />
@@ -2735,6 +2817,45 @@ export const mapheight = ${MAP_HEIGHT};
            -------------------------------------------------------------------------- */}
         <div style={{ gridArea: 'sidebar-right', alignSelf: 'end' }} className="flex flex-col justify-end h-full pl-2 w-[180px]">
 
+            {/* Zones Panel */}
+            <StardewFrame className="p-4 w-full mb-2">
+                <div className="flex flex-col gap-2">
+                   <label className="flex items-center gap-2 cursor-pointer group hover:brightness-110 transition-all">
+                      <StardewCheckbox 
+                        label="ZONES" 
+                        checked={showZones} 
+                        onChange={setShowZones}
+                        className="scale-90 origin-left"
+                      />
+                   </label>
+                   <button onClick={() => { setZoneCaptureMode(p => !p); setZoneSelection(null); }} className={`text-[9px] px-2 py-0.5 border-2 text-[#f3e2b5] rounded uppercase ${zoneCaptureMode ? 'bg-[#9c2a2a] border-[#e8d4b0]' : 'bg-[#3b2a21] border-[#6d4c30] hover:bg-[#5a4030]'}`}>
+                     {zoneCaptureMode ? 'Drawing...' : 'New Zone'}
+                   </button>
+                   {zoneCaptureMode && zoneSelectionBounds && (
+                     <div className="flex gap-1">
+                       <input
+                         value={zoneNameDraft}
+                         onChange={(event) => setZoneNameDraft(event.target.value)}
+                         onKeyDown={(event) => { if (event.key === 'Enter') saveZoneFromSelection(); }}
+                         placeholder="library"
+                         className="min-w-0 flex-1 bg-[#5a4030] border-2 border-[#6d4c30] text-[9px] px-1 rounded text-[#f3e2b5]"
+                       />
+                       <button onClick={saveZoneFromSelection} className="text-[9px] px-2 border-2 bg-[#4a8f4a] border-[#2e5e2e] text-[#f3e2b5] rounded uppercase">
+                         Add
+                       </button>
+                     </div>
+                   )}
+                   <div className="flex flex-col gap-1 max-h-32 overflow-y-auto custom-scrollbar">
+                     {zones.map((zone) => (
+                       <div key={zone.name} className="flex items-center justify-between bg-[#3b2a21] border-2 border-[#5a4030] rounded px-1">
+                         <span className="text-[9px] text-[#f3e2b5] truncate" title={`${zone.x},${zone.y} ${zone.w}x${zone.h}`}>{zone.name}</span>
+                         <span className="text-[8px] text-red-300 cursor-pointer" onClick={() => removeZone(zone.name)}>x</span>
+                       </div>
+                     ))}
+                   </div>
+                </div>
+            </StardewFrame>
+
             <StardewFrame className="p-4 w-full" >
                 <div className="flex flex-col gap-2">
                    {/* Export Button moved here */}
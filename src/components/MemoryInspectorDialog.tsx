@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useState } from 'react';
+import ReactModal from 'react-modal';
+import { api } from '../../convex/_generated/api';
+import { Doc, Id } from '../../convex/_generated/dataModel';
+import { GameId } from '../../convex/aiTown/ids';
+import { useSessionAction, useSessionMutation, useSessionQuery } from '../hooks/useSession';
+import MemoryRanking from './MemoryRanking';
+import ReflectionLog from './ReflectionLog';
+import { showError } from '../toasts';
+
+const modalStyles = {
+  overlay: {
+    backgroundColor: 'rgb(0, 0, 0, 75%)',
+    zIndex: 12,
+  },
+  content: {
+    top: '50%',
+    left: '50%',
+    right: 'auto',
+    bottom: 'auto',
+    marginRight: '-50%',
+    transform: 'translate(-50%, -50%)',
+    width: '60%',
+    maxHeight: '85%',
+    border: '10px solid rgb(23, 20, 33)',
+    borderRadius: '0',
+    background: 'rgb(35, 38, 58)',
+    color: 'white',
+    fontFamily: '"Upheaval Pro", "sans-serif"',
+  },
+};
+
+type Memory = Doc<'memories'>;
+type MemoryType = Memory['data']['type'];
+
+const memoryTypes: { type: MemoryType; label: string }[] = [
+  { type: 'conversation', label: 'Conversations' },
+  { type: 'reflection', label: 'Reflections' },
+  { type: 'relationship', label: 'Relationships' },
+  { type: 'note', label: 'Notes' },
+  { type: 'consolidation', label: 'Consolidated' },
+];
+
+// How many levels of a reflection's chain of related memories to show.
+const MAX_CHAIN_DEPTH = 3;
+
+type Draft = { memoryId?: Id<'memories'>; description: string; importance: string };
+
+type Props = {
+  worldId: Id<'worlds'>;
+  playerId: GameId<'players'>;
+  name: string;
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+// Lists an agent's memories by type for whoever owns it or manages its world, and lets them
+// pin, edit, delete or write them, and tune how it ranks them when searching.
+export default function MemoryInspectorDialog({ worldId, playerId, name, isOpen, onClose }: Props) {
+  const result = useSessionQuery(
+    api.memories.listMemories,
+    isOpen ? { worldId, playerId } : 'skip',
+  );
+  const saveMemory = useSessionAction(api.memories.saveMemory);
+  const setMemoryPinned = useSessionMutation(api.memories.setMemoryPinned);
+  const deleteMemory = useSessionMutation(api.memories.deleteMemory);
+  const [type, setType] = useState<MemoryType | 'ranking' | 'reflectionLog'>('conversation');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setDraft(null);
+    }
+  }, [isOpen]);
+
+  const byId = useMemo(() => {
+    const loaded = [...(result?.memories ?? []), ...(result?.related ?? [])];
+    const memoriesById = new Map(loaded.map((m) => [m._id, m]));
+    // Memories that were consolidated live on in their summary.
+    for (const memory of loaded) {
+      if (memory.data.type === 'consolidation') {
+        for (const memoryId of memory.data.replacedMemoryIds) {
+          memoriesById.set(memoryId, memory);
+        }
+      }
+    }
+    return memoriesById;
+  }, [result]);
+  const canEdit = !!result;
+  const memories = (result?.memories ?? [])
+    .filter((m) => m.data.type === type)
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned));
+
+  const handleSave = async () => {
+    if (!draft) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await saveMemory({
+        worldId,
+        playerId,
+        memoryId: draft.memoryId,
+        description: draft.description,
+        importance: Number(draft.importance),
+      });
+      setDraft(null);
+    } catch (error) {
+      showError(error, 'Failed to save the memory.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  const handlePin = async (memory: Memory) => {
+    try {
+      await setMemoryPinned({ worldId, playerId, memoryId: memory._id, pinned: !memory.pinned });
+    } catch (error) {
+      showError(error, 'Failed to pin the memory.');
+    }
+  };
+  const handleDelete = async (memory: Memory) => {
+    if (!confirm(`Delete this memory? ${name} won't remember it anymore.`)) {
+      return;
+    }
+    try {
+      await deleteMemory({ worldId, playerId, memoryId: memory._id });
+    } catch (error) {
+      showError(error, 'Failed to delete the memory.');
+    }
+  };
+
+  return (
+    <ReactModal
+      isOpen={isOpen}
+      onRequestClose={onClose}
+      style={modalStyles}
+      contentLabel="Memories"
+      ariaHideApp={false}
+    >
+      <div className="flex flex-col gap-4 font-dialog">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl text-[#a395b8] uppercase tracking-wide">{name}'s memories</h2>
+          <button onClick={onClose} className="text-[#a395b8] hover:text-white transition-colors">
+            ✕
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {memoryTypes.map((t) => (
+            <button
+              key={t.type}
+              className={
+                'px-3 py-1 border-2 ' +
+                (t.type === type
+                  ? 'border-white bg-white/20'
+                  : 'border-[#4a3b5b] hover:bg-white/10')
+              }
+              onClick={() => setType(t.type)}
+            >
+              {t.label} ({result?.memories.filter((m) => m.data.type === t.type).length ?? 0})
+            </button>
+          ))}
+          <button
+            className={
+              'px-3 py-1 border-2 ' +
+              (type === 'ranking'
+                ? 'border-white bg-white/20'
+                : 'border-[#4a3b5b] hover:bg-white/10')
+            }
+            onClick={() => setType('ranking')}
+          >
+            Ranking
+          </button>
+          <button
+            className={
+              'px-3 py-1 border-2 ' +
+              (type === 'reflectionLog'
+                ? 'border-white bg-white/20'
+                : 'border-[#4a3b5b] hover:bg-white/10')
+            }
+            onClick={() => setType('reflectionLog')}
+          >
+            Reflection log
+          </button>
+          {canEdit && !draft && (
+            <button
+              className="ml-auto px-3 py-1 border-2 border-white hover:bg-white/20"
+              onClick={() => setDraft({ description: '', importance: '5' })}
+            >
+              Write a memory
+            </button>
+          )}
+        </div>
+        {draft && (
+          <div className="flex flex-col gap-2 p-3 border-2 border-[#4a3b5b]">
+            <textarea
+              className="w-full h-24 px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+              placeholder={`Something ${name} should remember, in their words.`}
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            />
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2">
+                Importance (0 to 9)
+                <input
+                  type="number"
+                  className="w-16 px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+                  min={0}
+                  max={9}
+                  step={1}
+                  value={draft.importance}
+                  onChange={(e) => setDraft({ ...draft, importance: e.target.value })}
+                />
+              </label>
+              <button
+                className="ml-auto px-4 py-1 text-[#a395b8] hover:text-white"
+                onClick={() => setDraft(null)}
+              >
+                Cancel
+              </button>
+              <button
+                className="px-4 py-1 bg-white/10 hover:bg-white/20 border-2 border-white disabled:opacity-50"
+                disabled={isSaving || !draft.description.trim()}
+                onClick={() => void handleSave()}
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+        {type === 'reflectionLog' ? (
+          <ReflectionLog worldId={worldId} playerId={playerId} />
+        ) : result && type === 'ranking' ? (
+          <MemoryRanking
+            worldId={worldId}
+            playerId={playerId}
+            weights={result.weights}
+            canEdit={canEdit}
+          />
+        ) : (
+          <div className="flex flex-col gap-2 overflow-y-auto">
+            {result === undefined ? (
+              <p className="text-white/60">Loading...</p>
+            ) : result === null ? (
+              <p className="text-white/60">
+                Only {name}'s owner and the world's managers can see their memories.
+              </p>
+            ) : memories.length === 0 ? (
+              <p className="text-white/60">Nothing here yet.</p>
+            ) : (
+              memories.map((memory) => (
+                <div key={memory._id} className="flex flex-col gap-1 p-3 bg-white/5">
+                  <p>
+                    {memory.pinned && '📌 '}
+                    {memory.description}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-3 text-sm text-white/60">
+                    <span>Importance {memory.importance}</span>
+                    {memory.data.type === 'reflection' && (
+                      <span>Level {memory.data.level ?? 1}</span>
+                    )}
+                    <span>Created {new Date(memory._creationTime).toLocaleString()}</span>
+                    <span>Last recalled {new Date(memory.lastAccess).toLocaleString()}</span>
+                    {canEdit && (
+                      <span className="ml-auto flex gap-3">
+                        <button className="hover:text-white" onClick={() => void handlePin(memory)}>
+                          {memory.pinned ? 'Unpin' : 'Pin'}
+                        </button>
+                        <button
+                          className="hover:text-white"
+                          onClick={() =>
+                            setDraft({
+                              memoryId: memory._id,
+                              description: memory.description,
+                              importance: String(memory.importance),
+                            })
+                          }
+                        >
+                          Edit
+                        </button>
+                        <button
+                          className="hover:text-white"
+                          onClick={() => void handleDelete(memory)}
+                        >
+                          Delete
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  {memory.data.type === 'consolidation' && (
+                    <p className="text-sm text-white/60">
+                      The gist of {memory.data.replacedMemoryIds.length} older memories, from{' '}
+                      {memory.data.conversationIds.length}{' '}
+                      {memory.data.conversationIds.length === 1 ? 'conversation' : 'conversations'}
+                    </p>
+                  )}
+                  {memory.data.type === 'reflection' && (
+                    <RelatedMemories
+                      memoryIds={memory.data.relatedMemoryIds}
+                      byId={byId}
+                      depth={1}
+                    />
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </ReactModal>
+  );
+}
+
+// What a reflection was based on, following reflections on reflections down the chain.
+function RelatedMemories({
+  memoryIds,
+  byId,
+  depth,
+}: {
+  memoryIds: Id<'memories'>[];
+  byId: Map<Id<'memories'>, Memory>;
+  depth: number;
+}) {
+  if (memoryIds.length === 0) {
+    return null;
+  }
+  return (
+    <ul className="ml-4 pl-2 border-l-2 border-[#4a3b5b] text-sm text-white/80">
+      <li className="text-white/60">Based on:</li>
+      {memoryIds.map((memoryId, i) => {
+        const memory = byId.get(memoryId);
+        return (
+          <li key={`${memoryId}-${i}`}>
+            {!memory ? (
+              <i>A memory that's been forgotten</i>
+            ) : memory._id !== memoryId ? (
+              <>
+                <i>Only the gist is remembered:</i> {memory.description}
+              </>
+            ) : (
+              memory.description
+            )}
+            {memory?.data.type === 'reflection' && depth < MAX_CHAIN_DEPTH && (
+              <RelatedMemories
+                memoryIds={memory.data.relatedMemoryIds}
+                byId={byId}
+                depth={depth + 1}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
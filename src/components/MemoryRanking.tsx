@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { GameId } from '../../convex/aiTown/ids';
+import { MemoryScores, MemoryWeights, RankedMemory } from '../../convex/agent/memory';
+import { DEFAULT_MEMORY_WEIGHTS, MAX_MEMORY_WEIGHT } from '../../convex/constants';
+import { useSessionAction, useSessionMutation } from '../hooks/useSession';
+import { showError } from '../toasts';
+
+const scoreLabels: { score: keyof MemoryScores; label: string }[] = [
+  { score: 'relevance', label: 'Relevance' },
+  { score: 'keyword', label: 'Keywords' },
+  { score: 'importance', label: 'Importance' },
+  { score: 'recency', label: 'Recency' },
+];
+
+type Draft = Record<keyof MemoryWeights, string>;
+
+function toDraft(weights: MemoryWeights): Draft {
+  return {
+    relevance: String(weights.relevance),
+    keyword: String(weights.keyword),
+    importance: String(weights.importance),
+    recency: String(weights.recency),
+    recencyHalfLife: String(weights.recencyHalfLife),
+  };
+}
+
+type Props = {
+  worldId: Id<'worlds'>;
+  playerId: GameId<'players'>;
+  weights: MemoryWeights;
+  canEdit: boolean;
+};
+
+// How an agent ranks the memories it finds, and a search to see why it'd pick each one.
+export default function MemoryRanking({ worldId, playerId, weights, canEdit }: Props) {
+  const setMemoryWeights = useSessionMutation(api.memories.setMemoryWeights);
+  const previewMemorySearch = useSessionAction(api.memories.previewMemorySearch);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(weights));
+  const [isSaving, setIsSaving] = useState(false);
+  const [text, setText] = useState('');
+  const [results, setResults] = useState<RankedMemory[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Start over from the saved weights whenever they change. The query returns a new object
+  // each time, so compare them by value.
+  const weightsKey = JSON.stringify(weights);
+  useEffect(() => {
+    setDraft(toDraft(weights));
+  }, [weightsKey]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await setMemoryWeights({
+        worldId,
+        playerId,
+        weights: {
+          relevance: Number(draft.relevance),
+          keyword: Number(draft.keyword),
+          importance: Number(draft.importance),
+          recency: Number(draft.recency),
+          recencyHalfLife: Number(draft.recencyHalfLife),
+        },
+      });
+      toast.success('Weights saved.');
+    } catch (error) {
+      showError(error, 'Failed to save the weights.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  const handleSearch = async () => {
+    setIsSearching(true);
+    try {
+      setResults(await previewMemorySearch({ worldId, playerId, text }));
+    } catch (error) {
+      showError(error, 'Failed to search memories.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 overflow-y-auto">
+      <div className="flex flex-col gap-2 p-3 border-2 border-[#4a3b5b]">
+        <p className="text-sm text-white/60">
+          Each memory the agent finds gets a score from 0 to 1 for each of these, relative to the
+          others it found, and the ones with the highest weighted sum go into its prompt.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          {scoreLabels.map(({ score, label }) => (
+            <label key={score} className="flex items-center gap-2">
+              {label}
+              <input
+                type="number"
+                className="w-16 px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+                min={0}
+                max={MAX_MEMORY_WEIGHT}
+                step={0.1}
+                disabled={!canEdit}
+                value={draft[score]}
+                onChange={(e) => setDraft({ ...draft, [score]: e.target.value })}
+              />
+            </label>
+          ))}
+          <label className="flex items-center gap-2">
+            Recency half-life (hours)
+            <input
+              type="number"
+              className="w-20 px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+              min={1}
+              disabled={!canEdit}
+              value={draft.recencyHalfLife}
+              onChange={(e) => setDraft({ ...draft, recencyHalfLife: e.target.value })}
+            />
+          </label>
+        </div>
+        {canEdit && (
+          <div className="flex gap-3">
+            <button
+              className="ml-auto px-4 py-1 text-[#a395b8] hover:text-white"
+              onClick={() => setDraft(toDraft(DEFAULT_MEMORY_WEIGHTS))}
+            >
+              Defaults
+            </button>
+            <button
+              className="px-4 py-1 bg-white/10 hover:bg-white/20 border-2 border-white disabled:opacity-50"
+              disabled={isSaving}
+              onClick={() => void handleSave()}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </div>
+      {canEdit && (
+        <div className="flex flex-col gap-2">
+          <div className="flex gap-3">
+            <input
+              className="flex-grow px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+              placeholder="What would the agent be thinking about?"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && text.trim() && !isSearching) {
+                  void handleSearch();
+                }
+              }}
+            />
+            <button
+              className="px-4 py-1 bg-white/10 hover:bg-white/20 border-2 border-white disabled:opacity-50"
+              disabled={isSearching || !text.trim()}
+              onClick={() => void handleSearch()}
+            >
+              {isSearching ? 'Searching...' : 'Search'}
+            </button>
+          </div>
+          {results?.length === 0 && <p className="text-white/60">No memories found.</p>}
+          {results?.map(({ memory, overallScore, scores }) => (
+            <div key={memory._id} className="flex flex-col gap-1 p-3 bg-white/5">
+              <p>{memory.description}</p>
+              <p className="text-sm text-white/60">
+                {scores
+                  ? scoreLabels
+                      .map(({ score, label }) => `${label} ${scores[score].toFixed(2)}`)
+                      .join(' · ') + ` → ${overallScore.toFixed(2)}`
+                  : 'Pinned, so always included'}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
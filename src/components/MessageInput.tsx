@@ -1,9 +1,10 @@
 import clsx from 'clsx';
-import { useMutation, useQuery } from 'convex/react';
+import { useQuery } from 'convex/react';
 import { KeyboardEvent, useRef, useState } from 'react';
 import { api } from '../../convex/_generated/api';
 import { Id } from '../../convex/_generated/dataModel';
 import { useSendInput } from '../hooks/sendInput';
+import { useSessionMutation } from '../hooks/useSession';
 import { Player } from '../../convex/aiTown/player';
 import { Conversation } from '../../convex/aiTown/conversation';
 
@@ -23,7 +24,7 @@ export function MessageInput({
     ?.name;
   const inputRef = useRef<HTMLParagraphElement>(null);
   const inflightUuid = useRef<string | undefined>();
-  const writeMessage = useMutation(api.messages.writeMessage);
+  const writeMessage = useSessionMutation(api.messages.writeMessage);
   const startTyping = useSendInput(engineId, 'startTyping');
   const currentlyTyping = conversation.isTyping;
 
@@ -85,7 +85,10 @@ export function Messages({
           </time>
         </div>
         <div className={clsx('bubble', m.author === humanPlayerId && 'bubble-mine')}>
-          <p className="bg-white -mx-3 -my-1">{m.text}</p>
+          <p className="bg-white -mx-3 -my-1">
+            {m.text}
+            {m.draft && <span className="animate-pulse">▍</span>}
+          </p>
         </div>
       </div>
     );
@@ -1,6 +1,7 @@
+import { useState } from 'react';
 import { useQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
-import { Id } from '../../convex/_generated/dataModel';
+import { Doc, Id } from '../../convex/_generated/dataModel';
 import closeImg from '../../assets/close.svg';
 import { SelectElement } from './Player';
 import { Messages } from './Messages';
@@ -8,6 +9,18 @@ import { toastOnError } from '../toasts';
 import { useSendInput } from '../hooks/sendInput';
 import { GameId } from '../../convex/aiTown/ids';
 import { ServerGame } from '../hooks/serverGame';
+import { useUserStatus } from '../hooks/useSession';
+import { DEFAULT_WORLD_CONFIG } from '../../convex/aiTown/worldConfig';
+import { formatMinuteOfDay } from '../../convex/aiTown/gameClock';
+import { currentScheduleEntry } from '../../convex/aiTown/schedule';
+import { describeAffinity } from '../../convex/agent/relationships';
+import MemoryInspectorDialog from './MemoryInspectorDialog';
+
+const goalStatusEmoji: Record<Doc<'goals'>['status'], string> = {
+  active: '🎯',
+  achieved: '✅',
+  abandoned: '✖️',
+};
 
 export default function PlayerDetails({
   worldId,
@@ -22,7 +35,9 @@ export default function PlayerDetails({
   playerId?: GameId<'players'>;
   setSelectedElement: SelectElement;
 }) {
-  const humanTokenIdentifier = useQuery(api.world.userStatus, { worldId });
+  const humanTokenIdentifier = useUserStatus(worldId)?.tokenIdentifier ?? null;
+  const { maxConversationParticipants } =
+    useQuery(api.world.worldConfig, { worldId })?.config ?? DEFAULT_WORLD_CONFIG;
 
   const players = [...game.world.players.values()];
   const humanPlayer = players.find((p) => p.human === humanTokenIdentifier);
@@ -43,9 +58,18 @@ export default function PlayerDetails({
     playerId ? { worldId, playerId } : 'skip',
   );
 
+  const relationships = useQuery(
+    api.world.playerRelationships,
+    playerId ? { worldId, playerId } : 'skip',
+  );
+
+  const goals = useQuery(api.world.playerGoals, playerId ? { worldId, playerId } : 'skip');
+
   const playerDescription = playerId && game.playerDescriptions.get(playerId);
+  const [memoriesOpen, setMemoriesOpen] = useState(false);
 
   const startConversation = useSendInput(engineId, 'startConversation');
+  const inviteToConversation = useSendInput(engineId, 'inviteToConversation');
   const acceptInvite = useSendInput(engineId, 'acceptInvite');
   const rejectInvite = useSendInput(engineId, 'rejectInvite');
   const leaveConversation = useSendInput(engineId, 'leaveConversation');
@@ -61,6 +85,15 @@ export default function PlayerDetails({
     return null;
   }
   const isMe = humanPlayer && player.id === humanPlayer.id;
+  const zone = game.worldMap.zoneAt(player.position);
+  const agent = [...game.world.agents.values()].find((a) => a.playerId === player.id);
+  const scheduled =
+    agent?.schedule && game.world.clock
+      ? currentScheduleEntry(
+          agent.schedule.entries,
+          game.world.clock.timeAt(Date.now()).minuteOfDay,
+        )
+      : undefined;
   const canInvite = !isMe && !playerConversation && humanPlayer && !humanConversation;
   const sameConversation =
     !isMe &&
@@ -73,6 +106,13 @@ export default function PlayerDetails({
     humanPlayer && humanConversation && humanConversation.participants.get(humanPlayer.id)?.status;
   const playerStatus = playerConversation && playerConversation.participants.get(playerId)?.status;
 
+  const canInviteToConversation =
+    !isMe &&
+    !playerConversation &&
+    humanConversation &&
+    humanStatus?.kind === 'participating' &&
+    humanConversation.participants.size < maxConversationParticipants;
+
   const haveInvite = sameConversation && humanStatus?.kind === 'invited';
   const waitingForAccept =
     sameConversation && playerConversation.participants.get(playerId)?.status.kind === 'invited';
@@ -91,6 +131,18 @@ export default function PlayerDetails({
     console.log(`Starting conversation`);
     await toastOnError(startConversation({ playerId: humanPlayer.id, invitee: playerId }));
   };
+  const onInviteToConversation = async () => {
+    if (!humanPlayer || !humanConversation || !playerId) {
+      return;
+    }
+    await toastOnError(
+      inviteToConversation({
+        playerId: humanPlayer.id,
+        conversationId: humanConversation.id,
+        invitee: playerId,
+      }),
+    );
+  };
   const onAcceptInvite = async () => {
     if (!humanPlayer || !humanConversation || !playerId) {
       return;
@@ -158,6 +210,19 @@ export default function PlayerDetails({
           </div>
         </a>
       )}
+      {canInviteToConversation && (
+        <a
+          className={
+            'mt-6 button text-white shadow-solid text-xl cursor-pointer pointer-events-auto' +
+            pendingSuffix('inviteToConversation')
+          }
+          onClick={onInviteToConversation}
+        >
+          <div className="h-full bg-clay-700 text-center">
+            <span>Invite to conversation</span>
+          </div>
+        </a>
+      )}
       {waitingForAccept && (
         <a className="mt-6 button text-white shadow-solid text-xl cursor-pointer pointer-events-auto opacity-50">
           <div className="h-full bg-clay-700 text-center">
@@ -216,6 +281,78 @@ export default function PlayerDetails({
           <h2 className="bg-brown-700 text-lg text-center">{player.activity.description}</h2>
         </div>
       )}
+      {zone && (
+        <div className="box mt-6">
+          <h2 className="bg-brown-700 text-lg text-center">📍 {zone.name}</h2>
+        </div>
+      )}
+      {scheduled && (
+        <div className="box mt-6">
+          <h2 className="bg-brown-700 text-lg text-center">
+            🗓️ {formatMinuteOfDay(scheduled.start)} {scheduled.description}
+          </h2>
+        </div>
+      )}
+      {player.inventory && player.inventory.length > 0 && (
+        <div className="box mt-6">
+          <h2 className="bg-brown-700 text-lg text-center">🎒 {player.inventory.join(', ')}</h2>
+        </div>
+      )}
+      {relationships && relationships.length > 0 && (
+        <div className="box mt-6">
+          <h2 className="bg-brown-700 text-lg text-center">Relationships</h2>
+          <ul className="bg-brown-700 text-base px-2 pb-2">
+            {relationships.map((relationship) => {
+              const otherPlayerId = relationship.otherPlayerId as GameId<'players'>;
+              const name = game.playerDescriptions.get(otherPlayerId)?.name ?? 'Someone';
+              return (
+                <li key={relationship._id} className="mt-2">
+                  <b>{name}</b>: {describeAffinity(relationship.affinity)},{' '}
+                  {relationship.familiarity} {relationship.familiarity === 1 ? 'chat' : 'chats'}
+                  <p className="text-sm leading-tight">{relationship.description}</p>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      {goals && goals.active.length + goals.finished.length > 0 && (
+        <div className="box mt-6">
+          <h2 className="bg-brown-700 text-lg text-center">Goals</h2>
+          <ul className="bg-brown-700 text-base px-2 pb-2">
+            {[...goals.active, ...goals.finished].map((goal, idx) => (
+              <li
+                key={goal._id}
+                className={'mt-2' + (goal.status === 'active' ? '' : ' opacity-60')}
+              >
+                {goalStatusEmoji[goal.status]} {goal.description}
+                {idx === 0 && goal.status === 'active' && <b> (current)</b>}
+                {goal.zone && <span> 📍 {goal.zone}</span>}
+                {goal.reason && <p className="text-sm leading-tight">{goal.reason}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {agent && (
+        <>
+          <a
+            className="mt-6 button text-white shadow-solid text-xl cursor-pointer pointer-events-auto"
+            onClick={() => setMemoriesOpen(true)}
+          >
+            <div className="h-full bg-clay-700 text-center">
+              <span>Memories</span>
+            </div>
+          </a>
+          <MemoryInspectorDialog
+            worldId={worldId}
+            playerId={player.id}
+            name={playerDescription?.name ?? 'Someone'}
+            isOpen={memoriesOpen}
+            onClose={() => setMemoriesOpen(false)}
+          />
+        </>
+      )}
       <div className="desc my-6">
         <p className="leading-tight -m-4 bg-brown-700 text-lg">
           {!isMe && playerDescription?.description}
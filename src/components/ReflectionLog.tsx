@@ -0,0 +1,60 @@
+import { api } from '../../convex/_generated/api';
+import { Doc, Id } from '../../convex/_generated/dataModel';
+import { GameId } from '../../convex/aiTown/ids';
+import { useSessionQuery } from '../hooks/useSession';
+
+const triggerLabels: Record<Doc<'reflectionRuns'>['trigger'], string> = {
+  importance: 'Importance added up',
+  event: 'Something important happened',
+  interval: "It's been a while",
+};
+
+const outcomeLabels: Record<Doc<'reflectionRuns'>['outcome'], string> = {
+  reflected: 'Reflected',
+  skipped: 'Not enough to reflect on',
+  overBudget: 'Over the LLM budget',
+  unparseable: "Couldn't make sense of the LLM's insights",
+  failed: 'Failed',
+};
+
+type Props = {
+  worldId: Id<'worlds'>;
+  playerId: GameId<'players'>;
+};
+
+// When an agent last reflected, what set it off, and how it went.
+export default function ReflectionLog({ worldId, playerId }: Props) {
+  const runs = useSessionQuery(api.memories.listReflectionRuns, { worldId, playerId });
+  if (runs === undefined) {
+    return <p className="text-white/60">Loading...</p>;
+  }
+  if (runs === null) {
+    return <p className="text-white/60">You can't see this agent's reflections.</p>;
+  }
+  if (runs.length === 0) {
+    return <p className="text-white/60">Hasn't reflected yet.</p>;
+  }
+  return (
+    <div className="flex flex-col gap-2 overflow-y-auto">
+      {runs.map((run) => (
+        <div key={run._id} className="flex flex-col gap-1 p-3 bg-white/5">
+          <p>
+            {outcomeLabels[run.outcome]}
+            {run.outcome === 'reflected' &&
+              `: ${run.insights} ${run.insights === 1 ? 'insight' : 'insights'}`}
+          </p>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-white/60">
+            <span>{new Date(run._creationTime).toLocaleString()}</span>
+            <span>{triggerLabels[run.trigger]}</span>
+            <span>Level {run.level}</span>
+            <span>
+              On {run.memories} {run.level === 1 ? 'memories' : 'reflections'}
+            </span>
+            {run.attempts > 1 && <span>{run.attempts} attempts</span>}
+          </div>
+          {run.error && <p className="text-sm text-red-300">{run.error}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
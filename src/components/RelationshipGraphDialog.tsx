@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react';
+import ReactModal from 'react-modal';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { GameId } from '../../convex/aiTown/ids';
+import { forceLayout } from '../../convex/util/forceLayout';
+import { useServerGame } from '../hooks/serverGame';
+import { useWorldStatus } from '../hooks/useWorldStatus';
+import { Messages } from './Messages';
+
+const modalStyles = {
+  overlay: {
+    backgroundColor: 'rgb(0, 0, 0, 75%)',
+    zIndex: 12,
+  },
+  content: {
+    top: '50%',
+    left: '50%',
+    right: 'auto',
+    bottom: 'auto',
+    marginRight: '-50%',
+    transform: 'translate(-50%, -50%)',
+    maxWidth: '80%',
+    maxHeight: '90%',
+    border: '10px solid rgb(23, 20, 33)',
+    borderRadius: '0',
+    background: 'rgb(35, 38, 58)',
+    color: 'white',
+    fontFamily: '"Upheaval Pro", "sans-serif"',
+  },
+};
+
+const WIDTH = 640;
+const HEIGHT = 420;
+
+// Recent conversations count for more: an edge's pull halves every hour since the pair
+// last talked, down to a fifth of what their conversation count alone would give it.
+const RECENCY_HALF_LIFE = 60 * 60 * 1000;
+const MIN_RECENCY = 0.2;
+
+function recency(lastEnded: number, now: number) {
+  return Math.max(MIN_RECENCY, 0.5 ** ((now - lastEnded) / RECENCY_HALF_LIFE));
+}
+
+function formatAge(ms: number) {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+type Props = {
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+type Pair = { player1: GameId<'players'>; player2: GameId<'players'> };
+
+// Who talks to whom in the current world, to spot cliques and players left out. Clicking
+// an edge shows that pair's conversations.
+export default function RelationshipGraphDialog({ isOpen, onClose }: Props) {
+  const worldStatus = useWorldStatus();
+  const worldId = worldStatus?.worldId;
+  const game = useServerGame(isOpen ? worldId : undefined);
+  const graph = useQuery(api.world.conversationGraph, isOpen && worldId ? { worldId } : 'skip');
+  const [selected, setSelected] = useState<Pair | null>(null);
+  const conversations = useQuery(
+    api.world.conversationsBetween,
+    worldId && selected ? { worldId, ...selected } : 'skip',
+  );
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelected(null);
+    }
+  }, [isOpen]);
+
+  // The game updates every step, so key the layout on who's in the world instead.
+  const playerKey = game ? [...game.world.players.keys()].sort().join(',') : '';
+  const playerIds = useMemo(
+    () => (playerKey ? (playerKey.split(',') as GameId<'players'>[]) : []),
+    [playerKey],
+  );
+  const edges = useMemo(() => {
+    const now = Date.now();
+    // Players can leave before the graph catches up.
+    const present = new Set<string>(playerIds);
+    const current = (graph ?? []).filter((e) => present.has(e.player1) && present.has(e.player2));
+    return current.map((edge) => {
+      const edgeRecency = recency(edge.lastEnded, now);
+      return {
+        ...edge,
+        player1: edge.player1 as GameId<'players'>,
+        player2: edge.player2 as GameId<'players'>,
+        weight: edge.conversations * edgeRecency,
+        recency: edgeRecency,
+      };
+    });
+  }, [graph, playerIds]);
+  // Only lay the graph out again when who's in it or who's talked changes.
+  const positions = useMemo(() => {
+    const index = new Map(playerIds.map((id, i) => [id, i]));
+    const maxWeight = Math.max(1, ...edges.map((e) => e.weight));
+    return forceLayout(
+      playerIds.length,
+      edges.map((e) => ({
+        source: index.get(e.player1)!,
+        target: index.get(e.player2)!,
+        weight: e.weight / maxWeight,
+      })),
+      WIDTH,
+      HEIGHT,
+    );
+  }, [playerIds, edges]);
+  const positionOf = (id: GameId<'players'>) => positions[playerIds.indexOf(id)];
+  const nameOf = (id: GameId<'players'>) => game?.playerDescriptions.get(id)?.name ?? 'Unknown';
+  const maxConversations = Math.max(1, ...edges.map((e) => e.conversations));
+  const isSelected = (edge: Pair) =>
+    selected?.player1 === edge.player1 && selected?.player2 === edge.player2;
+
+  return (
+    <ReactModal
+      isOpen={isOpen}
+      onRequestClose={onClose}
+      style={modalStyles}
+      contentLabel="Relationship graph"
+      ariaHideApp={false}
+    >
+      <div className="flex flex-col gap-4 font-dialog">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl text-[#a395b8] uppercase tracking-wide">Who talks to whom</h2>
+          <button onClick={onClose} className="text-[#a395b8] hover:text-white transition-colors">
+            ✕
+          </button>
+        </div>
+        {!game || !graph ? (
+          <p className="text-white/60">Loading...</p>
+        ) : (
+          <div className="flex gap-4 min-h-0">
+            <svg
+              width={WIDTH}
+              height={HEIGHT}
+              className="shrink-0 bg-[#2d2438] border-2 border-[#4a3b5b]"
+            >
+              {edges.map((edge) => {
+                const from = positionOf(edge.player1);
+                const to = positionOf(edge.player2);
+                const width = 1 + (5 * edge.conversations) / maxConversations;
+                return (
+                  <g
+                    key={`${edge.player1}-${edge.player2}`}
+                    className="cursor-pointer"
+                    onClick={() => setSelected({ player1: edge.player1, player2: edge.player2 })}
+                  >
+                    <title>
+                      {nameOf(edge.player1)} and {nameOf(edge.player2)}: {edge.conversations}{' '}
+                      {edge.conversations === 1 ? 'conversation' : 'conversations'}, last{' '}
+                      {formatAge(Date.now() - edge.lastEnded)}
+                    </title>
+                    <line
+                      x1={from.x}
+                      y1={from.y}
+                      x2={to.x}
+                      y2={to.y}
+                      stroke={isSelected(edge) ? '#f5c542' : '#a395b8'}
+                      strokeOpacity={isSelected(edge) ? 1 : edge.recency}
+                      strokeWidth={width}
+                    />
+                    {/* A wider invisible line, so thin edges are easy to click. */}
+                    <line
+                      x1={from.x}
+                      y1={from.y}
+                      x2={to.x}
+                      y2={to.y}
+                      stroke="transparent"
+                      strokeWidth={12}
+                    />
+                  </g>
+                );
+              })}
+              {playerIds.map((id, i) => (
+                <g key={id}>
+                  <circle
+                    cx={positions[i].x}
+                    cy={positions[i].y}
+                    r={8}
+                    fill={game.world.players.get(id)?.human ? '#f5c542' : '#ffffff'}
+                  />
+                  <text
+                    x={positions[i].x}
+                    y={positions[i].y - 12}
+                    textAnchor="middle"
+                    fill="white"
+                    fontSize={14}
+                  >
+                    {nameOf(id)}
+                  </text>
+                </g>
+              ))}
+            </svg>
+            <div className="w-80 flex flex-col gap-2 overflow-y-auto" style={{ height: HEIGHT }}>
+              {!selected ? (
+                <p className="text-white/60">
+                  Thicker lines mean more conversations, brighter ones more recent. Click a line to
+                  read what they talked about.
+                </p>
+              ) : (
+                <>
+                  <h3 className="text-lg">
+                    {nameOf(selected.player1)} and {nameOf(selected.player2)}
+                  </h3>
+                  {conversations === undefined && <p className="text-white/60">Loading...</p>}
+                  {conversations?.length === 0 && (
+                    <p className="text-white/60">They haven't said anything to each other yet.</p>
+                  )}
+                  {worldStatus &&
+                    conversations?.map((conversation) => (
+                      <div key={conversation._id} className="flex flex-col gap-1">
+                        <p className="text-sm text-white/60">
+                          {new Date(conversation.created).toLocaleString()}
+                        </p>
+                        <Messages
+                          worldId={worldStatus.worldId}
+                          engineId={worldStatus.engineId}
+                          inConversationWithMe={false}
+                          conversation={{ kind: 'archived', doc: conversation }}
+                        />
+                      </div>
+                    ))}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </ReactModal>
+  );
+}
@@ -0,0 +1,63 @@
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { MAX_REPLAY_DURATION } from '../../convex/constants';
+import { useSessionQuery } from '../hooks/useSession';
+
+export type Replay = { snapshotId: Id<'worldSnapshots'>; until: number };
+
+// Debug controls for scrubbing through a world's history from its snapshots, for whoever can
+// manage the world.
+export function ReplayControls(props: {
+  worldId: Id<'worlds'>;
+  replay?: Replay;
+  setReplay: (replay?: Replay) => void;
+}) {
+  const snapshots = useSessionQuery(api.aiTown.replay.listSnapshots, { worldId: props.worldId });
+  if (!snapshots || snapshots.length === 0) {
+    return null;
+  }
+  const index = snapshots.findIndex((s) => s._id === props.replay?.snapshotId);
+  const snapshot = index === -1 ? undefined : snapshots[index];
+  // Snapshots are newest first, so scrub up to the next one or as far as we can replay.
+  const end = snapshot
+    ? Math.min(snapshots[index - 1]?.time ?? Date.now(), snapshot.time + MAX_REPLAY_DURATION)
+    : undefined;
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-10 bg-black/70 text-white px-4 py-2 rounded pointer-events-auto"
+      style={{ fontSize: '12px', width: '320px' }}
+    >
+      <select
+        className="w-full bg-black text-white"
+        value={props.replay?.snapshotId ?? ''}
+        onChange={(e) => {
+          const selected = snapshots.find((s) => s._id === e.target.value);
+          props.setReplay(selected && { snapshotId: selected._id, until: selected.time });
+        }}
+      >
+        <option value="">Live</option>
+        {snapshots.map((s) => (
+          <option key={s._id} value={s._id}>
+            Snapshot at {new Date(s.time).toLocaleString()}
+          </option>
+        ))}
+      </select>
+      {snapshot && props.replay && end !== undefined && (
+        <>
+          <input
+            className="w-full"
+            type="range"
+            min={snapshot.time}
+            max={end}
+            step={1000}
+            value={props.replay.until}
+            onChange={(e) =>
+              props.setReplay({ snapshotId: snapshot._id, until: Number(e.target.value) })
+            }
+          />
+          <p>Replaying {new Date(props.replay.until).toLocaleTimeString()}</p>
+        </>
+      )}
+    </div>
+  );
+}
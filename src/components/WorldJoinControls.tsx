@@ -1,5 +1,5 @@
 import { useMemo, useState } from 'react';
-import { useConvex, useMutation, useQuery } from 'convex/react';
+import { useConvex } from 'convex/react';
 import { ConvexError } from 'convex/values';
 import { toast } from 'react-toastify';
 import { api } from '../../convex/_generated/api';
@@ -7,6 +7,8 @@ import Button from '../ui/buttons/Button';
 import takeOverImg from '../../assets/ui/icon-takeover.svg';
 import { waitForInput } from '../hooks/sendInput';
 import { useServerGame } from '../hooks/serverGame';
+import { useSessionMutation, useUserStatus } from '../hooks/useSession';
+import { useWorldStatus } from '../hooks/useWorldStatus';
 import { useCharacters } from '../lib/characterRegistry';
 import JoinWorldDialog from './JoinWorldDialog';
 
@@ -18,18 +20,18 @@ export default function WorldJoinControls({ onCreateAgent }: Props) {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [isLeaving, setIsLeaving] = useState(false);
-  const worldStatus = useQuery(api.world.defaultWorldStatus);
+  const worldStatus = useWorldStatus();
   const worldId = worldStatus?.worldId;
   const game = useServerGame(worldId);
   const { characters } = useCharacters();
-  const humanTokenIdentifier = useQuery(api.world.userStatus, worldId ? { worldId } : 'skip');
+  const humanTokenIdentifier = useUserStatus(worldId)?.tokenIdentifier;
   const userPlayerId =
     game && humanTokenIdentifier
       ? [...game.world.players.values()].find((p) => p.human === humanTokenIdentifier)?.id
       : undefined;
   const isPlaying = !!userPlayerId;
-  const takeOverAgent = useMutation(api.world.takeOverAgent);
-  const leaveWorld = useMutation(api.world.leaveWorld);
+  const takeOverAgent = useSessionMutation(api.world.takeOverAgent);
+  const leaveWorld = useSessionMutation(api.world.leaveWorld);
   const convex = useConvex();
 
   const characterByName = useMemo(
@@ -39,8 +41,7 @@ export default function WorldJoinControls({ onCreateAgent }: Props) {
 
   const takeoverAgents = useMemo(() => {
     if (!game) return [];
-    const userToken =
-      humanTokenIdentifier && humanTokenIdentifier !== 'skip' ? humanTokenIdentifier : null;
+    const userToken = humanTokenIdentifier ?? null;
     return [...game.world.agents.values()].flatMap((agent) => {
       const agentDescription = game.agentDescriptions.get(agent.id);
       if (!agentDescription || agentDescription.isCustom !== true) return [];
@@ -107,6 +108,10 @@ export default function WorldJoinControls({ onCreateAgent }: Props) {
   const isDisabled = !worldId || game === undefined || isBusy;
   const onClick = () => {
     if (isDisabled) return;
+    if (!humanTokenIdentifier) {
+      toast.error('Log in to take over an agent.');
+      return;
+    }
     if (isPlaying) {
       void handleLeave();
     } else {
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { toast } from 'react-toastify';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { useSessionMutation, useSessionQuery } from '../hooks/useSession';
+import { showError } from '../toasts';
+
+type Props = {
+  onEnter: (worldId: Id<'worlds'>) => void;
+};
+
+const statusLabels = {
+  running: 'Running',
+  inactive: 'Idle',
+  stoppedByDeveloper: 'Stopped',
+};
+
+// Lists every world with how many people are in it, and lets logged in players create
+// worlds of their own and start, stop or delete the ones they created.
+export default function WorldLobby({ onEnter }: Props) {
+  const worlds = useSessionQuery(api.world.listWorlds, {});
+  const user = useSessionQuery(api.auth.currentUser, {});
+  const startWorld = useSessionMutation(api.world.startWorld);
+  const stopWorld = useSessionMutation(api.world.stopWorld);
+  const deleteWorld = useSessionMutation(api.world.deleteWorld);
+  const [confirmingDelete, setConfirmingDelete] = useState<Id<'worlds'> | null>(null);
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      showError(error, fallback);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col gap-4 font-dialog text-white">
+      <div className="max-h-[40vh] overflow-y-auto flex flex-col gap-2">
+        {worlds === undefined && <p className="text-center text-white/60">Loading worlds...</p>}
+        {worlds?.length === 0 && (
+          <p className="text-center text-white/60">No worlds yet. Create one below!</p>
+        )}
+        {worlds?.map((world) => (
+          <div
+            key={world.worldId}
+            className="flex items-center gap-3 px-4 py-3 bg-[#2d2438] border-4 border-[#4a3b5b]"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-xl truncate">{world.name}</div>
+              <div className="text-sm text-[#a395b8]">
+                {statusLabels[world.status]} · {world.numHumans}{' '}
+                {world.numHumans === 1 ? 'player' : 'players'} · {world.numAgents}{' '}
+                {world.numAgents === 1 ? 'agent' : 'agents'} · {world.map}
+              </div>
+            </div>
+            {world.canManage &&
+              (world.status === 'stoppedByDeveloper' ? (
+                <button
+                  className="px-3 py-1 border-2 border-[#4a3b5b] hover:bg-[#4a3b5b]"
+                  onClick={() =>
+                    void run(() => startWorld({ worldId: world.worldId }), 'Failed to start world.')
+                  }
+                >
+                  Start
+                </button>
+              ) : (
+                <button
+                  className="px-3 py-1 border-2 border-[#4a3b5b] hover:bg-[#4a3b5b]"
+                  onClick={() =>
+                    void run(() => stopWorld({ worldId: world.worldId }), 'Failed to stop world.')
+                  }
+                >
+                  Stop
+                </button>
+              ))}
+            {world.canManage &&
+              !world.isDefault &&
+              (confirmingDelete === world.worldId ? (
+                <button
+                  className="px-3 py-1 border-2 border-red-500 text-red-400 hover:bg-red-500/20"
+                  onClick={() => {
+                    setConfirmingDelete(null);
+                    void run(
+                      () => deleteWorld({ worldId: world.worldId }),
+                      'Failed to delete world.',
+                    );
+                  }}
+                >
+                  Really delete?
+                </button>
+              ) : (
+                <button
+                  className="px-3 py-1 border-2 border-[#4a3b5b] hover:bg-[#4a3b5b]"
+                  onClick={() => setConfirmingDelete(world.worldId)}
+                >
+                  Delete
+                </button>
+              ))}
+            <button
+              className="px-4 py-1 bg-white/10 hover:bg-white/20 border-2 border-white disabled:opacity-50"
+              disabled={world.status === 'stoppedByDeveloper'}
+              onClick={() => onEnter(world.worldId)}
+            >
+              Enter
+            </button>
+          </div>
+        ))}
+      </div>
+      {user ? (
+        <CreateWorldForm onCreated={onEnter} />
+      ) : (
+        user === null && (
+          <p className="text-center text-white/60">Log in to create a world of your own.</p>
+        )
+      )}
+    </div>
+  );
+}
+
+function CreateWorldForm({ onCreated }: { onCreated: (worldId: Id<'worlds'>) => void }) {
+  const options = useQuery(api.world.worldOptions);
+  const createWorld = useSessionMutation(api.world.createWorld);
+  const [name, setName] = useState('');
+  const [map, setMap] = useState<string>();
+  const [characters, setCharacters] = useState<string[]>([]);
+  const [idleMinutes, setIdleMinutes] = useState<number>();
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Start with every character and the default timeout once we know what they are.
+  useEffect(() => {
+    if (options) {
+      setMap((map) => map ?? options.maps[0]);
+      setCharacters(options.characters);
+      setIdleMinutes(options.idleTimeout.default / 60000);
+    }
+  }, [options]);
+
+  if (!options) {
+    return null;
+  }
+
+  const toggleCharacter = (character: string) => {
+    setCharacters((prev) =>
+      prev.includes(character) ? prev.filter((c) => c !== character) : [...prev, character],
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error('Name your world first.');
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const worldId = await createWorld({
+        name: name.trim(),
+        map,
+        characters,
+        idleTimeout: idleMinutes !== undefined ? idleMinutes * 60000 : undefined,
+      });
+      setName('');
+      onCreated(worldId);
+    } catch (error) {
+      showError(error, 'Failed to create world.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3 px-4 py-3 bg-[#23202b] border-4 border-[#4a3b5b]">
+      <h2 className="text-xl text-[#a395b8] uppercase tracking-wide">New world</h2>
+      <div className="flex flex-wrap gap-3">
+        <input
+          className="flex-1 min-w-[12rem] px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+          placeholder="World name"
+          maxLength={40}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select
+          className="px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+          value={map}
+          onChange={(e) => setMap(e.target.value)}
+        >
+          {options.maps.map((m) => (
+            <option key={m} value={m}>
+              {m}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          Idle after
+          <input
+            type="number"
+            className="w-20 px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+            min={options.idleTimeout.min / 60000}
+            max={options.idleTimeout.max / 60000}
+            value={idleMinutes ?? ''}
+            onChange={(e) => setIdleMinutes(e.target.value ? Number(e.target.value) : undefined)}
+          />
+          min
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.characters.map((character) => (
+          <label key={character} className="flex items-center gap-1 text-sm">
+            <input
+              type="checkbox"
+              checked={characters.includes(character)}
+              onChange={() => toggleCharacter(character)}
+            />
+            {character}
+          </label>
+        ))}
+      </div>
+      <button
+        className="self-end px-6 py-2 bg-white/10 hover:bg-white/20 border-2 border-white disabled:opacity-50"
+        disabled={isCreating}
+        onClick={() => void handleCreate()}
+      >
+        {isCreating ? 'Creating...' : 'Create world'}
+      </button>
+    </div>
+  );
+}
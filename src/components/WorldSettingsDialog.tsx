@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import ReactModal from 'react-modal';
+import { useQuery } from 'convex/react';
+import { toast } from 'react-toastify';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import {
+  DEFAULT_WORLD_CONFIG,
+  WorldConfig,
+  WorldConfigOverrides,
+  worldConfigSettings,
+} from '../../convex/aiTown/worldConfig';
+import { useSessionMutation } from '../hooks/useSession';
+import { showError } from '../toasts';
+
+const modalStyles = {
+  overlay: {
+    backgroundColor: 'rgb(0, 0, 0, 75%)',
+    zIndex: 12,
+  },
+  content: {
+    top: '50%',
+    left: '50%',
+    right: 'auto',
+    bottom: 'auto',
+    marginRight: '-50%',
+    transform: 'translate(-50%, -50%)',
+    maxWidth: '60%',
+    maxHeight: '80%',
+    border: '10px solid rgb(23, 20, 33)',
+    borderRadius: '0',
+    background: 'rgb(35, 38, 58)',
+    color: 'white',
+    fontFamily: '"Upheaval Pro", "sans-serif"',
+  },
+};
+
+type Props = {
+  worldId: Id<'worlds'>;
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+type Key = keyof WorldConfig;
+const keys = Object.keys(worldConfigSettings) as Key[];
+
+// Durations are edited in seconds but stored in milliseconds.
+function toInput(key: Key, value: number) {
+  return String(worldConfigSettings[key].kind === 'duration' ? value / 1000 : value);
+}
+function fromInput(key: Key, value: string) {
+  const number = Number(value);
+  return worldConfigSettings[key].kind === 'duration' ? number * 1000 : number;
+}
+
+// Lets a world's admins change its rules while it runs.
+export default function WorldSettingsDialog({ worldId, isOpen, onClose }: Props) {
+  const worldConfig = useQuery(api.world.worldConfig, isOpen ? { worldId } : 'skip');
+  const updateWorldConfig = useSessionMutation(api.world.updateWorldConfig);
+  const [values, setValues] = useState<Record<Key, string>>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start editing from the current rules each time the dialog opens.
+  useEffect(() => {
+    if (!isOpen) {
+      setValues(undefined);
+    } else if (worldConfig && !values) {
+      setValues(
+        Object.fromEntries(
+          keys.map((key) => [key, toInput(key, worldConfig.config[key])]),
+        ) as Record<Key, string>,
+      );
+    }
+  }, [isOpen, worldConfig, values]);
+
+  const handleSave = async () => {
+    if (!values) {
+      return;
+    }
+    // Only store the rules that differ from the defaults, so the rest follow them.
+    const overrides: WorldConfigOverrides = {};
+    for (const key of keys) {
+      const value = fromInput(key, values[key]);
+      if (value !== DEFAULT_WORLD_CONFIG[key]) {
+        overrides[key] = value;
+      }
+    }
+    setIsSaving(true);
+    try {
+      await updateWorldConfig({ worldId, overrides });
+      toast.success('Saved! The new rules apply from the next step.');
+      onClose();
+    } catch (error) {
+      showError(error, 'Failed to save settings.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ReactModal
+      isOpen={isOpen}
+      onRequestClose={onClose}
+      style={modalStyles}
+      contentLabel="World settings"
+      ariaHideApp={false}
+    >
+      <div className="flex flex-col gap-4 font-dialog">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl text-[#a395b8] uppercase tracking-wide">World settings</h2>
+          <button onClick={onClose} className="text-[#a395b8] hover:text-white transition-colors">
+            ✕
+          </button>
+        </div>
+        {!values ? (
+          <p className="text-white/60">Loading...</p>
+        ) : (
+          <div className="grid grid-cols-[1fr_auto_auto] items-center gap-x-3 gap-y-2">
+            {keys.map((key) => {
+              const setting = worldConfigSettings[key];
+              const isDefault = fromInput(key, values[key]) === DEFAULT_WORLD_CONFIG[key];
+              return (
+                <label key={key} className="contents">
+                  <span>
+                    {setting.label}
+                    {setting.kind === 'duration' && ' (seconds)'}
+                  </span>
+                  <input
+                    type="number"
+                    className="w-24 px-2 py-1 bg-[#2d2438] border-2 border-[#4a3b5b]"
+                    min={toInput(key, setting.min)}
+                    max={toInput(key, setting.max)}
+                    step={setting.kind === 'probability' ? 0.05 : 1}
+                    value={values[key]}
+                    onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                  />
+                  <button
+                    className="text-sm text-[#a395b8] hover:text-white disabled:invisible"
+                    disabled={isDefault}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setValues({ ...values, [key]: toInput(key, DEFAULT_WORLD_CONFIG[key]) });
+                    }}
+                  >
+                    Reset
+                  </button>
+                </label>
+              );
+            })}
+          </div>
+        )}
+        <button
+          className="self-end px-6 py-2 bg-white/10 hover:bg-white/20 border-2 border-white disabled:opacity-50"
+          disabled={!values || isSaving}
+          onClick={() => void handleSave()}
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </ReactModal>
+  );
+}
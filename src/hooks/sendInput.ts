@@ -2,6 +2,7 @@ import { ConvexReactClient, useConvex } from 'convex/react';
 import { InputArgs, InputReturnValue, Inputs } from '../../convex/aiTown/inputs';
 import { api } from '../../convex/_generated/api';
 import { Id } from '../../convex/_generated/dataModel';
+import { useSessionId } from './useSession';
 
 type WaitForInputOptions = {
   timeoutMs?: number;
@@ -72,8 +73,14 @@ export function useSendInput<Name extends keyof Inputs>(
   name: Name,
 ): (args: InputArgs<Name>) => Promise<InputReturnValue<Name>> {
   const convex = useConvex();
+  const sessionId = useSessionId();
   return async (args) => {
-    const inputId = await convex.mutation(api.world.sendWorldInput, { engineId, name, args });
+    const inputId = await convex.mutation(api.world.sendWorldInput, {
+      engineId,
+      name,
+      args,
+      sessionId,
+    });
     return await waitForInput(convex, inputId);
   };
 }
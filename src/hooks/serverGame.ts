@@ -4,10 +4,16 @@ import { PlayerDescription } from '../../convex/aiTown/playerDescription.ts';
 import { World } from '../../convex/aiTown/world.ts';
 import { WorldMap } from '../../convex/aiTown/worldMap.ts';
 import { Id } from '../../convex/_generated/dataModel';
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useQuery } from 'convex/react';
+import { FunctionReturnType } from 'convex/server';
 import { api } from '../../convex/_generated/api';
 import { parseMap } from '../../convex/util/object.ts';
+import { useSessionAction } from './useSession';
+import { showError } from '../toasts';
+
+// How long the replay slider has to stay put before we replay to where it is.
+const REPLAY_DELAY = 300;
 
 export type ServerGame = {
   world: World;
@@ -42,3 +48,52 @@ export function useServerGame(worldId: Id<'worlds'> | undefined): ServerGame | u
   }, [worldState, descriptions]);
   return game;
 }
+
+// Rebuild the game as it was at `until` by replaying from a snapshot. Replaying runs as an
+// action, so wait for the slider to settle before starting one, and drop results that arrive
+// after we've moved on.
+export function useReplayGame(
+  replay: { snapshotId: Id<'worldSnapshots'>; until: number } | undefined,
+): ServerGame | undefined {
+  const replayWorld = useSessionAction(api.aiTown.replay.replayWorld);
+  const [replayState, setReplayState] =
+    useState<FunctionReturnType<typeof api.aiTown.replay.replayWorld>>(null);
+  const snapshotId = replay?.snapshotId;
+  const until = replay?.until;
+  useEffect(() => {
+    if (!snapshotId || until === undefined) {
+      setReplayState(null);
+      return;
+    }
+    let current = true;
+    const timeout = setTimeout(() => {
+      void replayWorld({ snapshotId, until })
+        .then((state) => current && setReplayState(state))
+        .catch((error) => current && showError(error, 'Failed to replay the world.'));
+    }, REPLAY_DELAY);
+    return () => {
+      current = false;
+      clearTimeout(timeout);
+    };
+  }, [replayWorld, snapshotId, until]);
+  const game = useMemo(() => {
+    if (!replayState) {
+      return undefined;
+    }
+    return {
+      world: new World(replayState.world),
+      agentDescriptions: parseMap(
+        replayState.agentDescriptions,
+        AgentDescription,
+        (p) => p.agentId,
+      ),
+      playerDescriptions: parseMap(
+        replayState.playerDescriptions,
+        PlayerDescription,
+        (p) => p.playerId,
+      ),
+      worldMap: new WorldMap(replayState.worldMap),
+    };
+  }, [replayState]);
+  return game;
+}
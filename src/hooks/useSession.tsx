@@ -0,0 +1,89 @@
+import { ReactNode, createContext, useCallback, useContext, useState } from 'react';
+import { useAction, useMutation, useQuery } from 'convex/react';
+import { FunctionReference, FunctionType } from 'convex/server';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+
+// Session token for local accounts (see `convex/auth.ts`). With an external auth
+// provider the identity comes from Convex's auth instead and this stays undefined.
+const SESSION_KEY = 'sessionId';
+
+const SessionContext = createContext<{
+  sessionId: string | undefined;
+  setSessionId: (sessionId: string | undefined) => void;
+}>({ sessionId: undefined, setSessionId: () => {} });
+
+export function SessionProvider({ children }: { children: ReactNode }) {
+  const [sessionId, setSessionIdState] = useState<string | undefined>(
+    () => localStorage.getItem(SESSION_KEY) ?? undefined,
+  );
+  const setSessionId = useCallback((sessionId: string | undefined) => {
+    if (sessionId) {
+      localStorage.setItem(SESSION_KEY, sessionId);
+    } else {
+      localStorage.removeItem(SESSION_KEY);
+    }
+    setSessionIdState(sessionId);
+  }, []);
+  return (
+    <SessionContext.Provider value={{ sessionId, setSessionId }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+export function useSessionId() {
+  return useContext(SessionContext).sessionId;
+}
+
+export function useSetSessionId() {
+  return useContext(SessionContext).setSessionId;
+}
+
+// Functions that take the caller's session, with their own args apart from it.
+type SessionArgs = { sessionId?: string };
+type SessionFunction<
+  Type extends FunctionType,
+  Args extends SessionArgs,
+  Return,
+> = FunctionReference<Type, 'public', Args, Return>;
+
+// `useQuery`, `useMutation` and `useAction` that pass along the caller's session.
+export function useSessionQuery<Args extends SessionArgs, Return>(
+  query: SessionFunction<'query', Args, Return>,
+  args: Omit<Args, 'sessionId'> | 'skip',
+): Return | undefined {
+  const sessionId = useSessionId();
+  // The caller's args have been checked against the function's, so only the session's left.
+  const withSession: SessionFunction<'query', SessionArgs, Return> = query;
+  return useQuery(withSession, args === 'skip' ? 'skip' : { ...args, sessionId });
+}
+
+export function useSessionMutation<Args extends SessionArgs, Return>(
+  mutation: SessionFunction<'mutation', Args, Return>,
+) {
+  const sessionId = useSessionId();
+  const withSession: SessionFunction<'mutation', SessionArgs, Return> = mutation;
+  const mutate = useMutation(withSession);
+  return useCallback(
+    (args: Omit<Args, 'sessionId'>): Promise<Return> => mutate({ ...args, sessionId }),
+    [mutate, sessionId],
+  );
+}
+
+export function useSessionAction<Args extends SessionArgs, Return>(
+  action: SessionFunction<'action', Args, Return>,
+) {
+  const sessionId = useSessionId();
+  const withSession: SessionFunction<'action', SessionArgs, Return> = action;
+  const run = useAction(withSession);
+  return useCallback(
+    (args: Omit<Args, 'sessionId'>): Promise<Return> => run({ ...args, sessionId }),
+    [run, sessionId],
+  );
+}
+
+// Who's logged in and which player they control in the world, or null if they're logged out.
+export function useUserStatus(worldId: Id<'worlds'> | undefined) {
+  return useSessionQuery(api.world.userStatus, worldId ? { worldId } : 'skip');
+}
@@ -0,0 +1,15 @@
+import { useQuery } from 'convex/react';
+import { useSearchParams } from 'react-router-dom';
+import { api } from '../../convex/_generated/api';
+
+// The world picked in the lobby, which lives in the URL as `?world=<id>`.
+export function useWorldParam() {
+  const [searchParams] = useSearchParams();
+  return searchParams.get('world') ?? undefined;
+}
+
+// Status of the world in the URL, falling back to the default world.
+export function useWorldStatus() {
+  const worldId = useWorldParam();
+  return useQuery(api.world.worldStatus, { worldId });
+}
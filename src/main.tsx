@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import Home from './App.tsx';
 import MapEditorPage from './pages/MapEditorPage.tsx';
+import AdminPage from './pages/AdminPage.tsx';
 import './index.css';
 import 'uplot/dist/uPlot.min.css';
 import 'react-toastify/dist/ReactToastify.css';
@@ -17,6 +18,8 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
           <Route path="/ai-town" element={<Home />} />
           <Route path="/map-editor" element={<MapEditorPage />} />
           <Route path="/ai-town/map-editor" element={<MapEditorPage />} />
+          <Route path="/admin" element={<AdminPage />} />
+          <Route path="/ai-town/admin" element={<AdminPage />} />
         </Routes>
       </BrowserRouter>
     </ConvexClientProvider>
@@ -0,0 +1,23 @@
+import { Link } from 'react-router-dom';
+import { ToastContainer } from 'react-toastify';
+import AdminDashboard from '../components/AdminDashboard.tsx';
+
+/**
+ * Admin dashboard for world health and engine metrics.
+ *
+ * Route: /admin
+ */
+export default function AdminPage() {
+  return (
+    <main className="min-h-screen p-6 flex flex-col gap-6 font-dialog text-white bg-[#181425]">
+      <div className="flex items-center justify-between">
+        <h1 className="text-4xl font-display game-title tracking-wider">Admin</h1>
+        <Link to=".." relative="path" className="text-[#a395b8] hover:text-white">
+          Back to the lobby
+        </Link>
+      </div>
+      <AdminDashboard />
+      <ToastContainer position="bottom-right" autoClose={2000} closeOnClick theme="dark" />
+    </main>
+  );
+}
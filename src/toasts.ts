@@ -1,3 +1,4 @@
+import { ConvexError } from 'convex/values';
 import { toast } from 'react-toastify';
 
 export async function toastOnError<T>(promise: Promise<T>): Promise<T> {
@@ -8,3 +9,13 @@ export async function toastOnError<T>(promise: Promise<T>): Promise<T> {
     throw error;
   }
 }
+
+// Show the message of an error thrown on purpose by a Convex function, or `fallback` if
+// there isn't any message at all.
+export function showError(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    toast.error(String(error.data));
+  } else {
+    toast.error((error instanceof Error && error.message) || fallback);
+  }
+}
@@ -1,7 +1,7 @@
 import Button from './Button';
 import { toast } from 'react-toastify';
 import interactImg from '../../../assets/interact.svg';
-import { useConvex, useMutation, useQuery } from 'convex/react';
+import { useConvex } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 // import { SignInButton } from '@clerk/clerk-react';
 import { ConvexError } from 'convex/values';
@@ -9,17 +9,19 @@ import { Id } from '../../../convex/_generated/dataModel';
 import { useCallback, useState } from 'react';
 import { waitForInput } from '../../hooks/sendInput';
 import { useServerGame } from '../../hooks/serverGame';
+import { useSessionMutation, useUserStatus } from '../../hooks/useSession';
+import { useWorldStatus } from '../../hooks/useWorldStatus';
 
 export default function InteractButton() {
   // const { isAuthenticated } = useConvexAuth();
-  const worldStatus = useQuery(api.world.defaultWorldStatus);
+  const worldStatus = useWorldStatus();
   const worldId = worldStatus?.worldId;
   const game = useServerGame(worldId);
-  const humanTokenIdentifier = useQuery(api.world.userStatus, worldId ? { worldId } : 'skip');
+  const humanTokenIdentifier = useUserStatus(worldId)?.tokenIdentifier ?? null;
   const userPlayerId =
     game && [...game.world.players.values()].find((p) => p.human === humanTokenIdentifier)?.id;
-  const join = useMutation(api.world.joinWorld);
-  const leave = useMutation(api.world.leaveWorld);
+  const join = useSessionMutation(api.world.joinWorld);
+  const leave = useSessionMutation(api.world.leaveWorld);
   const isPlaying = !!userPlayerId;
   const [isLeaving, setIsLeaving] = useState(false);
 
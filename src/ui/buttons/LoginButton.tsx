@@ -1,13 +1,66 @@
-import { SignInButton } from '@clerk/clerk-react';
+import { useState } from 'react';
+import { SignInButton, SignOutButton } from '@clerk/clerk-react';
+import { useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { clerkPublishableKey } from '../../components/ConvexClientProvider';
+import LoginDialog from '../../components/LoginDialog';
+import { useSessionId, useSessionQuery, useSetSessionId } from '../../hooks/useSession';
 
 export default function LoginButton() {
+  const user = useSessionQuery(api.auth.currentUser, {});
+  const sessionId = useSessionId();
+  const setSessionId = useSetSessionId();
+  const signOut = useMutation(api.auth.signOut);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  if (user === undefined) {
+    return null;
+  }
+  if (clerkPublishableKey) {
+    return user ? (
+      <SignOutButton>
+        <LoginButtonView>Log out {user.name}</LoginButtonView>
+      </SignOutButton>
+    ) : (
+      <SignInButton>
+        <LoginButtonView>Log in</LoginButtonView>
+      </SignInButton>
+    );
+  }
+  if (user) {
+    return (
+      <LoginButtonView
+        onClick={() => {
+          if (sessionId) {
+            void signOut({ sessionId });
+          }
+          setSessionId(undefined);
+        }}
+      >
+        Log out {user.name}
+      </LoginButtonView>
+    );
+  }
+  return (
+    <>
+      <LoginButtonView onClick={() => setDialogOpen(true)}>Log in</LoginButtonView>
+      <LoginDialog isOpen={dialogOpen} onClose={() => setDialogOpen(false)} />
+    </>
+  );
+}
+
+function LoginButtonView({
+  onClick,
+  children,
+}: {
+  onClick?: () => void;
+  children: React.ReactNode;
+}) {
   return (
-    <SignInButton>
-      <button className="button text-white shadow-solid">
-        <div className="inline-block bg-clay-700">
-          <span>Log in</span>
-        </div>
-      </button>
-    </SignInButton>
+    <button className="button text-white shadow-solid pointer-events-auto" onClick={onClick}>
+      <div className="inline-block bg-clay-700">
+        <span>{children}</span>
+      </div>
+    </button>
   );
 }